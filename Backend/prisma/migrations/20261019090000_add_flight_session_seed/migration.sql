@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "flight_sessions" ADD COLUMN     "seed" INTEGER NOT NULL DEFAULT 0;
+
+-- 기존 세션은 id 기반으로 시드 부여 후 기본값 제거
+UPDATE "flight_sessions" SET "seed" = "id";
+ALTER TABLE "flight_sessions" ALTER COLUMN "seed" DROP DEFAULT;
@@ -0,0 +1,69 @@
+-- CreateTable
+CREATE TABLE "scenarios" (
+    "id" SERIAL NOT NULL,
+    "slug" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "totalRounds" INTEGER NOT NULL,
+    "marsMinCorrect" INTEGER NOT NULL,
+    "invasionMinCorrect" INTEGER NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scenarios_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "scenario_rounds" (
+    "id" SERIAL NOT NULL,
+    "scenarioId" INTEGER NOT NULL,
+    "round" INTEGER NOT NULL,
+    "title" TEXT,
+    "startDate" TEXT NOT NULL,
+    "endDate" TEXT NOT NULL,
+    "trend" TEXT NOT NULL,
+
+    CONSTRAINT "scenario_rounds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scenarios_slug_key" ON "scenarios"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scenario_rounds_scenarioId_round_key" ON "scenario_rounds"("scenarioId", "round");
+
+-- 기존 6라운드 캠페인을 기본 시나리오(classic)로 등록
+INSERT INTO "scenarios" ("slug", "title", "description", "totalRounds", "marsMinCorrect", "invasionMinCorrect", "updatedAt")
+VALUES ('classic', '리먼에서 AI까지', '2008 금융위기부터 AI 열풍까지 6개의 역사적 구간을 항해하는 기본 캠페인', 6, 3, 6, CURRENT_TIMESTAMP);
+
+INSERT INTO "scenario_rounds" ("scenarioId", "round", "title", "startDate", "endDate", "trend")
+SELECT "id", r."round", r."title", r."startDate", r."endDate", r."trend"
+FROM "scenarios", (VALUES
+    (1, '리먼 브라더스 사태', '2008-01-01', '2008-08-31', 'bear'),
+    (2, '미중 무역전쟁 및 암호화폐 폭락', '2018-05-01', '2018-10-31', 'volatile'),
+    (3, '팬데믹 이후 불장', '2020-01-01', '2020-03-20', 'bull'),
+    (4, 'AI 열풍 및 규제 이슈', '2022-06-01', '2022-12-31', 'bull'),
+    (5, '금리 인상 및 거품 붕괴', '2021-05-01', '2021-12-31', 'bear'),
+    (6, '현재 안착 구간', '2025-06-01', '2025-12-31', 'volatile')
+) AS r("round", "title", "startDate", "endDate", "trend")
+WHERE "slug" = 'classic';
+
+-- AlterTable (기존 이벤트/세션은 classic 시나리오로 연결)
+ALTER TABLE "game_events" ADD COLUMN     "scenarioId" INTEGER;
+UPDATE "game_events" SET "scenarioId" = (SELECT "id" FROM "scenarios" WHERE "slug" = 'classic');
+ALTER TABLE "game_events" ALTER COLUMN "scenarioId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "flight_sessions" ADD COLUMN     "scenarioId" INTEGER;
+UPDATE "flight_sessions" SET "scenarioId" = (SELECT "id" FROM "scenarios" WHERE "slug" = 'classic');
+ALTER TABLE "flight_sessions" ALTER COLUMN "scenarioId" SET NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "scenario_rounds" ADD CONSTRAINT "scenario_rounds_scenarioId_fkey" FOREIGN KEY ("scenarioId") REFERENCES "scenarios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "game_events" ADD CONSTRAINT "game_events_scenarioId_fkey" FOREIGN KEY ("scenarioId") REFERENCES "scenarios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "flight_sessions" ADD CONSTRAINT "flight_sessions_scenarioId_fkey" FOREIGN KEY ("scenarioId") REFERENCES "scenarios"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
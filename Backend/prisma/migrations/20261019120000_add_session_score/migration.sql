@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "flight_sessions" ADD COLUMN     "completedAt" TIMESTAMP(3),
+ADD COLUMN     "score" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "flight_sessions_status_completedAt_idx" ON "flight_sessions"("status", "completedAt");
+
+-- 이미 종료된 세션은 calculateSessionScore와 같은 공식으로 점수 백필 (목표 거리 1000 기준)
+UPDATE "flight_sessions" AS fs
+SET "completedAt" = fs."updatedAt",
+    "score" = ROUND(
+      500.0 * LEAST(fs."correctAnswers", s."totalRounds") / s."totalRounds"
+      + 300.0 * LEAST(fs."distance", 1000.0) / 1000.0
+      + LEAST(GREATEST(fs."currentFuel", 0), 100)
+      + LEAST(GREATEST(fs."currentHull", 0), 100)
+    )
+FROM "scenarios" AS s
+WHERE s."id" = fs."scenarioId"
+  AND fs."status" IN ('COMPLETED', 'FAILED');
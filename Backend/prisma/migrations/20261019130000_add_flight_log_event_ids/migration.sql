@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "flight_logs" ADD COLUMN     "eventIds" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
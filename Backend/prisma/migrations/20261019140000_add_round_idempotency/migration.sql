@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "flight_sessions" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "flight_logs" ADD COLUMN     "idempotencyKey" TEXT,
+ADD COLUMN     "result" JSONB;
+
+-- 기존 라운드 로그는 (세션, 라운드) 키로 백필 (중복 제출된 로그는 가장 먼저 기록된 것만)
+UPDATE "flight_logs" AS fl
+SET "idempotencyKey" = 'round:' || fl."round"
+WHERE fl."isCorrectChoice" IS NOT NULL
+  AND fl."id" = (
+    SELECT MIN(dup."id") FROM "flight_logs" AS dup
+    WHERE dup."sessionId" = fl."sessionId"
+      AND dup."round" = fl."round"
+      AND dup."isCorrectChoice" IS NOT NULL
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "flight_logs_sessionId_idempotencyKey_key" ON "flight_logs"("sessionId", "idempotencyKey");
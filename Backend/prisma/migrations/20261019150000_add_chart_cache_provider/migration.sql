@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "chart_data_cache" ADD COLUMN     "provider" TEXT;
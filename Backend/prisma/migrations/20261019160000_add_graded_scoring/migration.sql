@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "flight_sessions" ADD COLUMN     "totalCredit" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "flight_logs" ADD COLUMN     "idealFuelInput" DOUBLE PRECISION,
+ADD COLUMN     "partialCredit" DOUBLE PRECISION;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "rockets" ADD COLUMN     "statsAsOf" TIMESTAMP(3),
+ADD COLUMN     "statsSource" TEXT;
@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "RaceStatus" AS ENUM ('LOBBY', 'IN_PROGRESS', 'FINISHED');
+
+-- CreateTable
+CREATE TABLE "races" (
+    "id" SERIAL NOT NULL,
+    "code" TEXT NOT NULL,
+    "hostId" INTEGER NOT NULL,
+    "scenarioId" INTEGER NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "seed" INTEGER NOT NULL,
+    "maxPlayers" INTEGER NOT NULL DEFAULT 8,
+    "status" "RaceStatus" NOT NULL DEFAULT 'LOBBY',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "races_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "race_participants" (
+    "id" SERIAL NOT NULL,
+    "raceId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "rocketId" INTEGER NOT NULL,
+    "sessionId" INTEGER,
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "race_participants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "races_code_key" ON "races"("code");
+
+-- CreateIndex
+CREATE INDEX "races_status_idx" ON "races"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "race_participants_sessionId_key" ON "race_participants"("sessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "race_participants_raceId_userId_key" ON "race_participants"("raceId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "races" ADD CONSTRAINT "races_hostId_fkey" FOREIGN KEY ("hostId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "races" ADD CONSTRAINT "races_scenarioId_fkey" FOREIGN KEY ("scenarioId") REFERENCES "scenarios"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "race_participants" ADD CONSTRAINT "race_participants_raceId_fkey" FOREIGN KEY ("raceId") REFERENCES "races"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "race_participants" ADD CONSTRAINT "race_participants_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "race_participants" ADD CONSTRAINT "race_participants_rocketId_fkey" FOREIGN KEY ("rocketId") REFERENCES "rockets"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "race_participants" ADD CONSTRAINT "race_participants_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "flight_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
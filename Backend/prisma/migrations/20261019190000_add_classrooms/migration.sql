@@ -0,0 +1,44 @@
+-- AlterEnum
+ALTER TYPE "Role" ADD VALUE 'TEACHER';
+
+-- CreateTable
+CREATE TABLE "classrooms" (
+    "id" SERIAL NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "teacherId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "classrooms_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "classroom_members" (
+    "id" SERIAL NOT NULL,
+    "classroomId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "classroom_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "classrooms_code_key" ON "classrooms"("code");
+
+-- CreateIndex
+CREATE INDEX "classrooms_teacherId_idx" ON "classrooms"("teacherId");
+
+-- CreateIndex
+CREATE INDEX "classroom_members_userId_idx" ON "classroom_members"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "classroom_members_classroomId_userId_key" ON "classroom_members"("classroomId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "classrooms" ADD CONSTRAINT "classrooms_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "classroom_members" ADD CONSTRAINT "classroom_members_classroomId_fkey" FOREIGN KEY ("classroomId") REFERENCES "classrooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "classroom_members" ADD CONSTRAINT "classroom_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
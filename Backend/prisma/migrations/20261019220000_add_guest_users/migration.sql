@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "guestTokenHash" TEXT,
+ADD COLUMN     "isGuest" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_guestTokenHash_key" ON "users"("guestTokenHash");
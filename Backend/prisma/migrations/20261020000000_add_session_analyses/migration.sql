@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "session_analyses" (
+    "id" SERIAL NOT NULL,
+    "sessionId" INTEGER NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptVersion" TEXT NOT NULL,
+    "isFallback" BOOLEAN NOT NULL DEFAULT false,
+    "result" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "session_analyses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "session_analyses_sessionId_key" ON "session_analyses"("sessionId");
+
+-- AddForeignKey
+ALTER TABLE "session_analyses" ADD CONSTRAINT "session_analyses_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "flight_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
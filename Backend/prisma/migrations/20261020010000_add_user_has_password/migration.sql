@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "hasPassword" BOOLEAN NOT NULL DEFAULT true;
+
+-- 게스트와 이메일 없이 소셜 로그인으로 가입한 계정은 임의 비밀번호만 있음
+-- (이메일이 있는 소셜 로그인 계정은 구분할 수 없으므로 비밀번호 재설정 메일로 설정)
+UPDATE "users" SET "hasPassword" = false
+WHERE "isGuest" = true OR "email" LIKE '%@oauth.dogecity.local';
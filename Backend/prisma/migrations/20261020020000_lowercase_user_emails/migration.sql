@@ -0,0 +1,9 @@
+-- 이메일을 소문자로 통일 (API는 입력 이메일을 소문자로 바꿔 저장/조회)
+-- 대소문자만 다른 계정이 이미 여러 개 있으면 건드리지 않음 (수동으로 정리)
+UPDATE "users" AS u
+SET "email" = LOWER(u."email")
+WHERE u."email" <> LOWER(u."email")
+  AND NOT EXISTS (
+    SELECT 1 FROM "users" AS other
+    WHERE other."id" <> u."id" AND LOWER(other."email") = LOWER(u."email")
+  );
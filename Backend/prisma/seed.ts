@@ -1,252 +1,183 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma } from '@prisma/client';
+import fs from 'fs';
+import path from 'path';
+import prisma from '../src/lib/prisma.js';
+import { config } from '../src/config/index.js';
+import { fetchFundamentals } from '../src/lib/fundamentals/index.js';
+import { createFundamentalsFixtureProvider } from '../src/lib/fundamentals/fixture.js';
+import { deriveRocketStats, ensureRocketEvents } from '../src/lib/rocketImport.js';
 
-const prisma = new PrismaClient();
+// 시나리오 팩 JSON 형식 (prisma/scenarios/*.json)
+interface ScenarioPackEvent {
+  isGlobal: boolean;
+  targetRocket: string | null; // Specific 이벤트 대상 로켓 이름 (NVDA, AAPL, KO)
+  newsTitle: string;
+  newsDetail: string;
+  newsLog: string;
+  thrustMod: number;
+  isTwist: boolean;
+  twistType: 'NONE' | 'POSITIVE' | 'NEGATIVE';
+  globalType: 'BEAR_TRAP' | 'BULL_RUN' | 'BUBBLE_BURST' | 'NEUTRAL' | null;
+  affectedStat: 'boost' | 'armor' | 'fuelEco' | null;
+  statMultiplier: number | null;
+}
 
-async function main() {
-  // 1. 로켓 데이터 초기화 (PER, ROE, PBR 매핑)
-  const nvda = await prisma.rocket.upsert({
-    where: { name: 'NVDA' },
-    update: {
-      description: 'NVIDIA - 초고속 AI 엔진. 압도적 가속력을 자랑하지만 기체가 다소 취약합니다.',
-      boost: 7.5,    // PER 10 이하: 별 5개
-      fuelEco: 10.0, // ROE 8~12: 별 2개
-      armor: 3.5,    // PBR 2.0 이상: 별 1개
-    },
-    create: {
-      name: 'NVDA',
-      description: 'NVIDIA - 초고속 AI 엔진. 압도적 가속력을 자랑하지만 기체가 다소 취약합니다.',
-      category: 'Growth',
-      boost: 7.5,
-      fuelEco: 10.0,
-      armor: 3.5,
-    },
-  });
+interface ScenarioPack {
+  slug: string;
+  title: string;
+  description?: string;
+  endings: {
+    marsMinCorrect: number;
+    invasionMinCorrect: number;
+  };
+  rounds: {
+    round: number;
+    title?: string;
+    startDate: string; // YYYY-MM-DD
+    endDate: string;   // YYYY-MM-DD
+    trend: 'bull' | 'bear' | 'volatile';
+    events: ScenarioPackEvent[];
+  }[];
+}
+
+/**
+ * 시나리오 팩 1개 적용
+ * - slug 기준 upsert, 라운드/이벤트는 매번 새로 교체 (재시딩해도 중복되지 않음)
+ */
+async function seedScenario(pack: ScenarioPack, rocketIds: Record<string, number>) {
+  const rounds = [...pack.rounds].sort((a, b) => a.round - b.round);
 
-  // 2. AAPL: 밸런스형 (High Fuel Eco)
-  const aapl = await prisma.rocket.upsert({
-    where: { name: 'AAPL' },
-    update: {
-      description: 'Apple - 우주 표준 엔진. 극강의 연료 효율로 장거리 항해에 최적화되어 있습니다.',
-      boost: 18.0,   // PER 15~20: 별 3개
-      fuelEco: 25.0, // ROE 20 이상: 별 5개
-      armor: 1.2,    // PBR 1.0~1.5: 별 3개
-    },
-    create: {
-      name: 'AAPL',
-      description: 'Apple - 우주 표준 엔진. 극강의 연료 효율로 장거리 항해에 최적화되어 있습니다.',
-      category: 'Blue-Chip',
-      boost: 18.0,
-      fuelEco: 25.0,
-      armor: 1.2,
-    },
+  rounds.forEach((round, index) => {
+    if (round.round !== index + 1) {
+      throw new Error(`[${pack.slug}] 라운드 번호는 1부터 연속이어야 합니다. (발견: ${round.round})`);
+    }
+    if (round.events.length === 0) {
+      throw new Error(`[${pack.slug}] 라운드 ${round.round}에 이벤트가 없습니다.`);
+    }
   });
 
-  // 3. KO: 방어형 (High Armor)
-  const ko = await prisma.rocket.upsert({
-    where: { name: 'KO' },
-    update: {
-      description: 'Coca-Cola - 합금 선체. 어떤 블랙홀 함정에서도 견뎌내는 강철 같은 내구도를 가졌습니다.',
-      boost: 30.0,   // PER 25 이상: 별 1개
-      fuelEco: 14.0, // ROE 12~15: 별 3개
-      armor: 0.5,    // PBR 0.7 이하: 별 5개
-    },
-    create: {
-      name: 'KO',
-      description: 'Coca-Cola - 합금 선체. 어떤 블랙홀 함정에서도 견뎌내는 강철 같은 내구도를 가졌습니다.',
-      category: 'Dividend',
-      boost: 30.0,
-      fuelEco: 14.0,
-      armor: 0.5,
-    },
+  if (pack.endings.invasionMinCorrect > rounds.length || pack.endings.marsMinCorrect > pack.endings.invasionMinCorrect) {
+    throw new Error(`[${pack.slug}] 엔딩 기준이 올바르지 않습니다.`);
+  }
+
+  const scenarioData = {
+    title: pack.title,
+    description: pack.description ?? null,
+    totalRounds: rounds.length,
+    marsMinCorrect: pack.endings.marsMinCorrect,
+    invasionMinCorrect: pack.endings.invasionMinCorrect,
+  };
+
+  const scenario = await prisma.scenario.upsert({
+    where: { slug: pack.slug },
+    update: scenarioData,
+    create: { slug: pack.slug, ...scenarioData },
   });
 
-  // 2. 6라운드 시나리오 데이터 (Global & Specific)
-  const events = [
-    // --- ROUND 1: Global (Bear Trap) ---
-    {
-      round: 1,
-      isGlobal: true,
-      newsTitle: "📡 [심우주 센서] '리먼' 블랙홀 이벤트 발생",
-      newsDetail: "🤖 [AI 네비게이터] 함대 파손 확률 90%. 에너지를 보존하고 충격에 대비하십시오.",
-      newsLog: "📜 [항해 기록] 2008년 블랙홀 통과 시 함선 파손율 45% 기록.",
-      targetRocketId: null,
-      thrustMod: 1.5,
-      isTwist: true,
-      twistType: 'POSITIVE',       // 악재→호재 반전
-      globalType: 'BEAR_TRAP',
-      affectedStat: 'armor',       // Armor(PBR) 높으면 슬링샷 가속
-      statMultiplier: 1.0,         // armor * 1.0 으로 추력 보너스
-    },
+  const events: Prisma.GameEventCreateManyInput[] = rounds.flatMap((round) =>
+    round.events.map(({ targetRocket, ...event }) => {
+      const targetRocketId = targetRocket ? rocketIds[targetRocket] : null;
+      if (targetRocket && targetRocketId === undefined) {
+        throw new Error(`[${pack.slug}] 알 수 없는 로켓: ${targetRocket}`);
+      }
+      return { ...event, scenarioId: scenario.id, round: round.round, targetRocketId };
+    })
+  );
 
-    // --- ROUND 2: Specific ---
-    {
-      round: 2,
-      isGlobal: false,
-      targetRocketId: nvda.id,
-      newsTitle: "📡 [심우주 센서] 이더리움 성단 진입 - 보조 추진력 증진",
-      newsDetail: "🤖 [AI 네비게이터] 가속 효율 95%. 지금이 최대 출력을 낼 적기입니다.",
-      newsLog: "📜 [항해 기록] 2021년 이더리움 성단 통과 시 기록적 가속 확인.",
-      thrustMod: 0.5,
-      isTwist: true,
-      twistType: 'NEGATIVE',       // 호재→악재 반전: 성단 붕괴
-      globalType: null,
-      affectedStat: 'boost',       // Boost 높을수록 급감속
-      statMultiplier: -0.3,        // boost * -0.3 페널티
-    },
-    {
-      round: 2,
-      isGlobal: false,
-      targetRocketId: aapl.id,
-      newsTitle: "📡 [심우주 센서] 제1 은하 '타이탄' 전자기 폭풍 발생",
-      newsDetail: "🤖 [AI 네비게이터] 시스템 마비 확률 80%. 모든 센서가 붉게 점멸 중입니다.",
-      newsLog: "📜 [항해 기록] 과거 폭풍 발생 시 로켓들의 60%가 마비 경험.",
-      thrustMod: 1.6,
-      isTwist: true,
-      twistType: 'POSITIVE',       // 악재→호재 반전: 노이즈 제거
-      globalType: null,
-      affectedStat: 'fuelEco',     // FuelEco로 급반등
-      statMultiplier: 0.5,         // fuelEco * 0.5 보너스
-    },
-    {
-      round: 2,
-      isGlobal: false,
-      targetRocketId: ko.id,
-      newsTitle: "📡 [심우주 센서] Coke-H2O 정화 비용 절감 성공",
-      newsDetail: "🤖 [AI 네비게이터] 운영 효율 15% 상승 예상. 에너지 소모가 줄어듭니다.",
-      newsLog: "📜 [항해 기록] 원자재가 하락기 수익 개선 데이터와 일치.",
-      thrustMod: 1.1,
-      isTwist: false,
-      twistType: 'NONE',
-      globalType: null,
-      affectedStat: 'fuelEco',     // 연료 소모 10% 감소
-      statMultiplier: 0.1,
-    },
+  await prisma.$transaction([
+    prisma.scenarioRound.deleteMany({ where: { scenarioId: scenario.id } }),
+    prisma.gameEvent.deleteMany({ where: { scenarioId: scenario.id } }),
+    prisma.scenarioRound.createMany({
+      data: rounds.map((round) => ({
+        scenarioId: scenario.id,
+        round: round.round,
+        title: round.title ?? null,
+        startDate: round.startDate,
+        endDate: round.endDate,
+        trend: round.trend,
+      })),
+    }),
+    prisma.gameEvent.createMany({ data: events }),
+  ]);
+}
 
-    // --- ROUND 3: Global (Bull Run) ---
-    {
-      round: 3,
-      isGlobal: true,
-      newsTitle: "📡 [심우주 센서] 전 항로 에너지 입자 농도 최적화",
-      newsDetail: "🤖 [AI 네비게이터] 모든 로켓에 우호적인 환경입니다. 전력 질주하십시오.",
-      newsLog: "📜 [항해 기록] 우량 로켓들의 안정적 상승 기록 확인.",
-      targetRocketId: null,
-      thrustMod: 2.0,
-      isTwist: false,
-      twistType: 'NONE',
-      globalType: 'BULL_RUN',
-      affectedStat: 'boost',       // Boost(PER) 비례 가속
-      statMultiplier: 1.0,         // boost * 1.0 추력 보너스
-    },
+// 기본 로켓 (스탯은 fixtures/fundamentals/{SYMBOL}.json에서 읽어 임포터와 같은 계산으로 채움)
+const SEED_ROCKETS = [
+  {
+    name: 'NVDA',
+    description: 'NVIDIA - 초고속 AI 엔진. 압도적 가속력을 자랑하지만 기체가 다소 취약합니다.',
+    category: 'Growth',
+  },
+  {
+    name: 'AAPL',
+    description: 'Apple - 우주 표준 엔진. 극강의 연료 효율로 장거리 항해에 최적화되어 있습니다.',
+    category: 'Blue-Chip',
+  },
+  {
+    name: 'KO',
+    description: 'Coca-Cola - 합금 선체. 어떤 블랙홀 함정에서도 견뎌내는 강철 같은 내구도를 가졌습니다.',
+    category: 'Dividend',
+  },
+];
 
-    // --- ROUND 4: Specific ---
-    {
-      round: 4,
-      isGlobal: false,
-      targetRocketId: nvda.id,
-      newsTitle: "📡 [심우주 센서] Generative-Drive 운용 전면 금지",
-      newsDetail: "🤖 [AI 네비게이터] 함선 정지 확률 85%. 거대 중력파가 덮칠 것입니다.",
-      newsLog: "📜 [항해 기록] 과거 금지 조치 시 엔진 정지 데이터 다수 확인.",
-      thrustMod: 1.8,
-      isTwist: true,
-      twistType: 'POSITIVE',       // 악재→호재 반전: 알고리즘 우회 가속
-      globalType: null,
-      affectedStat: 'boost',       // Boost 수치만큼 폭발적 가속
-      statMultiplier: 0.8,
-    },
-    {
-      round: 4,
-      isGlobal: false,
-      targetRocketId: aapl.id,
-      newsTitle: "📡 [심우주 센서] 연맹의 '궤도 독점' 혐의 조사 시작",
-      newsDetail: "🤖 [AI 네비게이터] 에너지 몰수 확률 80%. 출력 저하가 예상됩니다.",
-      newsLog: "📜 [항해 기록] 반독점 규제 당시의 출력 저하 데이터와 대조.",
-      thrustMod: 0.8,
-      isTwist: false,
-      twistType: 'NONE',
-      globalType: null,
-      affectedStat: 'fuelEco',     // 비상 에너지 20% 강제 소모
-      statMultiplier: -0.2,
-    },
-    {
-      round: 4,
-      isGlobal: false,
-      targetRocketId: ko.id,
-      newsTitle: "📡 [심우주 센서] 오젬픽 성단에서 재활용 연료 발견",
-      newsDetail: "🤖 [AI 네비게이터] 연료 의존도가 낮아집니다. 엔진 효율을 높일 기회입니다.",
-      newsLog: "📜 [항해 기록] 효율 증진 로켓들이 일시적으로 등장했던 기록.",
-      thrustMod: 0.7,
-      isTwist: true,
-      twistType: 'NEGATIVE',       // 호재→악재 반전: 구형 엔진 충돌
-      globalType: null,
-      affectedStat: 'fuelEco',     // 추력 효율 30% 감소
-      statMultiplier: -0.3,
-    },
+/**
+ * 기본 로켓 1개 적용 (펀더멘털 픽스처 → deriveRocketStats, 네트워크 제공자는 쓰지 않음)
+ */
+async function seedRocket(seed: (typeof SEED_ROCKETS)[number]) {
+  const fixture = createFundamentalsFixtureProvider(path.resolve(config.fundamentals.fixtureDir));
+  const { fundamentals, provider } = await fetchFundamentals(seed.name, [fixture]);
+  if (!fundamentals || !provider) {
+    throw new Error(`${seed.name}: fixtures/fundamentals/${seed.name}.json이 없습니다.`);
+  }
 
-    // --- ROUND 5: Global (Bubble Burst) ---
-    {
-      round: 5,
-      isGlobal: true,
-      newsTitle: "📡 [심우주 센서] 중력장 수축 시작: 시공간 밀도 증가",
-      newsDetail: "🤖 [AI 네비게이터] 밀도 증가로 Boost 성능이 저하됩니다. 기체가 무거워집니다.",
-      newsLog: "📜 [항해 기록] 과거 밀도 증가 시기 기체 평균 속도 급감 기록.",
-      targetRocketId: null,
-      thrustMod: 0.6,
-      isTwist: false,
-      twistType: 'NONE',
-      globalType: 'BUBBLE_BURST',
-      affectedStat: 'boost',       // Boost 높을수록 페널티
-      statMultiplier: -0.5,        // boost * -0.5 페널티
-    },
+  const derived = deriveRocketStats(fundamentals);
+  const data = {
+    description: seed.description,
+    boost: derived.boost,
+    armor: derived.armor,
+    fuelEco: derived.fuelEco,
+    statsAsOf: fundamentals.asOf,
+    statsSource: provider.name,
+  };
 
-    // --- ROUND 6: Specific ---
-    {
-      round: 6,
-      isGlobal: false,
-      targetRocketId: nvda.id,
-      newsTitle: "📡 [심우주 센서] 화성 안착용 AI 항법 장치 최종 인증",
-      newsDetail: "🤖 [AI 네비게이터] 정밀 착륙 확률 99%. 자동 항법이 활성화됩니다.",
-      newsLog: "📜 [항해 기록] 기술 완성기 데이터와 일치.",
-      thrustMod: 1.2,
-      isTwist: false,
-      twistType: 'NONE',
-      globalType: null,
-      affectedStat: 'boost',       // 최종 구간 자동 조준
-      statMultiplier: 0.2,
-    },
-    {
-      round: 6,
-      isGlobal: false,
-      targetRocketId: aapl.id,
-      newsTitle: "📡 [심우주 센서] 화성 도착 기념 'Anniversary' 실드 배포",
-      newsDetail: "🤖 [AI 네비게이터] 마지막 난기류 95% 방어 가능. 무적 상태 진입.",
-      newsLog: "📜 [항해 기록] 충성 고객 결집 시기 데이터와 일치.",
-      thrustMod: 1.1,
-      isTwist: false,
-      twistType: 'NONE',
-      globalType: null,
-      affectedStat: 'armor',       // 마지막 난기류 무적 실드
-      statMultiplier: 0.5,
-    },
-    {
-      round: 6,
-      isGlobal: false,
-      targetRocketId: ko.id,
-      newsTitle: "📡 [심우주 센서] 백 년 역사의 안전 비행 인증 갱신",
-      newsDetail: "🤖 [AI 네비게이터] 착륙 성공률 99% 유지. 가장 안전한 안착이 예상됩니다.",
-      newsLog: "📜 [항해 기록] 이전 100년간의 최종 도착 데이터와 일치.",
-      thrustMod: 1.0,
-      isTwist: false,
-      twistType: 'NONE',
-      globalType: null,
-      affectedStat: 'armor',       // 착륙 시 선체 손상 0
-      statMultiplier: 1.0,
-    },
-  ];
+  const rocket = await prisma.rocket.upsert({
+    where: { name: seed.name },
+    update: data,
+    create: { name: seed.name, category: seed.category, ...data },
+  });
+  console.log(
+    `🚀 기본 로켓: ${rocket.name} PER ${derived.boost} ${derived.ratings.boost} · ` +
+      `PBR ${derived.armor} ${derived.ratings.armor} · ROE ${derived.fuelEco}% ${derived.ratings.fuelEco}`
+  );
+  return rocket;
+}
+
+async function main() {
+  // 1~3. 기본 로켓 (PER, ROE, PBR 매핑은 임포터와 동일)
+  const rocketIds: Record<string, number> = {};
+  for (const seed of SEED_ROCKETS) {
+    const rocket = await seedRocket(seed);
+    rocketIds[rocket.name] = rocket.id;
+  }
 
-  for (const event of events) {
-    await prisma.gameEvent.create({
-      data: event,
-    });
+  // 4. 시나리오 팩 로드 (prisma/scenarios/*.json)
+  const scenarioDir = path.join(__dirname, 'scenarios');
+  const packFiles = fs.readdirSync(scenarioDir).filter((file) => file.endsWith('.json')).sort();
+
+  for (const file of packFiles) {
+    const pack = JSON.parse(fs.readFileSync(path.join(scenarioDir, file), 'utf-8')) as ScenarioPack;
+    await seedScenario(pack, rocketIds);
+    console.log(`🗺️  시나리오 팩 적용: ${pack.slug} (${pack.rounds.length}라운드)`);
+  }
+
+  // 5. 임포트한 로켓은 시나리오 이벤트를 새로 만들면서 대체 이벤트가 지워졌으므로 다시 채움
+  const imported = await prisma.rocket.findMany({
+    where: { name: { notIn: Object.keys(rocketIds) } },
+    select: { id: true, name: true },
+  });
+  for (const rocket of imported) {
+    const created = await ensureRocketEvents(rocket.id);
+    console.log(`🛰️  임포트 로켓 대체 이벤트: ${rocket.name} (${created}개)`);
   }
 
   console.log('🚀 화성 항로 시나리오 데이터 시딩 완료!');
@@ -0,0 +1,45 @@
+import { importRocket, RocketImportError } from '../src/lib/rocketImport.js';
+import prisma from '../src/lib/prisma.js';
+
+/**
+ * 티커의 PER/PBR/ROE를 읽어 로켓으로 등록(또는 스탯 갱신)
+ * - 제공자 순서는 FUNDAMENTALS_PROVIDERS (기본값 fixture,yahoo)
+ * - 사용법: npm run rockets:import -- MSFT TSLA [--dry-run]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const symbols = args.filter((arg) => !arg.startsWith('--'));
+  if (symbols.length === 0) {
+    console.error('사용법: npm run rockets:import -- <SYMBOL...> [--dry-run]');
+    process.exit(1);
+  }
+
+  let failed = 0;
+  for (const symbol of symbols) {
+    try {
+      const { rocket, created, eventsCreated, fundamentals, provider, derived } = await importRocket(symbol, { dryRun });
+      const action = dryRun ? '🔍 미리보기' : created ? '🚀 생성' : '🔧 갱신';
+      console.log(
+        `${action} ${fundamentals.symbol} (${provider}, ${fundamentals.asOf.toISOString().slice(0, 10)} 기준) ` +
+          `PER ${derived.boost} ${derived.ratings.boost} · PBR ${derived.armor} ${derived.ratings.armor} · ` +
+          `ROE ${derived.fuelEco}% ${derived.ratings.fuelEco} → ${derived.category}` +
+          (rocket ? ` [id ${rocket.id}]` : '') +
+          (eventsCreated > 0 ? ` · 대체 이벤트 ${eventsCreated}개` : '')
+      );
+    } catch (error) {
+      failed += 1;
+      if (error instanceof RocketImportError) {
+        console.error(`❌ ${error.message}`);
+      } else {
+        console.error(`❌ ${symbol} 임포트 실패:`, error);
+      }
+    }
+  }
+
+  if (failed > 0) process.exitCode = 1;
+}
+
+main().finally(async () => {
+  await prisma.$disconnect();
+});
@@ -0,0 +1,28 @@
+import { startMockIssuer } from '../src/lib/oauth/mockIssuer.js';
+
+/**
+ * 로컬 Mock OIDC 발급자 실행 (소셜 로그인 개발/테스트용)
+ * - 사용법: npm run oauth:mock -- [포트] (기본값 4010)
+ * - 서버는 OAUTH_MOCK_ISSUER="http://localhost:4010"으로 실행하면 mock 제공자가 켜짐
+ */
+async function main() {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('Mock OIDC 발급자는 운영 환경(NODE_ENV=production)에서 실행할 수 없습니다.');
+  }
+  const port = parseInt(process.argv[2] || process.env.MOCK_OIDC_PORT || '4010', 10);
+  const mock = await startMockIssuer(port);
+
+  console.log(`🔑 Mock OIDC issuer: ${mock.issuer}`);
+  console.log(`   ID 토큰 직접 발급: curl -X POST ${mock.issuer}/id-token -H 'Content-Type: application/json' -d '{"sub":"pilot-1","aud":"doge-city-app","email":"pilot-1@mock.local","emailVerified":true}'`);
+
+  const shutdown = () => {
+    mock.close().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
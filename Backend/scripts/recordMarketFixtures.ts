@@ -0,0 +1,63 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../src/config/index.js';
+import {
+  ChartDataPoint,
+  fetchMarketData,
+  parseOhlcvCsv,
+  RoundPeriod,
+  toOhlcvCsv,
+} from '../src/lib/marketData/index.js';
+import { stooqProvider } from '../src/lib/marketData/stooq.js';
+import { yahooProvider } from '../src/lib/marketData/yahoo.js';
+
+/**
+ * 시나리오 팩의 모든 라운드 구간 시세를 내려받아 픽스처(CSV)로 저장
+ * - 한 번 기록해두면 MARKET_DATA_PROVIDERS="fixture"로 네트워크 없이 실행 가능
+ * - 사용법: npm run market:record -- NVDA AAPL KO
+ */
+async function main() {
+  const symbols = process.argv.slice(2).map((symbol) => symbol.toUpperCase());
+  if (symbols.length === 0) symbols.push('NVDA', 'AAPL', 'KO');
+
+  // 시나리오 팩에서 구간 수집 (중복 구간은 한 번만)
+  const scenarioDir = path.join(__dirname, '..', 'prisma', 'scenarios');
+  const periods = new Map<string, RoundPeriod>();
+  for (const file of fs.readdirSync(scenarioDir).filter((name) => name.endsWith('.json'))) {
+    const pack = JSON.parse(fs.readFileSync(path.join(scenarioDir, file), 'utf8')) as { rounds: RoundPeriod[] };
+    for (const { startDate, endDate } of pack.rounds) {
+      periods.set(`${startDate}_${endDate}`, { startDate, endDate });
+    }
+  }
+
+  const fixtureDir = path.resolve(config.marketData.fixtureDir);
+  fs.mkdirSync(fixtureDir, { recursive: true });
+
+  for (const symbol of symbols) {
+    const file = path.join(fixtureDir, `${symbol}.csv`);
+
+    // 기존 픽스처와 합쳐서 저장 (같은 날짜는 새 데이터로 덮어씀)
+    const byDay = new Map<number, ChartDataPoint>();
+    if (fs.existsSync(file)) {
+      for (const point of parseOhlcvCsv(fs.readFileSync(file, 'utf8'))) byDay.set(point.timestamp, point);
+    }
+
+    for (const period of periods.values()) {
+      const { data, provider } = await fetchMarketData(
+        { symbol, period, round: 0, seed: 0 },
+        [stooqProvider, yahooProvider]
+      );
+      console.log(`${symbol} ${period.startDate}~${period.endDate}: ${data.length} points (${provider?.name ?? 'none'})`);
+      for (const point of data) byDay.set(point.timestamp, point);
+    }
+
+    const merged = [...byDay.values()].sort((a, b) => a.timestamp - b.timestamp);
+    fs.writeFileSync(file, toOhlcvCsv(merged));
+    console.log(`✅ ${file} (${merged.length} points)`);
+  }
+}
+
+main().catch((e) => {
+  console.error('❌ Fixture recording failed:', e);
+  process.exit(1);
+});
@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../src/config/index.js';
+import { ChartDataPoint, findSymbolProfile, RoundPeriod, toOhlcvCsv, VolatilityClass } from '../src/lib/marketData/index.js';
+import { createSessionRng } from '../src/utils/random.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 변동성 등급별 하루 최대 변동률
+const DAILY_SWING: Record<VolatilityClass, number> = { low: 0.02, medium: 0.035, high: 0.06 };
+
+/**
+ * 구간 전체 평일 일봉을 시드 기반으로 생성 (같은 심볼/구간은 항상 같은 데이터)
+ */
+function generateSeries(symbol: string, period: RoundPeriod): ChartDataPoint[] {
+  const profile = findSymbolProfile(symbol);
+  const swing = DAILY_SWING[profile?.volatilityClass ?? 'medium'];
+  const random = createSessionRng(0, 'market-fixture', symbol, period.startDate, period.endDate);
+
+  const data: ChartDataPoint[] = [];
+  let price = profile?.basePrice ?? 100;
+  const end = new Date(period.endDate).getTime();
+  for (let time = new Date(period.startDate).getTime(); time <= end; time += DAY_MS) {
+    const day = new Date(time).getUTCDay();
+    if (day === 0 || day === 6) continue; // 주말 휴장
+
+    const open = price;
+    const close = Math.max(1, open * (1 + (random() - 0.5) * 2 * swing));
+    data.push({
+      timestamp: time,
+      open: Number(open.toFixed(2)),
+      high: Number((Math.max(open, close) * (1 + random() * swing * 0.5)).toFixed(2)),
+      low: Number((Math.min(open, close) * (1 - random() * swing * 0.5)).toFixed(2)),
+      close: Number(close.toFixed(2)),
+      volume: Math.floor(random() * 50_000_000) + 5_000_000,
+    });
+    price = close;
+  }
+  return data;
+}
+
+/**
+ * 오프라인 개발용 합성 시세 픽스처 생성 (네트워크 없이 시나리오 팩 전체 구간을 채움)
+ * - 실제 시세가 아니므로 배포 환경에서는 market:record로 기록한 픽스처를 사용할 것
+ * - 이미 있는 픽스처는 덮어쓰지 않음 (--force로 덮어쓰기)
+ * - 사용법: npm run market:seed -- NVDA AAPL KO
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const force = args.includes('--force');
+  const symbols = args.filter((arg) => !arg.startsWith('--')).map((symbol) => symbol.toUpperCase());
+  if (symbols.length === 0) symbols.push('NVDA', 'AAPL', 'KO');
+
+  // 시나리오 팩에서 구간 수집 (중복 구간은 한 번만)
+  const scenarioDir = path.join(__dirname, '..', 'prisma', 'scenarios');
+  const periods = new Map<string, RoundPeriod>();
+  for (const file of fs.readdirSync(scenarioDir).filter((name) => name.endsWith('.json'))) {
+    const pack = JSON.parse(fs.readFileSync(path.join(scenarioDir, file), 'utf8')) as { rounds: RoundPeriod[] };
+    for (const { startDate, endDate } of pack.rounds) {
+      periods.set(`${startDate}_${endDate}`, { startDate, endDate });
+    }
+  }
+
+  const fixtureDir = path.resolve(config.marketData.fixtureDir);
+  fs.mkdirSync(fixtureDir, { recursive: true });
+
+  for (const symbol of symbols) {
+    const file = path.join(fixtureDir, `${symbol}.csv`);
+    if (!force && fs.existsSync(file)) {
+      console.log(`⏭️  ${file} already exists (--force to overwrite)`);
+      continue;
+    }
+
+    // 겹치는 구간은 먼저 생성한 데이터를 유지
+    const byDay = new Map<number, ChartDataPoint>();
+    for (const period of periods.values()) {
+      for (const point of generateSeries(symbol, period)) {
+        if (!byDay.has(point.timestamp)) byDay.set(point.timestamp, point);
+      }
+    }
+
+    const merged = [...byDay.values()].sort((a, b) => a.timestamp - b.timestamp);
+    fs.writeFileSync(file, toOhlcvCsv(merged));
+    console.log(`✅ ${file} (${merged.length} synthetic points)`);
+  }
+}
+
+main().catch((e) => {
+  console.error('❌ Fixture seeding failed:', e);
+  process.exit(1);
+});
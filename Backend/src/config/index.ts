@@ -2,10 +2,92 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+// 쉼표로 구분된 환경 변수 목록
+function splitList(value: string | undefined) {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
 export const config = {
   port: parseInt(process.env.PORT || '3000', 10),
   host: process.env.HOST || '0.0.0.0',
   jwtSecret: process.env.JWT_SECRET || 'default-secret-change-me',
+  trustProxy: process.env.TRUST_PROXY === 'true', // 로드밸런서 뒤에서는 X-Forwarded-For로 클라이언트 IP 판단
+  
+  // 요청 제한 (고정 윈도우, 단일 서버 프로세스 메모리 기준)
+  rateLimit: {
+    enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+    global: { max: 600, windowSeconds: 60 },      // IP당 전체 API (교실은 여러 학생이 같은 IP를 씀)
+    auth: { max: 60, windowSeconds: 60 },         // IP당 로그인/가입/비밀번호 재설정 등
+    analysis: { max: 3, windowSeconds: 60 },      // 유저당 AI 분석 연속 요청
+    analysisDailyQuota: parseInt(process.env.ANALYSIS_DAILY_QUOTA || '20', 10), // 유저당 하루(UTC) AI 분석 횟수
+    loginLockout: {
+      freeAttempts: 5,             // 이 횟수까지는 잠금 없이 실패 허용
+      baseSeconds: 30,             // 첫 잠금 시간, 이후 실패마다 2배
+      maxSeconds: 60 * 60,         // 최대 잠금 시간
+      resetAfterMinutes: 60,       // 마지막 실패 후 이 시간이 지나면 실패 횟수 초기화
+    },
+  },
+  
+  // 인증 토큰 (액세스 토큰은 짧게, 로그인 유지는 리프레시 토큰으로)
+  auth: {
+    accessTokenTtl: process.env.ACCESS_TOKEN_TTL || '15m',
+    refreshTokenTtlDays: parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10),
+  },
+  
+  // 이메일 인증 / 비밀번호 재설정 코드
+  account: {
+    codeLength: 8,                 // 메일로 보내는 코드 길이
+    verifyCodeTtlMinutes: 60 * 24, // 이메일 인증 코드 만료
+    resetCodeTtlMinutes: 30,       // 비밀번호 재설정 코드 만료
+  },
+  
+  // 메일 발송 (console: 서버 로그, file: outboxDir에 저장, smtp: 실제 발송)
+  mail: {
+    transport: process.env.MAIL_TRANSPORT || 'console',
+    from: process.env.MAIL_FROM || 'Doge City in Mars <no-reply@dogecity.local>',
+    outboxDir: process.env.MAIL_OUTBOX_DIR || 'tmp/mail',
+    smtp: {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true', // 465 포트면 true
+      user: process.env.SMTP_USER || undefined,
+      pass: process.env.SMTP_PASS || undefined,
+    },
+  },
+  
+  // 소셜 로그인 (OIDC, 클라이언트 ID가 설정된 제공자만 사용)
+  oauth: {
+    google: {
+      issuer: 'https://accounts.google.com',
+      clientIds: splitList(process.env.GOOGLE_CLIENT_IDS),
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET || undefined,
+    },
+    apple: {
+      issuer: 'https://appleid.apple.com',
+      clientIds: splitList(process.env.APPLE_CLIENT_IDS),
+      clientSecret: process.env.APPLE_CLIENT_SECRET || undefined, // 미리 서명한 client secret JWT
+    },
+    kakao: {
+      issuer: 'https://kauth.kakao.com',
+      clientIds: splitList(process.env.KAKAO_CLIENT_IDS),
+      clientSecret: process.env.KAKAO_CLIENT_SECRET || undefined,
+    },
+    // 로컬 테스트용 발급자 (npm run oauth:mock)
+    mock: {
+      issuer: process.env.OAUTH_MOCK_ISSUER || '',
+      clientIds: splitList(process.env.OAUTH_MOCK_CLIENT_IDS || 'doge-city-app'),
+      clientSecret: undefined,
+    },
+  },
+  
+  // AI 성향 분석 (Gemini)
+  analysis: {
+    apiKey: process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY || '',
+    model: process.env.GEMINI_MODEL || 'gemini-2.5-flash',
+  },
   
   // 게임 설정
   game: {
@@ -13,6 +95,8 @@ export const config = {
     initialFuel: 100.0,            // 초기 연료
     initialHull: 100.0,            // 초기 선체 내구도
     maxFuelInput: 100.0,           // 최대 연료 투입량
+    defaultScenario: process.env.DEFAULT_SCENARIO || 'classic', // 시나리오 미지정 시 사용할 팩 (slug)
+    chartRevealRatio: 0.6,         // 라운드 진행 중 공개하는 차트 비율 (나머지는 라운드 종료 후 공개)
     
     // 중력파 안정도 임계값 (주가 변동률 기준)
     stabilityThreshold: 0.0,       // 0% 이상이면 안정, 미만이면 불안정
@@ -27,6 +111,31 @@ export const config = {
     hullDamageBase: 5.0,           // 기본 손상량
   },
   
+  // 시세 데이터 제공자 (앞에서부터 시도, 처음으로 데이터를 준 제공자를 사용)
+  marketData: {
+    providers: splitList(process.env.MARKET_DATA_PROVIDERS || 'fixture,stooq,yahoo,mock'),
+    fixtureDir: process.env.MARKET_DATA_FIXTURE_DIR || 'fixtures/market', // {SYMBOL}.csv 또는 {SYMBOL}.json
+  },
+  
+  // 로켓 스탯용 펀더멘털 제공자 (앞에서부터 시도)
+  fundamentals: {
+    providers: splitList(process.env.FUNDAMENTALS_PROVIDERS || 'fixture,yahoo'),
+    fixtureDir: process.env.FUNDAMENTALS_FIXTURE_DIR || 'fixtures/fundamentals', // {SYMBOL}.json
+  },
+  
+  // 멀티플레이 레이스
+  race: {
+    minPlayers: 2,                 // 출발에 필요한 최소 인원
+    maxPlayers: 8,                 // 로비 최대 인원
+    codeLength: 6,                 // 참가 코드 길이
+  },
+  
+  // 클래스 (워크숍 진행자 대시보드)
+  classroom: {
+    codeLength: 6,                 // 참가 코드 길이
+    dashboardPushDelayMs: 1000,    // 멤버 상태 변경을 모아서 대시보드를 다시 푸시하는 간격
+  },
+  
   // 티어 판정 기준
   tiers: {
     S: { minFuel: 70, minHull: 80, maxDistance: 1000 },
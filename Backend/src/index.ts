@@ -3,29 +3,47 @@ import cors from '@fastify/cors';
 import jwt from '@fastify/jwt';
 import swagger from '@fastify/swagger';
 import swaggerUi from '@fastify/swagger-ui';
+import websocket from '@fastify/websocket';
 
 import { config } from './config/index.js';
-import { authenticate } from './middleware/auth.js';
+import { authenticate, requireAdmin, requireTeacher } from './middleware/auth.js';
+import { rateLimitPlugin } from './middleware/rateLimit.js';
 import { authRoutes } from './routes/auth.js';
+import { oauthRoutes } from './routes/oauth.js';
 import { flightRoutes } from './routes/flight.js';
+import { telemetryRoutes } from './routes/telemetry.js';
 import { rocketRoutes } from './routes/rockets.js';
 import { chartRoutes } from './routes/charts.js';
 import { analysisRoutes } from './routes/analysis.js';
+import { scenarioRoutes } from './routes/scenarios.js';
+import { adminRoutes } from './routes/admin.js';
+import { leaderboardRoutes } from './routes/leaderboard.js';
+import { raceRoutes } from './routes/races.js';
+import { classroomRoutes } from './routes/classrooms.js';
 import prisma from './lib/prisma.js';
+import { assertOAuthConfig } from './lib/oauth/index.js';
+import { assertMailConfig } from './lib/mailer/index.js';
 
 // Fastify 인스턴스 생성
 const fastify = Fastify({
   logger: process.env.NODE_ENV === 'development' ? true : false,
+  trustProxy: config.trustProxy,
 });
 
-// authenticate 데코레이터 타입 선언
+// authenticate / requireAdmin / requireTeacher 데코레이터 타입 선언
 declare module 'fastify' {
   interface FastifyInstance {
     authenticate: typeof authenticate;
+    requireAdmin: typeof requireAdmin;
+    requireTeacher: typeof requireTeacher;
   }
 }
 
 async function buildApp() {
+  // 운영 환경에 테스트용 설정이 남아 있으면 시작하지 않음
+  assertOAuthConfig();
+  assertMailConfig();
+
   // CORS 설정
   await fastify.register(cors, {
     origin: true, // 개발 환경에서는 모든 origin 허용
@@ -36,12 +54,20 @@ async function buildApp() {
   await fastify.register(jwt, {
     secret: config.jwtSecret,
     sign: {
-      expiresIn: '7d', // 7일 만료
+      expiresIn: config.auth.accessTokenTtl, // 짧은 액세스 토큰 (만료 시 /api/auth/refresh)
     },
   });
 
-  // authenticate 데코레이터 등록
+  // authenticate / requireAdmin / requireTeacher 데코레이터 등록
   fastify.decorate('authenticate', authenticate);
+  fastify.decorate('requireAdmin', requireAdmin);
+  fastify.decorate('requireTeacher', requireTeacher);
+
+  // 요청 제한 (IP당 전체 제한 + rateLimit / analysisQuota 데코레이터)
+  await fastify.register(rateLimitPlugin);
+
+  // WebSocket (레이스/계기판/클래스 실시간 채널)
+  await fastify.register(websocket);
 
   // Swagger 문서화
   await fastify.register(swagger, {
@@ -96,8 +122,13 @@ async function buildApp() {
         auth: '/api/auth',
         flight: '/api/flight',
         rockets: '/api/rockets',
+        scenarios: '/api/scenarios',
         charts: '/api/charts',
         analysis: '/api/analysis',
+        leaderboard: '/api/leaderboard',
+        races: '/api/races',
+        classrooms: '/api/classrooms',
+        admin: '/api/admin',
       },
       docs: '/docs',
     };
@@ -122,10 +153,17 @@ async function buildApp() {
 
   // 라우트 등록
   await fastify.register(authRoutes, { prefix: '/api/auth' });
+  await fastify.register(oauthRoutes, { prefix: '/api/auth' });
   await fastify.register(flightRoutes, { prefix: '/api/flight' });
+  await fastify.register(telemetryRoutes, { prefix: '/api/flight' });
   await fastify.register(rocketRoutes, { prefix: '/api/rockets' });
+  await fastify.register(scenarioRoutes, { prefix: '/api/scenarios' });
   await fastify.register(chartRoutes, { prefix: '/api/charts' });
   await fastify.register(analysisRoutes, { prefix: '/api/analysis' });
+  await fastify.register(leaderboardRoutes, { prefix: '/api/leaderboard' });
+  await fastify.register(raceRoutes, { prefix: '/api/races' });
+  await fastify.register(classroomRoutes, { prefix: '/api/classrooms' });
+  await fastify.register(adminRoutes, { prefix: '/api/admin' });
 
   // 에러 핸들러
   fastify.setErrorHandler((error, request, reply) => {
@@ -184,7 +222,19 @@ async function start() {
     📋 Available Endpoints:
        POST /api/auth/register    - 회원가입
        POST /api/auth/login       - 로그인
+       POST /api/auth/guest       - 게스트로 시작
+       POST /api/auth/oauth/:provider - 소셜 로그인 (google, apple, kakao)
+       POST /api/auth/refresh     - 토큰 갱신
+       POST /api/auth/logout      - 로그아웃
+       POST /api/auth/logout-all  - 모든 기기 로그아웃
+       POST /api/auth/verify-email - 이메일 인증
+       POST /api/auth/password/forgot - 비밀번호 재설정 코드 요청
+       POST /api/auth/password/reset  - 비밀번호 재설정
        GET  /api/auth/me          - 내 정보 조회
+       PATCH /api/auth/me         - 프로필 수정
+       DELETE /api/auth/me        - 회원 탈퇴
+       GET  /api/auth/me/export   - 내 데이터 내보내기
+       POST /api/auth/password    - 비밀번호 변경
        
        GET  /api/flight/status    - 항해 상태 조회
        POST /api/flight/reset     - 게임 초기화
@@ -192,10 +242,29 @@ async function start() {
        POST /api/flight/start     - 항해 시작
        POST /api/flight/sync      - 실시간 동기화
        POST /api/flight/ending    - 착륙 판정
+       GET  /api/flight/replay/:sessionId - 항해 리플레이
+       WS   /api/flight/ws        - 항해 계기판 실시간 상태
        
        GET  /api/rockets          - 로켓 목록
        GET  /api/rockets/:id      - 로켓 상세
        
+       GET  /api/scenarios        - 시나리오 목록
+       
+       GET  /api/leaderboard      - 전체 랭킹
+       GET  /api/leaderboard/weekly - 주간 랭킹
+       
+       POST /api/races            - 레이스 로비 생성
+       POST /api/races/:code/join - 참가 코드로 입장
+       POST /api/races/:code/start - 레이스 출발 (호스트)
+       WS   /api/races/:code/ws   - 레이스 실시간 순위
+       
+       POST /api/classrooms/join  - 참가 코드로 클래스 입장
+       GET  /api/classrooms/:code/dashboard - 교사 대시보드
+       GET  /api/classrooms/:code/export - 대시보드 CSV
+       WS   /api/classrooms/:code/ws - 교사 대시보드 실시간 갱신
+       
+       *    /api/admin/*          - 관리자 (이벤트/로켓 편집)
+       
        GET  /api/charts           - 고정 항로 중력파 데이터 (DOGE)
        GET  /api/charts/live      - 실시간 중력파 데이터
     `);
@@ -0,0 +1,361 @@
+import { createHash } from 'crypto';
+import bcrypt from 'bcrypt';
+import { AccountTokenPurpose, Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import { config } from '../config/index.js';
+import { sendMail } from './mailer/index.js';
+import { revokeAllSessions } from './authTokens.js';
+import { generateJoinCode } from '../utils/random.js';
+
+/**
+ * 계정 요청 실패 (라우트에서 statusCode 그대로 응답)
+ */
+export class AccountError extends Error {
+  constructor(message: string, readonly statusCode: 400 | 403 | 404 | 409) {
+    super(message);
+    this.name = 'AccountError';
+  }
+}
+
+interface MailUser {
+  id: number;
+  email: string;
+  nickname: string;
+}
+
+// 클라이언트에 내려주는 유저 정보 (비밀번호/토큰 버전 제외)
+const profileSelect = {
+  id: true,
+  email: true,
+  nickname: true,
+  role: true,
+  introViewed: true,
+  emailVerifiedAt: true,
+  isGuest: true,
+  hasPassword: true,
+  createdAt: true,
+} satisfies Prisma.UserSelect;
+
+type ProfileRow = Prisma.UserGetPayload<{ select: typeof profileSelect }>;
+
+// 게스트는 이메일/비밀번호가 없으므로 관련 기능은 회원가입 후에 사용
+const GUEST_ACCOUNT_MESSAGE = '게스트 계정은 회원가입 후 이용할 수 있습니다.';
+
+function toProfile(user: ProfileRow) {
+  const { emailVerifiedAt, ...profile } = user;
+  return { ...profile, emailVerified: !!emailVerifiedAt };
+}
+
+/**
+ * 코드 해시 (유저 ID를 섞어 같은 코드라도 유저마다 다른 값)
+ */
+function hashCode(userId: number, code: string) {
+  return createHash('sha256').update(`${userId}:${code.trim().toUpperCase()}`).digest('hex');
+}
+
+/**
+ * 일회용 코드 발급: 같은 용도의 이전 코드는 사용 처리
+ */
+async function issueAccountCode(userId: number, purpose: AccountTokenPurpose, ttlMinutes: number) {
+  const code = generateJoinCode(config.account.codeLength);
+
+  await prisma.$transaction([
+    prisma.accountToken.updateMany({
+      where: { userId, purpose, usedAt: null },
+      data: { usedAt: new Date() },
+    }),
+    prisma.accountToken.create({
+      data: {
+        userId,
+        purpose,
+        tokenHash: hashCode(userId, code),
+        expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+      },
+    }),
+  ]);
+
+  return code;
+}
+
+/**
+ * 코드 사용: 유효하면 사용 처리 후 true
+ * - 동시에 같은 코드가 들어와도 한 번만 성공
+ */
+async function consumeAccountCode(userId: number, purpose: AccountTokenPurpose, code: string) {
+  const claimed = await prisma.accountToken.updateMany({
+    where: {
+      userId,
+      purpose,
+      tokenHash: hashCode(userId, code),
+      usedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    data: { usedAt: new Date() },
+  });
+  return claimed.count > 0;
+}
+
+/**
+ * 이메일 인증 코드 발송 (회원가입 직후, 재발송 요청 시)
+ */
+export async function sendVerificationEmail(user: MailUser) {
+  const code = await issueAccountCode(user.id, 'EMAIL_VERIFY', config.account.verifyCodeTtlMinutes);
+
+  await sendMail({
+    to: user.email,
+    subject: '[화성 갈끄니까] 이메일 인증 코드',
+    text: [
+      `${user.nickname}님, 화성 갈끄니까에 오신 것을 환영합니다!`,
+      '',
+      `이메일 인증 코드: ${code}`,
+      '',
+      `앱의 VERIFY 화면에 코드를 입력해주세요. 코드는 ${Math.round(config.account.verifyCodeTtlMinutes / 60)}시간 동안 유효합니다.`,
+    ].join('\n'),
+  });
+}
+
+/**
+ * 인증 메일 재발송 (이미 인증된 계정이면 409)
+ */
+export async function resendVerificationEmail(userId: number) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, nickname: true, emailVerifiedAt: true, isGuest: true },
+  });
+  if (!user) {
+    throw new AccountError('유저를 찾을 수 없습니다.', 404);
+  }
+  if (user.isGuest) {
+    throw new AccountError(GUEST_ACCOUNT_MESSAGE, 403);
+  }
+  if (user.emailVerifiedAt) {
+    throw new AccountError('이미 인증된 이메일입니다.', 409);
+  }
+  await sendVerificationEmail(user);
+}
+
+/**
+ * 이메일 인증 완료
+ */
+export async function verifyEmail(email: string, code: string) {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true, emailVerifiedAt: true },
+  });
+  if (!user || !(await consumeAccountCode(user.id, 'EMAIL_VERIFY', code))) {
+    throw new AccountError('인증 코드가 올바르지 않거나 만료되었습니다.', 400);
+  }
+
+  if (!user.emailVerifiedAt) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { emailVerifiedAt: new Date() },
+    });
+  }
+}
+
+/**
+ * 비밀번호 재설정 코드 발송
+ * - 가입 여부를 노출하지 않도록 없는 이메일이어도 조용히 성공
+ */
+export async function requestPasswordReset(email: string) {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true, email: true, nickname: true },
+  });
+  if (!user) return;
+
+  const code = await issueAccountCode(user.id, 'PASSWORD_RESET', config.account.resetCodeTtlMinutes);
+
+  await sendMail({
+    to: user.email,
+    subject: '[화성 갈끄니까] 비밀번호 재설정 코드',
+    text: [
+      `${user.nickname}님, 비밀번호 재설정 요청을 받았습니다.`,
+      '',
+      `재설정 코드: ${code}`,
+      '',
+      `코드는 ${config.account.resetCodeTtlMinutes}분 동안 유효합니다. 직접 요청하지 않았다면 이 메일을 무시하세요.`,
+    ].join('\n'),
+  });
+}
+
+/**
+ * 비밀번호 재설정 완료
+ * - 메일을 받았으니 이메일 인증도 함께 처리
+ * - 기존 로그인은 모든 기기에서 로그아웃
+ */
+export async function resetPassword(email: string, code: string, newPassword: string) {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true, emailVerifiedAt: true },
+  });
+  if (!user || !(await consumeAccountCode(user.id, 'PASSWORD_RESET', code))) {
+    throw new AccountError('재설정 코드가 올바르지 않거나 만료되었습니다.', 400);
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      password: await bcrypt.hash(newPassword, 10),
+      hasPassword: true,
+      emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
+    },
+  });
+  await revokeAllSessions(user.id);
+}
+
+/**
+ * 프로필 수정 (닉네임/이메일)
+ * - 이메일은 로그인/비밀번호 재설정에 쓰이므로 바꿀 때 현재 비밀번호 확인 (비밀번호가 없는 소셜 로그인 계정은 생략)
+ * - 이메일을 바꾸면 미인증 상태로 돌리고 새 주소로 인증 메일 발송
+ */
+export async function updateProfile(
+  userId: number,
+  changes: { nickname?: string; email?: string; currentPassword?: string }
+) {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { ...profileSelect, password: true } });
+  if (!user) {
+    throw new AccountError('유저를 찾을 수 없습니다.', 404);
+  }
+
+  const emailChanged = changes.email !== undefined && changes.email !== user.email;
+  if (emailChanged && user.isGuest) {
+    throw new AccountError(GUEST_ACCOUNT_MESSAGE, 403);
+  }
+  if (
+    emailChanged &&
+    user.hasPassword &&
+    !(changes.currentPassword && (await bcrypt.compare(changes.currentPassword, user.password)))
+  ) {
+    throw new AccountError('현재 비밀번호가 일치하지 않습니다.', 400);
+  }
+  if (emailChanged) {
+    const taken = await prisma.user.findUnique({ where: { email: changes.email }, select: { id: true } });
+    if (taken) {
+      throw new AccountError('이미 사용 중인 이메일입니다.', 409);
+    }
+  }
+
+  const updated = await prisma.user.update({
+    where: { id: userId },
+    data: {
+      nickname: changes.nickname,
+      ...(emailChanged && { email: changes.email, emailVerifiedAt: null }),
+    },
+    select: profileSelect,
+  });
+
+  if (emailChanged) {
+    // 인증 메일 실패는 변경 자체를 막지 않음 (앱에서 재발송 가능)
+    try {
+      await sendVerificationEmail(updated);
+    } catch (mailError) {
+      console.error('Verification mail error:', mailError);
+    }
+  }
+
+  return toProfile(updated);
+}
+
+/**
+ * 비밀번호 변경 (현재 비밀번호 확인)
+ * - 소셜 로그인으로 가입해 비밀번호가 없으면 확인 없이 처음 비밀번호를 설정
+ * - 다른 기기는 모두 로그아웃, 이 기기용 토큰은 라우트에서 새로 발급
+ */
+export async function changePassword(userId: number, currentPassword: string | undefined, newPassword: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, password: true, isGuest: true, hasPassword: true },
+  });
+  if (!user) {
+    throw new AccountError('유저를 찾을 수 없습니다.', 404);
+  }
+  if (user.isGuest) {
+    throw new AccountError(GUEST_ACCOUNT_MESSAGE, 403);
+  }
+  if (user.hasPassword && !(currentPassword && (await bcrypt.compare(currentPassword, user.password)))) {
+    throw new AccountError('현재 비밀번호가 일치하지 않습니다.', 400);
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { password: await bcrypt.hash(newPassword, 10), hasPassword: true },
+  });
+  await revokeAllSessions(userId);
+
+  // tokenVersion이 올라갔으므로 새로 읽어서 토큰 발급에 사용
+  return prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { id: true, email: true, tokenVersion: true },
+  });
+}
+
+/**
+ * 내 데이터 내보내기 (탈퇴 전 보관용)
+ * - 프로필, 항해 기록(로그 포함), 레이스/클래스 참가 기록
+ */
+export async function exportAccountData(userId: number) {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: profileSelect });
+  if (!user) {
+    throw new AccountError('유저를 찾을 수 없습니다.', 404);
+  }
+
+  const [sessions, races, classrooms, teaching] = await Promise.all([
+    prisma.flightSession.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        rocket: { select: { name: true, category: true } },
+        scenario: { select: { slug: true, title: true } },
+        logs: { orderBy: { timestamp: 'asc' } },
+        analysis: { select: { model: true, promptVersion: true, isFallback: true, result: true, createdAt: true } },
+      },
+    }),
+    prisma.raceParticipant.findMany({
+      where: { userId },
+      orderBy: { joinedAt: 'asc' },
+      include: { race: { select: { code: true, status: true, symbol: true, createdAt: true } } },
+    }),
+    prisma.classroomMember.findMany({
+      where: { userId },
+      orderBy: { joinedAt: 'asc' },
+      include: { classroom: { select: { code: true, name: true } } },
+    }),
+    prisma.classroom.findMany({
+      where: { teacherId: userId },
+      orderBy: { createdAt: 'asc' },
+      select: { code: true, name: true, createdAt: true },
+    }),
+  ]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    user: toProfile(user),
+    // 멱등성 키/응답 스냅샷은 서버 내부용이라 제외
+    flightSessions: sessions.map(({ logs, ...session }) => ({
+      ...session,
+      logs: logs.map(({ idempotencyKey: _key, result: _result, ...log }) => log),
+    })),
+    races: races.map(({ race, ...entry }) => ({ ...entry, race })),
+    classrooms: classrooms.map(({ classroom, joinedAt }) => ({ ...classroom, joinedAt })),
+    teaching,
+  };
+}
+
+/**
+ * 회원 탈퇴 (비밀번호 확인 후 삭제, 게스트/비밀번호를 정한 적 없는 소셜 로그인 계정은 확인 없이 삭제)
+ * - 항해 기록/로그, 레이스·클래스 참가, 토큰은 모두 onDelete: Cascade로 함께 삭제
+ * - 내가 연 레이스/클래스도 함께 삭제됨
+ */
+export async function deleteAccount(userId: number, password?: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true, password: true, hasPassword: true } });
+  if (!user) {
+    throw new AccountError('유저를 찾을 수 없습니다.', 404);
+  }
+  if (user.hasPassword && !(password && (await bcrypt.compare(password, user.password)))) {
+    throw new AccountError('비밀번호가 일치하지 않습니다.', 400);
+  }
+
+  await prisma.user.delete({ where: { id: userId } });
+}
@@ -0,0 +1,449 @@
+import { GameEvent, Prisma, SessionAnalysis } from '@prisma/client';
+import { GoogleGenAI } from '@google/genai';
+import prisma from './prisma.js';
+import { config } from '../config/index.js';
+
+/**
+ * 분석 요청 실패 (라우트에서 statusCode 그대로 응답)
+ */
+export class AnalysisError extends Error {
+  constructor(message: string, readonly statusCode: 400 | 404 | 409 | 500) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+}
+
+// 프롬프트나 결과 형식을 바꾸면 올릴 것 (저장된 분석은 버전이 다르면 다시 생성)
+export const ANALYSIS_PROMPT_VERSION = 'decision-v1';
+
+export type MarketPhase =
+  | 'systemic_crash'
+  | 'high_volatility'
+  | 'expansion'
+  | 'regulatory_fog'
+  | 'bubble_collapse'
+  | 'final_approach';
+
+export interface AnalysisRound {
+  round: number;
+  marketPhase: MarketPhase;
+  updates: string[];            // 라운드에 노출된 뉴스 3종 세트 본문
+  userChoice: 'up' | 'down';
+  correctAnswer: 'up' | 'down';
+}
+
+// 모델에 보내는 세션 요약 (서버 기록으로만 구성)
+export interface AnalysisInput {
+  rocket: string;
+  rocketType: 'growth' | 'bluechip' | 'defensive';
+  rounds: AnalysisRound[];
+  summary: {
+    accuracy: number;
+    fuelLeft: number;
+    hullIntegrity: number;
+  };
+}
+
+export interface AnalysisResult {
+  archetype: string;
+  oneLineSummary: string;
+  behaviorTraits: string[];
+  strengths: string[];
+  weaknesses: string[];
+  learningInsight: string;
+  grade: 'S' | 'A' | 'B' | 'C' | 'D' | 'F';
+}
+
+// 기본 캠페인(classic)의 라운드별 국면, 그 외 시나리오는 구간 추세로 판단
+const CLASSIC_SCENARIO = 'classic';
+const CLASSIC_MARKET_PHASES: Record<number, MarketPhase> = {
+  1: 'systemic_crash',
+  2: 'high_volatility',
+  3: 'expansion',
+  4: 'regulatory_fog',
+  5: 'bubble_collapse',
+  6: 'final_approach',
+};
+const TREND_MARKET_PHASES: Record<string, MarketPhase> = {
+  bull: 'expansion',
+  bear: 'systemic_crash',
+  volatile: 'high_volatility',
+};
+
+const ROCKET_TYPES: Record<string, AnalysisInput['rocketType']> = {
+  Growth: 'growth',
+  'Blue-Chip': 'bluechip',
+};
+
+let genai: GoogleGenAI | null = null;
+
+// API 키가 없으면 생성자가 예외를 던지므로 처음 분석할 때 만듦
+function getGenAI() {
+  if (!genai) {
+    genai = new GoogleGenAI({ apiKey: config.analysis.apiKey });
+  }
+  return genai;
+}
+
+// 성향 분석 시스템 프롬프트 (바꾸면 ANALYSIS_PROMPT_VERSION도 올릴 것)
+const DECISION_INSTRUCTIONS = `너는 우주 테마 의사결정 게임 안의 비행 분석 AI다.
+
+역할: 플레이어의 의사결정 성향을 분석한다.
+이것은 금융 분석이 아니며, 투자 조언이 아니다.
+
+게임 설정:
+- 각 라운드는 우주 환경(시장 국면)을 의미한다
+- 모호하거나 상충하는 업데이트가 포함된다
+- 플레이어의 레버 선택(up/down)이 기록된다
+- correctAnswer는 행동 패턴 분석을 위한 참고값일 뿐이다
+
+중요 규칙:
+- 실제 종목/기업/투자 용어를 언급하지 마라
+- 매수/매도/보유/투자 같은 조언을 금지한다
+- 시장 메커니즘 설명 금지
+- 플레이어의 심리, 리스크 성향, 불확실성 반응만 분석
+- 모든 정보는 게임 내 우주 데이터로 취급
+- 임무 종료 후 함장을 브리핑하는 함선 AI 톤으로 작성
+- 분석적이고 약간 냉정하며 통찰적으로 작성
+- 모든 출력 텍스트는 반드시 한국어로만 작성 (영어 금지)
+- 반드시 이 게임이 "주식 기반 시뮬레이션"임을 명시하되, 실제 종목/기업 이름은 언급하지 마라
+- oneLineSummary 문장에 "주식 기반"이라는 표현을 반드시 포함하라
+
+분석 포인트:
+- 상충 정보에 대한 반응
+- 모멘텀 추종 vs 안정성 선호
+- 붕괴/변동성/확장 구간에서의 행동
+- 낙관/비관 신호에 대한 영향
+- 선택 일관성
+
+출력 형식:
+- STRICT JSON만 출력
+- JSON 밖의 텍스트 금지
+- 키 추가 금지
+
+JSON 키 (정확히 이 순서/이 이름):
+{
+  "archetype": string,
+  "oneLineSummary": string,
+  "behaviorTraits": string[],
+  "strengths": string[],
+  "weaknesses": string[],
+  "learningInsight": string,
+  "grade": "S" | "A" | "B" | "C" | "D" | "F"
+}
+
+정답 여부는 성공 판단에 쓰지 말고, 성향 패턴 인식에만 사용해라.`;
+
+// 규칙을 어긴 응답을 고쳐 쓰게 하는 프롬프트
+const REWRITE_INSTRUCTIONS = `다음 JSON의 모든 문자열 값을 한국어로만 다시 작성하라.
+영어/외국어를 포함하지 마라. JSON 외 텍스트는 출력하지 마라.
+키/구조/배열 길이는 그대로 유지하라.
+oneLineSummary에는 반드시 "주식 기반"이라는 표현을 포함하라.`;
+
+const containsKorean = (value: string) => /[가-힣]/.test(value);
+
+/**
+ * 형식/언어 규칙을 어긴 응답인지 (필수 키 누락, 한국어 아님, "주식 기반" 누락)
+ */
+function needsRewrite(analysis: any) {
+  if (!analysis || typeof analysis !== 'object') return true;
+  const requiredKeys = [
+    'archetype',
+    'oneLineSummary',
+    'behaviorTraits',
+    'strengths',
+    'weaknesses',
+    'learningInsight',
+    'grade',
+  ];
+  for (const key of requiredKeys) {
+    if (!(key in analysis)) return true;
+  }
+  const stringsToCheck: string[] = [
+    analysis.archetype,
+    analysis.oneLineSummary,
+    analysis.learningInsight,
+  ];
+  const listFields = [analysis.behaviorTraits, analysis.strengths, analysis.weaknesses];
+  for (const list of listFields) {
+    if (Array.isArray(list)) {
+      for (const item of list) {
+        if (typeof item === 'string') stringsToCheck.push(item);
+      }
+    }
+  }
+  if (!analysis.oneLineSummary || !String(analysis.oneLineSummary).includes('주식 기반')) return true;
+  return stringsToCheck.some((text) => typeof text !== 'string' || !containsKorean(text));
+}
+
+/**
+ * 규칙 기반 분석 (모델 응답을 쓸 수 없을 때)
+ */
+function buildFallback(input: AnalysisInput): AnalysisResult {
+  const total = input.rounds.length;
+  const upCount = input.rounds.filter((r) => r.userChoice === 'up').length;
+  const downCount = total - upCount;
+  const upRate = total ? upCount / total : 0;
+  const switchCount = input.rounds.reduce((count, r, idx, arr) => {
+    if (idx === 0) return 0;
+    return count + (arr[idx - 1].userChoice !== r.userChoice ? 1 : 0);
+  }, 0);
+  const switchRate = total > 1 ? switchCount / (total - 1) : 0;
+  const riskPhases = new Set(['systemic_crash', 'high_volatility', 'bubble_collapse']);
+  const upInRisk = input.rounds.filter((r) => riskPhases.has(r.marketPhase) && r.userChoice === 'up').length;
+
+  let archetype = '균형 조종형';
+  if (upRate >= 0.7) archetype = '공세적 추진형';
+  else if (upRate <= 0.3) archetype = '방어적 안정형';
+
+  const behaviorTraits: string[] = [];
+  if (upRate >= 0.7) behaviorTraits.push('불확실 구간에서도 추진 결정을 선호한다');
+  if (upRate <= 0.3) behaviorTraits.push('위험 신호에 민감하게 반응하며 방어를 택한다');
+  behaviorTraits.push(switchRate >= 0.5 ? '상황 변화에 따라 결정을 자주 전환한다' : '선택 일관성이 높은 편이다');
+  if (upInRisk >= 2) behaviorTraits.push('위기 구간에서도 반등 가능성에 무게를 둔다');
+
+  const strengths: string[] = [];
+  const weaknesses: string[] = [];
+  if (upRate >= 0.7) {
+    strengths.push('기회 신호를 빠르게 포착하고 결단이 빠르다');
+    weaknesses.push('위기 구간의 리스크를 과소평가할 수 있다');
+  } else if (upRate <= 0.3) {
+    strengths.push('불확실성 속에서도 손실 관리에 집중한다');
+    weaknesses.push('확장 구간에서 기회를 놓칠 수 있다');
+  } else {
+    strengths.push('상황에 따라 판단을 조정하는 유연성이 있다');
+    weaknesses.push('결정 기준이 모호해질 때 주저할 수 있다');
+  }
+  strengths.push(switchRate < 0.5 ? '선택 기준이 비교적 일관되다' : '환경 변화에 기민하게 반응한다');
+  weaknesses.push(switchRate >= 0.5 ? '신호 혼재 시 방향성이 흔들릴 수 있다' : '변화에 대한 민감도가 낮을 수 있다');
+
+  return {
+    archetype,
+    oneLineSummary: `주식 기반 시뮬레이션에서 ${archetype} 성향이 드러났으며, 불확실성 속 선택 기준이 뚜렷하다.`,
+    behaviorTraits: behaviorTraits.slice(0, 4),
+    strengths: strengths.slice(0, 3),
+    weaknesses: weaknesses.slice(0, 3),
+    learningInsight: '상충 신호 구간에서는 한 박자 관측 후 조정하는 루틴을 두면 안정성이 높아진다.',
+    grade: 'B',
+  };
+}
+
+/**
+ * 뉴스 3종 세트 본문 (화면과 같이 머리표 제거)
+ */
+function newsContents(event: GameEvent) {
+  return [
+    event.newsTitle.replace('📡 [심우주 센서] ', ''),
+    event.newsDetail.replace('🤖 [AI 네비게이터] ', ''),
+    event.newsLog.replace('📜 [항해 기록] ', ''),
+  ];
+}
+
+/**
+ * 세션의 라운드 판정 로그로 분석 입력 구성 (클라이언트가 보낸 기록은 쓰지 않음)
+ */
+async function buildAnalysisInput(sessionId: number): Promise<AnalysisInput> {
+  const session = await prisma.flightSession.findUniqueOrThrow({
+    where: { id: sessionId },
+    include: {
+      logs: {
+        where: { isCorrectChoice: { not: null } }, // sync 로그 제외
+        orderBy: { round: 'asc' },
+      },
+      rocket: { select: { name: true, category: true } },
+      scenario: { select: { slug: true, totalRounds: true, rounds: { select: { round: true, trend: true } } } },
+    },
+  });
+
+  if (session.logs.length === 0) {
+    throw new AnalysisError('분석할 라운드 기록이 없습니다.', 409);
+  }
+
+  // 노출 이벤트 조회 (eventIds가 없는 이전 로그는 라운드/로켓 기준으로 복원, 리플레이와 같은 방식)
+  const rounds = session.logs.map(log => log.round);
+  const events = await prisma.gameEvent.findMany({
+    where: {
+      scenarioId: session.scenarioId,
+      round: { in: rounds },
+      OR: [
+        { isGlobal: true },
+        { targetRocketId: session.rocketId },
+        { id: { in: session.logs.flatMap(log => log.eventIds) } },
+      ],
+    },
+    orderBy: [{ isGlobal: 'desc' }, { id: 'asc' }],
+  });
+  const eventsById = new Map(events.map(event => [event.id, event]));
+  const trendByRound = new Map(session.scenario.rounds.map(period => [period.round, period.trend]));
+
+  const marketPhaseOf = (round: number): MarketPhase => {
+    if (session.scenario.slug === CLASSIC_SCENARIO && CLASSIC_MARKET_PHASES[round]) {
+      return CLASSIC_MARKET_PHASES[round];
+    }
+    return TREND_MARKET_PHASES[trendByRound.get(round) ?? ''] ?? 'expansion';
+  };
+
+  return {
+    rocket: session.symbol,
+    rocketType: ROCKET_TYPES[session.rocket.category] ?? 'defensive',
+    rounds: session.logs.map(log => {
+      const roundEvents = log.eventIds.length > 0
+        ? log.eventIds.flatMap(id => eventsById.get(id) ?? [])
+        : events.filter(event => event.round === log.round && (event.isGlobal || event.targetRocketId === session.rocketId));
+
+      return {
+        round: log.round,
+        marketPhase: marketPhaseOf(log.round),
+        updates: roundEvents.flatMap(newsContents),
+        userChoice: log.userChoseFuel ? 'up' : 'down',
+        correctAnswer: log.isPositiveEvent ? 'up' : 'down',
+      };
+    }),
+    summary: {
+      accuracy: Number((session.correctAnswers / session.scenario.totalRounds).toFixed(2)),
+      fuelLeft: session.currentFuel,
+      hullIntegrity: session.currentHull,
+    },
+  };
+}
+
+/**
+ * 모델 응답에서 JSON 객체 추출 (코드 블록/앞뒤 텍스트 제거, 실패하면 null)
+ */
+function extractJson(raw: string): unknown {
+  const cleaned = raw.replace(/```json/gi, '').replace(/```/g, '').trim();
+  const start = cleaned.indexOf('{');
+  const end = cleaned.lastIndexOf('}');
+  if (start === -1 || end === -1 || end <= start) return null;
+  try {
+    return JSON.parse(cleaned.slice(start, end + 1));
+  } catch (parseError) {
+    console.error('Analysis JSON parse error:', parseError);
+    return null;
+  }
+}
+
+/**
+ * Gemini로 분석 생성: 규칙을 어기면 한 번 고쳐 쓰게 하고, 그래도 어기면 규칙 기반 분석으로 대체
+ */
+async function generateAnalysis(input: AnalysisInput): Promise<{ result: AnalysisResult; isFallback: boolean }> {
+  const response = await getGenAI().models.generateContent({
+    model: config.analysis.model,
+    contents: JSON.stringify(input),
+    config: {
+      systemInstruction: DECISION_INSTRUCTIONS,
+    },
+  });
+
+  const raw = response.text?.trim() || '';
+  if (!raw) {
+    throw new AnalysisError('분석 결과를 생성하지 못했습니다.', 500);
+  }
+
+  let analysis = extractJson(raw);
+  if (analysis === null) {
+    throw new AnalysisError('분석 결과를 해석하지 못했습니다.', 500);
+  }
+
+  if (needsRewrite(analysis)) {
+    const rewriteResponse = await getGenAI().models.generateContent({
+      model: config.analysis.model,
+      contents: JSON.stringify(analysis),
+      config: {
+        systemInstruction: REWRITE_INSTRUCTIONS,
+      },
+    });
+    analysis = extractJson(rewriteResponse.text?.trim() || '') ?? analysis;
+  }
+
+  if (needsRewrite(analysis)) {
+    return { result: buildFallback(input), isFallback: true };
+  }
+  return { result: analysis as AnalysisResult, isFallback: false };
+}
+
+type StoredAnalysis = Pick<SessionAnalysis, 'model' | 'promptVersion' | 'isFallback' | 'result' | 'createdAt'>;
+
+function toAnalysisView(stored: StoredAnalysis, cached: boolean) {
+  return {
+    analysis: stored.result as unknown as AnalysisResult,
+    model: stored.model,
+    promptVersion: stored.promptVersion,
+    isFallback: stored.isFallback,
+    createdAt: stored.createdAt,
+    cached,
+  };
+}
+
+/**
+ * 저장된 분석 조회 (없거나 프롬프트 버전이 다르면 null)
+ * - 본인 세션만, 아직 진행 중인 세션은 409
+ */
+export async function findSessionAnalysis(sessionId: number, userId: number) {
+  const session = await prisma.flightSession.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, status: true, analysis: true },
+  });
+  if (!session || session.userId !== userId) {
+    throw new AnalysisError('항해 기록을 찾을 수 없습니다.', 404);
+  }
+  if (session.status === 'IN_PROGRESS') {
+    throw new AnalysisError('항해가 끝난 뒤에 분석할 수 있습니다.', 409);
+  }
+
+  const stored = session.analysis;
+  return stored && stored.promptVersion === ANALYSIS_PROMPT_VERSION ? toAnalysisView(stored, true) : null;
+}
+
+// 생성 중인 세션 분석 (단일 서버 프로세스 메모리 기준, 같은 세션의 동시 요청은 Gemini를 한 번만 호출)
+const pendingAnalyses = new Map<number, Promise<ReturnType<typeof toAnalysisView>>>();
+
+/**
+ * 세션 분석 생성 후 저장 (이전 프롬프트 버전으로 만든 분석만 교체)
+ * - 같은 세션을 동시에 요청하면 먼저 저장된 분석을 그대로 응답 (덮어쓰지 않음)
+ */
+export async function createSessionAnalysis(sessionId: number) {
+  if (!config.analysis.apiKey) {
+    throw new AnalysisError('GEMINI_API_KEY(또는 GOOGLE_API_KEY)가 설정되지 않았습니다.', 500);
+  }
+
+  const pending = pendingAnalyses.get(sessionId);
+  if (pending) return pending;
+
+  const created = generateAndStore(sessionId).finally(() => pendingAnalyses.delete(sessionId));
+  pendingAnalyses.set(sessionId, created);
+  return created;
+}
+
+/**
+ * Gemini로 분석을 만들고 저장 (현재 버전이 이미 저장돼 있으면 그 분석을 응답)
+ */
+async function generateAndStore(sessionId: number) {
+  const input = await buildAnalysisInput(sessionId);
+  const { result, isFallback } = await generateAnalysis(input);
+  const data = {
+    model: config.analysis.model,
+    promptVersion: ANALYSIS_PROMPT_VERSION,
+    isFallback,
+    result: result as unknown as Prisma.InputJsonObject,
+  };
+
+  // 이전 버전 분석만 교체 (그 사이 다른 요청이 현재 버전을 저장했으면 건드리지 않음)
+  const replaced = await prisma.sessionAnalysis.updateMany({
+    where: { sessionId, promptVersion: { not: ANALYSIS_PROMPT_VERSION } },
+    data: { ...data, createdAt: new Date() },
+  });
+  if (replaced.count > 0) {
+    return toAnalysisView(await prisma.sessionAnalysis.findUniqueOrThrow({ where: { sessionId } }), false);
+  }
+
+  try {
+    const stored = await prisma.sessionAnalysis.create({ data: { sessionId, ...data } });
+    return toAnalysisView(stored, false);
+  } catch (error) {
+    const isDuplicate = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+    if (!isDuplicate) throw error;
+    const stored = await prisma.sessionAnalysis.findUniqueOrThrow({ where: { sessionId } });
+    return toAnalysisView(stored, true);
+  }
+}
@@ -0,0 +1,158 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import prisma from './prisma.js';
+import { config } from '../config/index.js';
+import type { JWTPayload } from '../middleware/auth.js';
+
+/**
+ * 리프레시 토큰 요청 실패 (항상 401, 클라이언트는 다시 로그인)
+ */
+export class AuthTokenError extends Error {
+  readonly statusCode = 401;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthTokenError';
+  }
+}
+
+// 액세스 토큰 서명 (fastify.jwt)
+interface AccessTokenSigner {
+  sign(payload: JWTPayload): string;
+}
+
+interface TokenUser {
+  id: number;
+  email: string;
+  tokenVersion: number;
+}
+
+/**
+ * 리프레시 토큰 해시 (DB 조회 키)
+ */
+export function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function refreshExpiry() {
+  return new Date(Date.now() + config.auth.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+}
+
+function signAccessToken(jwt: AccessTokenSigner, user: TokenUser) {
+  return jwt.sign({ userId: user.id, email: user.email, tokenVersion: user.tokenVersion });
+}
+
+/**
+ * 로그인/회원가입 시 토큰 발급 (새 family 시작)
+ */
+export async function issueTokens(jwt: AccessTokenSigner, user: TokenUser, userAgent?: string) {
+  const refreshToken = randomBytes(48).toString('base64url');
+
+  await prisma.refreshToken.create({
+    data: {
+      userId: user.id,
+      tokenHash: hashToken(refreshToken),
+      familyId: randomUUID(),
+      expiresAt: refreshExpiry(),
+      userAgent: userAgent?.slice(0, 255),
+    },
+  });
+
+  return {
+    token: signAccessToken(jwt, user),
+    refreshToken,
+  };
+}
+
+/**
+ * 리프레시 토큰 교체: 기존 토큰을 폐기하고 같은 family로 새 토큰 발급
+ * - 이미 폐기된 토큰이 다시 쓰이면 탈취로 보고 family 전체 폐기
+ */
+export async function rotateRefreshToken(jwt: AccessTokenSigner, refreshToken: string, userAgent?: string) {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: { user: { select: { id: true, email: true, tokenVersion: true } } },
+  });
+
+  if (!stored) {
+    throw new AuthTokenError('유효하지 않은 로그인 정보입니다. 다시 로그인해주세요.');
+  }
+  if (stored.revokedAt) {
+    await revokeFamily(stored.familyId);
+    throw new AuthTokenError('이미 사용된 로그인 정보입니다. 보안을 위해 다시 로그인해주세요.');
+  }
+  if (stored.expiresAt <= new Date()) {
+    throw new AuthTokenError('로그인이 만료되었습니다. 다시 로그인해주세요.');
+  }
+
+  const nextToken = randomBytes(48).toString('base64url');
+
+  const rotated = await prisma.$transaction(async (tx) => {
+    // 동시에 같은 토큰으로 교체 요청이 오면 먼저 온 요청만 성공
+    const claimed = await tx.refreshToken.updateMany({
+      where: { id: stored.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (claimed.count === 0) return null;
+
+    const next = await tx.refreshToken.create({
+      data: {
+        userId: stored.userId,
+        tokenHash: hashToken(nextToken),
+        familyId: stored.familyId,
+        expiresAt: refreshExpiry(),
+        userAgent: userAgent?.slice(0, 255) ?? stored.userAgent,
+      },
+    });
+    await tx.refreshToken.update({
+      where: { id: stored.id },
+      data: { replacedById: next.id },
+    });
+    return next;
+  });
+
+  if (!rotated) {
+    await revokeFamily(stored.familyId);
+    throw new AuthTokenError('이미 사용된 로그인 정보입니다. 보안을 위해 다시 로그인해주세요.');
+  }
+
+  return {
+    token: signAccessToken(jwt, stored.user),
+    refreshToken: nextToken,
+  };
+}
+
+async function revokeFamily(familyId: string) {
+  await prisma.refreshToken.updateMany({
+    where: { familyId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/**
+ * 로그아웃 (이 기기): 토큰이 속한 family 폐기, 모르는 토큰이면 아무것도 하지 않음
+ */
+export async function revokeRefreshToken(refreshToken: string) {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    select: { familyId: true },
+  });
+  if (stored) {
+    await revokeFamily(stored.familyId);
+  }
+}
+
+/**
+ * 모든 기기 로그아웃: 리프레시 토큰 전체 폐기 + tokenVersion 증가로 발급된 액세스 토큰도 무효화
+ */
+export async function revokeAllSessions(userId: number) {
+  await prisma.$transaction([
+    prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { tokenVersion: { increment: 1 } },
+    }),
+  ]);
+}
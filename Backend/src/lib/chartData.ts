@@ -0,0 +1,154 @@
+import prisma from './prisma.js';
+import { config } from '../config/index.js';
+import { findScenarioRound } from './scenario.js';
+import { ChartDataPoint, MarketDataProviderName, fetchMarketData } from './marketData/index.js';
+import { calculateIndicators } from '../utils/indicators.js';
+
+/**
+ * 게임용 중력파 데이터로 변환
+ * - 라운드 구간 종가 기준 기술적 지표(SMA/EMA, RSI, MACD, 볼린저 밴드) 포함
+ */
+export function transformToGravityData(chartData: ChartDataPoint[]) {
+  const timestamps = chartData.map((d) => d.timestamp);
+  const values = chartData.map((d) => d.close);
+  
+  // 안정도 계산 (전일 대비 변화율 %)
+  const stability = chartData.map((d, i) => {
+    if (i === 0) return 0;
+    const prevClose = chartData[i - 1].close;
+    return ((d.close - prevClose) / prevClose) * 100;
+  });
+  
+  return { timestamps, values, stability, indicators: calculateIndicators(values) };
+}
+
+/**
+ * 라운드 차트 로드 (캐시 → 시세 제공자 체인 순, 체인은 config.marketData.providers)
+ * - 시나리오에 해당 라운드 구간이 없으면 null
+ */
+export async function loadRoundChart(params: {
+  symbol: string;
+  round: number;
+  seed: number;
+  scenarioId?: number;
+}) {
+  const { symbol, round, seed, scenarioId } = params;
+
+  const period = await findScenarioRound(round, scenarioId);
+  if (!period) return null;
+
+  // 같은 구간이면 시나리오가 달라도 캐시 공유
+  const cacheKey = `CHART_${symbol}_${period.startDate}_${period.endDate}`;
+  
+  // 1. 캐시 확인 (Prisma 이용)
+  const cached = await prisma.chartDataCache.findUnique({
+    where: { symbol: cacheKey },
+  });
+  
+  let chartData: ChartDataPoint[];
+  let provider: MarketDataProviderName | null;
+  
+  if (cached && new Date(cached.expiresAt) > new Date()) {
+    chartData = cached.data as unknown as ChartDataPoint[];
+    provider = (cached.provider as MarketDataProviderName | null) ?? null;
+  } else {
+    // 2. 캐시 없거나 만료 시 제공자 체인에서 새로 가져옴
+    const fetched = await fetchMarketData({ symbol, period, round, seed });
+    chartData = fetched.data;
+    provider = fetched.provider?.name ?? null;
+
+    if (fetched.provider?.cacheable) {
+      // 3. 캐시 저장 (데이터가 과거 기록이므로 24시간 동안 유효, Mock/픽스처는 저장하지 않음)
+      const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      await prisma.chartDataCache.upsert({
+        where: { symbol: cacheKey },
+        update: {
+          data: chartData as any,
+          provider,
+          fetchedAt: new Date(),
+          expiresAt,
+        },
+        create: {
+          symbol: cacheKey,
+          data: chartData as any,
+          provider,
+          expiresAt,
+        },
+      });
+    }
+
+    if (!fetched.provider) {
+      console.log(`No market data provider served ${symbol} for round ${round}`);
+    }
+  }
+
+  return {
+    period,
+    chartData,
+    gravityData: transformToGravityData(chartData),
+    provider,
+    isMock: provider === 'mock',
+  };
+}
+
+type RoundChart = NonNullable<Awaited<ReturnType<typeof loadRoundChart>>>;
+
+/**
+ * 라운드 차트의 결정 시점("now") 인덱스
+ * - 라운드 진행 중에는 이 인덱스까지만 공개하고 이후 구간은 /round/end 뒤에 공개
+ * - 공개 구간과 숨김 구간이 모두 최소 1개는 남도록 보정
+ */
+export function getNowIndex(length: number) {
+  if (length < 3) return Math.max(0, length - 1);
+  const index = Math.floor((length - 1) * config.game.chartRevealRatio);
+  return Math.min(length - 2, Math.max(1, index));
+}
+
+/**
+ * 앞에서부터 count개만 남긴 차트
+ * - 지표는 모두 과거 값으로만 계산되므로 잘라내도 미래 정보가 섞이지 않음
+ */
+export function sliceRoundChart(chart: RoundChart, count: number) {
+  const { gravityData } = chart;
+  const cut = <T>(series: T[]) => series.slice(0, count);
+  const { indicators } = gravityData;
+
+  return {
+    chartData: cut(chart.chartData),
+    gravityData: {
+      timestamps: cut(gravityData.timestamps),
+      values: cut(gravityData.values),
+      stability: cut(gravityData.stability),
+      indicators: {
+        periods: indicators.periods,
+        sma: cut(indicators.sma),
+        ema: cut(indicators.ema),
+        rsi: cut(indicators.rsi),
+        macd: {
+          macd: cut(indicators.macd.macd),
+          signal: cut(indicators.macd.signal),
+          histogram: cut(indicators.macd.histogram),
+        },
+        bollinger: {
+          upper: cut(indicators.bollinger.upper),
+          middle: cut(indicators.bollinger.middle),
+          lower: cut(indicators.bollinger.lower),
+        },
+      },
+    },
+  };
+}
+
+/**
+ * 라운드 종료 후 공개되는 결정 시점 이후 구간
+ */
+export function buildChartReveal(chart: RoundChart) {
+  const nowIndex = getNowIndex(chart.chartData.length);
+  return {
+    nowIndex,
+    totalPoints: chart.chartData.length,
+    timestamps: chart.gravityData.timestamps.slice(nowIndex + 1),
+    values: chart.gravityData.values.slice(nowIndex + 1),
+    chartData: chart.chartData.slice(nowIndex + 1),
+  };
+}
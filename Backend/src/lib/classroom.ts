@@ -0,0 +1,381 @@
+import { InvestingStyle, Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import { config } from '../config/index.js';
+import { hasSubscribers, publish } from './realtime.js';
+import { analyzeInvestingStyle, getInvestingStyleKorean } from '../utils/gameLogic.js';
+import { generateJoinCode } from '../utils/random.js';
+
+/**
+ * 클래스 요청 실패 (라우트에서 statusCode 그대로 응답)
+ */
+export class ClassroomError extends Error {
+  constructor(message: string, readonly statusCode: 400 | 403 | 404 | 409) {
+    super(message);
+    this.name = 'ClassroomError';
+  }
+}
+
+const classroomInclude = {
+  teacher: { select: { id: true, nickname: true } },
+  members: {
+    orderBy: { joinedAt: 'asc' },
+    include: { user: { select: { id: true, nickname: true } } },
+  },
+} satisfies Prisma.ClassroomInclude;
+
+type ClassroomWithMembers = Prisma.ClassroomGetPayload<{ include: typeof classroomInclude }>;
+
+/**
+ * 교사 대시보드 푸시 채널 이름
+ */
+export function classroomChannel(code: string) {
+  return `classroom:${code}`;
+}
+
+export async function findClassroom(code: string) {
+  return prisma.classroom.findUnique({
+    where: { code: code.trim().toUpperCase() },
+    include: classroomInclude,
+  });
+}
+
+async function getClassroomOrThrow(code: string) {
+  const classroom = await findClassroom(code);
+  if (!classroom) {
+    throw new ClassroomError('클래스를 찾을 수 없습니다.', 404);
+  }
+  return classroom;
+}
+
+function toClassroomSummary(classroom: ClassroomWithMembers) {
+  return {
+    id: classroom.id,
+    code: classroom.code,
+    name: classroom.name,
+    teacher: classroom.teacher,
+    memberCount: classroom.members.length,
+    createdAt: classroom.createdAt,
+  };
+}
+
+export type ClassroomSummary = ReturnType<typeof toClassroomSummary>;
+
+/**
+ * 클래스 생성 (교사 전용, 코드 충돌 시 몇 번 다시 시도)
+ */
+export async function createClassroom(teacherId: number, name: string) {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    try {
+      const classroom = await prisma.classroom.create({
+        data: {
+          code: generateJoinCode(config.classroom.codeLength),
+          name,
+          teacherId,
+        },
+        include: classroomInclude,
+      });
+      return toClassroomSummary(classroom);
+    } catch (error) {
+      const isCodeTaken = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+      if (!isCodeTaken) throw error;
+    }
+  }
+  throw new Error('Failed to allocate a unique classroom code');
+}
+
+/**
+ * 내가 운영하는 클래스 + 참가한 클래스
+ */
+export async function listClassrooms(userId: number) {
+  const [user, teaching, joined] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { role: true } }),
+    prisma.classroom.findMany({
+      where: { teacherId: userId },
+      orderBy: { createdAt: 'desc' },
+      include: classroomInclude,
+    }),
+    prisma.classroom.findMany({
+      where: { members: { some: { userId } } },
+      orderBy: { createdAt: 'desc' },
+      include: classroomInclude,
+    }),
+  ]);
+
+  return {
+    canTeach: user?.role === 'TEACHER' || user?.role === 'ADMIN',
+    teaching: teaching.map(toClassroomSummary),
+    joined: joined.map(toClassroomSummary),
+  };
+}
+
+/**
+ * 참가 코드로 클래스 입장 (이미 멤버면 그대로)
+ */
+export async function joinClassroom(code: string, userId: number) {
+  const classroom = await getClassroomOrThrow(code);
+  if (classroom.teacherId === userId) {
+    throw new ClassroomError('내가 운영하는 클래스에는 참가할 수 없습니다.', 400);
+  }
+
+  await prisma.classroomMember.upsert({
+    where: { classroomId_userId: { classroomId: classroom.id, userId } },
+    create: { classroomId: classroom.id, userId },
+    update: {},
+  });
+
+  scheduleDashboardPush(classroom.code);
+  return toClassroomSummary(await getClassroomOrThrow(classroom.code));
+}
+
+/**
+ * 클래스 나가기
+ */
+export async function leaveClassroom(code: string, userId: number) {
+  const classroom = await getClassroomOrThrow(code);
+  const removed = await prisma.classroomMember.deleteMany({
+    where: { classroomId: classroom.id, userId },
+  });
+  if (removed.count === 0) {
+    throw new ClassroomError('참가하지 않은 클래스입니다.', 404);
+  }
+
+  scheduleDashboardPush(classroom.code);
+}
+
+/**
+ * 대시보드 열람 권한 확인 (클래스 담당 교사 또는 관리자)
+ */
+export async function getTeacherClassroom(code: string, viewerId: number) {
+  const [classroom, viewer] = await Promise.all([
+    getClassroomOrThrow(code),
+    prisma.user.findUnique({ where: { id: viewerId }, select: { role: true } }),
+  ]);
+  if (classroom.teacherId !== viewerId && viewer?.role !== 'ADMIN') {
+    throw new ClassroomError('클래스 담당 교사만 볼 수 있습니다.', 403);
+  }
+  return classroom;
+}
+
+/**
+ * 교사 대시보드: 멤버별 가장 최근 세션의 진행 상황, 라운드별 선택/정답률, 투자 성향 분포
+ * - 종료 전 세션의 투자 성향은 지금까지의 누적 데이터로 추정 (investingStyleEstimated)
+ */
+export async function buildDashboard(classroom: ClassroomWithMembers) {
+  const memberIds = classroom.members.map((member) => member.userId);
+
+  const sessions = memberIds.length === 0
+    ? []
+    : await prisma.flightSession.findMany({
+        where: { userId: { in: memberIds } },
+        orderBy: { id: 'desc' },
+        distinct: ['userId'],
+        include: {
+          rocket: { select: { id: true, name: true } },
+          scenario: { select: { id: true, title: true, totalRounds: true } },
+          logs: {
+            where: { isCorrectChoice: { not: null } },
+            orderBy: { round: 'asc' },
+            select: { round: true, fuelInput: true, isCorrectChoice: true, partialCredit: true },
+          },
+        },
+      });
+  const sessionByUser = new Map(sessions.map((session) => [session.userId, session]));
+
+  const members = classroom.members.map((member) => {
+    const session = sessionByUser.get(member.userId);
+    const choices = (session?.logs ?? []).map((log) => ({
+      round: log.round,
+      fuelInput: log.fuelInput,
+      isCorrect: log.isCorrectChoice === true,
+      partialCredit: log.partialCredit,
+    }));
+    const investingStyle = session ? session.investingStyle ?? analyzeInvestingStyle(session) : null;
+
+    return {
+      userId: member.user.id,
+      nickname: member.user.nickname,
+      joinedAt: member.joinedAt,
+      session: session
+        ? {
+            id: session.id,
+            status: session.status,
+            symbol: session.symbol,
+            rocket: session.rocket,
+            scenario: session.scenario,
+            currentRound: session.currentRound,
+            roundPhase: session.roundPhase,
+            currentFuel: session.currentFuel,
+            currentHull: session.currentHull,
+            progress: (session.distance / config.game.targetDistance) * 100,
+            correctAnswers: session.correctAnswers,
+            totalCredit: Number(session.totalCredit.toFixed(2)),
+            accuracy: choices.length > 0 ? Number((session.correctAnswers / choices.length).toFixed(2)) : null,
+            tier: session.tier,
+            finalEnding: session.finalEnding,
+            score: session.score,
+            investingStyle,
+            investingStyleKorean: investingStyle ? getInvestingStyleKorean(investingStyle) : null,
+            investingStyleEstimated: session.investingStyle === null,
+            updatedAt: session.updatedAt,
+          }
+        : null,
+      choices,
+    };
+  });
+
+  // 라운드별 정답률 (시나리오가 섞여 있으면 가장 긴 시나리오 기준)
+  const totalRounds = Math.max(0, ...sessions.map((session) => session.scenario.totalRounds));
+  const rounds = Array.from({ length: totalRounds }, (_, index) => {
+    const round = index + 1;
+    const answers = members.flatMap((member) => member.choices.filter((choice) => choice.round === round));
+    const correct = answers.filter((choice) => choice.isCorrect).length;
+    const credits = answers.map((choice) => choice.partialCredit ?? 0);
+
+    return {
+      round,
+      answered: answers.length,
+      correct,
+      accuracy: answers.length > 0 ? Number((correct / answers.length).toFixed(2)) : null,
+      averageCredit: credits.length > 0
+        ? Number((credits.reduce((sum, credit) => sum + credit, 0) / credits.length).toFixed(2))
+        : null,
+      averageFuelInput: answers.length > 0
+        ? Number((answers.reduce((sum, choice) => sum + choice.fuelInput, 0) / answers.length).toFixed(1))
+        : null,
+    };
+  });
+
+  const investingStyles = Object.values(InvestingStyle).map((style) => ({
+    style,
+    label: getInvestingStyleKorean(style),
+    count: members.filter((member) => member.session?.investingStyle === style).length,
+  }));
+
+  return {
+    classroom: toClassroomSummary(classroom),
+    summary: {
+      memberCount: members.length,
+      flyingCount: members.filter((member) => member.session?.status === 'IN_PROGRESS').length,
+      finishedCount: members.filter((member) => member.session && member.session.status !== 'IN_PROGRESS').length,
+      notStartedCount: members.filter((member) => !member.session).length,
+    },
+    totalRounds,
+    members,
+    rounds,
+    investingStyles,
+    generatedAt: new Date(),
+  };
+}
+
+export type ClassroomDashboard = Awaited<ReturnType<typeof buildDashboard>>;
+
+// 엑셀이 수식으로 실행하는 시작 문자
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * CSV 셀 이스케이프 (쉼표/따옴표/줄바꿈이 있으면 따옴표로 감쌈)
+ * - 문자열(닉네임 등 학생 입력)이 수식 문자로 시작하면 ' 를 붙여 텍스트로 열리게 함 (숫자는 그대로)
+ */
+function csvCell(value: string | number | boolean | Date | null | undefined) {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 대시보드 CSV (멤버 1명당 1행, 라운드별 투입량/정답 여부는 열로 펼침)
+ * - 엑셀에서 한글이 깨지지 않도록 BOM 포함
+ */
+export function toDashboardCsv(dashboard: ClassroomDashboard) {
+  const roundNumbers = Array.from({ length: dashboard.totalRounds }, (_, index) => index + 1);
+  const header = [
+    'nickname',
+    'joinedAt',
+    'status',
+    'symbol',
+    'rocket',
+    'scenario',
+    'currentRound',
+    'roundPhase',
+    'correctAnswers',
+    'answeredRounds',
+    'accuracy',
+    'totalCredit',
+    'fuel',
+    'hull',
+    'progress',
+    'investingStyle',
+    'investingStyleEstimated',
+    'tier',
+    'finalEnding',
+    'score',
+    ...roundNumbers.flatMap((round) => [`r${round}_fuelInput`, `r${round}_correct`, `r${round}_credit`]),
+  ];
+
+  const rows = dashboard.members.map((member) => {
+    const session = member.session;
+    const byRound = new Map(member.choices.map((choice) => [choice.round, choice]));
+    return [
+      member.nickname,
+      member.joinedAt,
+      session?.status ?? 'NOT_STARTED',
+      session?.symbol,
+      session?.rocket.name,
+      session?.scenario.title,
+      session?.currentRound,
+      session?.roundPhase,
+      session?.correctAnswers,
+      member.choices.length,
+      session?.accuracy,
+      session?.totalCredit,
+      session ? Number(session.currentFuel.toFixed(1)) : null,
+      session ? Number(session.currentHull.toFixed(1)) : null,
+      session ? Number(session.progress.toFixed(1)) : null,
+      session?.investingStyle,
+      session?.investingStyleEstimated,
+      session?.tier,
+      session?.finalEnding,
+      session?.score,
+      ...roundNumbers.flatMap((round) => {
+        const choice = byRound.get(round);
+        return [choice?.fuelInput, choice?.isCorrect, choice?.partialCredit];
+      }),
+    ];
+  });
+
+  return '\uFEFF' + [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// 클래스별 대기 중인 대시보드 푸시 (짧은 시간의 변경을 한 번으로 모음)
+const pendingPushes = new Map<string, NodeJS.Timeout>();
+
+function scheduleDashboardPush(code: string) {
+  const channel = classroomChannel(code);
+  if (!hasSubscribers(channel) || pendingPushes.has(code)) return;
+
+  pendingPushes.set(code, setTimeout(() => {
+    pendingPushes.delete(code);
+    findClassroom(code)
+      .then(async (classroom) => {
+        if (!classroom) return;
+        publish(channel, 'dashboard', await buildDashboard(classroom));
+      })
+      .catch((error) => console.error('Classroom dashboard push error:', error));
+  }, config.classroom.dashboardPushDelayMs));
+}
+
+/**
+ * 멤버의 항해 상태가 바뀌었을 때 소속 클래스 대시보드 갱신 예약
+ */
+export async function publishClassroomActivity(userId: number) {
+  const memberships = await prisma.classroomMember.findMany({
+    where: { userId },
+    select: { classroom: { select: { code: true } } },
+  });
+  for (const membership of memberships) {
+    scheduleDashboardPush(membership.classroom.code);
+  }
+}
@@ -0,0 +1,125 @@
+import type { FlightSession, GameEvent } from '@prisma/client';
+import prisma from './prisma.js';
+import { config } from '../config/index.js';
+import { hasSubscribers, publish } from './realtime.js';
+import { publishClassroomActivity } from './classroom.js';
+
+// 상태 변경을 일으킨 요청 (클라이언트가 화면 전환 판단에 사용)
+export type TelemetryReason =
+  | 'start'
+  | 'sync'
+  | 'round:start'
+  | 'round:end'
+  | 'round:next'
+  | 'ending'
+  | 'reset';
+
+type TelemetrySession = Pick<
+  FlightSession,
+  | 'id'
+  | 'status'
+  | 'symbol'
+  | 'currentRound'
+  | 'roundPhase'
+  | 'currentFuel'
+  | 'currentHull'
+  | 'distance'
+  | 'correctAnswers'
+  | 'totalCredit'
+  | 'version'
+>;
+
+// 라운드 종료 시 공개된 반전 이벤트
+export interface RevealedTwist {
+  eventId: number;
+  isGlobal: boolean;
+  twistType: GameEvent['twistType'];
+  description: string;
+  isPositiveOutcome: boolean;
+  thrustMultiplier: number;
+}
+
+/**
+ * 항해 푸시 채널 이름 (유저 단위: 세션이 바뀌어도 같은 소켓으로 계속 수신)
+ */
+export function flightChannel(userId: number) {
+  return `flight:${userId}`;
+}
+
+/**
+ * 클라이언트 계기판용 세션 상태
+ */
+export function toTelemetry(session: TelemetrySession) {
+  return {
+    sessionId: session.id,
+    status: session.status,
+    symbol: session.symbol,
+    currentRound: session.currentRound,
+    roundPhase: session.roundPhase,
+    currentFuel: session.currentFuel,
+    currentHull: session.currentHull,
+    distance: session.distance,
+    progress: (session.distance / config.game.targetDistance) * 100,
+    correctAnswers: session.correctAnswers,
+    totalCredit: Number(session.totalCredit.toFixed(2)),
+    version: session.version,
+  };
+}
+
+export type FlightTelemetry = ReturnType<typeof toTelemetry>;
+
+/**
+ * 접속 직후 보낼 현재 상태 (진행 중인 세션, 없으면 null)
+ */
+export async function findTelemetrySnapshot(userId: number) {
+  const session = await prisma.flightSession.findFirst({
+    where: { userId, status: 'IN_PROGRESS' },
+  });
+  return session ? toTelemetry(session) : null;
+}
+
+/**
+ * 세션 상태 변경 푸시 (DB에 반영된 최신 상태를 다시 읽어 보냄)
+ * - sessionId가 null이면 세션이 사라진 것 (초기화)
+ * - 구독자가 없으면 조회하지 않음
+ * - 소속 클래스가 있으면 교사 대시보드 갱신도 예약
+ */
+export async function publishFlightState(userId: number, sessionId: number | null, reason: TelemetryReason) {
+  await publishClassroomActivity(userId);
+
+  const channel = flightChannel(userId);
+  if (!hasSubscribers(channel)) return;
+
+  const session = sessionId === null
+    ? null
+    : await prisma.flightSession.findUnique({ where: { id: sessionId } });
+
+  publish(channel, 'state', {
+    reason,
+    telemetry: session ? toTelemetry(session) : null,
+  });
+}
+
+/**
+ * 라운드 결과에서 공개된 반전 이벤트 푸시 (반전이 없으면 보내지 않음)
+ */
+export function publishTwists(userId: number, sessionId: number, round: number, twists: RevealedTwist[]) {
+  if (twists.length === 0) return;
+  publish(flightChannel(userId), 'twist', { sessionId, round, twists });
+}
+
+/**
+ * 항해 종료 푸시 (연료/선체 고갈, 마지막 라운드 완료, 착륙 판정)
+ */
+export function publishGameOver(
+  userId: number,
+  data: {
+    sessionId: number;
+    status: FlightSession['status'];
+    reason: string;
+    finalEnding: FlightSession['finalEnding'];
+    score: FlightSession['score'];
+  }
+) {
+  publish(flightChannel(userId), 'gameOver', data);
+}
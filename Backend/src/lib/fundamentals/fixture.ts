@@ -0,0 +1,42 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { FundamentalsProvider } from './types.js';
+
+// 픽스처 파일 형식 ({dir}/{SYMBOL}.json)
+interface FundamentalsFixture {
+  name?: string;
+  per: number;
+  pbr: number;
+  roe: number;   // %
+  asOf: string;  // YYYY-MM-DD
+}
+
+/**
+ * 오프라인 픽스처 제공자: {dir}/{SYMBOL}.json
+ * - 파일이 없으면 null
+ */
+export function createFundamentalsFixtureProvider(dir: string): FundamentalsProvider {
+  return {
+    name: 'fixture',
+
+    async getFundamentals(symbol) {
+      const file = path.join(dir, `${symbol.toUpperCase()}.json`);
+      try {
+        const fixture = JSON.parse(await fs.readFile(file, 'utf8')) as FundamentalsFixture;
+        return {
+          symbol: symbol.toUpperCase(),
+          name: fixture.name ?? null,
+          per: fixture.per,
+          pbr: fixture.pbr,
+          roe: fixture.roe,
+          asOf: new Date(fixture.asOf),
+        };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.error(`Fundamentals fixture read error for ${symbol}:`, error);
+        }
+        return null;
+      }
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import path from 'path';
+import { config } from '../../config/index.js';
+import { Fundamentals, FundamentalsProvider, FundamentalsProviderName } from './types.js';
+import { createFundamentalsFixtureProvider } from './fixture.js';
+import { yahooFundamentalsProvider } from './yahoo.js';
+
+export * from './types.js';
+
+const PROVIDERS: Record<FundamentalsProviderName, () => FundamentalsProvider> = {
+  fixture: () => createFundamentalsFixtureProvider(path.resolve(config.fundamentals.fixtureDir)),
+  yahoo: () => yahooFundamentalsProvider,
+};
+
+let providerChain: FundamentalsProvider[] | null = null;
+
+/**
+ * 설정(config.fundamentals.providers) 순서대로 만든 제공자 체인
+ * - 알 수 없는 이름은 경고 후 무시
+ */
+export function getFundamentalsProviderChain(): FundamentalsProvider[] {
+  if (!providerChain) {
+    providerChain = config.fundamentals.providers.flatMap((name) => {
+      if (!(name in PROVIDERS)) {
+        console.warn(`Unknown fundamentals provider "${name}" ignored`);
+        return [];
+      }
+      return [PROVIDERS[name as FundamentalsProviderName]()];
+    });
+  }
+  return providerChain;
+}
+
+/**
+ * 체인 순서대로 시도해 처음으로 지표를 준 제공자의 결과 반환
+ */
+export async function fetchFundamentals(
+  symbol: string,
+  chain: FundamentalsProvider[] = getFundamentalsProviderChain()
+): Promise<{ fundamentals: Fundamentals | null; provider: FundamentalsProvider | null }> {
+  for (const provider of chain) {
+    const fundamentals = await provider.getFundamentals(symbol);
+    if (fundamentals) {
+      return { fundamentals, provider };
+    }
+  }
+  return { fundamentals: null, provider: null };
+}
@@ -0,0 +1,20 @@
+// 기업 펀더멘털 (로켓 스탯 원천)
+export interface Fundamentals {
+  symbol: string;
+  name: string | null;   // 회사 이름 (로켓 설명용)
+  per: number;           // 주가수익비율 → Boost
+  pbr: number;           // 주가순자산비율 → Armor
+  roe: number;           // 자기자본이익률 (%) → Fuel Eco
+  asOf: Date;            // 지표 기준일
+}
+
+export type FundamentalsProviderName = 'fixture' | 'yahoo';
+
+/**
+ * 펀더멘털 제공자
+ * - 지표를 찾지 못하면 null (다음 제공자로 넘어감)
+ */
+export interface FundamentalsProvider {
+  name: FundamentalsProviderName;
+  getFundamentals(symbol: string): Promise<Fundamentals | null>;
+}
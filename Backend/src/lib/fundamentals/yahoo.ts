@@ -0,0 +1,41 @@
+import YahooFinance from 'yahoo-finance2';
+import { FundamentalsProvider } from './types.js';
+
+const yahooFinance = new YahooFinance();
+
+/**
+ * Yahoo Finance quoteSummary (yahoo-finance2)
+ * - ROE는 비율(0.25)로 오므로 %(25)로 변환
+ */
+export const yahooFundamentalsProvider: FundamentalsProvider = {
+  name: 'yahoo',
+
+  async getFundamentals(symbol) {
+    try {
+      const summary = await yahooFinance.quoteSummary(symbol, {
+        modules: ['price', 'summaryDetail', 'defaultKeyStatistics', 'financialData'],
+      });
+
+      const per = summary.summaryDetail?.trailingPE ?? summary.summaryDetail?.forwardPE;
+      const pbr = summary.defaultKeyStatistics?.priceToBook;
+      const roe = summary.financialData?.returnOnEquity;
+
+      if (per === undefined || pbr === undefined || roe === undefined) {
+        console.warn(`Yahoo fundamentals incomplete for ${symbol} (PER=${per}, PBR=${pbr}, ROE=${roe})`);
+        return null;
+      }
+
+      return {
+        symbol: symbol.toUpperCase(),
+        name: summary.price?.longName ?? summary.price?.shortName ?? null,
+        per,
+        pbr,
+        roe: roe * 100,
+        asOf: new Date(),
+      };
+    } catch (error) {
+      console.error(`Yahoo fundamentals error for ${symbol}:`, error);
+      return null;
+    }
+  },
+};
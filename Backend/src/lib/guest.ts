@@ -0,0 +1,103 @@
+import { randomBytes, randomUUID } from 'crypto';
+import bcrypt from 'bcrypt';
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import { hashToken, revokeAllSessions } from './authTokens.js';
+import { generateJoinCode } from '../utils/random.js';
+
+// 게스트 계정은 로그인할 수 없도록 임의 이메일/비밀번호로 생성
+const GUEST_EMAIL_DOMAIN = 'guest.dogecity.local';
+
+const guestSelect = {
+  id: true,
+  email: true,
+  nickname: true,
+  introViewed: true,
+  tokenVersion: true,
+  createdAt: true,
+  sessions: {
+    where: { status: 'IN_PROGRESS' },
+    select: { id: true },
+    take: 1,
+  },
+} satisfies Prisma.UserSelect;
+
+/**
+ * 게스트 시작/이어하기
+ * - 기기 토큰이 기존 게스트와 맞으면 그 계정으로, 아니면 새 게스트 생성
+ * - 기기 토큰 원문은 새로 만들 때만 응답 (DB에는 해시만 저장)
+ */
+export async function startGuest(deviceToken?: string) {
+  if (deviceToken) {
+    const existing = await prisma.user.findUnique({
+      where: { guestTokenHash: hashToken(deviceToken) },
+      select: { ...guestSelect, isGuest: true },
+    });
+    if (existing?.isGuest) {
+      return { user: existing, deviceToken };
+    }
+  }
+
+  const nextToken = randomBytes(32).toString('base64url');
+  const user = await prisma.user.create({
+    data: {
+      email: `${randomUUID()}@${GUEST_EMAIL_DOMAIN}`,
+      password: await bcrypt.hash(randomBytes(32).toString('hex'), 10),
+      hasPassword: false,
+      nickname: `Guest-${generateJoinCode(4)}`,
+      isGuest: true,
+      guestTokenHash: hashToken(nextToken),
+    },
+    select: guestSelect,
+  });
+
+  return { user, deviceToken: nextToken };
+}
+
+/**
+ * 정식 계정 전환 전 게스트 확인: 기기 토큰이 게스트와 맞으면 게스트 토큰을 모두 폐기하고 반환
+ */
+export async function claimGuest(deviceToken: string) {
+  const guest = await prisma.user.findUnique({
+    where: { guestTokenHash: hashToken(deviceToken) },
+    select: { id: true, isGuest: true },
+  });
+  if (!guest?.isGuest) return null;
+
+  await revokeAllSessions(guest.id);
+  return guest;
+}
+
+/**
+ * 게스트를 정식 계정으로 전환 (회원가입 시 기기 토큰을 함께 보낸 경우)
+ * - 같은 유저 행을 그대로 쓰므로 항해 기록/레이스/클래스 참가가 모두 유지됨
+ * - 게스트로 발급된 토큰은 모두 폐기 (가입 응답의 새 토큰으로 교체)
+ * - 기기 토큰이 게스트와 맞지 않으면 null (일반 회원가입으로 진행)
+ */
+export async function upgradeGuest(
+  deviceToken: string,
+  account: { email: string; hashedPassword: string; nickname: string }
+) {
+  const guest = await claimGuest(deviceToken);
+  if (!guest) return null;
+
+  return prisma.user.update({
+    where: { id: guest.id },
+    data: {
+      email: account.email,
+      password: account.hashedPassword,
+      hasPassword: true,
+      nickname: account.nickname,
+      isGuest: false,
+      guestTokenHash: null,
+    },
+    select: {
+      id: true,
+      email: true,
+      nickname: true,
+      introViewed: true,
+      createdAt: true,
+      tokenVersion: true,
+    },
+  });
+}
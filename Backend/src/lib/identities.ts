@@ -0,0 +1,156 @@
+import { randomBytes } from 'crypto';
+import bcrypt from 'bcrypt';
+import prisma from './prisma.js';
+import { OAuthCredential, OAuthError, OAuthProfile, OAuthProvider } from './oauth/index.js';
+import { claimGuest } from './guest.js';
+import { generateJoinCode } from '../utils/random.js';
+
+// 제공자가 이메일을 주지 않은 경우의 자리 표시 이메일 (로그인/메일 발송 불가)
+const OAUTH_EMAIL_DOMAIN = 'oauth.dogecity.local';
+
+/**
+ * 제공자 프로필로 쓸 수 있는 이메일
+ * - 제공자가 인증한 이메일이고 아직 다른 계정이 쓰지 않을 때만
+ */
+async function usableEmail(profile: OAuthProfile) {
+  if (!profile.email || !profile.emailVerified) return null;
+  const taken = await prisma.user.findUnique({ where: { email: profile.email }, select: { id: true } });
+  return taken ? null : profile.email;
+}
+
+function nicknameFrom(profile: OAuthProfile) {
+  const candidate = (profile.name ?? profile.email?.split('@')[0] ?? '').trim().slice(0, 20);
+  return candidate.length >= 2 ? candidate : `Pilot-${generateJoinCode(4)}`;
+}
+
+/**
+ * 소셜 로그인
+ * 1. 이미 연결된 로그인이면 그 유저
+ * 2. 제공자가 인증한 이메일과 같은 계정이 있으면 그 계정에 연결
+ *    (그 계정도 이메일 인증을 마친 경우만, 아니면 남이 먼저 가입했을 수 있으므로 409)
+ * 3. 게스트 기기 토큰이 있으면 게스트 계정을 전환 (항해 기록 유지)
+ * 4. 아니면 새 유저 생성
+ */
+export async function loginWithIdentity(provider: OAuthProvider, credential: OAuthCredential, deviceToken?: string) {
+  const profile = await provider.verify(credential);
+
+  const identity = await prisma.userIdentity.findUnique({
+    where: { provider_subject: { provider: provider.name, subject: profile.subject } },
+    select: { userId: true },
+  });
+  if (identity) {
+    return { userId: identity.userId, isNewUser: false };
+  }
+
+  if (profile.email && profile.emailVerified) {
+    const existing = await prisma.user.findUnique({
+      where: { email: profile.email },
+      select: { id: true, emailVerifiedAt: true, identities: { where: { provider: provider.name }, select: { id: true } } },
+    });
+    if (existing && !existing.emailVerifiedAt) {
+      throw new OAuthError('이 이메일로 가입된 계정이 있습니다. 비밀번호로 로그인한 뒤 프로필에서 연결해주세요.', 409);
+    }
+    // 같은 제공자의 다른 계정이 이미 연결돼 있으면 자동 연결하지 않음
+    if (existing && existing.identities.length === 0) {
+      await prisma.userIdentity.create({
+        data: { userId: existing.id, provider: provider.name, subject: profile.subject, email: profile.email },
+      });
+      return { userId: existing.id, isNewUser: false };
+    }
+  }
+
+  const email = await usableEmail(profile);
+  const identityData = { provider: provider.name, subject: profile.subject, email: profile.email };
+
+  const guest = deviceToken ? await claimGuest(deviceToken) : null;
+  if (guest) {
+    await prisma.user.update({
+      where: { id: guest.id },
+      data: {
+        isGuest: false,
+        guestTokenHash: null,
+        ...(email && { email, emailVerifiedAt: new Date() }),
+        identities: { create: identityData },
+      },
+    });
+    return { userId: guest.id, isNewUser: false };
+  }
+
+  const user = await prisma.user.create({
+    data: {
+      email: email ?? `${provider.name}-${profile.subject}@${OAUTH_EMAIL_DOMAIN}`,
+      password: await bcrypt.hash(randomBytes(32).toString('hex'), 10),
+      hasPassword: false,
+      nickname: nicknameFrom(profile),
+      emailVerifiedAt: email ? new Date() : null,
+      identities: { create: identityData },
+    },
+    select: { id: true },
+  });
+  return { userId: user.id, isNewUser: true };
+}
+
+/**
+ * 내 계정에 로그인 수단 연결 (제공자당 하나)
+ */
+export async function linkIdentity(userId: number, provider: OAuthProvider, credential: OAuthCredential) {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { isGuest: true } });
+  if (!user) {
+    throw new OAuthError('유저를 찾을 수 없습니다.', 404);
+  }
+  if (user.isGuest) {
+    throw new OAuthError('게스트는 소셜 로그인으로 바로 가입해주세요.', 400);
+  }
+
+  const profile = await provider.verify(credential);
+
+  const linked = await prisma.userIdentity.findUnique({
+    where: { provider_subject: { provider: provider.name, subject: profile.subject } },
+  });
+  if (linked) {
+    if (linked.userId !== userId) {
+      throw new OAuthError('이미 다른 계정에 연결된 로그인입니다.', 409);
+    }
+    return linked;
+  }
+
+  const sameProvider = await prisma.userIdentity.findUnique({
+    where: { userId_provider: { userId, provider: provider.name } },
+    select: { id: true },
+  });
+  if (sameProvider) {
+    throw new OAuthError('이미 연결된 제공자입니다. 먼저 연결을 해제해주세요.', 409);
+  }
+
+  return prisma.userIdentity.create({
+    data: { userId, provider: provider.name, subject: profile.subject, email: profile.email },
+  });
+}
+
+/**
+ * 로그인 수단 연결 해제
+ * - 이메일이 없는 계정(자리 표시 이메일)은 마지막 수단을 해제하면 로그인할 방법이 없으므로 거부
+ */
+export async function unlinkIdentity(userId: number, provider: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, identities: { select: { id: true, provider: true } } },
+  });
+  const identity = user?.identities.find((item) => item.provider === provider);
+  if (!user || !identity) {
+    throw new OAuthError('연결되지 않은 로그인입니다.', 404);
+  }
+  if (user.email.endsWith(`@${OAUTH_EMAIL_DOMAIN}`) && user.identities.length === 1) {
+    throw new OAuthError('다른 로그인 수단이 없어 연결을 해제할 수 없습니다.', 400);
+  }
+
+  await prisma.userIdentity.delete({ where: { id: identity.id } });
+}
+
+export async function listIdentities(userId: number) {
+  return prisma.userIdentity.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+    select: { provider: true, email: true, createdAt: true },
+  });
+}
@@ -0,0 +1,22 @@
+import { Mailer } from './types.js';
+
+/**
+ * 개발용: 메일을 보내지 않고 서버 로그에 출력
+ */
+export const consoleMailer: Mailer = {
+  name: 'console',
+
+  async send(message) {
+    console.log(
+      [
+        '📧 ---------- MAIL ----------',
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        '',
+        message.text,
+        '------------------------------',
+      ].join('\n')
+    );
+  },
+};
@@ -0,0 +1,20 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Mailer } from './types.js';
+
+/**
+ * 개발/테스트용: {dir}/{시각}-{받는 사람}.json으로 저장
+ * - 테스트에서는 가장 최근 파일을 읽어 인증 코드를 꺼내 쓸 수 있음
+ */
+export function createFileMailer(dir: string): Mailer {
+  return {
+    name: 'file',
+
+    async send(message) {
+      await fs.mkdir(dir, { recursive: true });
+      const safeTo = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+      const file = path.join(dir, `${Date.now()}-${safeTo}.json`);
+      await fs.writeFile(file, JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2), 'utf8');
+    },
+  };
+}
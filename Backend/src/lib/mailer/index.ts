@@ -0,0 +1,51 @@
+import path from 'path';
+import { config } from '../../config/index.js';
+import { MailMessage, Mailer, MailTransportName } from './types.js';
+import { consoleMailer } from './console.js';
+import { createFileMailer } from './file.js';
+import { createSmtpMailer } from './smtp.js';
+
+export * from './types.js';
+
+const TRANSPORTS: Record<MailTransportName, () => Mailer> = {
+  console: () => consoleMailer,
+  file: () => createFileMailer(path.resolve(config.mail.outboxDir)),
+  smtp: () => createSmtpMailer(config.mail.smtp),
+};
+
+let mailer: Mailer | null = null;
+
+/**
+ * 서버 시작 시 설정 확인: 운영 환경에서 메일이 실제로 나가지 않는 설정이면 시작하지 않음
+ * - console(인증/재설정 코드가 서버 로그에 남음)이나 알 수 없는 이름(MAIL_TRANSPORT 미설정/오타)
+ */
+export function assertMailConfig() {
+  if (process.env.NODE_ENV !== 'production') return;
+
+  const name = config.mail.transport;
+  if (name === 'console' || !(name in TRANSPORTS)) {
+    throw new Error(`MAIL_TRANSPORT="${name}"는 운영 환경(NODE_ENV=production)에서 사용할 수 없습니다. smtp를 설정해주세요.`);
+  }
+}
+
+/**
+ * 설정(config.mail.transport)으로 고른 발송 수단
+ * - 알 수 없는 이름은 경고 후 console 사용 (운영 환경은 assertMailConfig에서 시작 전에 막음)
+ */
+export function getMailer(): Mailer {
+  if (!mailer) {
+    const name = config.mail.transport;
+    if (!(name in TRANSPORTS)) {
+      console.warn(`Unknown mail transport "${name}" ignored, using console`);
+    }
+    mailer = (TRANSPORTS[name as MailTransportName] ?? TRANSPORTS.console)();
+  }
+  return mailer;
+}
+
+/**
+ * 메일 발송 (보내는 사람은 config.mail.from)
+ */
+export async function sendMail(message: MailMessage, transport: Mailer = getMailer()): Promise<void> {
+  await transport.send({ ...message, from: config.mail.from });
+}
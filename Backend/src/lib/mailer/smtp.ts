@@ -0,0 +1,30 @@
+import nodemailer from 'nodemailer';
+import { Mailer } from './types.js';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+/**
+ * 운영용: SMTP 서버로 발송 (nodemailer)
+ */
+export function createSmtpMailer(options: SmtpOptions): Mailer {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+
+    async send(message) {
+      await transporter.sendMail(message);
+    },
+  };
+}
@@ -0,0 +1,18 @@
+export type MailTransportName = 'console' | 'file' | 'smtp';
+
+// 보낼 메일 (from은 config.mail.from으로 채움)
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * 메일 발송 수단
+ * - 실패하면 예외를 던짐 (호출하는 쪽에서 응답 실패 여부를 결정)
+ */
+export interface Mailer {
+  name: MailTransportName;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
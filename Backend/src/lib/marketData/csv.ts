@@ -0,0 +1,37 @@
+import { ChartDataPoint } from './types.js';
+
+/**
+ * Date,Open,High,Low,Close,Volume 형식 CSV 파싱 (Stooq 다운로드 / 픽스처 공용)
+ * - 헤더 행은 건너뛰고, 날짜나 가격이 깨진 행은 제외
+ */
+export function parseOhlcvCsv(csvText: string): ChartDataPoint[] {
+  const lines = csvText.trim().split(/\r?\n/);
+  if (lines.length <= 1) return []; // 헤더만 있거나 비어있는 경우
+
+  const results: ChartDataPoint[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    const [dateStr, open, high, low, close, volume] = lines[i].split(',');
+    const timestamp = new Date(dateStr).getTime();
+    const point = {
+      timestamp,
+      open: parseFloat(open),
+      high: parseFloat(high),
+      low: parseFloat(low),
+      close: parseFloat(close),
+      volume: parseInt(volume) || 0,
+    };
+    if (Number.isNaN(timestamp) || Number.isNaN(point.close)) continue;
+    results.push(point);
+  }
+  return results;
+}
+
+/**
+ * 픽스처 저장용 CSV 직렬화
+ */
+export function toOhlcvCsv(data: ChartDataPoint[]): string {
+  const rows = data.map((d) =>
+    [new Date(d.timestamp).toISOString().slice(0, 10), d.open, d.high, d.low, d.close, d.volume].join(',')
+  );
+  return ['Date,Open,High,Low,Close,Volume', ...rows].join('\n') + '\n';
+}
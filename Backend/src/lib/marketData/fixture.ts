@@ -0,0 +1,66 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ChartDataPoint, MarketDataProvider } from './types.js';
+import { parseOhlcvCsv } from './csv.js';
+import { clipToPeriod } from './period.js';
+
+// JSON 픽스처 한 행 (timestamp 또는 date 중 하나)
+interface FixtureRow {
+  timestamp?: number;
+  date?: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+/**
+ * 로컬 픽스처 파일 읽기: {dir}/{SYMBOL}.csv 우선, 없으면 {dir}/{SYMBOL}.json
+ * - 파일이 없으면 빈 배열 (다음 제공자로 넘어감)
+ */
+async function readFixture(dir: string, symbol: string): Promise<ChartDataPoint[]> {
+  const base = path.join(dir, symbol.toUpperCase());
+
+  try {
+    return parseOhlcvCsv(await fs.readFile(`${base}.csv`, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  try {
+    const rows = JSON.parse(await fs.readFile(`${base}.json`, 'utf8')) as FixtureRow[];
+    return rows.map((row) => ({
+      timestamp: row.timestamp ?? new Date(row.date ?? '').getTime(),
+      open: row.open,
+      high: row.high,
+      low: row.low,
+      close: row.close,
+      volume: row.volume ?? 0,
+    }));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  return [];
+}
+
+/**
+ * 오프라인 픽스처 제공자 (네트워크 없이 게임/테스트 실행용)
+ * - 심볼별 파일 하나에 여러 구간을 담아두고 요청 구간만 잘라서 사용
+ */
+export function createFixtureProvider(dir: string): MarketDataProvider {
+  return {
+    name: 'fixture',
+    cacheable: false, // 로컬 파일이라 캐시할 필요 없음
+
+    async getDailyCandles({ symbol, period }) {
+      try {
+        return clipToPeriod(await readFixture(dir, symbol), period);
+      } catch (error) {
+        console.error(`Fixture read error for ${symbol}:`, error);
+        return [];
+      }
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import path from 'path';
+import { config } from '../../config/index.js';
+import { ChartDataPoint, MarketDataProvider, MarketDataProviderName, MarketDataRequest } from './types.js';
+import { createFixtureProvider } from './fixture.js';
+import { stooqProvider } from './stooq.js';
+import { yahooProvider } from './yahoo.js';
+import { mockProvider } from './mock.js';
+
+export * from './types.js';
+export * from './symbols.js';
+export { generateMockChartData } from './mock.js';
+export { parseOhlcvCsv, toOhlcvCsv } from './csv.js';
+
+const PROVIDERS: Record<MarketDataProviderName, () => MarketDataProvider> = {
+  fixture: () => createFixtureProvider(path.resolve(config.marketData.fixtureDir)),
+  stooq: () => stooqProvider,
+  yahoo: () => yahooProvider,
+  mock: () => mockProvider,
+};
+
+let providerChain: MarketDataProvider[] | null = null;
+
+/**
+ * 설정(config.marketData.providers) 순서대로 만든 제공자 체인
+ * - 알 수 없는 이름은 경고 후 무시
+ */
+export function getProviderChain(): MarketDataProvider[] {
+  if (!providerChain) {
+    providerChain = config.marketData.providers.flatMap((name) => {
+      if (!(name in PROVIDERS)) {
+        console.warn(`Unknown market data provider "${name}" ignored`);
+        return [];
+      }
+      return [PROVIDERS[name as MarketDataProviderName]()];
+    });
+  }
+  return providerChain;
+}
+
+/**
+ * 체인 순서대로 시도해 처음으로 데이터를 준 제공자의 결과 반환
+ * - 모두 실패하면 provider는 null
+ */
+export async function fetchMarketData(
+  request: MarketDataRequest,
+  chain: MarketDataProvider[] = getProviderChain()
+): Promise<{ data: ChartDataPoint[]; provider: MarketDataProvider | null }> {
+  for (const provider of chain) {
+    const data = await provider.getDailyCandles(request);
+    if (data.length > 0) {
+      return { data, provider };
+    }
+  }
+  return { data: [], provider: null };
+}
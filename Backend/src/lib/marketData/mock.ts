@@ -0,0 +1,49 @@
+import { createSessionRng } from '../../utils/random.js';
+import { ChartDataPoint, MarketDataProvider, MarketDataRequest } from './types.js';
+import { findSymbolProfile } from './symbols.js';
+
+/**
+ * 모의 차트 데이터 생성 (모든 제공자 실패 시 fallback)
+ * - 세션 시드 기반 난수를 사용하므로 같은 시드/심볼/라운드는 항상 같은 차트를 생성
+ */
+export function generateMockChartData({ symbol, round, period, seed }: MarketDataRequest, points: number = 120): ChartDataPoint[] {
+  const data: ChartDataPoint[] = [];
+  const random = createSessionRng(seed, 'mock-chart', symbol, round);
+  const basePrice = findSymbolProfile(symbol)?.basePrice ?? 100; // 목록에 없는 항로는 100에서 시작
+  
+  let currentPrice = basePrice;
+  const startDate = new Date(period.startDate).getTime();
+  const interval = 24 * 60 * 60 * 1000; // 1일 간격
+  
+  for (let i = 0; i < points; i++) {
+    const change = (random() - 0.5) * (basePrice * 0.05);
+    const open = currentPrice;
+    const close = currentPrice + change;
+    const high = Math.max(open, close) + random() * 2;
+    const low = Math.min(open, close) - random() * 2;
+    
+    data.push({
+      timestamp: startDate + (i * interval),
+      open: Number(open.toFixed(2)),
+      high: Number(high.toFixed(2)),
+      low: Number(low.toFixed(2)),
+      close: Number(close.toFixed(2)),
+      volume: Math.floor(random() * 10000000) + 1000000,
+    });
+    currentPrice = close;
+  }
+  
+  return data;
+}
+
+/**
+ * 시드 기반 Mock 제공자 (네트워크/픽스처 모두 없을 때 마지막 수단)
+ */
+export const mockProvider: MarketDataProvider = {
+  name: 'mock',
+  cacheable: false, // 세션 시드마다 다르므로 캐시하지 않음
+
+  async getDailyCandles(request) {
+    return generateMockChartData(request);
+  },
+};
@@ -0,0 +1,16 @@
+import { ChartDataPoint, RoundPeriod } from './types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 요청 구간 안의 데이터만 남기고 시간순 정렬
+ * - API가 엉뚱한 구간(미래 날짜 등)을 돌려주거나, 픽스처에 여러 구간이 섞여 있는 경우 대비
+ */
+export function clipToPeriod(data: ChartDataPoint[], period: RoundPeriod): ChartDataPoint[] {
+  const rangeStart = new Date(period.startDate).getTime();
+  const rangeEnd = new Date(period.endDate).getTime() + DAY_MS; // 종료일 포함
+
+  return data
+    .filter((d) => d.timestamp >= rangeStart && d.timestamp < rangeEnd)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -0,0 +1,26 @@
+import { MarketDataProvider } from './types.js';
+import { parseOhlcvCsv } from './csv.js';
+import { clipToPeriod } from './period.js';
+
+/**
+ * Stooq CSV 다운로드 (미국 종목은 .US, 날짜는 YYYYMMDD)
+ */
+export const stooqProvider: MarketDataProvider = {
+  name: 'stooq',
+  cacheable: true,
+
+  async getDailyCandles({ symbol, period }) {
+    const stooqSymbol = `${symbol}.US`;
+    const d1 = period.startDate.replace(/-/g, '');
+    const d2 = period.endDate.replace(/-/g, '');
+    const url = `https://stooq.com/q/d/l/?s=${stooqSymbol}&i=d&d1=${d1}&d2=${d2}`;
+
+    try {
+      const response = await fetch(url);
+      return clipToPeriod(parseOhlcvCsv(await response.text()), period);
+    } catch (e) {
+      console.error('Stooq fetch error:', e);
+      return [];
+    }
+  },
+};
@@ -0,0 +1,39 @@
+// 항로(종목) 변동성 등급
+export type VolatilityClass = 'low' | 'medium' | 'high';
+
+export interface SymbolProfile {
+  symbol: string;
+  name: string;
+  sector: string;
+  volatilityClass: VolatilityClass; // 로컬 시세가 없을 때 보여줄 대략적인 변동성
+  basePrice: number;                // Mock 차트 시작 가격
+}
+
+/**
+ * 선택 가능한 항로 목록 (로켓과 자유롭게 조합 가능)
+ * - 임포터로 추가한 로켓 티커는 목록에 없어도 항로로 선택 가능
+ */
+export const SYMBOL_PROFILES: SymbolProfile[] = [
+  { symbol: 'NVDA', name: 'NVIDIA', sector: 'Technology', volatilityClass: 'high', basePrice: 150 },
+  { symbol: 'AAPL', name: 'Apple', sector: 'Technology', volatilityClass: 'medium', basePrice: 180 },
+  { symbol: 'KO', name: 'Coca-Cola', sector: 'Consumer Staples', volatilityClass: 'low', basePrice: 60 },
+  { symbol: 'MSFT', name: 'Microsoft', sector: 'Technology', volatilityClass: 'medium', basePrice: 400 },
+  { symbol: 'TSLA', name: 'Tesla', sector: 'Consumer Discretionary', volatilityClass: 'high', basePrice: 250 },
+  { symbol: 'AMZN', name: 'Amazon', sector: 'Consumer Discretionary', volatilityClass: 'medium', basePrice: 180 },
+  { symbol: 'GOOGL', name: 'Alphabet', sector: 'Communication Services', volatilityClass: 'medium', basePrice: 160 },
+  { symbol: 'META', name: 'Meta Platforms', sector: 'Communication Services', volatilityClass: 'high', basePrice: 480 },
+  { symbol: 'NFLX', name: 'Netflix', sector: 'Communication Services', volatilityClass: 'high', basePrice: 600 },
+  { symbol: 'JPM', name: 'JPMorgan Chase', sector: 'Financials', volatilityClass: 'medium', basePrice: 200 },
+  { symbol: 'XOM', name: 'Exxon Mobil', sector: 'Energy', volatilityClass: 'medium', basePrice: 110 },
+  { symbol: 'JNJ', name: 'Johnson & Johnson', sector: 'Health Care', volatilityClass: 'low', basePrice: 155 },
+  { symbol: 'PG', name: 'Procter & Gamble', sector: 'Consumer Staples', volatilityClass: 'low', basePrice: 165 },
+  { symbol: 'WMT', name: 'Walmart', sector: 'Consumer Staples', volatilityClass: 'low', basePrice: 70 },
+];
+
+/**
+ * 심볼로 항로 정보 조회 (대소문자 무시)
+ */
+export function findSymbolProfile(symbol: string): SymbolProfile | undefined {
+  const upper = symbol.toUpperCase();
+  return SYMBOL_PROFILES.find((profile) => profile.symbol === upper);
+}
@@ -0,0 +1,35 @@
+// 라운드 차트 구간 (시나리오 ScenarioRound 기준)
+export interface RoundPeriod {
+  startDate: string; // YYYY-MM-DD
+  endDate: string;   // YYYY-MM-DD
+}
+
+// 일봉 OHLCV
+export interface ChartDataPoint {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// 시세 요청 (seed/round는 Mock 생성에만 사용)
+export interface MarketDataRequest {
+  symbol: string;
+  period: RoundPeriod;
+  round: number;
+  seed: number;
+}
+
+export type MarketDataProviderName = 'fixture' | 'stooq' | 'yahoo' | 'mock';
+
+/**
+ * 시세 제공자
+ * - 데이터가 없거나 실패하면 빈 배열을 반환하고 다음 제공자로 넘어감
+ */
+export interface MarketDataProvider {
+  name: MarketDataProviderName;
+  cacheable: boolean; // false면 결과를 ChartDataCache에 저장하지 않음 (Mock)
+  getDailyCandles(request: MarketDataRequest): Promise<ChartDataPoint[]>;
+}
@@ -0,0 +1,43 @@
+import YahooFinance from 'yahoo-finance2';
+import { MarketDataProvider } from './types.js';
+import { clipToPeriod } from './period.js';
+
+const yahooFinance = new YahooFinance();
+
+/**
+ * Yahoo Finance chart API (yahoo-finance2)
+ */
+export const yahooProvider: MarketDataProvider = {
+  name: 'yahoo',
+  cacheable: true,
+
+  async getDailyCandles({ symbol, period }) {
+    try {
+      const end = new Date(period.endDate);
+      end.setUTCDate(end.getUTCDate() + 1); // period2는 해당 일을 포함하지 않음
+
+      const result = await yahooFinance.chart(symbol, {
+        period1: period.startDate,
+        period2: end,
+        interval: '1d',
+      });
+
+      const candles = result.quotes
+        .filter((quote) => quote.close !== null)
+        .map((quote) => ({
+          timestamp: quote.date.getTime(),
+          open: quote.open ?? quote.close!,
+          high: quote.high ?? quote.close!,
+          low: quote.low ?? quote.close!,
+          close: quote.close!,
+          volume: quote.volume ?? 0,
+        }));
+
+      // 요청과 다른 구간을 돌려주는 경우가 있어 구간 밖 데이터는 버림
+      return clipToPeriod(candles, period);
+    } catch (error) {
+      console.error(`Yahoo fetch error for ${symbol}:`, error);
+      return [];
+    }
+  },
+};
@@ -0,0 +1,48 @@
+import { config } from '../../config/index.js';
+import { OAuthProvider, OAuthProviderName } from './types.js';
+import { createOidcProvider } from './oidc.js';
+
+export * from './types.js';
+
+const PROVIDER_NAMES: OAuthProviderName[] = ['google', 'apple', 'kakao', 'mock'];
+
+const providers = new Map<OAuthProviderName, OAuthProvider>();
+
+// 아무 계정으로나 토큰을 발급하는 테스트용 제공자이므로 운영 환경에서는 사용하지 않음
+const isProduction = process.env.NODE_ENV === 'production';
+
+/**
+ * 서버 시작 시 설정 확인: 운영 환경에 Mock 발급자가 설정돼 있으면 시작하지 않음
+ */
+export function assertOAuthConfig() {
+  if (isProduction && config.oauth.mock.issuer) {
+    throw new Error('OAUTH_MOCK_ISSUER는 운영 환경(NODE_ENV=production)에서 사용할 수 없습니다.');
+  }
+}
+
+/**
+ * 설정(config.oauth)에 발급자와 클라이언트 ID가 모두 있는 제공자만 사용 (mock은 운영 환경이 아닐 때만)
+ */
+export function listOAuthProviders(): OAuthProviderName[] {
+  return PROVIDER_NAMES.filter((name) => {
+    if (name === 'mock' && isProduction) return false;
+    const options = config.oauth[name];
+    return !!options.issuer && options.clientIds.length > 0;
+  });
+}
+
+/**
+ * 이름으로 제공자 조회 (사용하지 않는 제공자면 null)
+ */
+export function getOAuthProvider(name: string): OAuthProvider | null {
+  const enabled = listOAuthProviders();
+  if (!enabled.includes(name as OAuthProviderName)) return null;
+
+  const providerName = name as OAuthProviderName;
+  let provider = providers.get(providerName);
+  if (!provider) {
+    provider = createOidcProvider(providerName, config.oauth[providerName]);
+    providers.set(providerName, provider);
+  }
+  return provider;
+}
@@ -0,0 +1,165 @@
+import { createHash, randomBytes } from 'crypto';
+import http from 'http';
+import { exportJWK, generateKeyPair, SignJWT } from 'jose';
+
+// 로그인 화면 없이 바로 승인하는 로컬 OIDC 발급자 (개발/테스트 전용)
+export interface MockIssuer {
+  issuer: string;
+  mintIdToken(claims: MockClaims): Promise<string>;
+  close(): Promise<void>;
+}
+
+export interface MockClaims {
+  sub: string;
+  aud: string;
+  email?: string;
+  emailVerified?: boolean;
+  name?: string;
+  nonce?: string;
+}
+
+// /authorize에서 발급한 code (한 번 쓰면 삭제)
+interface PendingCode {
+  claims: MockClaims;
+  redirectUri: string;
+  codeChallenge?: string;
+}
+
+const KEY_ID = 'mock-key';
+
+/**
+ * 로컬 OIDC 발급자 시작
+ * - GET  /.well-known/openid-configuration, /jwks
+ * - GET  /authorize?client_id&redirect_uri&state&nonce&code_challenge&login_hint → 바로 redirect_uri?code=
+ *   (login_hint가 sub, 이메일은 {sub}@mock.local)
+ * - POST /token (authorization_code, PKCE S256 확인)
+ * - POST /id-token {sub, aud, email?, emailVerified?, ...} → 테스트용으로 ID 토큰 직접 발급 (emailVerified 기본값 false)
+ */
+export async function startMockIssuer(port: number, host = 'localhost'): Promise<MockIssuer> {
+  const issuer = `http://${host}:${port}`;
+  const { publicKey, privateKey } = await generateKeyPair('RS256');
+  const jwk = { ...(await exportJWK(publicKey)), kid: KEY_ID, alg: 'RS256', use: 'sig' };
+  const codes = new Map<string, PendingCode>();
+
+  const mintIdToken = (claims: MockClaims) =>
+    new SignJWT({
+      email: claims.email,
+      email_verified: claims.email ? claims.emailVerified ?? false : undefined, // 명시한 경우만 인증된 이메일
+      name: claims.name,
+      nonce: claims.nonce,
+    })
+      .setProtectedHeader({ alg: 'RS256', kid: KEY_ID })
+      .setIssuer(issuer)
+      .setSubject(claims.sub)
+      .setAudience(claims.aud)
+      .setIssuedAt()
+      .setExpirationTime('10m')
+      .sign(privateKey);
+
+  const readBody = async (req: http.IncomingMessage) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const raw = Buffer.concat(chunks).toString('utf8');
+    return req.headers['content-type']?.includes('application/json')
+      ? (JSON.parse(raw || '{}') as Record<string, string>)
+      : Object.fromEntries(new URLSearchParams(raw));
+  };
+
+  const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', issuer);
+    try {
+      if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+        return sendJson(res, 200, {
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: `${issuer}/jwks`,
+          response_types_supported: ['code'],
+          subject_types_supported: ['public'],
+          id_token_signing_alg_values_supported: ['RS256'],
+          code_challenge_methods_supported: ['S256'],
+        });
+      }
+
+      if (req.method === 'GET' && url.pathname === '/jwks') {
+        return sendJson(res, 200, { keys: [jwk] });
+      }
+
+      if (req.method === 'GET' && url.pathname === '/authorize') {
+        const redirectUri = url.searchParams.get('redirect_uri');
+        const clientId = url.searchParams.get('client_id');
+        if (!redirectUri || !clientId) {
+          return sendJson(res, 400, { error: 'invalid_request' });
+        }
+        const sub = url.searchParams.get('login_hint') || 'mock-pilot';
+        const code = randomBytes(16).toString('hex');
+        codes.set(code, {
+          claims: {
+            sub,
+            aud: clientId,
+            email: `${sub}@mock.local`,
+            emailVerified: true, // 실제로 쓰이지 않는 도메인
+            name: sub,
+            nonce: url.searchParams.get('nonce') ?? undefined,
+          },
+          redirectUri,
+          codeChallenge: url.searchParams.get('code_challenge') ?? undefined,
+        });
+
+        const location = new URL(redirectUri);
+        location.searchParams.set('code', code);
+        const state = url.searchParams.get('state');
+        if (state) location.searchParams.set('state', state);
+        res.writeHead(302, { Location: location.toString() });
+        return res.end();
+      }
+
+      if (req.method === 'POST' && url.pathname === '/token') {
+        const body = await readBody(req);
+        const pending = codes.get(body.code ?? '');
+        codes.delete(body.code ?? '');
+        if (!pending || pending.redirectUri !== body.redirect_uri || pending.claims.aud !== body.client_id) {
+          return sendJson(res, 400, { error: 'invalid_grant' });
+        }
+        if (pending.codeChallenge) {
+          const challenge = createHash('sha256').update(body.code_verifier ?? '').digest('base64url');
+          if (challenge !== pending.codeChallenge) {
+            return sendJson(res, 400, { error: 'invalid_grant' });
+          }
+        }
+        return sendJson(res, 200, {
+          access_token: randomBytes(16).toString('hex'),
+          token_type: 'Bearer',
+          expires_in: 600,
+          id_token: await mintIdToken(pending.claims),
+        });
+      }
+
+      if (req.method === 'POST' && url.pathname === '/id-token') {
+        const body = (await readBody(req)) as unknown as MockClaims;
+        if (!body.sub || !body.aud) {
+          return sendJson(res, 400, { error: 'sub and aud are required' });
+        }
+        return sendJson(res, 200, { id_token: await mintIdToken(body) });
+      }
+
+      return sendJson(res, 404, { error: 'not_found' });
+    } catch (error) {
+      console.error('Mock issuer error:', error);
+      return sendJson(res, 500, { error: 'server_error' });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, host, resolve));
+
+  return {
+    issuer,
+    mintIdToken,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
@@ -0,0 +1,112 @@
+import { createRemoteJWKSet, errors as joseErrors, jwtVerify, JWTPayload } from 'jose';
+import { OAuthCredential, OAuthError, OAuthProfile, OAuthProvider, OAuthProviderName } from './types.js';
+
+export interface OidcOptions {
+  issuer: string;          // 예: https://accounts.google.com
+  clientIds: string[];     // 허용할 aud (플랫폼별 클라이언트 ID)
+  clientSecret?: string;   // code 교환 시 필요한 제공자만 (Apple은 미리 서명한 JWT)
+}
+
+// OpenID Provider 메타데이터 중 사용하는 항목
+interface OidcDiscovery {
+  issuer: string;
+  jwks_uri: string;
+  token_endpoint: string;
+}
+
+const INVALID_CREDENTIAL = '소셜 로그인 정보를 확인할 수 없습니다. 다시 시도해주세요.';
+
+// 제공자마다 email_verified 표기가 다름 (Apple은 문자열 "true")
+function isEmailVerified(payload: JWTPayload) {
+  return payload.email_verified === true || payload.email_verified === 'true';
+}
+
+/**
+ * 표준 OIDC 제공자 (Google, Apple, Kakao, 로컬 Mock 발급자)
+ * - ID 토큰 서명은 발급자의 JWKS로, iss/aud/exp는 jose가 검증
+ * - 디스커버리 문서와 JWKS는 첫 요청 때 한 번 읽어 재사용
+ */
+export function createOidcProvider(name: OAuthProviderName, options: OidcOptions): OAuthProvider {
+  let metadata: Promise<{ discovery: OidcDiscovery; jwks: ReturnType<typeof createRemoteJWKSet> }> | null = null;
+
+  const loadMetadata = () => {
+    if (!metadata) {
+      metadata = (async () => {
+        const response = await fetch(`${options.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+        if (!response.ok) {
+          throw new Error(`${name} discovery failed: ${response.status}`);
+        }
+        const discovery = (await response.json()) as OidcDiscovery;
+        return { discovery, jwks: createRemoteJWKSet(new URL(discovery.jwks_uri)) };
+      })();
+      // 실패하면 다음 요청에서 다시 시도
+      metadata.catch(() => {
+        metadata = null;
+      });
+    }
+    return metadata;
+  };
+
+  // code 교환은 앱이 요청에 쓴 클라이언트 ID로 (허용 목록에 없으면 첫 번째)
+  const exchangeCode = async (credential: Exclude<OAuthCredential, { idToken: string }>) => {
+    const { discovery } = await loadMetadata();
+    const clientId = credential.clientId && options.clientIds.includes(credential.clientId)
+      ? credential.clientId
+      : options.clientIds[0];
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: credential.code,
+      redirect_uri: credential.redirectUri,
+      client_id: clientId,
+    });
+    if (options.clientSecret) body.set('client_secret', options.clientSecret);
+    if (credential.codeVerifier) body.set('code_verifier', credential.codeVerifier);
+
+    const response = await fetch(discovery.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body,
+    });
+    const json = (await response.json().catch(() => null)) as { id_token?: string } | null;
+    if (!response.ok || !json?.id_token) {
+      throw new OAuthError(INVALID_CREDENTIAL, 401);
+    }
+    return json.id_token;
+  };
+
+  return {
+    name,
+
+    async verify(credential: OAuthCredential): Promise<OAuthProfile> {
+      const idToken = 'idToken' in credential ? credential.idToken : await exchangeCode(credential);
+      const { discovery, jwks } = await loadMetadata();
+
+      let payload: JWTPayload;
+      try {
+        ({ payload } = await jwtVerify(idToken, jwks, {
+          issuer: discovery.issuer,
+          audience: options.clientIds,
+        }));
+      } catch (error) {
+        if (error instanceof joseErrors.JOSEError) {
+          throw new OAuthError(INVALID_CREDENTIAL, 401);
+        }
+        throw error;
+      }
+
+      if ('nonce' in credential && credential.nonce && payload.nonce !== credential.nonce) {
+        throw new OAuthError(INVALID_CREDENTIAL, 401);
+      }
+      if (!payload.sub) {
+        throw new OAuthError(INVALID_CREDENTIAL, 401);
+      }
+
+      return {
+        subject: payload.sub,
+        email: typeof payload.email === 'string' ? payload.email.toLowerCase() : null,
+        emailVerified: isEmailVerified(payload),
+        name: typeof payload.name === 'string' ? payload.name : typeof payload.nickname === 'string' ? payload.nickname : null,
+      };
+    },
+  };
+}
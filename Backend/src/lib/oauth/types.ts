@@ -0,0 +1,37 @@
+export type OAuthProviderName = 'google' | 'apple' | 'kakao' | 'mock';
+
+// 제공자가 확인해준 유저 정보 (ID 토큰 클레임)
+export interface OAuthProfile {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+/**
+ * 앱이 보내는 로그인 증명
+ * - idToken: 네이티브 SDK 등으로 앱이 직접 받은 ID 토큰
+ * - code: Authorization Code (+PKCE), 서버가 토큰 엔드포인트에서 교환
+ */
+export type OAuthCredential =
+  | { idToken: string; nonce?: string }
+  | { code: string; codeVerifier?: string; redirectUri: string; clientId?: string };
+
+/**
+ * OAuth/OIDC 로그인 제공자
+ * - 검증에 실패하면 OAuthError를 던짐
+ */
+export interface OAuthProvider {
+  name: OAuthProviderName;
+  verify(credential: OAuthCredential): Promise<OAuthProfile>;
+}
+
+/**
+ * 소셜 로그인 실패 (라우트에서 statusCode 그대로 응답)
+ */
+export class OAuthError extends Error {
+  constructor(message: string, readonly statusCode: 400 | 401 | 404 | 409) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
@@ -0,0 +1,352 @@
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import { config } from '../config/index.js';
+import { findScenario, toScenarioSummary } from './scenario.js';
+import { isRouteSymbol } from './symbolCatalogue.js';
+import { publish } from './realtime.js';
+import { publishFlightState } from './flightTelemetry.js';
+import { generateJoinCode, generateSeed } from '../utils/random.js';
+import type { CreateRaceInput } from '../schemas/index.js';
+
+/**
+ * 레이스 요청 실패 (라우트에서 statusCode 그대로 응답)
+ */
+export class RaceError extends Error {
+  constructor(message: string, readonly statusCode: 400 | 403 | 404 | 409) {
+    super(message);
+    this.name = 'RaceError';
+  }
+}
+
+const raceInclude = {
+  scenario: true,
+  participants: {
+    orderBy: { joinedAt: 'asc' },
+    include: {
+      user: { select: { id: true, nickname: true } },
+      rocket: { select: { id: true, name: true } },
+      session: true,
+    },
+  },
+} satisfies Prisma.RaceInclude;
+
+type RaceWithParticipants = Prisma.RaceGetPayload<{ include: typeof raceInclude }>;
+
+/**
+ * 레이스 푸시 채널 이름
+ */
+export function raceChannel(code: string) {
+  return `race:${code}`;
+}
+
+/**
+ * 참가 코드 정규화 (대소문자/공백 무시)
+ */
+export function normalizeRaceCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+export async function findRace(code: string) {
+  return prisma.race.findUnique({
+    where: { code: normalizeRaceCode(code) },
+    include: raceInclude,
+  });
+}
+
+async function getRaceOrThrow(code: string) {
+  const race = await findRace(code);
+  if (!race) {
+    throw new RaceError('레이스를 찾을 수 없습니다.', 404);
+  }
+  return race;
+}
+
+/**
+ * 진행 중인 항해가 있으면 레이스에 들어갈 수 없음 (레이스 세션과 겹치지 않도록)
+ */
+async function assertNoActiveSession(userId: number) {
+  const active = await prisma.flightSession.findFirst({
+    where: { userId, status: 'IN_PROGRESS' },
+    select: { id: true },
+  });
+  if (active) {
+    throw new RaceError('이미 진행 중인 항해가 있습니다. 먼저 완료하거나 초기화해주세요.', 409);
+  }
+}
+
+async function assertRocket(rocketId: number) {
+  const rocket = await prisma.rocket.findUnique({ where: { id: rocketId }, select: { id: true } });
+  if (!rocket) {
+    throw new RaceError('선택한 로켓을 찾을 수 없습니다.', 404);
+  }
+}
+
+/**
+ * 참가자 순위: 정답 수 → 부분 점수 합 → 이동 거리
+ * - 세션이 삭제된 참가자(초기화)는 ABANDONED로 맨 뒤
+ */
+export function computeStandings(race: RaceWithParticipants) {
+  const rows = race.participants.map((participant) => {
+    const session = participant.session;
+    const finished = !session || session.status !== 'IN_PROGRESS';
+    const roundsCompleted = !session
+      ? 0
+      : finished || session.roundPhase === 'RESULT'
+        ? session.currentRound
+        : session.currentRound - 1;
+
+    return {
+      userId: participant.user.id,
+      nickname: participant.user.nickname,
+      rocket: participant.rocket,
+      sessionId: participant.sessionId,
+      status: session?.status ?? 'ABANDONED',
+      roundsCompleted,
+      correctAnswers: session?.correctAnswers ?? 0,
+      totalCredit: Number((session?.totalCredit ?? 0).toFixed(2)),
+      distance: Number((session?.distance ?? 0).toFixed(1)),
+      fuel: Number((session?.currentFuel ?? 0).toFixed(1)),
+      hull: Number((session?.currentHull ?? 0).toFixed(1)),
+      score: session?.score ?? null,
+      finalEnding: session?.finalEnding ?? null,
+      finished,
+    };
+  });
+
+  rows.sort((a, b) =>
+    Number(a.status === 'ABANDONED') - Number(b.status === 'ABANDONED') ||
+    b.correctAnswers - a.correctAnswers ||
+    b.totalCredit - a.totalCredit ||
+    b.distance - a.distance
+  );
+
+  return rows.map((row, index) => ({ rank: index + 1, ...row }));
+}
+
+/**
+ * 클라이언트 응답용 레이스 상태 (로비 참가자 + 출발 후 순위)
+ */
+export function toRaceView(race: RaceWithParticipants) {
+  return {
+    id: race.id,
+    code: race.code,
+    status: race.status,
+    hostId: race.hostId,
+    symbol: race.symbol,
+    seed: race.seed,
+    maxPlayers: race.maxPlayers,
+    scenario: toScenarioSummary(race.scenario),
+    participants: race.participants.map((participant) => ({
+      userId: participant.user.id,
+      nickname: participant.user.nickname,
+      rocket: participant.rocket,
+      isHost: participant.userId === race.hostId,
+      sessionId: participant.sessionId,
+    })),
+    standings: race.status === 'LOBBY' ? [] : computeStandings(race),
+    createdAt: race.createdAt,
+    startedAt: race.startedAt,
+    finishedAt: race.finishedAt,
+  };
+}
+
+export type RaceView = ReturnType<typeof toRaceView>;
+
+/**
+ * 로비 상태 변경 푸시
+ */
+function publishLobby(race: RaceWithParticipants) {
+  publish(raceChannel(race.code), 'lobby', toRaceView(race));
+}
+
+/**
+ * 레이스 생성 (생성자는 호스트로 참가, 항로/시드/시나리오는 참가자 전원 공유)
+ */
+export async function createRace(userId: number, input: CreateRaceInput) {
+  await assertNoActiveSession(userId);
+  await assertRocket(input.rocketId);
+
+  if (!(await isRouteSymbol(input.symbol))) {
+    throw new RaceError('지원하지 않는 항로입니다.', 400);
+  }
+
+  const scenario = await findScenario(input.scenarioId);
+  if (!scenario || !scenario.isActive) {
+    throw new RaceError('선택한 시나리오를 찾을 수 없습니다.', 404);
+  }
+
+  // 코드 충돌 시 몇 번 다시 시도
+  for (let attempt = 0; attempt < 5; attempt++) {
+    try {
+      const race = await prisma.race.create({
+        data: {
+          code: generateJoinCode(config.race.codeLength),
+          hostId: userId,
+          scenarioId: scenario.id,
+          symbol: input.symbol,
+          seed: generateSeed(),
+          maxPlayers: input.maxPlayers ?? config.race.maxPlayers,
+          participants: {
+            create: { userId, rocketId: input.rocketId },
+          },
+        },
+        include: raceInclude,
+      });
+      return toRaceView(race);
+    } catch (error) {
+      const isCodeTaken = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+      if (!isCodeTaken) throw error;
+    }
+  }
+  throw new Error('Failed to allocate a unique race code');
+}
+
+/**
+ * 로비 참가 (이미 참가 중이면 로켓만 변경)
+ */
+export async function joinRace(code: string, userId: number, rocketId: number) {
+  const race = await getRaceOrThrow(code);
+  if (race.status !== 'LOBBY') {
+    throw new RaceError('이미 출발한 레이스입니다.', 409);
+  }
+
+  const alreadyJoined = race.participants.some((participant) => participant.userId === userId);
+  if (!alreadyJoined && race.participants.length >= race.maxPlayers) {
+    throw new RaceError('레이스 정원이 가득 찼습니다.', 409);
+  }
+
+  await assertNoActiveSession(userId);
+  await assertRocket(rocketId);
+
+  await prisma.raceParticipant.upsert({
+    where: { raceId_userId: { raceId: race.id, userId } },
+    create: { raceId: race.id, userId, rocketId },
+    update: { rocketId },
+  });
+
+  const updated = await getRaceOrThrow(race.code);
+  publishLobby(updated);
+  return toRaceView(updated);
+}
+
+/**
+ * 로비 나가기 (호스트가 나가면 가장 먼저 들어온 참가자에게 위임, 아무도 없으면 레이스 삭제)
+ */
+export async function leaveRace(code: string, userId: number) {
+  const race = await getRaceOrThrow(code);
+  if (race.status !== 'LOBBY') {
+    throw new RaceError('출발한 레이스는 나갈 수 없습니다.', 409);
+  }
+
+  const remaining = race.participants.filter((participant) => participant.userId !== userId);
+  if (remaining.length === race.participants.length) {
+    throw new RaceError('참가하지 않은 레이스입니다.', 404);
+  }
+
+  if (remaining.length === 0) {
+    await prisma.race.delete({ where: { id: race.id } });
+    publish(raceChannel(race.code), 'closed', { code: race.code });
+    return null;
+  }
+
+  await prisma.$transaction([
+    prisma.raceParticipant.delete({ where: { raceId_userId: { raceId: race.id, userId } } }),
+    ...(race.hostId === userId
+      ? [prisma.race.update({ where: { id: race.id }, data: { hostId: remaining[0].userId } })]
+      : []),
+  ]);
+
+  const updated = await getRaceOrThrow(race.code);
+  publishLobby(updated);
+  return toRaceView(updated);
+}
+
+/**
+ * 출발 (호스트 전용): 참가자 전원에게 같은 시드/항로/시나리오의 세션 생성
+ */
+export async function startRace(code: string, userId: number) {
+  const race = await getRaceOrThrow(code);
+  if (race.hostId !== userId) {
+    throw new RaceError('호스트만 레이스를 출발시킬 수 있습니다.', 403);
+  }
+  if (race.status !== 'LOBBY') {
+    throw new RaceError('이미 출발한 레이스입니다.', 409);
+  }
+  if (race.participants.length < config.race.minPlayers) {
+    throw new RaceError(`최소 ${config.race.minPlayers}명이 모여야 출발할 수 있습니다.`, 400);
+  }
+
+  await prisma.$transaction(async (tx) => {
+    // 로비 대기 중에 개인 항해를 시작한 참가자가 있으면 출발 불가
+    const busy = await tx.flightSession.findFirst({
+      where: { userId: { in: race.participants.map((p) => p.userId) }, status: 'IN_PROGRESS' },
+      include: { user: { select: { nickname: true } } },
+    });
+    if (busy) {
+      throw new RaceError(`${busy.user.nickname}님이 진행 중인 항해가 있어 출발할 수 없습니다.`, 409);
+    }
+
+    const claimed = await tx.race.updateMany({
+      where: { id: race.id, status: 'LOBBY' },
+      data: { status: 'IN_PROGRESS', startedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      throw new RaceError('이미 출발한 레이스입니다.', 409);
+    }
+
+    for (const participant of race.participants) {
+      const session = await tx.flightSession.create({
+        data: {
+          userId: participant.userId,
+          rocketId: participant.rocketId,
+          scenarioId: race.scenarioId,
+          symbol: race.symbol,
+          seed: race.seed,
+          currentFuel: config.game.initialFuel,
+          currentHull: config.game.initialHull,
+          distance: 0,
+          status: 'IN_PROGRESS',
+        },
+      });
+      await tx.raceParticipant.update({
+        where: { id: participant.id },
+        data: { sessionId: session.id },
+      });
+    }
+  });
+
+  const started = await getRaceOrThrow(race.code);
+  publish(raceChannel(started.code), 'started', toRaceView(started));
+  for (const participant of started.participants) {
+    publishFlightState(participant.userId, participant.sessionId, 'start')
+      .catch((error) => console.error('Flight telemetry push error:', error));
+  }
+  return toRaceView(started);
+}
+
+/**
+ * 레이스 세션의 라운드가 끝났을 때 순위 푸시
+ * - 참가자 전원의 세션이 끝나면 레이스 종료 처리 후 finished 푸시
+ * - 레이스 세션이 아니면 아무것도 하지 않음
+ */
+export async function publishRaceProgress(sessionId: number) {
+  const entry = await prisma.raceParticipant.findUnique({
+    where: { sessionId },
+    select: { race: { select: { code: true, status: true } } },
+  });
+  if (!entry || entry.race.status !== 'IN_PROGRESS') return;
+
+  const race = await getRaceOrThrow(entry.race.code);
+  const standings = computeStandings(race);
+
+  if (standings.every((row) => row.finished)) {
+    await prisma.race.updateMany({
+      where: { id: race.id, status: 'IN_PROGRESS' },
+      data: { status: 'FINISHED', finishedAt: new Date() },
+    });
+    publish(raceChannel(race.code), 'finished', toRaceView(await getRaceOrThrow(race.code)));
+    return;
+  }
+
+  publish(raceChannel(race.code), 'standings', { code: race.code, standings });
+}
@@ -0,0 +1,135 @@
+import { config } from '../config/index.js';
+
+// 허용 횟수 / 윈도우 (config.rateLimit)
+export interface RateLimitRule {
+  max: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfter: number; // 윈도우가 초기화되기까지 남은 초
+}
+
+interface WindowEntry {
+  count: number;
+  resetAt: number; // epoch ms
+}
+
+interface LoginFailures {
+  count: number;
+  lastFailedAt: number;
+  lockedUntil: number;
+}
+
+// 키별 카운터 (단일 서버 프로세스 메모리 기준, 재시작하면 초기화)
+const windows = new Map<string, WindowEntry>();
+const loginFailures = new Map<string, LoginFailures>();
+
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+// 만료된 카운터 정리 (프로세스 종료를 막지 않도록 unref)
+setInterval(() => {
+  const now = Date.now();
+  const resetAfterMs = config.rateLimit.loginLockout.resetAfterMinutes * 60 * 1000;
+  for (const [key, entry] of windows) {
+    if (entry.resetAt <= now) windows.delete(key);
+  }
+  for (const [key, entry] of loginFailures) {
+    if (entry.lockedUntil <= now && now - entry.lastFailedAt > resetAfterMs) loginFailures.delete(key);
+  }
+}, PRUNE_INTERVAL_MS).unref();
+
+function secondsUntil(time: number, now: number) {
+  return Math.max(1, Math.ceil((time - now) / 1000));
+}
+
+function consume(key: string, max: number, resetAt: () => number, now: number): RateLimitResult {
+  let entry = windows.get(key);
+  if (!entry || entry.resetAt <= now) {
+    entry = { count: 0, resetAt: resetAt() };
+    windows.set(key, entry);
+  }
+
+  if (entry.count >= max) {
+    return { allowed: false, limit: max, remaining: 0, retryAfter: secondsUntil(entry.resetAt, now) };
+  }
+
+  entry.count += 1;
+  return { allowed: true, limit: max, remaining: max - entry.count, retryAfter: secondsUntil(entry.resetAt, now) };
+}
+
+/**
+ * 고정 윈도우 카운터 1회 소비 (초과하면 allowed: false, 카운트는 늘리지 않음)
+ */
+export function hitRateLimit(key: string, rule: RateLimitRule, now = Date.now()): RateLimitResult {
+  return consume(key, rule.max, () => now + rule.windowSeconds * 1000, now);
+}
+
+/**
+ * 하루(UTC) 단위 할당량 1회 소비
+ */
+export function consumeDailyQuota(key: string, max: number, now = Date.now()): RateLimitResult {
+  const today = new Date(now).toISOString().slice(0, 10);
+  const tomorrow = () => {
+    const next = new Date(now);
+    next.setUTCHours(24, 0, 0, 0);
+    return next.getTime();
+  };
+  return consume(`${key}:${today}`, max, tomorrow, now);
+}
+
+/**
+ * 소비한 할당량 되돌리기 (분석을 만들지 못하고 끝난 요청)
+ */
+export function refundDailyQuota(key: string, now = Date.now()) {
+  const entry = windows.get(`${key}:${new Date(now).toISOString().slice(0, 10)}`);
+  if (entry && entry.count > 0) entry.count -= 1;
+}
+
+function loginKey(email: string) {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * 로그인 잠금 남은 시간 (초, 잠겨 있지 않으면 0)
+ */
+export function getLoginLockout(email: string, now = Date.now()) {
+  if (!config.rateLimit.enabled) return 0;
+  const entry = loginFailures.get(loginKey(email));
+  return entry && entry.lockedUntil > now ? secondsUntil(entry.lockedUntil, now) : 0;
+}
+
+/**
+ * 로그인 실패 기록: freeAttempts를 넘으면 실패할 때마다 잠금 시간이 2배로 늘어남
+ * - 반환값: 이번 실패로 걸린 잠금 시간 (초, 잠금이 없으면 0)
+ */
+export function recordLoginFailure(email: string, now = Date.now()) {
+  if (!config.rateLimit.enabled) return 0;
+  const { freeAttempts, baseSeconds, maxSeconds, resetAfterMinutes } = config.rateLimit.loginLockout;
+  const key = loginKey(email);
+
+  let entry = loginFailures.get(key);
+  if (!entry || now - entry.lastFailedAt > resetAfterMinutes * 60 * 1000) {
+    entry = { count: 0, lastFailedAt: now, lockedUntil: 0 };
+    loginFailures.set(key, entry);
+  }
+  entry.count += 1;
+  entry.lastFailedAt = now;
+
+  const over = entry.count - freeAttempts;
+  if (over <= 0) return 0;
+
+  const lockSeconds = Math.min(maxSeconds, baseSeconds * 2 ** (over - 1));
+  entry.lockedUntil = now + lockSeconds * 1000;
+  return lockSeconds;
+}
+
+/**
+ * 로그인 성공 시 실패 기록 초기화
+ */
+export function clearLoginFailures(email: string) {
+  loginFailures.delete(loginKey(email));
+}
@@ -0,0 +1,61 @@
+import type { WebSocket } from 'ws';
+
+// 서버 → 클라이언트 푸시 메시지 (모든 채널 공통 형식)
+export interface RealtimeMessage<T = unknown> {
+  type: string;
+  data: T;
+  at: string; // ISO 시각
+}
+
+// 채널별 구독 소켓 (단일 서버 프로세스 메모리 기준)
+const channels = new Map<string, Set<WebSocket>>();
+
+/**
+ * 소켓을 채널에 등록 (소켓이 닫히면 자동 해제)
+ */
+export function subscribe(channel: string, socket: WebSocket) {
+  let sockets = channels.get(channel);
+  if (!sockets) {
+    sockets = new Set();
+    channels.set(channel, sockets);
+  }
+  sockets.add(socket);
+
+  socket.on('close', () => {
+    sockets.delete(socket);
+    if (sockets.size === 0 && channels.get(channel) === sockets) {
+      channels.delete(channel);
+    }
+  });
+}
+
+/**
+ * 채널에 구독 중인 소켓이 있는지 (푸시할 데이터를 만들기 전에 확인)
+ */
+export function hasSubscribers(channel: string) {
+  return (channels.get(channel)?.size ?? 0) > 0;
+}
+
+/**
+ * 채널의 열린 소켓 전체에 메시지 전송
+ */
+export function publish<T>(channel: string, type: string, data: T) {
+  const sockets = channels.get(channel);
+  if (!sockets || sockets.size === 0) return;
+
+  const payload = JSON.stringify({ type, data, at: new Date().toISOString() } satisfies RealtimeMessage<T>);
+  for (const socket of sockets) {
+    if (socket.readyState === socket.OPEN) {
+      socket.send(payload);
+    }
+  }
+}
+
+/**
+ * 특정 소켓 하나에만 전송 (구독 직후 현재 상태 스냅샷 등)
+ */
+export function sendTo<T>(socket: WebSocket, type: string, data: T) {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify({ type, data, at: new Date().toISOString() } satisfies RealtimeMessage<T>));
+  }
+}
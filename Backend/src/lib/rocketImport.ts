@@ -0,0 +1,200 @@
+import { GameEvent, Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import { Fundamentals, fetchFundamentals } from './fundamentals/index.js';
+import { getArmorRating, getBoostRating, getFuelEcoRating, getRecommendedStyle } from '../utils/rocketStats.js';
+import { toEventData } from '../utils/gameLogic.js';
+import { validateScenarioEvents } from '../utils/eventValidation.js';
+
+// 추천 스타일 → 로켓 카테고리 (시드 로켓과 같은 이름 사용)
+const CATEGORY_BY_STYLE: Record<string, string> = {
+  공격형: 'Growth',
+  방어형: 'Dividend',
+  밸런스형: 'Blue-Chip',
+};
+
+/**
+ * 펀더멘털로 로켓을 만들 수 없는 경우
+ * - 지표를 찾지 못함(404), 적자/자본잠식처럼 스탯으로 쓸 수 없는 값(422)
+ */
+export class RocketImportError extends Error {
+  constructor(message: string, readonly statusCode: 404 | 422) {
+    super(message);
+    this.name = 'RocketImportError';
+  }
+}
+
+/**
+ * PER/PBR/ROE → 로켓 스탯 + 별점 (밴드는 rocketStats.ts와 동일)
+ */
+export function deriveRocketStats(fundamentals: Fundamentals) {
+  const { per, pbr, roe } = fundamentals;
+
+  if (!(per > 0)) {
+    throw new RocketImportError(`${fundamentals.symbol}: PER(${per})이 0 이하라 가속 폭발력을 계산할 수 없습니다.`, 422);
+  }
+  if (!(pbr > 0)) {
+    throw new RocketImportError(`${fundamentals.symbol}: PBR(${pbr})이 0 이하라 선체 내구도를 계산할 수 없습니다.`, 422);
+  }
+
+  const stats = {
+    boost: Number(per.toFixed(2)),
+    armor: Number(pbr.toFixed(2)),
+    fuelEco: Number(roe.toFixed(2)),
+  };
+  const style = getRecommendedStyle(stats);
+
+  return {
+    ...stats,
+    category: CATEGORY_BY_STYLE[style.style] ?? 'Blue-Chip',
+    ratings: {
+      boost: getBoostRating(stats.boost),
+      armor: getArmorRating(stats.armor),
+      fuelEco: getFuelEcoRating(stats.fuelEco),
+    },
+    recommendedStyle: style,
+  };
+}
+
+// 복사할 Specific 이벤트가 없는 라운드용 기본 뉴스 (구간 추세로 호재/악재 결정)
+const FALLBACK_NEWS = {
+  bull: {
+    newsTitle: '📡 [심우주 센서] 항로 전방 순풍 감지',
+    newsDetail: '🤖 [AI 네비게이터] 주변 기류가 안정적입니다. 출력을 높여도 좋습니다.',
+    newsLog: '📜 [항해 기록] 비슷한 기류에서 대부분의 로켓이 가속에 성공했습니다.',
+    thrustMod: 1.2,
+  },
+  bear: {
+    newsTitle: '📡 [심우주 센서] 항로 전방 역풍 감지',
+    newsDetail: '🤖 [AI 네비게이터] 기류가 거칠어지고 있습니다. 출력을 아끼는 편이 안전합니다.',
+    newsLog: '📜 [항해 기록] 비슷한 기류에서 무리하게 가속한 로켓은 선체 손상을 입었습니다.',
+    thrustMod: 0.8,
+  },
+};
+
+type TemplateEvent = GameEvent & { rocket: { category: string } | null };
+
+/**
+ * 라운드 하나에 넣을 대체 이벤트
+ * - 같은 라운드에서 카테고리가 같은 로켓의 Specific 이벤트를 복사 (없으면 그 라운드의 첫 Specific 이벤트)
+ * - 복사할 이벤트가 없으면 구간 추세(bull/bear)에 맞춘 기본 이벤트
+ */
+function fallbackEvent(
+  rocket: { id: number; category: string },
+  roundEvents: TemplateEvent[],
+  trend: string | undefined
+): Omit<Prisma.GameEventCreateManyInput, 'scenarioId' | 'round'> {
+  const specific = roundEvents.filter((event) => !event.isGlobal);
+  const template = specific.find((event) => event.rocket?.category === rocket.category) ?? specific[0];
+
+  if (template) {
+    const { id: _id, scenarioId: _scenarioId, round: _round, rocket: _rocket, ...copy } = template;
+    return { ...copy, targetRocketId: rocket.id };
+  }
+
+  return {
+    ...FALLBACK_NEWS[trend === 'bear' ? 'bear' : 'bull'],
+    isGlobal: false,
+    targetRocketId: rocket.id,
+    isTwist: false,
+    twistType: 'NONE',
+    globalType: null,
+    affectedStat: null,
+    statMultiplier: null,
+  };
+}
+
+/**
+ * 로켓에 적용되는 이벤트가 없는 라운드를 모든 시나리오에서 찾아 대체 이벤트 생성
+ * - 시드 이벤트는 기본 로켓(NVDA/AAPL/KO) 전용 Specific 이벤트뿐인 라운드가 있어서, 임포트한 로켓은 그대로면 진행 불가
+ * - 생성 후 시나리오 검증으로 모든 라운드를 진행할 수 있는지 확인 (실패하면 422)
+ * - 반환값: 새로 만든 이벤트 수
+ */
+export async function ensureRocketEvents(rocketId: number) {
+  const rocket = await prisma.rocket.findUniqueOrThrow({ where: { id: rocketId }, select: { id: true, name: true, category: true } });
+  const scenarios = await prisma.scenario.findMany({
+    select: { id: true, slug: true, totalRounds: true, rounds: { select: { round: true, trend: true } } },
+  });
+
+  const data: Prisma.GameEventCreateManyInput[] = [];
+  for (const scenario of scenarios) {
+    const events = await prisma.gameEvent.findMany({
+      where: { scenarioId: scenario.id },
+      include: { rocket: { select: { category: true } } },
+      orderBy: { id: 'asc' },
+    });
+
+    for (let round = 1; round <= scenario.totalRounds; round++) {
+      const roundEvents = events.filter((event) => event.round === round);
+      if (roundEvents.some((event) => event.isGlobal || event.targetRocketId === rocket.id)) continue;
+
+      const trend = scenario.rounds.find((entry) => entry.round === round)?.trend;
+      data.push({ ...fallbackEvent(rocket, roundEvents, trend), scenarioId: scenario.id, round });
+    }
+  }
+
+  if (data.length > 0) {
+    await prisma.gameEvent.createMany({ data });
+  }
+
+  for (const scenario of scenarios) {
+    const events = await prisma.gameEvent.findMany({ where: { scenarioId: scenario.id } });
+    const missing = validateScenarioEvents(
+      events.map((event) => ({ id: event.id, ...toEventData(event) })),
+      [rocket],
+      scenario.totalRounds
+    ).filter((issue) => issue.code === 'ROUND_MISSING_ROCKET');
+    if (missing.length > 0) {
+      throw new RocketImportError(`${rocket.name}: [${scenario.slug}] ${missing[0].message}`, 422);
+    }
+  }
+
+  return data.length;
+}
+
+/**
+ * 티커 하나를 펀더멘털 제공자에서 읽어 Rocket 행으로 upsert
+ * - 이미 있는 로켓은 스탯/기준일만 갱신 (설명, 이미지, 카테고리는 유지)
+ * - 이벤트가 없는 라운드는 대체 이벤트로 채움 (ensureRocketEvents)
+ * - dryRun이면 저장하지 않고 계산 결과만 반환
+ */
+export async function importRocket(symbol: string, options: { description?: string; dryRun?: boolean } = {}) {
+  const ticker = symbol.trim().toUpperCase();
+  const { fundamentals, provider } = await fetchFundamentals(ticker);
+
+  if (!fundamentals || !provider) {
+    throw new RocketImportError(`${ticker}: 펀더멘털 데이터를 찾을 수 없습니다.`, 404);
+  }
+
+  const derived = deriveRocketStats(fundamentals);
+  const statsData = {
+    boost: derived.boost,
+    armor: derived.armor,
+    fuelEco: derived.fuelEco,
+    statsAsOf: fundamentals.asOf,
+    statsSource: provider.name,
+  };
+
+  const existing = await prisma.rocket.findUnique({ where: { name: ticker } });
+
+  if (options.dryRun) {
+    return { rocket: existing, created: false, eventsCreated: 0, fundamentals, provider: provider.name, derived };
+  }
+
+  const rocket = await prisma.rocket.upsert({
+    where: { name: ticker },
+    update: {
+      ...statsData,
+      ...(options.description !== undefined && { description: options.description }),
+    },
+    create: {
+      name: ticker,
+      description: options.description ?? fundamentals.name,
+      category: derived.category,
+      ...statsData,
+    },
+  });
+
+  const eventsCreated = await ensureRocketEvents(rocket.id);
+
+  return { rocket, created: !existing, eventsCreated, fundamentals, provider: provider.name, derived };
+}
@@ -0,0 +1,37 @@
+import prisma from './prisma.js';
+import { config } from '../config/index.js';
+
+/**
+ * 시나리오 조회 (라운드 구간 포함)
+ * - scenarioId가 없으면 기본 시나리오(config.game.defaultScenario) 사용
+ */
+export async function findScenario(scenarioId?: number) {
+  return prisma.scenario.findUnique({
+    where: scenarioId ? { id: scenarioId } : { slug: config.game.defaultScenario },
+    include: {
+      rounds: { orderBy: { round: 'asc' } },
+    },
+  });
+}
+
+/**
+ * 시나리오의 특정 라운드 구간(역사적 기간) 조회
+ */
+export async function findScenarioRound(round: number, scenarioId?: number) {
+  const scenario = await findScenario(scenarioId);
+  if (!scenario) return null;
+
+  return scenario.rounds.find((r) => r.round === round) ?? null;
+}
+
+/**
+ * 클라이언트 응답용 시나리오 요약
+ */
+export function toScenarioSummary(scenario: { id: number; slug: string; title: string; totalRounds: number }) {
+  return {
+    id: scenario.id,
+    slug: scenario.slug,
+    title: scenario.title,
+    totalRounds: scenario.totalRounds,
+  };
+}
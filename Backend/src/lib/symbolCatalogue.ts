@@ -0,0 +1,122 @@
+import path from 'path';
+import prisma from './prisma.js';
+import { config } from '../config/index.js';
+import { findScenario, toScenarioSummary } from './scenario.js';
+import {
+  ChartDataPoint,
+  SYMBOL_PROFILES,
+  SymbolProfile,
+  VolatilityClass,
+  findSymbolProfile,
+  getProviderChain,
+} from './marketData/index.js';
+import { createFixtureProvider } from './marketData/fixture.js';
+
+// 라운드 구간 데이터 출처: 캐시/픽스처에 이미 있음, 플레이 시 원격 조회, 모의 데이터로 대체
+export type PeriodAvailability = 'cached' | 'fixture' | 'remote' | 'mock';
+
+/**
+ * 항로로 선택 가능한 심볼 전체 (기본 목록 + 임포트된 로켓 티커)
+ */
+async function listRouteProfiles() {
+  const rockets = await prisma.rocket.findMany({ select: { id: true, name: true, description: true, category: true } });
+  const extra: SymbolProfile[] = rockets
+    .filter((rocket) => !findSymbolProfile(rocket.name))
+    .map((rocket) => ({
+      symbol: rocket.name.toUpperCase(),
+      name: rocket.description ?? rocket.name,
+      sector: rocket.category,
+      volatilityClass: 'medium' as VolatilityClass, // 프로필이 없으면 실제 변동성은 volatility 필드 참고
+      basePrice: 100,
+    }));
+  const rocketIds = new Map(rockets.map((rocket) => [rocket.name.toUpperCase(), rocket.id]));
+  return { profiles: [...SYMBOL_PROFILES, ...extra], rocketIds };
+}
+
+/**
+ * 항로로 선택 가능한 심볼인지 확인
+ */
+export async function isRouteSymbol(symbol: string) {
+  if (findSymbolProfile(symbol)) return true;
+  const rocket = await prisma.rocket.findUnique({ where: { name: symbol.toUpperCase() }, select: { id: true } });
+  return rocket !== null;
+}
+
+/**
+ * 일간 수익률 표준편차 기반 연환산 변동성 (%)
+ * - 구간별 종가(시간순)에서 수익률을 따로 구해 합침 (구간 경계를 넘는 수익률은 계산하지 않음)
+ */
+export function annualizedVolatility(periods: number[][]): number | null {
+  const returns = periods.flatMap((closes) => closes.slice(1).map((close, i) => Math.log(close / closes[i])));
+  if (returns.length < 2) return null;
+  const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+  const variance = returns.reduce((acc, r) => acc + (r - mean) ** 2, 0) / (returns.length - 1);
+  return Number((Math.sqrt(variance) * Math.sqrt(252) * 100).toFixed(1));
+}
+
+/**
+ * 항로 카탈로그 (검색 + 시나리오 라운드 구간별 데이터 가용성)
+ * - 네트워크를 쓰지 않고 캐시/픽스처만 확인 (없으면 플레이 시 제공자 체인에서 조회)
+ * - 변동성은 로컬에 있는 구간 종가로만 계산, 없으면 null
+ */
+export async function buildSymbolCatalogue(params: { q?: string; sector?: string; scenarioId?: number }) {
+  const scenario = await findScenario(params.scenarioId);
+  if (!scenario) return null;
+
+  const query = params.q?.trim().toLowerCase();
+  const sector = params.sector?.trim().toLowerCase();
+  const { profiles: allProfiles, rocketIds } = await listRouteProfiles();
+  const profiles = allProfiles.filter((profile) => {
+    if (sector && profile.sector.toLowerCase() !== sector) return false;
+    if (!query) return true;
+    return [profile.symbol, profile.name, profile.sector].some((field) => field.toLowerCase().includes(query));
+  });
+
+  // 캐시 조회는 한 번에 (키 형식은 loadRoundChart와 동일)
+  const cacheKeys = profiles.flatMap((profile) =>
+    scenario.rounds.map((round) => `CHART_${profile.symbol}_${round.startDate}_${round.endDate}`)
+  );
+  const cached = await prisma.chartDataCache.findMany({
+    where: { symbol: { in: cacheKeys }, expiresAt: { gt: new Date() } },
+  });
+  const cacheByKey = new Map(cached.map((entry) => [entry.symbol, entry.data as unknown as ChartDataPoint[]]));
+
+  const fixture = createFixtureProvider(path.resolve(config.marketData.fixtureDir));
+  const hasRemote = getProviderChain().some((provider) => provider.cacheable);
+
+  const symbols = await Promise.all(
+    profiles.map(async (profile) => {
+      const periods = await Promise.all(
+        scenario.rounds.map(async (round) => {
+          const period = { startDate: round.startDate, endDate: round.endDate };
+          let source: PeriodAvailability = hasRemote ? 'remote' : 'mock';
+          let data = cacheByKey.get(`CHART_${profile.symbol}_${round.startDate}_${round.endDate}`);
+
+          if (data && data.length > 0) {
+            source = 'cached';
+          } else {
+            data = await fixture.getDailyCandles({ symbol: profile.symbol, period, round: round.round, seed: 0 });
+            if (data.length > 0) source = 'fixture';
+          }
+          const closes = (data ?? []).map((point) => point.close);
+
+          return { round: round.round, title: round.title, ...period, source, closes };
+        })
+      );
+
+      return {
+        ...profile,
+        rocketId: rocketIds.get(profile.symbol) ?? null, // 같은 티커의 로켓 (홈 항로)
+        volatility: annualizedVolatility(periods.map((period) => period.closes)), // Promise.all 결과는 라운드 순서 유지
+        localRounds: periods.filter((period) => period.source === 'cached' || period.source === 'fixture').length,
+        periods: periods.map(({ closes: _closes, ...period }) => period),
+      };
+    })
+  );
+
+  return {
+    scenario: toScenarioSummary(scenario),
+    sectors: [...new Set(allProfiles.map((profile) => profile.sector))].sort(),
+    symbols,
+  };
+}
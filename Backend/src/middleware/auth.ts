@@ -1,9 +1,20 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import prisma from '../lib/prisma.js';
 
 // JWT 페이로드 타입
 export interface JWTPayload {
   userId: number;
   email: string;
+  tokenVersion: number; // 모든 기기 로그아웃 시 DB 값이 올라가 이전 토큰이 무효화됨
+}
+
+// 토큰 발급 이후 모든 기기 로그아웃(또는 탈퇴)이 없었는지 확인
+async function isTokenCurrent(payload: JWTPayload) {
+  const user = await prisma.user.findUnique({
+    where: { id: payload.userId },
+    select: { tokenVersion: true },
+  });
+  return !!user && user.tokenVersion === payload.tokenVersion;
 }
 
 // 인증 미들웨어
@@ -14,11 +25,75 @@ export async function authenticate(
   try {
     await request.jwtVerify();
   } catch (err) {
-    reply.status(401).send({ 
+    return reply.status(401).send({ 
       success: false, 
       error: '인증이 필요합니다. 로그인 후 다시 시도해주세요.' 
     });
   }
+
+  if (!(await isTokenCurrent(request.user))) {
+    return reply.status(401).send({
+      success: false,
+      error: '로그아웃된 세션입니다. 다시 로그인해주세요.',
+    });
+  }
+}
+
+// WebSocket 인증 (브라우저/앱 WebSocket은 헤더를 못 붙이는 경우가 있어 ?token= 도 허용)
+// - 실패 시 null, 호출 측에서 소켓을 닫음
+export async function verifySocketToken(
+  request: FastifyRequest<{ Querystring: { token?: string } }>
+): Promise<JWTPayload | null> {
+  try {
+    const token = request.query.token;
+    const payload = token
+      ? request.server.jwt.verify<JWTPayload>(token)
+      : await request.jwtVerify<JWTPayload>();
+    return (await isTokenCurrent(payload)) ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+// 관리자 권한 미들웨어 (authenticate 이후에 사용)
+// - 권한은 토큰이 아닌 DB 기준으로 확인하므로 강등 즉시 반영됨
+export async function requireAdmin(
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  const user = request.user
+    ? await prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { role: true },
+      })
+    : null;
+
+  if (!user || user.role !== 'ADMIN') {
+    return reply.status(403).send({
+      success: false,
+      error: '관리자 권한이 필요합니다.',
+    });
+  }
+}
+
+// 교사 권한 미들웨어 (authenticate 이후에 사용, 관리자도 통과)
+export async function requireTeacher(
+  request: FastifyRequest,
+  reply: FastifyReply
+) {
+  const user = request.user
+    ? await prisma.user.findUnique({
+        where: { id: request.user.userId },
+        select: { role: true },
+      })
+    : null;
+
+  if (!user || (user.role !== 'TEACHER' && user.role !== 'ADMIN')) {
+    return reply.status(403).send({
+      success: false,
+      error: '교사 권한이 필요합니다.',
+    });
+  }
 }
 
 // FastifyRequest 타입 확장을 위한 선언
@@ -32,4 +107,6 @@ declare module '@fastify/jwt' {
 // 인증 플러그인 등록
 export function registerAuthHook(fastify: FastifyInstance) {
   fastify.decorate('authenticate', authenticate);
+  fastify.decorate('requireAdmin', requireAdmin);
+  fastify.decorate('requireTeacher', requireTeacher);
 }
@@ -0,0 +1,107 @@
+import fp from 'fastify-plugin';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { config } from '../config/index.js';
+import { consumeDailyQuota, hitRateLimit, refundDailyQuota, RateLimitRule } from '../lib/rateLimit.js';
+
+// 라우트별 제한 (auth: IP 기준, analysis: 로그인 유저 기준)
+export type RateLimitPolicy = 'auth' | 'analysis';
+
+type RateLimitHook = (request: FastifyRequest, reply: FastifyReply) => Promise<FastifyReply | undefined>;
+
+const policies: Record<RateLimitPolicy, { rule: () => RateLimitRule; key: (request: FastifyRequest) => string }> = {
+  auth: {
+    rule: () => config.rateLimit.auth,
+    key: (request) => `auth:ip:${request.ip}`,
+  },
+  analysis: {
+    rule: () => config.rateLimit.analysis,
+    key: (request) => (request.user ? `analysis:user:${request.user.userId}` : `analysis:ip:${request.ip}`),
+  },
+};
+
+// 전체 제한에서 빼는 경로 (헬스 체크, API 문서)
+const EXEMPT_PREFIXES = ['/health', '/docs'];
+
+/**
+ * 429 응답 (모든 요청 제한 공통 형식)
+ */
+export function sendTooManyRequests(reply: FastifyReply, retryAfter: number, message?: string) {
+  return reply
+    .status(429)
+    .header('Retry-After', String(retryAfter))
+    .send({
+      success: false,
+      error: message ?? `요청이 너무 많습니다. ${retryAfter}초 후 다시 시도해주세요.`,
+      retryAfter,
+    });
+}
+
+function dailyQuotaKey(userId: number) {
+  return `analysis-daily:user:${userId}`;
+}
+
+/**
+ * 요청 제한 플러그인
+ * - 모든 요청: IP당 config.rateLimit.global
+ * - fastify.rateLimit(policy): 라우트 preHandler로 추가 (analysis는 authenticate 다음에 둘 것)
+ * - fastify.analysisQuota: 유저당 하루 AI 분석 횟수, 실패한 요청(4xx/5xx)은 되돌림
+ *   (preHandler로 두거나, 캐시를 먼저 확인하는 라우트는 핸들러에서 호출한 뒤 reply.sent 확인)
+ */
+export const rateLimitPlugin = fp(async (fastify: FastifyInstance) => {
+  fastify.decorateRequest('quotaKey', null);
+
+  fastify.addHook('onRequest', async (request, reply) => {
+    if (!config.rateLimit.enabled) return;
+    if (EXEMPT_PREFIXES.some((prefix) => request.url.startsWith(prefix))) return;
+
+    const result = hitRateLimit(`global:ip:${request.ip}`, config.rateLimit.global);
+    if (!result.allowed) {
+      return sendTooManyRequests(reply, result.retryAfter);
+    }
+  });
+
+  fastify.addHook('onResponse', async (request, reply) => {
+    if (request.quotaKey && reply.statusCode >= 400) {
+      refundDailyQuota(request.quotaKey);
+    }
+  });
+
+  fastify.decorate('rateLimit', (policy: RateLimitPolicy): RateLimitHook => {
+    const { rule, key } = policies[policy];
+    return async (request, reply) => {
+      if (!config.rateLimit.enabled) return;
+
+      const result = hitRateLimit(key(request), rule());
+      if (!result.allowed) {
+        return sendTooManyRequests(reply, result.retryAfter);
+      }
+    };
+  });
+
+  fastify.decorate('analysisQuota', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!config.rateLimit.enabled || !request.user) return;
+
+    const key = dailyQuotaKey(request.user.userId);
+    const result = consumeDailyQuota(key, config.rateLimit.analysisDailyQuota);
+    if (!result.allowed) {
+      return sendTooManyRequests(
+        reply,
+        result.retryAfter,
+        `오늘 AI 분석 횟수(${result.limit}회)를 모두 사용했습니다. 내일 다시 시도해주세요.`
+      );
+    }
+    request.quotaKey = key;
+    reply.header('X-Analysis-Quota-Remaining', String(result.remaining));
+  });
+});
+
+// rateLimit / analysisQuota 데코레이터 타입 선언
+declare module 'fastify' {
+  interface FastifyInstance {
+    rateLimit: (policy: RateLimitPolicy) => RateLimitHook;
+    analysisQuota: (request: FastifyRequest, reply: FastifyReply) => Promise<FastifyReply | undefined>;
+  }
+  interface FastifyRequest {
+    quotaKey: string | null; // 이번 요청이 소비한 하루 할당량 (실패 시 되돌림)
+  }
+}
@@ -0,0 +1,595 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import prisma from '../lib/prisma.js';
+import {
+  gameEventSchema,
+  updateGameEventSchema,
+  previewEventSchema,
+  rocketSchema,
+  updateRocketSchema,
+  importRocketSchema,
+  idParamSchema,
+  eventListQuerySchema,
+} from '../schemas/index.js';
+import { calculateEventThrust, toEventData, GameEventData } from '../utils/gameLogic.js';
+import { validateEventData, validateScenarioEvents } from '../utils/eventValidation.js';
+import { importRocket, RocketImportError } from '../lib/rocketImport.js';
+
+/**
+ * 시나리오 전체 검증 (이벤트 + 로켓 커버리지)
+ */
+async function validateScenario(scenarioId: number) {
+  const [scenario, events, rockets] = await Promise.all([
+    prisma.scenario.findUnique({ where: { id: scenarioId } }),
+    prisma.gameEvent.findMany({ where: { scenarioId }, orderBy: [{ round: 'asc' }, { id: 'asc' }] }),
+    prisma.rocket.findMany({ select: { id: true, name: true }, orderBy: { id: 'asc' } }),
+  ]);
+
+  if (!scenario) return null;
+
+  return validateScenarioEvents(
+    events.map((event) => ({ id: event.id, ...toEventData(event) })),
+    rockets,
+    scenario.totalRounds
+  );
+}
+
+/**
+ * 이벤트 대상 로켓/시나리오 존재 확인
+ */
+async function findMissingReference(event: { scenarioId: number; targetRocketId: number | null }) {
+  const scenario = await prisma.scenario.findUnique({ where: { id: event.scenarioId } });
+  if (!scenario) return '시나리오를 찾을 수 없습니다.';
+
+  if (event.targetRocketId !== null) {
+    const rocket = await prisma.rocket.findUnique({ where: { id: event.targetRocketId } });
+    if (!rocket) return '대상 로켓을 찾을 수 없습니다.';
+  }
+
+  return null;
+}
+
+function sendZodError(reply: FastifyReply, error: unknown) {
+  return reply.status(400).send({
+    success: false,
+    error: '입력값이 올바르지 않습니다.',
+    details: error,
+  });
+}
+
+export async function adminRoutes(fastify: FastifyInstance) {
+  // 모든 라우트에 인증 + 관리자 권한 적용
+  fastify.addHook('preHandler', fastify.authenticate);
+  fastify.addHook('preHandler', fastify.requireAdmin);
+
+  // ============================================
+  // 로켓 관리
+  // ============================================
+
+  /**
+   * GET /api/admin/rockets
+   * 로켓 원본 데이터 목록 조회
+   */
+  fastify.get('/rockets', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const rockets = await prisma.rocket.findMany({
+        orderBy: { id: 'asc' },
+        include: {
+          _count: { select: { events: true, sessions: true } },
+        },
+      });
+
+      return reply.send({
+        success: true,
+        data: { rockets },
+      });
+    } catch (error) {
+      console.error('Admin get rockets error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: '서버 오류가 발생했습니다.',
+      });
+    }
+  });
+
+  /**
+   * POST /api/admin/rockets
+   * 로켓 생성
+   */
+  fastify.post('/rockets', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = rocketSchema.parse(request.body);
+
+      const existing = await prisma.rocket.findUnique({ where: { name: body.name } });
+      if (existing) {
+        return reply.status(409).send({
+          success: false,
+          error: '이미 존재하는 로켓 이름입니다.',
+        });
+      }
+
+      const rocket = await prisma.rocket.create({ data: body });
+
+      return reply.status(201).send({
+        success: true,
+        data: { rocket },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ZodError') {
+        return sendZodError(reply, error);
+      }
+      console.error('Admin create rocket error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: '서버 오류가 발생했습니다.',
+      });
+    }
+  });
+
+  /**
+   * POST /api/admin/rockets/import
+   * 티커의 PER/PBR/ROE를 펀더멘털 제공자에서 읽어 로켓 생성 또는 스탯 갱신 (dryRun이면 미리보기)
+   */
+  fastify.post('/rockets/import', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = importRocketSchema.parse(request.body);
+      const { rocket, created, eventsCreated, fundamentals, provider, derived } = await importRocket(body.symbol, {
+        description: body.description,
+        dryRun: body.dryRun,
+      });
+
+      return reply.status(created ? 201 : 200).send({
+        success: true,
+        data: { rocket, created, eventsCreated, provider, fundamentals, derived },
+      });
+    } catch (error) {
+      if (error instanceof RocketImportError) {
+        return reply.status(error.statusCode).send({
+          success: false,
+          error: error.message,
+        });
+      }
+      if (error instanceof Error && error.name === 'ZodError') {
+        return sendZodError(reply, error);
+      }
+      console.error('Admin import rocket error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: '서버 오류가 발생했습니다.',
+      });
+    }
+  });
+
+  /**
+   * PATCH /api/admin/rockets/:id
+   * 로켓 스탯/설명 수정
+   */
+  fastify.patch('/rockets/:id', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = idParamSchema.parse(request.params);
+      const body = updateRocketSchema.parse(request.body);
+
+      const rocket = await prisma.rocket.findUnique({ where: { id } });
+      if (!rocket) {
+        return reply.status(404).send({
+          success: false,
+          error: '로켓을 찾을 수 없습니다.',
+        });
+      }
+
+      if (body.name && body.name !== rocket.name) {
+        const duplicate = await prisma.rocket.findUnique({ where: { name: body.name } });
+        if (duplicate) {
+          return reply.status(409).send({
+            success: false,
+            error: '이미 존재하는 로켓 이름입니다.',
+          });
+        }
+      }
+
+      const updated = await prisma.rocket.update({
+        where: { id },
+        data: body,
+      });
+
+      return reply.send({
+        success: true,
+        data: { rocket: updated },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ZodError') {
+        return sendZodError(reply, error);
+      }
+      console.error('Admin update rocket error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: '서버 오류가 발생했습니다.',
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/admin/rockets/:id
+   * 로켓 삭제 (항해 기록이나 대상 이벤트가 있으면 삭제 불가)
+   */
+  fastify.delete('/rockets/:id', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = idParamSchema.parse(request.params);
+
+      const rocket = await prisma.rocket.findUnique({
+        where: { id },
+        include: {
+          _count: { select: { events: true, sessions: true } },
+        },
+      });
+
+      if (!rocket) {
+        return reply.status(404).send({
+          success: false,
+          error: '로켓을 찾을 수 없습니다.',
+        });
+      }
+
+      if (rocket._count.sessions > 0 || rocket._count.events > 0) {
+        return reply.status(409).send({
+          success: false,
+          error: '항해 기록 또는 대상 이벤트가 있는 로켓은 삭제할 수 없습니다.',
+          details: rocket._count,
+        });
+      }
+
+      await prisma.rocket.delete({ where: { id } });
+
+      return reply.send({
+        success: true,
+        data: { id },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ZodError') {
+        return sendZodError(reply, error);
+      }
+      console.error('Admin delete rocket error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: '서버 오류가 발생했습니다.',
+      });
+    }
+  });
+
+  // ============================================
+  // 게임 이벤트 관리
+  // ============================================
+
+  /**
+   * GET /api/admin/events
+   * 이벤트 목록 조회 (scenarioId, round로 필터링)
+   */
+  fastify.get('/events', async (request: FastifyRequest<{
+    Querystring: { scenarioId?: string; round?: string };
+  }>, reply: FastifyReply) => {
+    try {
+      const { scenarioId, round } = eventListQuerySchema.parse(request.query);
+
+      const events = await prisma.gameEvent.findMany({
+        where: { scenarioId, round },
+        orderBy: [{ scenarioId: 'asc' }, { round: 'asc' }, { isGlobal: 'desc' }, { id: 'asc' }],
+        include: {
+          rocket: { select: { id: true, name: true } },
+        },
+      });
+
+      return reply.send({
+        success: true,
+        data: { events },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ZodError') {
+        return sendZodError(reply, error);
+      }
+      console.error('Admin get events error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: '서버 오류가 발생했습니다.',
+      });
+    }
+  });
+
+  /**
+   * GET /api/admin/events/:id
+   * 이벤트 상세 조회 (개별 검증 결과 포함)
+   */
+  fastify.get('/events/:id', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = idParamSchema.parse(request.params);
+
+      const event = await prisma.gameEvent.findUnique({
+        where: { id },
+        include: {
+          rocket: { select: { id: true, name: true } },
+        },
+      });
+
+      if (!event) {
+        return reply.status(404).send({
+          success: false,
+          error: '이벤트를 찾을 수 없습니다.',
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: {
+          event,
+          issues: validateEventData(toEventData(event), event.id),
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ZodError') {
+        return sendZodError(reply, error);
+      }
+      console.error('Admin get event error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: '서버 오류가 발생했습니다.',
+      });
+    }
+  });
+
+  /**
+   * POST /api/admin/events
+   * 이벤트 생성: 개별 검증 오류가 있으면 저장하지 않고, 시나리오 검증 결과를 함께 반환
+   */
+  fastify.post('/events', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = gameEventSchema.parse(request.body);
+
+      const issues = validateEventData(body);
+      if (issues.some((issue) => issue.level === 'error')) {
+        return reply.status(400).send({
+          success: false,
+          error: '이벤트 설정이 올바르지 않습니다.',
+          details: issues,
+        });
+      }
+
+      const missing = await findMissingReference(body);
+      if (missing) {
+        return reply.status(404).send({
+          success: false,
+          error: missing,
+        });
+      }
+
+      const event = await prisma.gameEvent.create({ data: body });
+
+      return reply.status(201).send({
+        success: true,
+        data: {
+          event,
+          issues,
+          scenarioIssues: await validateScenario(event.scenarioId),
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ZodError') {
+        return sendZodError(reply, error);
+      }
+      console.error('Admin create event error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: '서버 오류가 발생했습니다.',
+      });
+    }
+  });
+
+  /**
+   * PATCH /api/admin/events/:id
+   * 이벤트 수정 (뉴스 문구, thrustMod, twistType, statMultiplier 등)
+   */
+  fastify.patch('/events/:id', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = idParamSchema.parse(request.params);
+      const body = updateGameEventSchema.parse(request.body);
+
+      const event = await prisma.gameEvent.findUnique({ where: { id } });
+      if (!event) {
+        return reply.status(404).send({
+          success: false,
+          error: '이벤트를 찾을 수 없습니다.',
+        });
+      }
+
+      // 변경 후 상태 기준으로 검증
+      const merged = { ...event, ...body };
+      const issues = validateEventData(toEventData(merged), id);
+      if (issues.some((issue) => issue.level === 'error')) {
+        return reply.status(400).send({
+          success: false,
+          error: '이벤트 설정이 올바르지 않습니다.',
+          details: issues,
+        });
+      }
+
+      const missing = await findMissingReference(merged);
+      if (missing) {
+        return reply.status(404).send({
+          success: false,
+          error: missing,
+        });
+      }
+
+      const updated = await prisma.gameEvent.update({
+        where: { id },
+        data: body,
+      });
+
+      return reply.send({
+        success: true,
+        data: {
+          event: updated,
+          issues,
+          scenarioIssues: await validateScenario(updated.scenarioId),
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ZodError') {
+        return sendZodError(reply, error);
+      }
+      console.error('Admin update event error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: '서버 오류가 발생했습니다.',
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/admin/events/:id
+   * 이벤트 삭제 (삭제 후 시나리오 검증 결과 반환)
+   */
+  fastify.delete('/events/:id', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = idParamSchema.parse(request.params);
+
+      const event = await prisma.gameEvent.findUnique({ where: { id } });
+      if (!event) {
+        return reply.status(404).send({
+          success: false,
+          error: '이벤트를 찾을 수 없습니다.',
+        });
+      }
+
+      await prisma.gameEvent.delete({ where: { id } });
+
+      return reply.send({
+        success: true,
+        data: {
+          id,
+          scenarioIssues: await validateScenario(event.scenarioId),
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ZodError') {
+        return sendZodError(reply, error);
+      }
+      console.error('Admin delete event error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: '서버 오류가 발생했습니다.',
+      });
+    }
+  });
+
+  /**
+   * POST /api/admin/events/preview
+   * 이벤트 미리보기 (dry-run): 저장하지 않고 모든 로켓에 대해 calculateEventThrust 결과를 계산
+   * - eventId를 주면 저장된 이벤트에 event 필드를 덮어써서 계산
+   */
+  fastify.post('/events/preview', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { eventId, event: overrides } = previewEventSchema.parse(request.body);
+
+      let base: Partial<GameEventData> = {};
+      if (eventId) {
+        const stored = await prisma.gameEvent.findUnique({ where: { id: eventId } });
+        if (!stored) {
+          return reply.status(404).send({
+            success: false,
+            error: '이벤트를 찾을 수 없습니다.',
+          });
+        }
+        base = toEventData(stored);
+      }
+
+      const merged = { ...base, ...overrides };
+      if (merged.round === undefined || merged.isGlobal === undefined || merged.thrustMod === undefined) {
+        return reply.status(400).send({
+          success: false,
+          error: 'round, isGlobal, thrustMod 값이 필요합니다.',
+        });
+      }
+
+      const eventData: GameEventData = {
+        round: merged.round,
+        isGlobal: merged.isGlobal,
+        thrustMod: merged.thrustMod,
+        isTwist: merged.isTwist ?? false,
+        twistType: merged.twistType ?? 'NONE',
+        globalType: merged.globalType ?? null,
+        affectedStat: merged.affectedStat ?? null,
+        statMultiplier: merged.statMultiplier ?? null,
+        targetRocketId: merged.targetRocketId ?? null,
+      };
+
+      const rockets = await prisma.rocket.findMany({ orderBy: { id: 'asc' } });
+
+      const results = rockets.map((rocket) => ({
+        rocketId: rocket.id,
+        rocketName: rocket.name,
+        applies: eventData.isGlobal || eventData.targetRocketId === rocket.id,
+        ...calculateEventThrust(
+          eventData,
+          {
+            boostStat: rocket.boost,
+            armorStat: rocket.armor,
+            fuelEcoStat: rocket.fuelEco,
+          },
+          rocket.id
+        ),
+      }));
+
+      return reply.send({
+        success: true,
+        data: {
+          event: eventData,
+          issues: validateEventData(eventData, eventId),
+          results,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ZodError') {
+        return sendZodError(reply, error);
+      }
+      console.error('Admin preview event error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: '서버 오류가 발생했습니다.',
+      });
+    }
+  });
+
+  /**
+   * GET /api/admin/scenarios/:id/validate
+   * 시나리오 전체 검증: 라운드마다 모든 로켓에 이벤트가 있는지, 잘못된 반전 설정이 없는지 확인
+   */
+  fastify.get('/scenarios/:id/validate', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const { id } = idParamSchema.parse(request.params);
+      const issues = await validateScenario(id);
+
+      if (!issues) {
+        return reply.status(404).send({
+          success: false,
+          error: '시나리오를 찾을 수 없습니다.',
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: {
+          scenarioId: id,
+          isValid: !issues.some((issue) => issue.level === 'error'),
+          issues,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ZodError') {
+        return sendZodError(reply, error);
+      }
+      console.error('Admin validate scenario error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: '서버 오류가 발생했습니다.',
+      });
+    }
+  });
+}
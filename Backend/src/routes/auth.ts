@@ -1,7 +1,66 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import bcrypt from 'bcrypt';
 import prisma from '../lib/prisma.js';
-import { registerSchema, loginSchema, RegisterInput, LoginInput } from '../schemas/index.js';
+import { clearLoginFailures, getLoginLockout, recordLoginFailure } from '../lib/rateLimit.js';
+import { sendTooManyRequests } from '../middleware/rateLimit.js';
+import {
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  verifyEmailSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  updateProfileSchema,
+  changePasswordSchema,
+  deleteAccountSchema,
+  guestLoginSchema,
+  RegisterInput,
+  LoginInput,
+} from '../schemas/index.js';
+import {
+  AuthTokenError,
+  issueTokens,
+  revokeAllSessions,
+  revokeRefreshToken,
+  rotateRefreshToken,
+} from '../lib/authTokens.js';
+import {
+  AccountError,
+  changePassword,
+  deleteAccount,
+  exportAccountData,
+  requestPasswordReset,
+  resendVerificationEmail,
+  resetPassword,
+  sendVerificationEmail,
+  updateProfile,
+  verifyEmail,
+} from '../lib/account.js';
+import { startGuest, upgradeGuest } from '../lib/guest.js';
+
+/**
+ * 계정 관리 (이메일 인증, 비밀번호, 프로필, 탈퇴) 공통 에러 응답
+ */
+function sendAccountError(reply: FastifyReply, error: unknown, label: string) {
+  if (error instanceof AccountError) {
+    return reply.status(error.statusCode).send({
+      success: false,
+      error: error.message,
+    });
+  }
+  if (error instanceof Error && error.name === 'ZodError') {
+    return reply.status(400).send({
+      success: false,
+      error: '입력값이 올바르지 않습니다.',
+      details: error,
+    });
+  }
+  console.error(`${label} error:`, error);
+  return reply.status(500).send({
+    success: false,
+    error: '서버 오류가 발생했습니다.',
+  });
+}
 
 export async function authRoutes(fastify: FastifyInstance) {
   /**
@@ -9,6 +68,7 @@ export async function authRoutes(fastify: FastifyInstance) {
    * 회원가입: 새로운 사용자 계정을 생성합니다
    */
   fastify.post('/register', {
+    preHandler: [fastify.rateLimit('auth')],
     schema: {
       summary: '신규 유저 회원가입',
       description: '이메일, 비밀번호, 닉네임을 받아 새로운 유저를 생성하고 JWT 토큰을 발급합니다.',
@@ -20,6 +80,7 @@ export async function authRoutes(fastify: FastifyInstance) {
           email: { type: 'string', format: 'email', description: 'user email' },
           password: { type: 'string', minLength: 6, description: 'password (at least 6 characters)' },
           nickname: { type: 'string', description: 'nickname to use in the service' },
+          deviceToken: { type: 'string', description: 'guest device token (upgrades the guest account, keeping its flight history)' },
         },
       },
       response: {
@@ -38,10 +99,14 @@ export async function authRoutes(fastify: FastifyInstance) {
                     email: { type: 'string' },
                     nickname: { type: 'string' },
                     introViewed: { type: 'boolean' },
+                    emailVerified: { type: 'boolean' },
+                    isGuest: { type: 'boolean' },
                     createdAt: { type: 'string', format: 'date-time' }
                   }
                 },
-                token: { type: 'string', description: 'JWT Access Token' }
+                token: { type: 'string', description: 'JWT Access Token (짧은 만료)' },
+                refreshToken: { type: 'string', description: 'Refresh Token (/api/auth/refresh로 교체)' },
+                upgradedFromGuest: { type: 'boolean', description: '게스트 계정을 전환했는지 (항해 기록 유지)' }
               }
             }
           }
@@ -76,7 +141,7 @@ export async function authRoutes(fastify: FastifyInstance) {
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const body = registerSchema.parse(request.body);
-      const { email, password, nickname } = body;
+      const { email, password, nickname, deviceToken } = body;
 
       // 이메일 중복 확인
       const existingUser = await prisma.user.findUnique({
@@ -93,8 +158,11 @@ export async function authRoutes(fastify: FastifyInstance) {
       // 비밀번호 해싱
       const hashedPassword = await bcrypt.hash(password, 10);
 
-      // 유저 생성
-      const user = await prisma.user.create({
+      // 게스트 기기에서 가입하면 게스트 계정을 전환 (항해 기록 유지), 아니면 유저 생성
+      const upgraded = deviceToken
+        ? await upgradeGuest(deviceToken, { email, hashedPassword, nickname })
+        : null;
+      const user = upgraded ?? await prisma.user.create({
         data: {
           email,
           password: hashedPassword,
@@ -106,20 +174,27 @@ export async function authRoutes(fastify: FastifyInstance) {
           nickname: true,
           introViewed: true,
           createdAt: true,
+          tokenVersion: true,
         },
       });
 
-      // JWT 토큰 생성
-      const token = fastify.jwt.sign({
-        userId: user.id,
-        email: user.email,
-      });
+      // 액세스 + 리프레시 토큰 발급
+      const { tokenVersion: _tokenVersion, ...profile } = user;
+      const tokens = await issueTokens(fastify.jwt, user, request.headers['user-agent']);
+
+      // 인증 메일 발송 (실패해도 가입은 완료, 앱에서 재발송 가능)
+      try {
+        await sendVerificationEmail(user);
+      } catch (mailError) {
+        console.error('Verification mail error:', mailError);
+      }
 
       return reply.status(201).send({
         success: true,
         data: {
-          user,
-          token,
+          user: { ...profile, emailVerified: false, isGuest: false },
+          ...tokens,
+          upgradedFromGuest: !!upgraded, // 게스트 항해 기록을 이어받았는지
         },
       });
     } catch (error) {
@@ -142,11 +217,23 @@ export async function authRoutes(fastify: FastifyInstance) {
    * POST /api/auth/login
    * 로그인: 인증 후 토큰과 함께 기존 항해 데이터 존재 여부를 응답받습니다
    */
-  fastify.post('/login', async (request: FastifyRequest, reply: FastifyReply) => {
+  fastify.post('/login', {
+    preHandler: [fastify.rateLimit('auth')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const body = loginSchema.parse(request.body);
       const { email, password } = body;
 
+      // 연속 실패로 잠긴 계정 (존재 여부와 관계없이 같은 응답)
+      const lockedFor = getLoginLockout(email);
+      if (lockedFor > 0) {
+        return sendTooManyRequests(
+          reply,
+          lockedFor,
+          `로그인 시도가 너무 많습니다. ${lockedFor}초 후 다시 시도해주세요.`
+        );
+      }
+
       // 유저 조회
       const user = await prisma.user.findUnique({
         where: { email },
@@ -158,28 +245,20 @@ export async function authRoutes(fastify: FastifyInstance) {
         },
       });
 
-      if (!user) {
-        return reply.status(401).send({
-          success: false,
-          error: '이메일 또는 비밀번호가 일치하지 않습니다.',
-        });
-      }
-
       // 비밀번호 확인
-      const isValidPassword = await bcrypt.compare(password, user.password);
+      const isValidPassword = !!user && await bcrypt.compare(password, user.password);
 
-      if (!isValidPassword) {
+      if (!user || !isValidPassword) {
+        recordLoginFailure(email);
         return reply.status(401).send({
           success: false,
           error: '이메일 또는 비밀번호가 일치하지 않습니다.',
         });
       }
+      clearLoginFailures(email);
 
-      // JWT 토큰 생성
-      const token = fastify.jwt.sign({
-        userId: user.id,
-        email: user.email,
-      });
+      // 액세스 + 리프레시 토큰 발급
+      const tokens = await issueTokens(fastify.jwt, user, request.headers['user-agent']);
 
       // 활성 세션 존재 여부
       const hasActiveSession = user.sessions.length > 0;
@@ -192,9 +271,11 @@ export async function authRoutes(fastify: FastifyInstance) {
             email: user.email,
             nickname: user.nickname,
             introViewed: user.introViewed,
+            emailVerified: !!user.emailVerifiedAt,
+            isGuest: user.isGuest,
             createdAt: user.createdAt,
           },
-          token,
+          ...tokens,
           hasActiveSession,          // 진행 중인 항해 세션 존재 여부
           introViewed: user.introViewed, // 인트로 시청 여부
         },
@@ -215,6 +296,214 @@ export async function authRoutes(fastify: FastifyInstance) {
     }
   });
 
+  /**
+   * POST /api/auth/guest
+   * 게스트로 시작: 회원가입 없이 플레이할 수 있는 게스트 계정과 기기 토큰 발급
+   * - 이전에 받은 기기 토큰을 보내면 같은 게스트 계정으로 이어하기
+   */
+  fastify.post('/guest', {
+    preHandler: [fastify.rateLimit('auth')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { deviceToken } = guestLoginSchema.parse(request.body ?? {});
+      const guest = await startGuest(deviceToken);
+      const { sessions, tokenVersion: _tokenVersion, ...profile } = guest.user;
+      const tokens = await issueTokens(fastify.jwt, guest.user, request.headers['user-agent']);
+
+      return reply.send({
+        success: true,
+        data: {
+          user: { ...profile, emailVerified: false, isGuest: true },
+          ...tokens,
+          deviceToken: guest.deviceToken,  // 기기에 보관 (이어하기/회원가입 전환용)
+          hasActiveSession: sessions.length > 0,
+          introViewed: profile.introViewed,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ZodError') {
+        return reply.status(400).send({
+          success: false,
+          error: '입력값이 올바르지 않습니다.',
+          details: error,
+        });
+      }
+      console.error('Guest login error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: '서버 오류가 발생했습니다.',
+      });
+    }
+  });
+
+  /**
+   * POST /api/auth/refresh
+   * 토큰 갱신: 리프레시 토큰을 새 액세스/리프레시 토큰으로 교체 (기존 리프레시 토큰은 폐기)
+   */
+  fastify.post('/refresh', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { refreshToken } = refreshTokenSchema.parse(request.body);
+      const tokens = await rotateRefreshToken(fastify.jwt, refreshToken, request.headers['user-agent']);
+
+      return reply.send({
+        success: true,
+        data: tokens,
+      });
+    } catch (error) {
+      if (error instanceof AuthTokenError) {
+        return reply.status(error.statusCode).send({
+          success: false,
+          error: error.message,
+        });
+      }
+      if (error instanceof Error && error.name === 'ZodError') {
+        return reply.status(400).send({
+          success: false,
+          error: '입력값이 올바르지 않습니다.',
+          details: error,
+        });
+      }
+      console.error('Refresh token error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: '서버 오류가 발생했습니다.',
+      });
+    }
+  });
+
+  /**
+   * POST /api/auth/logout
+   * 로그아웃 (이 기기): 리프레시 토큰 폐기, 액세스 토큰은 짧은 만료 시간 후 자연 소멸
+   */
+  fastify.post('/logout', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { refreshToken } = refreshTokenSchema.parse(request.body);
+      await revokeRefreshToken(refreshToken);
+
+      return reply.send({
+        success: true,
+        message: '로그아웃되었습니다.',
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ZodError') {
+        return reply.status(400).send({
+          success: false,
+          error: '입력값이 올바르지 않습니다.',
+          details: error,
+        });
+      }
+      console.error('Logout error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: '서버 오류가 발생했습니다.',
+      });
+    }
+  });
+
+  /**
+   * POST /api/auth/logout-all
+   * 모든 기기 로그아웃: 리프레시 토큰 전체 폐기 + 발급된 액세스 토큰 즉시 무효화
+   */
+  fastify.post('/logout-all', {
+    preHandler: [fastify.authenticate],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { userId } = request.user;
+      await revokeAllSessions(userId);
+
+      return reply.send({
+        success: true,
+        message: '모든 기기에서 로그아웃되었습니다.',
+      });
+    } catch (error) {
+      console.error('Logout all error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: '서버 오류가 발생했습니다.',
+      });
+    }
+  });
+
+  /**
+   * POST /api/auth/verify-email
+   * 이메일 인증: 메일로 받은 코드 확인
+   */
+  fastify.post('/verify-email', {
+    preHandler: [fastify.rateLimit('auth')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { email, code } = verifyEmailSchema.parse(request.body);
+      await verifyEmail(email, code);
+
+      return reply.send({
+        success: true,
+        message: '이메일 인증이 완료되었습니다.',
+      });
+    } catch (error) {
+      return sendAccountError(reply, error, 'Verify email');
+    }
+  });
+
+  /**
+   * POST /api/auth/verify-email/resend
+   * 인증 메일 재발송 (새 코드 발급, 이전 코드는 무효)
+   */
+  fastify.post('/verify-email/resend', {
+    preHandler: [fastify.authenticate, fastify.rateLimit('auth')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { userId } = request.user;
+      await resendVerificationEmail(userId);
+
+      return reply.send({
+        success: true,
+        message: '인증 메일을 다시 보냈습니다.',
+      });
+    } catch (error) {
+      return sendAccountError(reply, error, 'Resend verification');
+    }
+  });
+
+  /**
+   * POST /api/auth/password/forgot
+   * 비밀번호 재설정 코드 요청 (가입 여부와 관계없이 같은 응답)
+   */
+  fastify.post('/password/forgot', {
+    preHandler: [fastify.rateLimit('auth')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { email } = forgotPasswordSchema.parse(request.body);
+      await requestPasswordReset(email);
+
+      return reply.send({
+        success: true,
+        message: '가입된 이메일이라면 재설정 코드를 보냈습니다.',
+      });
+    } catch (error) {
+      return sendAccountError(reply, error, 'Forgot password');
+    }
+  });
+
+  /**
+   * POST /api/auth/password/reset
+   * 비밀번호 재설정: 코드 확인 후 새 비밀번호 저장, 모든 기기 로그아웃
+   */
+  fastify.post('/password/reset', {
+    preHandler: [fastify.rateLimit('auth')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { email, code, newPassword } = resetPasswordSchema.parse(request.body);
+      await resetPassword(email, code, newPassword);
+
+      return reply.send({
+        success: true,
+        message: '비밀번호가 변경되었습니다. 새 비밀번호로 로그인해주세요.',
+      });
+    } catch (error) {
+      return sendAccountError(reply, error, 'Reset password');
+    }
+  });
+
   /**
    * GET /api/auth/me
    * 현재 로그인한 유저 정보 조회
@@ -231,7 +520,11 @@ export async function authRoutes(fastify: FastifyInstance) {
           id: true,
           email: true,
           nickname: true,
+          role: true,
           introViewed: true,
+          emailVerifiedAt: true,
+          isGuest: true,
+          hasPassword: true,
           createdAt: true,
         },
       });
@@ -257,7 +550,7 @@ export async function authRoutes(fastify: FastifyInstance) {
       return reply.send({
         success: true,
         data: {
-          user,
+          user: { ...user, emailVerified: !!user.emailVerifiedAt },
           hasActiveSession: !!activeSession,
           activeSession,
         },
@@ -270,4 +563,91 @@ export async function authRoutes(fastify: FastifyInstance) {
       });
     }
   });
+
+  /**
+   * PATCH /api/auth/me
+   * 프로필 수정 (닉네임/이메일): 이메일을 바꾸려면 currentPassword 확인, 바꾸면 다시 인증 필요
+   */
+  fastify.patch('/me', {
+    preHandler: [fastify.authenticate, fastify.rateLimit('auth')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { userId } = request.user;
+      const changes = updateProfileSchema.parse(request.body);
+      const user = await updateProfile(userId, changes);
+
+      return reply.send({
+        success: true,
+        data: { user },
+      });
+    } catch (error) {
+      return sendAccountError(reply, error, 'Update profile');
+    }
+  });
+
+  /**
+   * POST /api/auth/password
+   * 비밀번호 변경: 현재 비밀번호 확인 후 변경, 다른 기기는 로그아웃 (이 기기는 새 토큰 발급)
+   * - 소셜 로그인으로 가입해 비밀번호가 없으면(hasPassword: false) currentPassword 없이 설정
+   */
+  fastify.post('/password', {
+    preHandler: [fastify.authenticate, fastify.rateLimit('auth')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { userId } = request.user;
+      const { currentPassword, newPassword } = changePasswordSchema.parse(request.body);
+      const user = await changePassword(userId, currentPassword, newPassword);
+      const tokens = await issueTokens(fastify.jwt, user, request.headers['user-agent']);
+
+      return reply.send({
+        success: true,
+        data: tokens,
+      });
+    } catch (error) {
+      return sendAccountError(reply, error, 'Change password');
+    }
+  });
+
+  /**
+   * GET /api/auth/me/export
+   * 내 데이터 내보내기 (JSON 파일): 프로필, 항해 기록/로그, 레이스·클래스 참가 기록
+   */
+  fastify.get('/me/export', {
+    preHandler: [fastify.authenticate],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { userId } = request.user;
+      const data = await exportAccountData(userId);
+
+      return reply
+        .header('Content-Disposition', `attachment; filename="doge-city-account-${userId}.json"`)
+        .send({
+          success: true,
+          data,
+        });
+    } catch (error) {
+      return sendAccountError(reply, error, 'Export account');
+    }
+  });
+
+  /**
+   * DELETE /api/auth/me
+   * 회원 탈퇴: 비밀번호 확인 후 계정과 모든 기록 삭제 (되돌릴 수 없음, 게스트는 본문 없이 요청 가능)
+   */
+  fastify.delete('/me', {
+    preHandler: [fastify.authenticate, fastify.rateLimit('auth')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { userId } = request.user;
+      const { password } = deleteAccountSchema.parse(request.body ?? {});
+      await deleteAccount(userId, password);
+
+      return reply.send({
+        success: true,
+        message: '계정이 삭제되었습니다.',
+      });
+    } catch (error) {
+      return sendAccountError(reply, error, 'Delete account');
+    }
+  });
 }
@@ -0,0 +1,180 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { createClassroomSchema, joinClassroomSchema } from '../schemas/index.js';
+import { verifySocketToken } from '../middleware/auth.js';
+import { sendTo, subscribe } from '../lib/realtime.js';
+import {
+  buildDashboard,
+  classroomChannel,
+  ClassroomError,
+  createClassroom,
+  getTeacherClassroom,
+  joinClassroom,
+  leaveClassroom,
+  listClassrooms,
+  toDashboardCsv,
+} from '../lib/classroom.js';
+
+type ClassroomParams = { Params: { code: string } };
+
+/**
+ * 클래스 라우트 공통 에러 응답
+ */
+function sendClassroomError(reply: FastifyReply, error: unknown, label: string) {
+  if (error instanceof ClassroomError) {
+    return reply.status(error.statusCode).send({
+      success: false,
+      error: error.message,
+    });
+  }
+  if (error instanceof Error && error.name === 'ZodError') {
+    return reply.status(400).send({
+      success: false,
+      error: '입력값이 올바르지 않습니다.',
+      details: error,
+    });
+  }
+  console.error(`${label} error:`, error);
+  return reply.status(500).send({
+    success: false,
+    error: '서버 오류가 발생했습니다.',
+  });
+}
+
+export async function classroomRoutes(fastify: FastifyInstance) {
+  /**
+   * GET /api/classrooms
+   * 내 클래스 목록 (운영 중인 클래스 + 참가한 클래스, 교사 권한 여부)
+   */
+  fastify.get('/', { preHandler: [fastify.authenticate] }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { userId } = request.user;
+      return reply.send({
+        success: true,
+        data: await listClassrooms(userId),
+      });
+    } catch (error) {
+      return sendClassroomError(reply, error, 'List classrooms');
+    }
+  });
+
+  /**
+   * POST /api/classrooms
+   * 클래스 생성 (교사 전용): 참가 코드를 발급
+   */
+  fastify.post('/', {
+    preHandler: [fastify.authenticate, fastify.requireTeacher],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { userId } = request.user;
+      const { name } = createClassroomSchema.parse(request.body);
+      const classroom = await createClassroom(userId, name);
+
+      return reply.status(201).send({
+        success: true,
+        data: { classroom },
+      });
+    } catch (error) {
+      return sendClassroomError(reply, error, 'Create classroom');
+    }
+  });
+
+  /**
+   * POST /api/classrooms/join
+   * 참가 코드로 클래스 입장
+   */
+  fastify.post('/join', { preHandler: [fastify.authenticate] }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { userId } = request.user;
+      const { code } = joinClassroomSchema.parse(request.body);
+      const classroom = await joinClassroom(code, userId);
+
+      return reply.send({
+        success: true,
+        data: { classroom },
+      });
+    } catch (error) {
+      return sendClassroomError(reply, error, 'Join classroom');
+    }
+  });
+
+  /**
+   * POST /api/classrooms/:code/leave
+   * 클래스 나가기
+   */
+  fastify.post<ClassroomParams>('/:code/leave', { preHandler: [fastify.authenticate] }, async (request, reply) => {
+    try {
+      const { userId } = request.user;
+      await leaveClassroom(request.params.code, userId);
+
+      return reply.send({
+        success: true,
+        message: '클래스에서 나왔습니다.',
+      });
+    } catch (error) {
+      return sendClassroomError(reply, error, 'Leave classroom');
+    }
+  });
+
+  /**
+   * GET /api/classrooms/:code/dashboard
+   * 교사 대시보드: 멤버별 현재 라운드/선택/정답률, 라운드별 정답률, 투자 성향 분포
+   */
+  fastify.get<ClassroomParams>('/:code/dashboard', { preHandler: [fastify.authenticate] }, async (request, reply) => {
+    try {
+      const { userId } = request.user;
+      const classroom = await getTeacherClassroom(request.params.code, userId);
+
+      return reply.send({
+        success: true,
+        data: { dashboard: await buildDashboard(classroom) },
+      });
+    } catch (error) {
+      return sendClassroomError(reply, error, 'Classroom dashboard');
+    }
+  });
+
+  /**
+   * GET /api/classrooms/:code/export
+   * 대시보드 CSV 내보내기 (멤버 1명당 1행)
+   */
+  fastify.get<ClassroomParams>('/:code/export', { preHandler: [fastify.authenticate] }, async (request, reply) => {
+    try {
+      const { userId } = request.user;
+      const classroom = await getTeacherClassroom(request.params.code, userId);
+      const csv = toDashboardCsv(await buildDashboard(classroom));
+
+      return reply
+        .header('Content-Type', 'text/csv; charset=utf-8')
+        .header('Content-Disposition', `attachment; filename="classroom-${classroom.code}.csv"`)
+        .send(csv);
+    } catch (error) {
+      return sendClassroomError(reply, error, 'Export classroom');
+    }
+  });
+
+  /**
+   * GET /api/classrooms/:code/ws (WebSocket)
+   * 교사 대시보드 실시간 채널: 접속 직후 snapshot, 이후 멤버 상태가 바뀔 때마다 dashboard 푸시
+   * - 인증은 ?token= 또는 Authorization 헤더
+   */
+  fastify.get<ClassroomParams & { Querystring: { token?: string } }>('/:code/ws', { websocket: true }, async (socket, request) => {
+    const user = await verifySocketToken(request);
+    if (!user) {
+      socket.close(4401, 'Unauthorized');
+      return;
+    }
+
+    try {
+      const classroom = await getTeacherClassroom(request.params.code, user.userId);
+      subscribe(classroomChannel(classroom.code), socket);
+      sendTo(socket, 'snapshot', await buildDashboard(classroom));
+    } catch (error) {
+      if (error instanceof ClassroomError) {
+        socket.close(error.statusCode === 404 ? 4404 : 4403, error.message);
+        return;
+      }
+      console.error('Classroom socket error:', error);
+      socket.close(1011, 'Server error');
+    }
+  });
+}
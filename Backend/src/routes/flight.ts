@@ -1,7 +1,8 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { GameEvent, Prisma, SessionStatus } from '@prisma/client';
 import prisma from '../lib/prisma.js';
 import { config } from '../config/index.js';
-import { startFlightSchema, syncFlightSchema } from '../schemas/index.js';
+import { startFlightSchema, syncFlightSchema, endRoundSchema } from '../schemas/index.js';
 import {
   calculateStabilityChange,
   isStableZone,
@@ -13,11 +14,83 @@ import {
   generateAdvice,
   getInvestingStyleKorean,
   calculateEventThrust,
+  toEventData,
   calculateEventBasedFuelConsumption,
   calculateEventBasedHullDamage,
   judgeUserChoice,
+  gradeThrottle,
   calculateFinalEnding,
+  gradedAnswers,
+  calculateSessionScore,
 } from '../utils/gameLogic.js';
+import { generateSeed } from '../utils/random.js';
+import { findScenario, toScenarioSummary } from '../lib/scenario.js';
+import { isRouteSymbol } from '../lib/symbolCatalogue.js';
+import { publishRaceProgress } from '../lib/race.js';
+import { publishFlightState, publishGameOver, publishTwists, TelemetryReason } from '../lib/flightTelemetry.js';
+import { buildChartReveal, getNowIndex, loadRoundChart, sliceRoundChart } from '../lib/chartData.js';
+import { assertRoundTransition, RoundPhaseError, ROUND_TRANSITIONS } from '../utils/roundPhase.js';
+
+/**
+ * 이벤트를 뉴스 3종 세트로 구조화 (반전 결과는 숨김)
+ */
+function formatNewsEvent(event: GameEvent) {
+  return {
+    id: event.id,
+    round: event.round,
+    isGlobal: event.isGlobal,
+    
+    // 뉴스 3종 세트
+    news: {
+      title: '📡 심우주 센서',
+      content: event.newsTitle.replace('📡 [심우주 센서] ', ''),
+    },
+    navigator: {
+      title: '🤖 AI 네비게이터',
+      content: event.newsDetail.replace('🤖 [AI 네비게이터] ', ''),
+    },
+    log: {
+      title: '📜 항해 기록',
+      content: event.newsLog.replace('📜 [항해 기록] ', ''),
+    },
+    
+    // 기존 필드도 유지 (호환성)
+    newsTitle: event.newsTitle,
+    newsDetail: event.newsDetail,
+    newsLog: event.newsLog,
+    // 반전 여부나 실제 결과는 공개하지 않음
+  };
+}
+
+// 낙관적 잠금 실패 (다른 요청이 먼저 세션 상태를 바꿈)
+class RoundConflictError extends Error {
+  constructor() {
+    super('Round state changed concurrently');
+    this.name = 'RoundConflictError';
+  }
+}
+
+/**
+ * 같은 키로 이미 처리된 라운드 제출 결과 조회 (재시도 응답용)
+ */
+async function findStoredRoundResult(sessionId: number, idempotencyKey: string) {
+  const log = await prisma.flightLog.findUnique({
+    where: { sessionId_idempotencyKey: { sessionId, idempotencyKey } },
+    select: { result: true },
+  });
+  if (!log?.result) return null;
+  return { ...(log.result as Prisma.JsonObject), replayed: true };
+}
+
+/**
+ * 계기판 채널에 세션 상태 푸시 (실패해도 요청 결과에는 영향 없음)
+ * - followUp: 상태 다음에 이어서 보낼 이벤트 (반전 공개, 항해 종료)
+ */
+function pushFlightState(userId: number, sessionId: number | null, reason: TelemetryReason, followUp?: () => void) {
+  publishFlightState(userId, sessionId, reason)
+    .then(followUp)
+    .catch((error) => console.error('Flight telemetry push error:', error));
+}
 
 export async function flightRoutes(fastify: FastifyInstance) {
   // 모든 라우트에 인증 적용
@@ -55,6 +128,7 @@ export async function flightRoutes(fastify: FastifyInstance) {
         },
         include: {
           rocket: true,
+          scenario: true,
           _count: {
             select: { logs: true },
           },
@@ -86,6 +160,10 @@ export async function flightRoutes(fastify: FastifyInstance) {
             currentHull: activeSession.currentHull,
             distance: activeSession.distance,
             symbol: activeSession.symbol,
+            seed: activeSession.seed,
+            scenario: toScenarioSummary(activeSession.scenario),
+            currentRound: activeSession.currentRound,
+            roundPhase: activeSession.roundPhase,
             progress: (activeSession.distance / config.game.targetDistance) * 100,
             logCount: activeSession._count.logs,
           } : null,
@@ -122,6 +200,8 @@ export async function flightRoutes(fastify: FastifyInstance) {
       },
     });
 
+    pushFlightState(userId, null, 'reset');
+
     return { success: true, message: "비행 데이터가 초기화되었습니다." };
   });
 
@@ -159,7 +239,8 @@ export async function flightRoutes(fastify: FastifyInstance) {
     try {
       const { userId } = request.user;
       const body = startFlightSchema.parse(request.body);
-      const { rocketId, symbol } = body;
+      const { rocketId, symbol, scenarioId } = body;
+      const seed = body.seed ?? generateSeed();
 
       // 이미 진행 중인 세션이 있는지 확인
       const existingSession = await prisma.flightSession.findFirst({
@@ -189,12 +270,32 @@ export async function flightRoutes(fastify: FastifyInstance) {
         });
       }
 
+      // 항로 확인 (로켓과 다른 종목의 항로도 선택 가능)
+      if (!(await isRouteSymbol(symbol))) {
+        return reply.status(400).send({
+          success: false,
+          error: '지원하지 않는 항로입니다.',
+        });
+      }
+
+      // 시나리오 확인 (미지정 시 기본 시나리오)
+      const scenario = await findScenario(scenarioId);
+
+      if (!scenario || !scenario.isActive) {
+        return reply.status(404).send({
+          success: false,
+          error: '선택한 시나리오를 찾을 수 없습니다.',
+        });
+      }
+
       // 새 세션 생성
       const session = await prisma.flightSession.create({
         data: {
           userId,
           rocketId,
+          scenarioId: scenario.id,
           symbol,
+          seed,
           currentFuel: config.game.initialFuel,
           currentHull: config.game.initialHull,
           distance: 0,
@@ -205,6 +306,8 @@ export async function flightRoutes(fastify: FastifyInstance) {
         },
       });
 
+      pushFlightState(userId, session.id, 'start');
+
       return reply.status(201).send({
         success: true,
         data: {
@@ -215,6 +318,8 @@ export async function flightRoutes(fastify: FastifyInstance) {
             currentHull: session.currentHull,
             distance: session.distance,
             symbol: session.symbol,
+            seed: session.seed,
+            scenario: toScenarioSummary(scenario),
             targetDistance: config.game.targetDistance,
           },
           message: `${rocket.name}호로 ${symbol} 항로 항해를 시작합니다!`,
@@ -264,6 +369,9 @@ export async function flightRoutes(fastify: FastifyInstance) {
         });
       }
 
+      // 라운드 플레이 중에만 동기화 가능
+      assertRoundTransition(session, 'sync');
+
       const rocket = {
         boostStat: session.rocket.boost,
         armorStat: session.rocket.armor,
@@ -319,6 +427,7 @@ export async function flightRoutes(fastify: FastifyInstance) {
           currentHull: newHull,
           distance: Math.min(newDistance, config.game.targetDistance),
           totalFuelUsed: { increment: fuelConsumed },
+          version: { increment: 1 }, // 진행 중인 라운드 제출과 겹치면 라운드 쪽이 재시도
           highStabilityThrustCount: { increment: highStabilityThrustIncrement },
           lowStabilityThrustCount: { increment: lowStabilityThrustIncrement },
           status: newStatus,
@@ -337,6 +446,17 @@ export async function flightRoutes(fastify: FastifyInstance) {
         },
       });
 
+      pushFlightState(userId, session.id, 'sync', () => {
+        if (!isGameOver) return;
+        publishGameOver(userId, {
+          sessionId: session.id,
+          status: newStatus,
+          reason: gameOverReason,
+          finalEnding: updatedSession.finalEnding,
+          score: updatedSession.score,
+        });
+      });
+
       return reply.send({
         success: true,
         data: {
@@ -361,6 +481,9 @@ export async function flightRoutes(fastify: FastifyInstance) {
         },
       });
     } catch (error) {
+      if (error instanceof RoundPhaseError) {
+        return reply.status(error.statusCode).send(error.toResponse());
+      }
       if (error instanceof Error && error.name === 'ZodError') {
         return reply.status(400).send({
           success: false,
@@ -393,6 +516,7 @@ export async function flightRoutes(fastify: FastifyInstance) {
         orderBy: { updatedAt: 'desc' },
         include: {
           rocket: true,
+          scenario: true,
           logs: {
             orderBy: { timestamp: 'asc' },
           },
@@ -406,6 +530,9 @@ export async function flightRoutes(fastify: FastifyInstance) {
         });
       }
 
+      // 라운드 제출이 진행 중(PLAYING)이면 판정 불가
+      assertRoundTransition(session, 'ending');
+
       // 진행 중이면 강제 종료
       if (session.status === 'IN_PROGRESS') {
         const reachedTarget = session.distance >= config.game.targetDistance;
@@ -440,17 +567,32 @@ export async function flightRoutes(fastify: FastifyInstance) {
       // 조언 생성
       const advice = generateAdvice(investingStyle, tier);
 
-      // 세션 결과 업데이트
-      await prisma.flightSession.update({
+      // 세션 결과 업데이트 (강제 종료된 세션은 여기서 리더보드 점수 기록)
+      const judged = await prisma.flightSession.update({
         where: { id: session.id },
         data: {
           tier,
           investingStyle,
           advice,
           status: tier === 'F' ? 'FAILED' : 'COMPLETED',
+          ...(session.score === null && {
+            score: calculateSessionScore(session, session.scenario.totalRounds),
+            completedAt: session.completedAt ?? new Date(),
+          }),
         },
       });
 
+      pushFlightState(userId, session.id, 'ending', () => {
+        if (session.status !== 'IN_PROGRESS') return;
+        publishGameOver(userId, {
+          sessionId: session.id,
+          status: judged.status,
+          reason: '착륙 판정으로 항해를 마쳤습니다.',
+          finalEnding: judged.finalEnding,
+          score: judged.score,
+        });
+      });
+
       // 티어별 마을 상태
       const villageStatus = {
         S: { name: '메가 도지 시티', description: '황금빛 도시가 세워졌습니다!', emoji: '🏙️✨' },
@@ -503,6 +645,9 @@ export async function flightRoutes(fastify: FastifyInstance) {
         },
       });
     } catch (error) {
+      if (error instanceof RoundPhaseError) {
+        return reply.status(error.statusCode).send(error.toResponse());
+      }
       console.error('Ending error:', error);
       return reply.status(500).send({
         success: false,
@@ -530,6 +675,7 @@ export async function flightRoutes(fastify: FastifyInstance) {
             orderBy: { timestamp: 'asc' },
           },
           rocket: true,
+          scenario: true,
         },
       });
 
@@ -547,6 +693,8 @@ export async function flightRoutes(fastify: FastifyInstance) {
             id: session.id,
             rocket: session.rocket.name,
             symbol: session.symbol,
+            seed: session.seed,
+            scenario: toScenarioSummary(session.scenario),
             status: session.status,
             tier: session.tier,
           },
@@ -562,6 +710,185 @@ export async function flightRoutes(fastify: FastifyInstance) {
     }
   });
 
+  /**
+   * GET /api/flight/replay/:sessionId
+   * 항해 리플레이: 라운드별 차트 구간, 노출된 뉴스, 유저 선택, 공개된 반전, 자원 변화를 재구성
+   * - 본인 세션 또는 관리자만 조회 가능
+   */
+  fastify.get('/replay/:sessionId', async (request: FastifyRequest<{ Params: { sessionId: string } }>, reply: FastifyReply) => {
+    try {
+      const { userId } = request.user;
+      const sessionId = parseInt(request.params.sessionId, 10);
+
+      const [session, viewer] = await Promise.all([
+        prisma.flightSession.findUnique({
+          where: { id: sessionId },
+          include: {
+            logs: {
+              orderBy: { timestamp: 'asc' },
+            },
+            rocket: true,
+            scenario: true,
+          },
+        }),
+        prisma.user.findUnique({
+          where: { id: userId },
+          select: { role: true },
+        }),
+      ]);
+
+      if (!session || (session.userId !== userId && viewer?.role !== 'ADMIN')) {
+        return reply.status(404).send({
+          success: false,
+          error: '항해 기록을 찾을 수 없습니다.',
+        });
+      }
+
+      // 라운드 판정 로그만 리플레이 대상 (sync 로그는 자원 추적에만 사용)
+      const roundLogs = session.logs.filter(log => log.isCorrectChoice !== null);
+      const rounds = [...new Set(roundLogs.map(log => log.round))];
+
+      // 노출 이벤트 조회 (eventIds가 없는 이전 로그는 라운드/로켓 기준으로 복원)
+      const events = await prisma.gameEvent.findMany({
+        where: {
+          scenarioId: session.scenarioId,
+          round: { in: rounds },
+          OR: [
+            { isGlobal: true },
+            { targetRocketId: session.rocketId },
+            { id: { in: roundLogs.flatMap(log => log.eventIds) } },
+          ],
+        },
+        orderBy: [{ isGlobal: 'desc' }, { id: 'asc' }],
+      });
+      const eventsById = new Map(events.map(event => [event.id, event]));
+
+      const rocket = {
+        boostStat: session.rocket.boost,
+        armorStat: session.rocket.armor,
+        fuelEcoStat: session.rocket.fuelEco,
+      };
+
+      // 자원 상태는 초기값에서 시작해 로그 순서대로 추적
+      let state = {
+        fuel: config.game.initialFuel,
+        hull: config.game.initialHull,
+        distance: 0,
+      };
+      const stateBefore = new Map<number, typeof state>();
+      for (const log of session.logs) {
+        stateBefore.set(log.id, state);
+        state = {
+          fuel: log.fuelAfter ?? state.fuel,
+          hull: log.hullAfter ?? state.hull,
+          distance: log.distanceAfter ?? state.distance,
+        };
+      }
+
+      const timeline = await Promise.all(roundLogs.map(async (log) => {
+        const roundEvents = log.eventIds.length > 0
+          ? log.eventIds.flatMap(id => eventsById.get(id) ?? [])
+          : events.filter(event => event.round === log.round && (event.isGlobal || event.targetRocketId === session.rocketId));
+
+        // 기록된 결과 설명 우선, 없으면 현재 이벤트 설정으로 재계산
+        const descriptions = log.eventIds.length > 0 ? (log.eventDescription ?? '').split(' | ') : [];
+
+        const chart = await loadRoundChart({
+          symbol: session.symbol,
+          round: log.round,
+          seed: session.seed,
+          scenarioId: session.scenarioId,
+        });
+
+        const before = stateBefore.get(log.id)!;
+        const after = {
+          fuel: log.fuelAfter ?? before.fuel,
+          hull: log.hullAfter ?? before.hull,
+          distance: log.distanceAfter ?? before.distance,
+        };
+
+        return {
+          round: log.round,
+          period: chart ? {
+            title: chart.period.title,
+            startDate: chart.period.startDate,
+            endDate: chart.period.endDate,
+            trend: chart.period.trend,
+          } : null,
+          chart: chart ? {
+            timestamps: chart.gravityData.timestamps,
+            values: chart.gravityData.values,
+            stability: chart.gravityData.stability,
+            provider: chart.provider,
+            isMock: chart.isMock,
+          } : null,
+          news: roundEvents.map(formatNewsEvent),
+          choice: {
+            fuelInput: log.fuelInput,
+            yValue: log.yValue,
+            userChoseFuel: log.userChoseFuel,
+            isCorrectChoice: log.isCorrectChoice,
+            idealFuelInput: log.idealFuelInput,
+            partialCredit: log.partialCredit,
+          },
+          reveal: {
+            isPositiveEvent: log.isPositiveEvent,
+            thrustMultiplier: log.thrustMultiplier,
+            events: roundEvents.map((event, index) => ({
+              eventId: event.id,
+              isGlobal: event.isGlobal,
+              isTwist: event.isTwist,
+              twistType: event.twistType,
+              description: descriptions[index]
+                ?? calculateEventThrust(toEventData(event), rocket, session.rocketId).description,
+            })),
+          },
+          resources: {
+            before,
+            after,
+            delta: {
+              fuel: after.fuel - before.fuel,
+              hull: after.hull - before.hull,
+              distance: after.distance - before.distance,
+            },
+          },
+          timestamp: log.timestamp,
+        };
+      }));
+
+      return reply.send({
+        success: true,
+        data: {
+          session: {
+            id: session.id,
+            rocket: { id: session.rocket.id, name: session.rocket.name },
+            symbol: session.symbol,
+            seed: session.seed,
+            scenario: toScenarioSummary(session.scenario),
+            status: session.status,
+            correctAnswers: session.correctAnswers,
+            totalCredit: session.totalCredit,
+            score: session.score,
+            tier: session.tier,
+            finalEnding: session.finalEnding,
+            initial: {
+              fuel: config.game.initialFuel,
+              hull: config.game.initialHull,
+              distance: 0,
+            },
+          },
+          rounds: timeline,
+        },
+      });
+    } catch (error) {
+      console.error('Get replay error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: '서버 오류가 발생했습니다.',
+      });
+    }
+  });
+
   // ============================================
   // 라운드 기반 이벤트 시스템 API
   // ============================================
@@ -582,6 +909,7 @@ export async function flightRoutes(fastify: FastifyInstance) {
         },
         include: {
           rocket: true,
+          scenario: true,
         },
       });
 
@@ -594,9 +922,13 @@ export async function flightRoutes(fastify: FastifyInstance) {
 
       const currentRound = session.currentRound;
 
+      // 결과가 확정된 라운드(RESULT)의 뉴스는 다시 열 수 없음 (/round/next 필요)
+      const phase = assertRoundTransition(session, 'news');
+
       // 현재 라운드의 이벤트 조회 (Global + 해당 로켓 Specific)
       const events = await prisma.gameEvent.findMany({
         where: {
+          scenarioId: session.scenarioId,
           round: currentRound,
           OR: [
             { isGlobal: true },
@@ -614,48 +946,35 @@ export async function flightRoutes(fastify: FastifyInstance) {
       }
 
       // 뉴스 3종 세트로 구조화 (반전 결과는 숨김)
-      const newsData = events.map(event => ({
-        id: event.id,
-        round: event.round,
-        isGlobal: event.isGlobal,
-        
-        // 뉴스 3종 세트
-        news: {
-          title: '📡 심우주 센서',
-          content: event.newsTitle.replace('📡 [심우주 센서] ', ''),
-        },
-        navigator: {
-          title: '🤖 AI 네비게이터',
-          content: event.newsDetail.replace('🤖 [AI 네비게이터] ', ''),
-        },
-        log: {
-          title: '📜 항해 기록',
-          content: event.newsLog.replace('📜 [항해 기록] ', ''),
-        },
-        
-        // 기존 필드도 유지 (호환성)
-        newsTitle: event.newsTitle,
-        newsDetail: event.newsDetail,
-        newsLog: event.newsLog,
-        // 반전 여부나 실제 결과는 공개하지 않음
-      }));
+      const newsData = events.map(formatNewsEvent);
 
-      // 세션 상태를 NEWS로 업데이트
-      await prisma.flightSession.update({
-        where: { id: session.id },
-        data: { roundPhase: 'NEWS' },
+      // 현재 라운드의 역사적 구간 정보
+      const period = await prisma.scenarioRound.findUnique({
+        where: {
+          scenarioId_round: { scenarioId: session.scenarioId, round: currentRound },
+        },
       });
 
       return reply.send({
         success: true,
         data: {
           currentRound,
-          totalRounds: 6,
-          phase: 'NEWS',
+          totalRounds: session.scenario.totalRounds,
+          phase,
+          scenario: toScenarioSummary(session.scenario),
+          period: period ? {
+            title: period.title,
+            startDate: period.startDate,
+            endDate: period.endDate,
+            trend: period.trend,
+          } : null,
           events: newsData,
         },
       });
     } catch (error) {
+      if (error instanceof RoundPhaseError) {
+        return reply.status(error.statusCode).send(error.toResponse());
+      }
       console.error('Get round news error:', error);
       return reply.status(500).send({
         success: false,
@@ -664,6 +983,79 @@ export async function flightRoutes(fastify: FastifyInstance) {
     }
   });
 
+  /**
+   * GET /api/flight/round/chart
+   * 현재 라운드 차트 조회: 결과 확정(RESULT) 전에는 결정 시점(nowIndex)까지만 공개
+   */
+  fastify.get('/round/chart', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { userId } = request.user;
+
+      const session = await prisma.flightSession.findFirst({
+        where: {
+          userId,
+          status: 'IN_PROGRESS',
+        },
+      });
+
+      if (!session) {
+        return reply.status(404).send({
+          success: false,
+          error: '진행 중인 항해가 없습니다.',
+        });
+      }
+
+      const chart = await loadRoundChart({
+        symbol: session.symbol,
+        round: session.currentRound,
+        seed: session.seed,
+        scenarioId: session.scenarioId,
+      });
+      if (!chart) {
+        return reply.status(404).send({
+          success: false,
+          error: `시나리오에 라운드 ${session.currentRound} 구간이 없습니다.`,
+        });
+      }
+
+      const totalPoints = chart.chartData.length;
+      const nowIndex = getNowIndex(totalPoints);
+      const revealed = session.roundPhase === 'RESULT';
+      const { chartData, gravityData } = sliceRoundChart(chart, revealed ? totalPoints : nowIndex + 1);
+
+      return reply.send({
+        success: true,
+        data: {
+          symbol: session.symbol,
+          round: session.currentRound,
+          phase: session.roundPhase,
+          chartData,
+          gravityData,
+          reveal: {
+            nowIndex,     // 결정 시점 (라운드 진행 중 마지막으로 보이는 인덱스)
+            totalPoints,  // 라운드 전체 구간 길이
+            revealed,     // 결정 시점 이후 구간 공개 여부
+          },
+          meta: {
+            dataPoints: chartData.length,
+            startDate: chart.period.startDate,
+            endDate: chart.period.endDate,
+            scenarioId: chart.period.scenarioId,
+            seed: session.seed,
+            provider: chart.provider,
+            isMock: chart.isMock,
+          },
+        },
+      });
+    } catch (error) {
+      console.error('Get round chart error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: '서버 오류가 발생했습니다.',
+      });
+    }
+  });
+
   /**
    * POST /api/flight/round/start
    * 라운드 플레이 시작: 뉴스를 보고 플레이 단계로 전환
@@ -689,17 +1081,32 @@ export async function flightRoutes(fastify: FastifyInstance) {
         });
       }
 
-      // PLAYING 상태로 전환
-      await prisma.flightSession.update({
-        where: { id: session.id },
-        data: { roundPhase: 'PLAYING' },
+      const nextPhase = assertRoundTransition(session, 'start');
+
+      // PLAYING 상태로 전환 (읽은 시점의 버전/단계와 같을 때만)
+      const updated = await prisma.flightSession.updateMany({
+        where: {
+          id: session.id,
+          version: session.version,
+          roundPhase: { in: ROUND_TRANSITIONS.start.from },
+        },
+        data: { roundPhase: nextPhase, version: { increment: 1 } },
       });
 
+      if (updated.count === 0) {
+        return reply.status(409).send({
+          success: false,
+          error: '라운드 상태가 변경되었습니다. 새로고침 후 다시 시도해주세요.',
+        });
+      }
+
+      pushFlightState(userId, session.id, 'round:start');
+
       return reply.send({
         success: true,
         data: {
           currentRound: session.currentRound,
-          phase: 'PLAYING',
+          phase: nextPhase,
           message: `라운드 ${session.currentRound} 플레이를 시작합니다.`,
           currentFuel: session.currentFuel,
           currentHull: session.currentHull,
@@ -707,6 +1114,9 @@ export async function flightRoutes(fastify: FastifyInstance) {
         },
       });
     } catch (error) {
+      if (error instanceof RoundPhaseError) {
+        return reply.status(error.statusCode).send(error.toResponse());
+      }
       console.error('Round start error:', error);
       return reply.status(500).send({
         success: false,
@@ -722,16 +1132,18 @@ export async function flightRoutes(fastify: FastifyInstance) {
   fastify.post('/round/end', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const { userId } = request.user;
-      const body = request.body as { fuelInput: number };
-      const fuelInput = body.fuelInput ?? 50;
+      const body = endRoundSchema.parse(request.body);
+      const { fuelInput, yValue } = body;
+      const headerKey = request.headers['idempotency-key'];
+      const clientKey = body.idempotencyKey ?? (typeof headerKey === 'string' ? headerKey : undefined);
 
+      // 가장 최근 세션 조회 (마지막 라운드 재시도는 이미 종료된 세션으로 들어옴)
       const session = await prisma.flightSession.findFirst({
-        where: {
-          userId,
-          status: 'IN_PROGRESS',
-        },
+        where: { userId },
+        orderBy: { id: 'desc' },
         include: {
           rocket: true,
+          scenario: true,
         },
       });
 
@@ -743,18 +1155,44 @@ export async function flightRoutes(fastify: FastifyInstance) {
       }
 
       const currentRound = session.currentRound;
+      const totalRounds = session.scenario.totalRounds;
+
+      // 키가 없으면 (세션, 라운드) 단위로 한 번만 반영
+      const idempotencyKey = clientKey ?? `round:${currentRound}`;
+
+      // 이미 처리된 제출이면 저장된 결과를 그대로 반환
+      const stored = await findStoredRoundResult(session.id, idempotencyKey);
+      if (stored) {
+        return reply.send({
+          success: true,
+          data: stored,
+        });
+      }
+
+      // 플레이 중(PLAYING)인 라운드만 종료 가능 (종료된 세션 포함 그 외 단계는 409)
+      const nextPhase = assertRoundTransition(session, 'end');
 
       // 현재 라운드의 이벤트 조회
       const events = await prisma.gameEvent.findMany({
         where: {
+          scenarioId: session.scenarioId,
           round: currentRound,
           OR: [
             { isGlobal: true },
             { targetRocketId: session.rocketId },
           ],
         },
+        orderBy: { isGlobal: 'desc' }, // 뉴스와 같은 순서
       });
 
+      // 이벤트 없이 판정하면 항상 호재 라운드가 되므로 뉴스와 같이 거절
+      if (events.length === 0) {
+        return reply.status(404).send({
+          success: false,
+          error: `라운드 ${currentRound}의 이벤트가 없습니다.`,
+        });
+      }
+
       // 로켓 스탯
       const rocket = {
         boostStat: session.rocket.boost,
@@ -764,19 +1202,7 @@ export async function flightRoutes(fastify: FastifyInstance) {
 
       // 이벤트별 결과 계산
       const eventResults = events.map(event => {
-        const eventData = {
-          round: event.round,
-          isGlobal: event.isGlobal,
-          thrustMod: event.thrustMod,
-          isTwist: event.isTwist,
-          twistType: event.twistType as 'NONE' | 'POSITIVE' | 'NEGATIVE',
-          globalType: event.globalType as 'BEAR_TRAP' | 'BULL_RUN' | 'BUBBLE_BURST' | 'NEUTRAL' | null,
-          affectedStat: event.affectedStat as 'boost' | 'armor' | 'fuelEco' | null,
-          statMultiplier: event.statMultiplier,
-          targetRocketId: event.targetRocketId,
-        };
-
-        const result = calculateEventThrust(eventData, rocket, session.rocketId);
+        const result = calculateEventThrust(toEventData(event), rocket, session.rocketId);
 
         return {
           eventId: event.id,
@@ -822,6 +1248,10 @@ export async function flightRoutes(fastify: FastifyInstance) {
       const choiceResult = judgeUserChoice(fuelInput, overallPositive);
       const isCorrect = choiceResult.isCorrectChoice;
 
+      // 📐 부분 점수: 투입량이 이벤트 강도에 얼마나 맞았는지
+      const grade = gradeThrottle(fuelInput, overallPositive, totalThrustMultiplier);
+      const newTotalCredit = session.totalCredit + grade.partialCredit;
+
       // 기본 계산
       const baseFuelConsumption = (fuelInput / 100) * 10; // 기본 연료 소모
       const baseDistance = (fuelInput / 100) * 20; // 기본 이동 거리
@@ -850,8 +1280,8 @@ export async function flightRoutes(fastify: FastifyInstance) {
       const newDistance = Math.min(config.game.targetDistance, session.distance + actualDistance);
       const newCorrectAnswers = session.correctAnswers + (isCorrect ? 1 : 0);
 
-      // 6라운드 종료 또는 게임 오버 체크
-      let newStatus = session.status;
+      // 마지막 라운드 종료 또는 게임 오버 체크
+      let newStatus: SessionStatus = session.status;
       let isGameOver = false;
       let gameOverReason = '';
       let finalEndingData = null;
@@ -862,96 +1292,205 @@ export async function flightRoutes(fastify: FastifyInstance) {
         isGameOver = true;
         gameOverReason = newFuel <= 0 ? '연료가 고갈되었습니다!' : '선체가 파괴되었습니다!';
       }
-      // 6라운드 완료 체크
-      else if (currentRound >= 6) {
+      // 마지막 라운드 완료 체크
+      else if (currentRound >= totalRounds) {
         newStatus = 'COMPLETED';
         isGameOver = true;
         gameOverReason = '모든 라운드를 완료했습니다!';
-        finalEndingData = calculateFinalEnding(newCorrectAnswers);
+        finalEndingData = calculateFinalEnding(
+          { correctAnswers: newCorrectAnswers, totalCredit: newTotalCredit },
+          session.scenario
+        );
       }
 
-      // 다음 라운드로 진행 또는 게임 종료
-      const nextRound = isGameOver ? currentRound : Math.min(6, currentRound + 1);
-      const nextPhase = isGameOver ? 'RESULT' : 'NEWS';
+      // 다음 라운드 이동은 /round/next에서 (여기서는 RESULT 단계로만 전환)
+      const nextRound = isGameOver ? currentRound : Math.min(totalRounds, currentRound + 1);
+
+      // 결정 시점 이후 차트 구간 (결과 화면 공개 애니메이션용, 차트를 못 불러와도 판정은 진행)
+      const chartReveal = await loadRoundChart({
+        symbol: session.symbol,
+        round: currentRound,
+        seed: session.seed,
+        scenarioId: session.scenarioId,
+      })
+        .then((chart) => (chart ? buildChartReveal(chart) : null))
+        .catch((error) => {
+          console.error('Round chart reveal error:', error);
+          return null;
+        });
 
-      // 세션 업데이트
-      await prisma.flightSession.update({
-        where: { id: session.id },
-        data: {
-          currentFuel: newFuel,
-          currentHull: newHull,
-          distance: newDistance,
-          currentRound: nextRound,
-          roundPhase: nextPhase,
-          totalFuelUsed: { increment: actualFuelConsumed },
-          correctAnswers: newCorrectAnswers,
-          status: newStatus,
-          ...(finalEndingData && { finalEnding: finalEndingData.ending }),
+      // 종료 시 리더보드 점수 기록
+      const score = isGameOver
+        ? calculateSessionScore({
+            correctAnswers: newCorrectAnswers,
+            totalCredit: newTotalCredit,
+            distance: newDistance,
+            currentFuel: newFuel,
+            currentHull: newHull,
+          }, totalRounds)
+        : null;
+
+      const resultData = {
+        currentRound,
+        phase: nextPhase,
+        
+        // 이벤트 결과 (반전 공개)
+        eventResults,
+        
+        // 🎯 정답 판정 결과
+        choiceResult: {
+          ...choiceResult,
+          ...grade,
+          fuelInput,
+          correctAnswersSoFar: newCorrectAnswers,
+          creditSoFar: Number(newTotalCredit.toFixed(2)),
+          totalRounds,
         },
-      });
+        
+        // 최종 계산 결과
+        totalThrustMultiplier,
+        actualFuelConsumed,
+        actualDistance,
+        actualHullDamage,
+        
+        // 현재 상태
+        currentFuel: newFuel,
+        currentHull: newHull,
+        distance: newDistance,
+        progress: (newDistance / config.game.targetDistance) * 100,
+        
+        // 다음 단계
+        nextRound,
+        isGameOver,
+        gameOverReason,
+        status: newStatus,
+        
+        // Final 엔딩 (게임 종료 시에만)
+        finalEnding: finalEndingData,
 
-      // 로그 기록 (정답 여부 포함)
-      const globalEvent = eventResults.find(e => e.isGlobal);
-      await prisma.flightLog.create({
-        data: {
+        // 결정 시점 이후 실제 차트 흐름
+        chartReveal,
+      };
+
+      try {
+        await prisma.$transaction(async (tx) => {
+          // 세션 업데이트 (읽은 시점의 버전/단계와 같을 때만)
+          const updated = await tx.flightSession.updateMany({
+            where: {
+              id: session.id,
+              version: session.version,
+              status: 'IN_PROGRESS',
+              roundPhase: { in: ROUND_TRANSITIONS.end.from },
+            },
+            data: {
+              currentFuel: newFuel,
+              currentHull: newHull,
+              distance: newDistance,
+              roundPhase: nextPhase,
+              version: { increment: 1 },
+              totalFuelUsed: { increment: actualFuelConsumed },
+              correctAnswers: newCorrectAnswers,
+              totalCredit: newTotalCredit,
+              status: newStatus,
+              ...(finalEndingData && { finalEnding: finalEndingData.ending }),
+              ...(score !== null && { score, completedAt: new Date() }),
+            },
+          });
+
+          if (updated.count === 0) {
+            throw new RoundConflictError();
+          }
+
+          // 로그 기록 (정답 여부 + 응답 스냅샷 포함)
+          const globalEvent = eventResults.find(e => e.isGlobal);
+          await tx.flightLog.create({
+            data: {
+              sessionId: session.id,
+              round: currentRound,
+              yValue: yValue ?? 0,
+              fuelInput,
+              fuelAfter: newFuel,
+              hullAfter: newHull,
+              distanceAfter: newDistance,
+              eventId: globalEvent?.eventId ?? null,
+              eventIds: eventResults.map(e => e.eventId),
+              thrustMultiplier: totalThrustMultiplier,
+              wasRevealed: true,
+              eventDescription: eventResults.map(r => r.description).join(' | '),
+              // 정답 판정 정보
+              isPositiveEvent: overallPositive,
+              userChoseFuel: choiceResult.userChoseFuel,
+              isCorrectChoice: isCorrect,
+              idealFuelInput: grade.idealFuelInput,
+              partialCredit: grade.partialCredit,
+              idempotencyKey,
+              result: resultData as unknown as Prisma.InputJsonValue,
+            },
+          });
+        });
+      } catch (error) {
+        const isDuplicate = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+        if (!(error instanceof RoundConflictError) && !isDuplicate) throw error;
+
+        // 동시에 들어온 같은 제출이 먼저 처리된 경우 그 결과를 반환
+        const concurrent = await findStoredRoundResult(session.id, idempotencyKey);
+        if (concurrent) {
+          return reply.send({
+            success: true,
+            data: concurrent,
+          });
+        }
+        return reply.status(409).send({
+          success: false,
+          error: '라운드 상태가 변경되었습니다. 새로고침 후 다시 시도해주세요.',
+        });
+      }
+
+      // 레이스 세션이면 참가자들에게 순위 푸시 (실패해도 라운드 결과에는 영향 없음)
+      publishRaceProgress(session.id).catch((error) => console.error('Race standings push error:', error));
+
+      // 계기판 채널: 상태 → 공개된 반전 → 종료 순으로 푸시
+      pushFlightState(userId, session.id, 'round:end', () => {
+        publishTwists(
+          userId,
+          session.id,
+          currentRound,
+          eventResults
+            .filter((result) => result.isTwist)
+            .map((result) => ({
+              eventId: result.eventId,
+              isGlobal: result.isGlobal,
+              twistType: result.twistType,
+              description: result.description,
+              isPositiveOutcome: result.isPositiveOutcome,
+              thrustMultiplier: result.thrustMultiplier,
+            }))
+        );
+        if (!isGameOver) return;
+        publishGameOver(userId, {
           sessionId: session.id,
-          round: currentRound,
-          yValue: 0,
-          fuelInput,
-          fuelAfter: newFuel,
-          hullAfter: newHull,
-          distanceAfter: newDistance,
-          eventId: globalEvent?.eventId ?? null,
-          thrustMultiplier: totalThrustMultiplier,
-          wasRevealed: true,
-          eventDescription: eventResults.map(r => r.description).join(' | '),
-          // 정답 판정 정보
-          isPositiveEvent: overallPositive,
-          userChoseFuel: choiceResult.userChoseFuel,
-          isCorrectChoice: isCorrect,
-        },
+          status: newStatus,
+          reason: gameOverReason,
+          finalEnding: finalEndingData?.ending ?? null,
+          score,
+        });
       });
 
       return reply.send({
         success: true,
-        data: {
-          currentRound,
-          phase: 'RESULT',
-          
-          // 이벤트 결과 (반전 공개)
-          eventResults,
-          
-          // 🎯 정답 판정 결과
-          choiceResult: {
-            ...choiceResult,
-            fuelInput,
-            correctAnswersSoFar: newCorrectAnswers,
-            totalRounds: 6,
-          },
-          
-          // 최종 계산 결과
-          totalThrustMultiplier,
-          actualFuelConsumed,
-          actualDistance,
-          actualHullDamage,
-          
-          // 현재 상태
-          currentFuel: newFuel,
-          currentHull: newHull,
-          distance: newDistance,
-          progress: (newDistance / config.game.targetDistance) * 100,
-          
-          // 다음 단계
-          nextRound,
-          isGameOver,
-          gameOverReason,
-          status: newStatus,
-          
-          // Final 엔딩 (게임 종료 시에만)
-          finalEnding: finalEndingData,
-        },
+        data: resultData,
       });
     } catch (error) {
+      if (error instanceof RoundPhaseError) {
+        return reply.status(error.statusCode).send(error.toResponse());
+      }
+      if (error instanceof Error && error.name === 'ZodError') {
+        return reply.status(400).send({
+          success: false,
+          error: '입력값이 올바르지 않습니다.',
+          details: error,
+        });
+      }
       console.error('Round end error:', error);
       return reply.status(500).send({
         success: false,
@@ -973,6 +1512,9 @@ export async function flightRoutes(fastify: FastifyInstance) {
           userId,
           status: 'IN_PROGRESS',
         },
+        include: {
+          scenario: true,
+        },
       });
 
       if (!session) {
@@ -982,32 +1524,54 @@ export async function flightRoutes(fastify: FastifyInstance) {
         });
       }
 
-      if (session.currentRound >= 6) {
+      // 결과 확인(RESULT) 후에만 이동 가능 (플레이하지 않은 라운드 건너뛰기 방지)
+      const nextPhase = assertRoundTransition(session, 'next');
+
+      if (session.currentRound >= session.scenario.totalRounds) {
         return reply.status(400).send({
           success: false,
           error: '마지막 라운드입니다.',
         });
       }
 
-      // 다음 라운드로 업데이트
-      const updatedSession = await prisma.flightSession.update({
-        where: { id: session.id },
+      // 다음 라운드로 업데이트 (읽은 시점의 버전/단계와 같을 때만)
+      const updated = await prisma.flightSession.updateMany({
+        where: {
+          id: session.id,
+          version: session.version,
+          roundPhase: { in: ROUND_TRANSITIONS.next.from },
+        },
         data: {
           currentRound: { increment: 1 },
-          roundPhase: 'NEWS',
+          roundPhase: nextPhase,
+          version: { increment: 1 },
         },
       });
 
+      if (updated.count === 0) {
+        return reply.status(409).send({
+          success: false,
+          error: '라운드 상태가 변경되었습니다. 새로고침 후 다시 시도해주세요.',
+        });
+      }
+
+      const nextRound = session.currentRound + 1;
+
+      pushFlightState(userId, session.id, 'round:next');
+
       return reply.send({
         success: true,
         data: {
           previousRound: session.currentRound,
-          currentRound: updatedSession.currentRound,
-          phase: 'NEWS',
-          message: `라운드 ${updatedSession.currentRound}로 이동합니다.`,
+          currentRound: nextRound,
+          phase: nextPhase,
+          message: `라운드 ${nextRound}로 이동합니다.`,
         },
       });
     } catch (error) {
+      if (error instanceof RoundPhaseError) {
+        return reply.status(error.statusCode).send(error.toResponse());
+      }
       console.error('Round next error:', error);
       return reply.status(500).send({
         success: false,
@@ -1031,6 +1595,7 @@ export async function flightRoutes(fastify: FastifyInstance) {
         },
         include: {
           rocket: true,
+          scenario: true,
         },
       });
 
@@ -1045,13 +1610,14 @@ export async function flightRoutes(fastify: FastifyInstance) {
         success: true,
         data: {
           currentRound: session.currentRound,
-          totalRounds: 6,
+          totalRounds: session.scenario.totalRounds,
           phase: session.roundPhase,
           currentFuel: session.currentFuel,
           currentHull: session.currentHull,
           distance: session.distance,
           progress: (session.distance / config.game.targetDistance) * 100,
           correctAnswers: session.correctAnswers,
+          totalCredit: session.totalCredit,
           rocket: {
             name: session.rocket.name,
             boost: session.rocket.boost,
@@ -1086,6 +1652,7 @@ export async function flightRoutes(fastify: FastifyInstance) {
         orderBy: { updatedAt: 'desc' },
         include: {
           rocket: true,
+          scenario: true,
           logs: {
             orderBy: { round: 'asc' },
           },
@@ -1100,7 +1667,7 @@ export async function flightRoutes(fastify: FastifyInstance) {
       }
 
       // Final 엔딩 계산
-      const finalEnding = calculateFinalEnding(session.correctAnswers);
+      const finalEnding = calculateFinalEnding(session, session.scenario);
 
       // 라운드별 결과 요약
       const roundSummary = session.logs
@@ -1111,6 +1678,8 @@ export async function flightRoutes(fastify: FastifyInstance) {
           isCorrect: log.isCorrectChoice,
           wasPositiveEvent: log.isPositiveEvent,
           userChoseFuel: log.userChoseFuel,
+          idealFuelInput: log.idealFuelInput,
+          partialCredit: log.partialCredit,
           explanation: log.isCorrectChoice
             ? (log.isPositiveEvent ? '✅ 호재 감지 성공' : '✅ 악재 회피 성공')
             : (log.isPositiveEvent ? '❌ 호재 기회 놓침' : '❌ 악재 판단 실패'),
@@ -1126,8 +1695,11 @@ export async function flightRoutes(fastify: FastifyInstance) {
           
           // 정답 통계
           correctAnswers: session.correctAnswers,
-          totalRounds: 6,
-          accuracy: Math.round((session.correctAnswers / 6) * 100),
+          totalRounds: session.scenario.totalRounds,
+          accuracy: Math.round((session.correctAnswers / session.scenario.totalRounds) * 100),
+          totalCredit: session.totalCredit,
+          creditRate: Math.round((session.totalCredit / session.scenario.totalRounds) * 100), // 부분 점수 기준 정확도 (%)
+          gradedAnswers: Number(gradedAnswers(session).toFixed(2)), // 엔딩/점수 판정 기준
           
           // Final 엔딩
           finalEnding,
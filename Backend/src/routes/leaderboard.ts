@@ -0,0 +1,193 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma.js';
+import { leaderboardQuerySchema, LeaderboardQuery } from '../schemas/index.js';
+
+interface LeaderboardRow {
+  rank: bigint;
+  sessionId: number;
+  userId: number;
+  nickname: string;
+  score: number;
+  correctAnswers: number;
+  distance: number;
+  tier: string | null;
+  finalEnding: string | null;
+  symbol: string;
+  rocketId: number;
+  rocketName: string;
+  scenarioId: number;
+  completedAt: Date;
+}
+
+/**
+ * 이번 주 시작 시각 (월요일 00:00 UTC)
+ */
+function getWeekStart(now: Date = new Date()): Date {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+  start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  return start;
+}
+
+/**
+ * 랭킹 쿼리
+ * - 유저별 최고 기록 1개만 집계 (DISTINCT ON)
+ * - 동점 처리: 점수 → 정답 수 → 먼저 달성한 기록 → 세션 ID 순
+ */
+async function queryLeaderboard(filters: LeaderboardQuery, userId: number) {
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`fs."status" IN ('COMPLETED', 'FAILED')`,
+    Prisma.sql`fs."score" IS NOT NULL`,
+    Prisma.sql`fs."completedAt" IS NOT NULL`,
+  ];
+
+  if (filters.period === 'weekly') {
+    conditions.push(Prisma.sql`fs."completedAt" >= ${getWeekStart()}`);
+  }
+  if (filters.rocketId) {
+    conditions.push(Prisma.sql`fs."rocketId" = ${filters.rocketId}`);
+  }
+  if (filters.symbol) {
+    conditions.push(Prisma.sql`fs."symbol" = ${filters.symbol.toUpperCase()}`);
+  }
+  if (filters.scenarioId) {
+    conditions.push(Prisma.sql`fs."scenarioId" = ${filters.scenarioId}`);
+  }
+
+  const ranked = Prisma.sql`
+    WITH best AS (
+      SELECT DISTINCT ON (fs."userId")
+        fs."id" AS "sessionId", fs."userId", fs."score", fs."correctAnswers", fs."distance",
+        fs."tier", fs."finalEnding"::text AS "finalEnding", fs."symbol", fs."rocketId", fs."scenarioId", fs."completedAt"
+      FROM "flight_sessions" fs
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY fs."userId", fs."score" DESC, fs."correctAnswers" DESC, fs."completedAt" ASC, fs."id" ASC
+    ), ranked AS (
+      SELECT best.*,
+        ROW_NUMBER() OVER (ORDER BY "score" DESC, "correctAnswers" DESC, "completedAt" ASC, "sessionId" ASC) AS "rank"
+      FROM best
+    )
+    SELECT ranked.*, u."nickname", r."name" AS "rocketName"
+    FROM ranked
+    JOIN "users" u ON u."id" = ranked."userId"
+    JOIN "rockets" r ON r."id" = ranked."rocketId"
+  `;
+
+  const offset = (filters.page - 1) * filters.pageSize;
+
+  const [rows, myRows, totals] = await Promise.all([
+    prisma.$queryRaw<LeaderboardRow[]>`${ranked} ORDER BY "rank" ASC LIMIT ${filters.pageSize} OFFSET ${offset}`,
+    prisma.$queryRaw<LeaderboardRow[]>`${ranked} WHERE ranked."userId" = ${userId}`,
+    prisma.$queryRaw<{ count: bigint }[]>`
+      SELECT COUNT(DISTINCT fs."userId") AS "count"
+      FROM "flight_sessions" fs
+      WHERE ${Prisma.join(conditions, ' AND ')}
+    `,
+  ]);
+
+  const toEntry = (row: LeaderboardRow) => ({
+    rank: Number(row.rank),
+    userId: row.userId,
+    nickname: row.nickname,
+    sessionId: row.sessionId,
+    score: row.score,
+    correctAnswers: row.correctAnswers,
+    distance: row.distance,
+    tier: row.tier,
+    finalEnding: row.finalEnding,
+    symbol: row.symbol,
+    rocket: { id: row.rocketId, name: row.rocketName },
+    scenarioId: row.scenarioId,
+    completedAt: row.completedAt,
+    isMe: row.userId === userId,
+  });
+
+  const total = Number(totals[0]?.count ?? 0);
+
+  return {
+    filters: {
+      period: filters.period,
+      rocketId: filters.rocketId ?? null,
+      symbol: filters.symbol?.toUpperCase() ?? null,
+      scenarioId: filters.scenarioId ?? null,
+      ...(filters.period === 'weekly' && { since: getWeekStart() }),
+    },
+    entries: rows.map(toEntry),
+    me: myRows[0] ? toEntry(myRows[0]) : null,
+    pagination: {
+      page: filters.page,
+      pageSize: filters.pageSize,
+      total,
+      totalPages: Math.ceil(total / filters.pageSize),
+    },
+  };
+}
+
+export async function leaderboardRoutes(fastify: FastifyInstance) {
+  // 내 순위 계산을 위해 인증 필요
+  fastify.addHook('preHandler', fastify.authenticate);
+
+  /**
+   * 공통 핸들러: 경로 파라미터로 고정된 필터를 쿼리 필터 위에 덮어씀
+   */
+  const handle = (fixed: (params: Record<string, string>) => Partial<LeaderboardQuery>) =>
+    async (request: FastifyRequest<{ Params: Record<string, string> }>, reply: FastifyReply) => {
+      try {
+        const filters = leaderboardQuerySchema.parse({
+          ...(request.query as Record<string, unknown>),
+          ...fixed(request.params),
+        });
+
+        const data = await queryLeaderboard(filters, request.user.userId);
+
+        return reply.send({
+          success: true,
+          data,
+        });
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ZodError') {
+          return reply.status(400).send({
+            success: false,
+            error: '입력값이 올바르지 않습니다.',
+            details: error,
+          });
+        }
+        console.error('Leaderboard error:', error);
+        return reply.status(500).send({
+          success: false,
+          error: '서버 오류가 발생했습니다.',
+        });
+      }
+    };
+
+  /**
+   * GET /api/leaderboard
+   * 전체 기간 랭킹 (period, rocketId, symbol, scenarioId 쿼리로 필터 조합 가능)
+   */
+  fastify.get('/', handle(() => ({})));
+
+  /**
+   * GET /api/leaderboard/weekly
+   * 주간 랭킹 (월요일 00:00 UTC 기준)
+   */
+  fastify.get('/weekly', handle(() => ({ period: 'weekly' })));
+
+  /**
+   * GET /api/leaderboard/rockets/:rocketId
+   * 로켓별 랭킹
+   */
+  fastify.get('/rockets/:rocketId', handle((params) => ({ rocketId: Number(params.rocketId) })));
+
+  /**
+   * GET /api/leaderboard/symbols/:symbol
+   * 항로(종목)별 랭킹
+   */
+  fastify.get('/symbols/:symbol', handle((params) => ({ symbol: params.symbol })));
+
+  /**
+   * GET /api/leaderboard/scenarios/:scenarioId
+   * 시나리오별 랭킹
+   */
+  fastify.get('/scenarios/:scenarioId', handle((params) => ({ scenarioId: Number(params.scenarioId) })));
+}
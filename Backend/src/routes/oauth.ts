@@ -0,0 +1,154 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import prisma from '../lib/prisma.js';
+import { oauthCredentialSchema, oauthLoginSchema } from '../schemas/index.js';
+import { issueTokens } from '../lib/authTokens.js';
+import { getOAuthProvider, listOAuthProviders, OAuthError } from '../lib/oauth/index.js';
+import { linkIdentity, listIdentities, loginWithIdentity, unlinkIdentity } from '../lib/identities.js';
+
+type ProviderParams = { Params: { provider: string } };
+
+/**
+ * 소셜 로그인 라우트 공통 에러 응답
+ */
+function sendOAuthError(reply: FastifyReply, error: unknown, label: string) {
+  if (error instanceof OAuthError) {
+    return reply.status(error.statusCode).send({
+      success: false,
+      error: error.message,
+    });
+  }
+  if (error instanceof Error && error.name === 'ZodError') {
+    return reply.status(400).send({
+      success: false,
+      error: '입력값이 올바르지 않습니다.',
+      details: error,
+    });
+  }
+  console.error(`${label} error:`, error);
+  return reply.status(500).send({
+    success: false,
+    error: '서버 오류가 발생했습니다.',
+  });
+}
+
+function requireProvider(name: string) {
+  const provider = getOAuthProvider(name);
+  if (!provider) {
+    throw new OAuthError('지원하지 않는 로그인 제공자입니다.', 404);
+  }
+  return provider;
+}
+
+export async function oauthRoutes(fastify: FastifyInstance) {
+  /**
+   * GET /api/auth/oauth/providers
+   * 사용 가능한 소셜 로그인 제공자 목록 (앱의 로그인 버튼 표시용)
+   */
+  fastify.get('/oauth/providers', async (_request: FastifyRequest, reply: FastifyReply) => {
+    return reply.send({
+      success: true,
+      data: { providers: listOAuthProviders() },
+    });
+  });
+
+  /**
+   * POST /api/auth/oauth/:provider
+   * 소셜 로그인: 제공자의 ID 토큰(또는 code)을 검증하고 토큰 발급
+   * - 응답은 이메일 로그인과 같은 형태 (hasActiveSession, introViewed 포함)
+   */
+  fastify.post<ProviderParams>('/oauth/:provider', { preHandler: [fastify.rateLimit('auth')] }, async (request, reply) => {
+    try {
+      const provider = requireProvider(request.params.provider);
+      const { deviceToken, ...credential } = oauthLoginSchema.parse(request.body);
+      const { userId, isNewUser } = await loginWithIdentity(provider, credential, deviceToken);
+
+      const user = await prisma.user.findUniqueOrThrow({
+        where: { id: userId },
+        include: {
+          sessions: {
+            where: { status: 'IN_PROGRESS' },
+            take: 1,
+          },
+        },
+      });
+      const tokens = await issueTokens(fastify.jwt, user, request.headers['user-agent']);
+
+      return reply.send({
+        success: true,
+        data: {
+          user: {
+            id: user.id,
+            email: user.email,
+            nickname: user.nickname,
+            introViewed: user.introViewed,
+            emailVerified: !!user.emailVerifiedAt,
+            isGuest: user.isGuest,
+            createdAt: user.createdAt,
+          },
+          ...tokens,
+          hasActiveSession: user.sessions.length > 0, // 진행 중인 항해 세션 존재 여부
+          introViewed: user.introViewed,              // 인트로 시청 여부
+          isNewUser,                                  // 이번 로그인으로 새로 가입했는지
+        },
+      });
+    } catch (error) {
+      return sendOAuthError(reply, error, 'OAuth login');
+    }
+  });
+
+  /**
+   * GET /api/auth/identities
+   * 내 계정에 연결된 소셜 로그인 목록
+   */
+  fastify.get('/identities', { preHandler: [fastify.authenticate] }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { userId } = request.user;
+      return reply.send({
+        success: true,
+        data: { identities: await listIdentities(userId) },
+      });
+    } catch (error) {
+      return sendOAuthError(reply, error, 'List identities');
+    }
+  });
+
+  /**
+   * POST /api/auth/identities/:provider
+   * 내 계정에 소셜 로그인 연결
+   */
+  fastify.post<ProviderParams>('/identities/:provider', { preHandler: [fastify.authenticate] }, async (request, reply) => {
+    try {
+      const { userId } = request.user;
+      const provider = requireProvider(request.params.provider);
+      const credential = oauthCredentialSchema.parse(request.body);
+      const identity = await linkIdentity(userId, provider, credential);
+
+      return reply.status(201).send({
+        success: true,
+        data: {
+          identity: { provider: identity.provider, email: identity.email, createdAt: identity.createdAt },
+        },
+      });
+    } catch (error) {
+      return sendOAuthError(reply, error, 'Link identity');
+    }
+  });
+
+  /**
+   * DELETE /api/auth/identities/:provider
+   * 소셜 로그인 연결 해제
+   */
+  fastify.delete<ProviderParams>('/identities/:provider', { preHandler: [fastify.authenticate] }, async (request, reply) => {
+    try {
+      const { userId } = request.user;
+      await unlinkIdentity(userId, request.params.provider);
+
+      return reply.send({
+        success: true,
+        message: '연결을 해제했습니다.',
+      });
+    } catch (error) {
+      return sendOAuthError(reply, error, 'Unlink identity');
+    }
+  });
+}
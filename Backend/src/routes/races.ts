@@ -0,0 +1,161 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { createRaceSchema, joinRaceSchema } from '../schemas/index.js';
+import { verifySocketToken } from '../middleware/auth.js';
+import { sendTo, subscribe } from '../lib/realtime.js';
+import {
+  createRace,
+  findRace,
+  joinRace,
+  leaveRace,
+  raceChannel,
+  RaceError,
+  startRace,
+  toRaceView,
+} from '../lib/race.js';
+
+type RaceParams = { Params: { code: string } };
+
+/**
+ * 레이스 라우트 공통 에러 응답
+ */
+function sendRaceError(reply: FastifyReply, error: unknown, label: string) {
+  if (error instanceof RaceError) {
+    return reply.status(error.statusCode).send({
+      success: false,
+      error: error.message,
+    });
+  }
+  if (error instanceof Error && error.name === 'ZodError') {
+    return reply.status(400).send({
+      success: false,
+      error: '입력값이 올바르지 않습니다.',
+      details: error,
+    });
+  }
+  console.error(`${label} error:`, error);
+  return reply.status(500).send({
+    success: false,
+    error: '서버 오류가 발생했습니다.',
+  });
+}
+
+export async function raceRoutes(fastify: FastifyInstance) {
+  /**
+   * POST /api/races
+   * 레이스 로비 생성: 항로/시나리오/시드를 정하고 생성자가 호스트로 참가
+   */
+  fastify.post('/', { preHandler: [fastify.authenticate] }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { userId } = request.user;
+      const body = createRaceSchema.parse(request.body);
+      const race = await createRace(userId, body);
+
+      return reply.status(201).send({
+        success: true,
+        data: { race },
+      });
+    } catch (error) {
+      return sendRaceError(reply, error, 'Create race');
+    }
+  });
+
+  /**
+   * GET /api/races/:code
+   * 레이스 상태 조회 (로비 참가자, 출발 후 순위, 종료 후 최종 결과)
+   */
+  fastify.get<RaceParams>('/:code', { preHandler: [fastify.authenticate] }, async (request, reply) => {
+    try {
+      const race = await findRace(request.params.code);
+      if (!race) {
+        return reply.status(404).send({
+          success: false,
+          error: '레이스를 찾을 수 없습니다.',
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: { race: toRaceView(race) },
+      });
+    } catch (error) {
+      return sendRaceError(reply, error, 'Get race');
+    }
+  });
+
+  /**
+   * POST /api/races/:code/join
+   * 참가 코드로 로비 입장 (이미 참가 중이면 로켓 변경)
+   */
+  fastify.post<RaceParams>('/:code/join', { preHandler: [fastify.authenticate] }, async (request, reply) => {
+    try {
+      const { userId } = request.user;
+      const { rocketId } = joinRaceSchema.parse(request.body);
+      const race = await joinRace(request.params.code, userId, rocketId);
+
+      return reply.send({
+        success: true,
+        data: { race },
+      });
+    } catch (error) {
+      return sendRaceError(reply, error, 'Join race');
+    }
+  });
+
+  /**
+   * POST /api/races/:code/leave
+   * 로비 나가기 (출발 전까지만)
+   */
+  fastify.post<RaceParams>('/:code/leave', { preHandler: [fastify.authenticate] }, async (request, reply) => {
+    try {
+      const { userId } = request.user;
+      const race = await leaveRace(request.params.code, userId);
+
+      return reply.send({
+        success: true,
+        data: { race },
+      });
+    } catch (error) {
+      return sendRaceError(reply, error, 'Leave race');
+    }
+  });
+
+  /**
+   * POST /api/races/:code/start
+   * 출발 (호스트 전용): 참가자 전원의 항해 세션을 같은 시드/항로로 생성
+   */
+  fastify.post<RaceParams>('/:code/start', { preHandler: [fastify.authenticate] }, async (request, reply) => {
+    try {
+      const { userId } = request.user;
+      const race = await startRace(request.params.code, userId);
+
+      return reply.send({
+        success: true,
+        data: { race },
+      });
+    } catch (error) {
+      return sendRaceError(reply, error, 'Start race');
+    }
+  });
+
+  /**
+   * GET /api/races/:code/ws (WebSocket)
+   * 레이스 실시간 채널: 접속 직후 snapshot, 이후 lobby / started / standings / finished / closed 푸시
+   * - 인증은 ?token= 또는 Authorization 헤더
+   */
+  fastify.get<RaceParams & { Querystring: { token?: string } }>('/:code/ws', { websocket: true }, async (socket, request) => {
+    const user = await verifySocketToken(request);
+    if (!user) {
+      socket.close(4401, 'Unauthorized');
+      return;
+    }
+
+    const race = await findRace(request.params.code);
+    if (!race) {
+      socket.close(4404, 'Race not found');
+      return;
+    }
+
+    subscribe(raceChannel(race.code), socket);
+    sendTo(socket, 'snapshot', toRaceView(race));
+  });
+}
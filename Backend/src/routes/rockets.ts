@@ -1,5 +1,6 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import prisma from '../lib/prisma.js';
+import { getArmorRating, getBoostRating, getFuelEcoRating, getRecommendedStyle } from '../utils/rocketStats.js';
 
 export async function rocketRoutes(fastify: FastifyInstance) {
   /**
@@ -25,6 +26,7 @@ export async function rocketRoutes(fastify: FastifyInstance) {
           PBR: rocket.armor,
           ROE: rocket.fuelEco,
         },
+        statsAsOf: rocket.statsAsOf, // 펀더멘털 기준일 (임포터로 갱신한 로켓만)
         
         // 게임 스탯 (해석된 값)
         gameStats: {
@@ -100,6 +102,7 @@ export async function rocketRoutes(fastify: FastifyInstance) {
             PBR: rocket.armor,
             ROE: rocket.fuelEco,
           },
+          statsAsOf: rocket.statsAsOf,
           gameStats: {
             boost: {
               value: rocket.boost,
@@ -126,52 +129,3 @@ export async function rocketRoutes(fastify: FastifyInstance) {
     }
   });
 }
-
-// 헬퍼 함수들
-
-function getBoostRating(per: number): string {
-  if (per <= 10) return '★★★★★'; // 매우 높은 가속력
-  if (per <= 15) return '★★★★☆';
-  if (per <= 20) return '★★★☆☆';
-  if (per <= 30) return '★★☆☆☆';
-  return '★☆☆☆☆';
-}
-
-function getArmorRating(pbr: number): string {
-  if (pbr <= 0.7) return '★★★★★'; // 매우 높은 내구도
-  if (pbr <= 1.0) return '★★★★☆';
-  if (pbr <= 1.5) return '★★★☆☆';
-  if (pbr <= 2.0) return '★★☆☆☆';
-  return '★☆☆☆☆';
-}
-
-function getFuelEcoRating(roe: number): string {
-  if (roe >= 20) return '★★★★★'; // 매우 높은 연비
-  if (roe >= 15) return '★★★★☆';
-  if (roe >= 12) return '★★★☆☆';
-  if (roe >= 8) return '★★☆☆☆';
-  return '★☆☆☆☆';
-}
-
-interface RocketData {
-  boost: number;
-  armor: number;
-  fuelEco: number;
-}
-
-function getRecommendedStyle(rocket: RocketData) {
-  // 스탯별 기여도 계산 (현실적인 주식 지표 기준)
-  const boostScore = 15 / rocket.boost;   // PER 15 기준
-  const armorScore = 1 / rocket.armor;    // PBR 1.0 기준
-  const fuelScore = rocket.fuelEco / 15;  // ROE 15% 기준
-
-  const maxScore = Math.max(boostScore, armorScore, fuelScore);
-
-  if (maxScore === boostScore) {
-    return { style: '공격형', description: '상승장에서 폭발적인 가속이 가능합니다.', marketCondition: '상승장' };
-  }
-  if (maxScore === armorScore) {
-    return { style: '방어형', description: '하락장에서도 선체 손상이 거의 없습니다.', marketCondition: '변동장' };
-  }
-  return { style: '밸런스형', description: '연료 효율이 좋아 안정적인 항해가 가능합니다.', marketCondition: '장거리' };
-}
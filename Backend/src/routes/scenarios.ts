@@ -0,0 +1,52 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import prisma from '../lib/prisma.js';
+import { config } from '../config/index.js';
+
+export async function scenarioRoutes(fastify: FastifyInstance) {
+  /**
+   * GET /api/scenarios
+   * 시나리오 목록 조회: 새 항해에서 선택 가능한 캠페인 팩과 라운드 구간 정보를 가져옵니다
+   */
+  fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const scenarios = await prisma.scenario.findMany({
+        where: { isActive: true },
+        orderBy: { id: 'asc' },
+        include: {
+          rounds: { orderBy: { round: 'asc' } },
+        },
+      });
+
+      return reply.send({
+        success: true,
+        data: {
+          defaultSlug: config.game.defaultScenario,
+          scenarios: scenarios.map((scenario) => ({
+            id: scenario.id,
+            slug: scenario.slug,
+            title: scenario.title,
+            description: scenario.description,
+            totalRounds: scenario.totalRounds,
+            endings: {
+              marsMinCorrect: scenario.marsMinCorrect,
+              invasionMinCorrect: scenario.invasionMinCorrect,
+            },
+            rounds: scenario.rounds.map((round) => ({
+              round: round.round,
+              title: round.title,
+              startDate: round.startDate,
+              endDate: round.endDate,
+              trend: round.trend,
+            })),
+          })),
+        },
+      });
+    } catch (error) {
+      console.error('Get scenarios error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: '서버 오류가 발생했습니다.',
+      });
+    }
+  });
+}
@@ -0,0 +1,27 @@
+import { FastifyInstance } from 'fastify';
+import { verifySocketToken } from '../middleware/auth.js';
+import { sendTo, subscribe } from '../lib/realtime.js';
+import { findTelemetrySnapshot, flightChannel } from '../lib/flightTelemetry.js';
+
+/**
+ * 항해 계기판 실시간 채널
+ * - flightRoutes는 모든 라우트에 Authorization 헤더 인증을 걸기 때문에 별도 플러그인으로 등록
+ */
+export async function telemetryRoutes(fastify: FastifyInstance) {
+  /**
+   * GET /api/flight/ws (WebSocket)
+   * 내 항해 상태 푸시: 접속 직후 snapshot, 이후 state / twist / gameOver
+   * - 인증은 ?token= 또는 Authorization 헤더
+   * - 유저 단위 채널이라 새 항해를 시작해도 다시 연결할 필요 없음
+   */
+  fastify.get<{ Querystring: { token?: string } }>('/ws', { websocket: true }, async (socket, request) => {
+    const user = await verifySocketToken(request);
+    if (!user) {
+      socket.close(4401, 'Unauthorized');
+      return;
+    }
+
+    subscribe(flightChannel(user.userId), socket);
+    sendTo(socket, 'snapshot', { telemetry: await findTelemetrySnapshot(user.userId) });
+  });
+}
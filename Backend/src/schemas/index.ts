@@ -1,22 +1,99 @@
 import { z } from 'zod';
 
+// 이메일 (대소문자만 다른 주소는 같은 계정, 저장/조회 모두 소문자로)
+const emailSchema = z.string().trim().toLowerCase().email('올바른 이메일 형식이 아닙니다');
+
 // 회원가입 스키마
 export const registerSchema = z.object({
-  email: z.string().email('올바른 이메일 형식이 아닙니다'),
+  email: emailSchema,
   password: z.string().min(6, '비밀번호는 최소 6자 이상이어야 합니다'),
   nickname: z.string().min(2, '닉네임은 최소 2자 이상이어야 합니다').max(20, '닉네임은 최대 20자까지 가능합니다'),
+  deviceToken: z.string().min(1).optional(), // 게스트 기기 토큰 (있으면 게스트 계정을 정식 계정으로 전환)
+});
+
+// 게스트 시작 스키마 (이전에 받은 기기 토큰이 있으면 이어하기)
+export const guestLoginSchema = z.object({
+  deviceToken: z.string().min(1).optional(),
 });
 
+// 소셜 로그인 증명 (ID 토큰 또는 Authorization Code)
+export const oauthCredentialSchema = z.union([
+  z.object({
+    idToken: z.string().min(1),
+    nonce: z.string().optional(),
+  }),
+  z.object({
+    code: z.string().min(1),
+    codeVerifier: z.string().optional(), // PKCE
+    redirectUri: z.string().min(1),
+    clientId: z.string().optional(),     // 플랫폼별 클라이언트 ID (서버 허용 목록 중 하나)
+  }),
+]);
+
+// 소셜 로그인 스키마 (게스트 기기 토큰이 있으면 게스트 계정을 전환)
+export const oauthLoginSchema = oauthCredentialSchema.and(
+  z.object({
+    deviceToken: z.string().min(1).optional(),
+  })
+);
+
 // 로그인 스키마
 export const loginSchema = z.object({
-  email: z.string().email('올바른 이메일 형식이 아닙니다'),
+  email: emailSchema,
   password: z.string().min(1, '비밀번호를 입력해주세요'),
 });
 
+// 리프레시 토큰 스키마 (토큰 갱신/로그아웃)
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, '리프레시 토큰이 필요합니다'),
+});
+
+// 이메일 인증 스키마
+export const verifyEmailSchema = z.object({
+  email: emailSchema,
+  code: z.string().trim().min(1, '인증 코드를 입력해주세요'),
+});
+
+// 비밀번호 재설정 요청 스키마
+export const forgotPasswordSchema = z.object({
+  email: emailSchema,
+});
+
+// 비밀번호 재설정 스키마
+export const resetPasswordSchema = z.object({
+  email: emailSchema,
+  code: z.string().trim().min(1, '재설정 코드를 입력해주세요'),
+  newPassword: z.string().min(6, '비밀번호는 최소 6자 이상이어야 합니다'),
+});
+
+// 프로필 수정 스키마 (바꿀 항목만)
+export const updateProfileSchema = z
+  .object({
+    nickname: z.string().trim().min(2, '닉네임은 최소 2자 이상이어야 합니다').max(20, '닉네임은 최대 20자까지 가능합니다').optional(),
+    email: emailSchema.optional(),
+    currentPassword: z.string().optional(), // 이메일을 바꿀 때 필요
+  })
+  .refine((body) => body.nickname !== undefined || body.email !== undefined, {
+    message: '변경할 항목이 없습니다',
+  });
+
+// 비밀번호 변경 스키마
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, '현재 비밀번호를 입력해주세요').optional(), // 비밀번호를 처음 설정할 때는 생략
+  newPassword: z.string().min(6, '비밀번호는 최소 6자 이상이어야 합니다'),
+});
+
+// 회원 탈퇴 스키마 (비밀번호 재확인, 게스트는 생략)
+export const deleteAccountSchema = z.object({
+  password: z.string().min(1, '비밀번호를 입력해주세요').optional(),
+});
+
 // 항해 시작 스키마
 export const startFlightSchema = z.object({
   rocketId: z.number().int().positive('유효한 로켓 ID가 필요합니다'),
-  symbol: z.string().min(1, '항로(심볼)를 선택해주세요').default('AAPL'),
+  symbol: z.string().trim().min(1, '항로(심볼)를 선택해주세요').toUpperCase().default('AAPL'),
+  seed: z.number().int().min(0).max(2147483647).optional(), // 재현용 시드 (미지정 시 서버 발급)
+  scenarioId: z.number().int().positive().optional(), // 시나리오 (미지정 시 기본 시나리오)
 });
 
 // 실시간 동기화 스키마
@@ -26,11 +103,119 @@ export const syncFlightSchema = z.object({
   previousYValue: z.number().optional(), // 이전 중력파 값 (변동률 계산용)
 });
 
+// 라운드 종료 스키마
+export const endRoundSchema = z.object({
+  fuelInput: z.number().min(0).max(100, '연료 투입량은 0~100 사이여야 합니다'),
+  yValue: z.number().optional(), // 레버를 당긴 시점의 중력파 값 (로그 기록용)
+  idempotencyKey: z.string().min(1).max(64).optional(), // 재시도 시 같은 결과를 받기 위한 키 (Idempotency-Key 헤더도 허용)
+});
+
+// AI 성향 분석 스키마 (분석 입력은 서버의 항해 기록으로 구성)
+export const decisionAnalysisSchema = z.object({
+  sessionId: z.number().int().positive(),
+});
+
 // 차트 심볼 스키마
 export const chartSymbolSchema = z.object({
   symbol: z.string().min(1, '심볼이 필요합니다').max(10),
 });
 
+// 게임 이벤트 추력 계산 필드 (미리보기에서도 사용)
+const eventThrustFields = {
+  round: z.number().int().positive('라운드는 1 이상이어야 합니다'),
+  isGlobal: z.boolean(),
+  targetRocketId: z.number().int().positive().nullable().default(null),
+  thrustMod: z.number(),
+  isTwist: z.boolean().default(false),
+  twistType: z.enum(['NONE', 'POSITIVE', 'NEGATIVE']).default('NONE'),
+  globalType: z.enum(['BEAR_TRAP', 'BULL_RUN', 'BUBBLE_BURST', 'NEUTRAL']).nullable().default(null),
+  affectedStat: z.enum(['boost', 'armor', 'fuelEco']).nullable().default(null),
+  statMultiplier: z.number().nullable().default(null),
+};
+
+// 게임 이벤트 생성 스키마 (관리자)
+export const gameEventSchema = z.object({
+  scenarioId: z.number().int().positive('유효한 시나리오 ID가 필요합니다'),
+  newsTitle: z.string().min(1, '뉴스 제목을 입력해주세요'),
+  newsDetail: z.string().min(1, 'AI 네비게이터 멘트를 입력해주세요'),
+  newsLog: z.string().min(1, '항해 기록을 입력해주세요'),
+  ...eventThrustFields,
+});
+
+// 게임 이벤트 수정 스키마 (관리자, 부분 수정)
+export const updateGameEventSchema = gameEventSchema.partial();
+
+// 이벤트 미리보기 스키마: eventId가 있으면 저장된 이벤트에 변경값을 덮어써서 계산
+export const previewEventSchema = z.object({
+  eventId: z.number().int().positive().optional(),
+  event: z.object(eventThrustFields).partial().default({}),
+});
+
+// 경로 ID 파라미터 스키마 (관리자, /:id)
+export const idParamSchema = z.object({
+  id: z.coerce.number().int().positive('유효한 ID가 필요합니다'),
+});
+
+// 이벤트 목록 쿼리 스키마 (관리자)
+export const eventListQuerySchema = z.object({
+  scenarioId: z.coerce.number().int().positive().optional(),
+  round: z.coerce.number().int().positive().optional(),
+});
+
+// 로켓 생성 스키마 (관리자)
+export const rocketSchema = z.object({
+  name: z.string().min(1, '로켓 이름(심볼)을 입력해주세요').max(10),
+  description: z.string().nullable().optional(),
+  imageUrl: z.string().url('올바른 이미지 URL이 아닙니다').nullable().optional(),
+  category: z.string().min(1, '카테고리를 입력해주세요'),
+  boost: z.number().positive('PER은 0보다 커야 합니다'),
+  fuelEco: z.number(),
+  armor: z.number().positive('PBR은 0보다 커야 합니다'),
+});
+
+// 로켓 수정 스키마 (관리자, 부분 수정)
+export const updateRocketSchema = rocketSchema.partial();
+
+// 펀더멘털 임포트 스키마 (관리자, 티커 → 로켓)
+export const importRocketSchema = z.object({
+  symbol: z.string().min(1, '티커를 입력해주세요').max(10),
+  description: z.string().optional(),
+  dryRun: z.boolean().optional(),
+});
+
+// 리더보드 쿼리 스키마
+export const leaderboardQuerySchema = z.object({
+  period: z.enum(['all', 'weekly']).default('all'),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  rocketId: z.coerce.number().int().positive().optional(),
+  symbol: z.string().min(1).max(10).optional(),
+  scenarioId: z.coerce.number().int().positive().optional(),
+});
+
+// 레이스 생성 스키마 (생성자는 호스트로 자동 참가)
+export const createRaceSchema = z.object({
+  rocketId: z.number().int().positive('유효한 로켓 ID가 필요합니다'),
+  symbol: z.string().trim().min(1, '항로(심볼)를 선택해주세요').toUpperCase(),
+  scenarioId: z.number().int().positive().optional(),
+  maxPlayers: z.number().int().min(2).max(8).optional(),
+});
+
+// 레이스 참가 스키마 (이미 참가 중이면 로켓만 변경)
+export const joinRaceSchema = z.object({
+  rocketId: z.number().int().positive('유효한 로켓 ID가 필요합니다'),
+});
+
+// 클래스 생성 스키마 (교사 전용)
+export const createClassroomSchema = z.object({
+  name: z.string().trim().min(1, '클래스 이름을 입력해주세요').max(50, '클래스 이름은 50자 이하여야 합니다'),
+});
+
+// 클래스 참가 스키마
+export const joinClassroomSchema = z.object({
+  code: z.string().trim().min(1, '참가 코드를 입력해주세요').toUpperCase(),
+});
+
 // 유저 ID 쿼리 스키마
 export const userIdQuerySchema = z.object({
   userId: z.string().transform((val) => parseInt(val, 10)),
@@ -40,3 +225,8 @@ export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
 export type StartFlightInput = z.infer<typeof startFlightSchema>;
 export type SyncFlightInput = z.infer<typeof syncFlightSchema>;
+export type EndRoundInput = z.infer<typeof endRoundSchema>;
+export type GameEventInput = z.infer<typeof gameEventSchema>;
+export type RocketInput = z.infer<typeof rocketSchema>;
+export type LeaderboardQuery = z.infer<typeof leaderboardQuerySchema>;
+export type CreateRaceInput = z.infer<typeof createRaceSchema>;
@@ -0,0 +1,98 @@
+import { GameEventData } from './gameLogic.js';
+
+// 검증 결과 항목
+export interface ValidationIssue {
+  level: 'error' | 'warning'; // error는 저장 불가, warning은 저장 가능
+  code: string;
+  message: string;
+  eventId?: number;
+  round?: number;
+  rocketId?: number;
+}
+
+/**
+ * 단일 이벤트 검증
+ * - 반전 이벤트인데 영향 스탯이 없는 경우 등 계산 결과가 의도와 달라지는 설정을 찾아냄
+ */
+export function validateEventData(event: GameEventData, eventId?: number): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const at = { eventId, round: event.round };
+
+  if (event.isTwist && !event.affectedStat) {
+    issues.push({ ...at, level: 'error', code: 'TWIST_WITHOUT_STAT', message: '반전 이벤트에는 affectedStat이 필요합니다.' });
+  }
+  if (event.isTwist && event.twistType === 'NONE') {
+    issues.push({ ...at, level: 'error', code: 'TWIST_WITHOUT_TYPE', message: '반전 이벤트의 twistType이 NONE입니다.' });
+  }
+  if (!event.isTwist && event.twistType !== 'NONE') {
+    issues.push({ ...at, level: 'error', code: 'TYPE_WITHOUT_TWIST', message: '반전이 아닌 이벤트에 twistType이 지정되어 있습니다.' });
+  }
+
+  if (event.isGlobal) {
+    if (event.targetRocketId !== null) {
+      issues.push({ ...at, level: 'error', code: 'GLOBAL_WITH_TARGET', message: 'Global 이벤트에는 대상 로켓을 지정할 수 없습니다.' });
+    }
+    if (!event.globalType) {
+      issues.push({ ...at, level: 'warning', code: 'GLOBAL_WITHOUT_TYPE', message: 'globalType이 없는 Global 이벤트는 추력 배율이 그대로 적용됩니다.' });
+    }
+  } else {
+    if (event.targetRocketId === null) {
+      issues.push({ ...at, level: 'error', code: 'SPECIFIC_WITHOUT_TARGET', message: 'Specific 이벤트에는 대상 로켓이 필요합니다.' });
+    }
+    if (event.globalType) {
+      issues.push({ ...at, level: 'warning', code: 'SPECIFIC_WITH_GLOBAL_TYPE', message: 'Specific 이벤트의 globalType은 무시됩니다.' });
+    }
+  }
+
+  if (event.affectedStat && event.statMultiplier === null) {
+    issues.push({ ...at, level: 'warning', code: 'STAT_WITHOUT_MULTIPLIER', message: 'statMultiplier가 없어 스탯 효과가 0으로 계산됩니다.' });
+  }
+  if (event.thrustMod <= 0) {
+    issues.push({ ...at, level: 'error', code: 'INVALID_THRUST', message: 'thrustMod는 0보다 커야 합니다.' });
+  }
+
+  return issues;
+}
+
+/**
+ * 시나리오 전체 이벤트 검증
+ * - 개별 이벤트 검증 + 라운드마다 모든 로켓에 적용되는 이벤트가 있는지 확인
+ */
+export function validateScenarioEvents(
+  events: (GameEventData & { id: number })[],
+  rockets: { id: number; name: string }[],
+  totalRounds: number
+): ValidationIssue[] {
+  const issues = events.flatMap((event) => validateEventData(event, event.id));
+
+  for (const event of events) {
+    if (event.round < 1 || event.round > totalRounds) {
+      issues.push({
+        level: 'error',
+        code: 'ROUND_OUT_OF_RANGE',
+        message: `라운드 ${event.round}은(는) 시나리오 범위(1~${totalRounds})를 벗어납니다.`,
+        eventId: event.id,
+        round: event.round,
+      });
+    }
+  }
+
+  for (let round = 1; round <= totalRounds; round++) {
+    const roundEvents = events.filter((event) => event.round === round);
+
+    for (const rocket of rockets) {
+      const covered = roundEvents.some((event) => event.isGlobal || event.targetRocketId === rocket.id);
+      if (!covered) {
+        issues.push({
+          level: 'error',
+          code: 'ROUND_MISSING_ROCKET',
+          message: `라운드 ${round}에 ${rocket.name} 로켓에 적용되는 이벤트가 없습니다.`,
+          round,
+          rocketId: rocket.id,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
@@ -1,5 +1,5 @@
 import { config } from '../config/index.js';
-import { InvestingStyle } from '@prisma/client';
+import { InvestingStyle, GameEvent } from '@prisma/client';
 
 interface FlightStats {
   currentFuel: number;
@@ -10,14 +10,14 @@ interface FlightStats {
   lowStabilityThrustCount: number;
 }
 
-interface RocketStats {
+export interface RocketStats {
   boostStat: number;   // PER - 낮을수록 가속력 높음
   armorStat: number;   // PBR - 낮을수록 내구도 높음
   fuelEcoStat: number; // ROE - 높을수록 연비 좋음
 }
 
 // 게임 이벤트 인터페이스
-interface GameEventData {
+export interface GameEventData {
   round: number;
   isGlobal: boolean;
   thrustMod: number;
@@ -30,7 +30,7 @@ interface GameEventData {
 }
 
 // 이벤트 결과 인터페이스
-interface EventResult {
+export interface EventResult {
   thrustMultiplier: number;      // 최종 추력 배율
   fuelModifier: number;          // 연료 소모 배율
   hullDamageModifier: number;    // 선체 손상 배율
@@ -38,6 +38,25 @@ interface EventResult {
   description: string;           // 결과 설명
 }
 
+/**
+ * DB GameEvent → 추력 계산용 데이터 변환
+ */
+export function toEventData(
+  event: Pick<GameEvent, 'round' | 'isGlobal' | 'thrustMod' | 'isTwist' | 'twistType' | 'globalType' | 'affectedStat' | 'statMultiplier' | 'targetRocketId'>
+): GameEventData {
+  return {
+    round: event.round,
+    isGlobal: event.isGlobal,
+    thrustMod: event.thrustMod,
+    isTwist: event.isTwist,
+    twistType: event.twistType,
+    globalType: event.globalType,
+    affectedStat: event.affectedStat as GameEventData['affectedStat'],
+    statMultiplier: event.statMultiplier,
+    targetRocketId: event.targetRocketId,
+  };
+}
+
 /**
  * 라운드 이벤트 + 반전 + 스탯 기반 추력 계산
  * 시나리오에 맞는 복합 로직
@@ -263,16 +282,72 @@ export function judgeUserChoice(
   };
 }
 
+interface ThrottleGrade {
+  eventStrength: number;       // 이벤트가 실제로 얼마나 강하게 작용했는지 (0~1)
+  idealFuelInput: number;      // 강도에 맞는 이상적인 연료 투입량 (0~100)
+  partialCredit: number;       // 투입량이 이상값에 얼마나 가까웠는지 (0~1)
+  creditExplanation: string;   // 부분 점수 설명
+}
+
 /**
- * 정답 개수에 따른 Final 엔딩 계산
+ * 연료 투입량(포지션 크기) 부분 점수
+ *
+ * - 이벤트 강도: 최종 추력 배율이 1에서 얼마나 멀어졌는지 (x2 또는 x0.5 이상이면 최대)
+ * - 이상 투입량: 호재면 50 + 50×강도, 악재면 50 - 50×강도
+ * - 부분 점수: 이상값과의 차이가 50 이상이면 0, 방향까지 틀리면 절반만 인정
+ */
+export function gradeThrottle(
+  fuelInput: number,
+  isPositiveOutcome: boolean,
+  thrustMultiplier: number
+): ThrottleGrade {
+  const eventStrength = Math.min(1, Math.abs(Math.log2(Math.max(thrustMultiplier, 0.01))));
+  const idealFuelInput = isPositiveOutcome ? 50 + 50 * eventStrength : 50 - 50 * eventStrength;
+
+  const closeness = Math.max(0, 1 - Math.abs(fuelInput - idealFuelInput) / 50);
+  const sameDirection = (fuelInput >= 50) === isPositiveOutcome;
+  const partialCredit = Number((sameDirection ? closeness : closeness * 0.5).toFixed(2));
+
+  let creditExplanation: string;
+  if (partialCredit >= 0.8) {
+    creditExplanation = '🎯 이벤트 강도에 딱 맞는 출력이었습니다.';
+  } else if (!sameDirection) {
+    creditExplanation = '🧭 방향이 빗나갔습니다. 확신이 없을수록 출력을 작게 가져가세요.';
+  } else if (fuelInput > idealFuelInput) {
+    creditExplanation = '🔥 방향은 맞았지만 이벤트에 비해 출력이 과했습니다.';
+  } else {
+    creditExplanation = '🪶 방향은 맞았지만 출력이 부족해 기회를 다 살리지 못했습니다.';
+  }
+
+  return {
+    eventStrength: Number(eventStrength.toFixed(2)),
+    idealFuelInput: Math.round(idealFuelInput),
+    partialCredit,
+    creditExplanation,
+  };
+}
+
+/**
+ * 엔딩/리더보드 점수에 쓰는 가중 정답 수: 정답 수와 부분 점수 합계의 평균
+ * - 투입량까지 이벤트 강도에 맞으면 정답 수와 같고, 방향만 맞히고 출력이 빗나가면 그보다 적게 인정
+ */
+export function gradedAnswers(result: { correctAnswers: number; totalCredit: number }): number {
+  return (result.correctAnswers + result.totalCredit) / 2;
+}
+
+/**
+ * 가중 정답 수(gradedAnswers)에 따른 Final 엔딩 계산 (기준은 시나리오별 설정)
  * 
- * | 정답 개수 | 엔딩 | 설명 |
+ * | 가중 정답 수 | 엔딩 | 설명 |
  * |----------|------|------|
- * | 0~2개 | 💥 CRASH | 화성 도착 실패 |
- * | 3~5개 | 🏙️ MARS | 화성 도착 |
- * | 6개 | 🐕→👤 INVASION | 화성 도착 후 도지가 진화하여 지구 침공 |
+ * | marsMinCorrect 미만 | 💥 CRASH | 화성 도착 실패 |
+ * | marsMinCorrect 이상 | 🏙️ MARS | 화성 도착 |
+ * | invasionMinCorrect 이상 | 🐕→👤 INVASION | 화성 도착 후 도지가 진화하여 지구 침공 |
  */
-export function calculateFinalEnding(correctAnswers: number): {
+export function calculateFinalEnding(
+  result: { correctAnswers: number; totalCredit: number },
+  thresholds: { marsMinCorrect: number; invasionMinCorrect: number }
+): {
   ending: FinalEndingType;
   title: string;
   description: string;
@@ -280,8 +355,10 @@ export function calculateFinalEnding(correctAnswers: number): {
   dogeVillageBuilt: boolean;
   potatoPlanting: boolean;
 } {
-  // 6개 정답: INVASION (도지 진화 후 지구 침공)
-  if (correctAnswers >= 6) {
+  const graded = gradedAnswers(result);
+
+  // INVASION (도지 진화 후 지구 침공)
+  if (graded >= thresholds.invasionMinCorrect) {
     return {
       ending: 'INVASION',
       title: '🐕→👤 INVASION',
@@ -292,8 +369,8 @@ export function calculateFinalEnding(correctAnswers: number): {
     };
   }
   
-  // 3~5개 정답: MARS (화성 도착)
-  if (correctAnswers >= 3) {
+  // MARS (화성 도착)
+  if (graded >= thresholds.marsMinCorrect) {
     return {
       ending: 'MARS',
       title: '🏙️ MARS',
@@ -304,7 +381,7 @@ export function calculateFinalEnding(correctAnswers: number): {
     };
   }
   
-  // 0~2개 정답: CRASH (화성 도착 실패)
+  // CRASH (화성 도착 실패)
   return {
     ending: 'CRASH',
     title: '💥 CRASH',
@@ -319,14 +396,15 @@ export function calculateFinalEnding(correctAnswers: number): {
  * 각 라운드별 정답 여부 요약 생성
  */
 export function generateRoundSummary(
-  roundResults: { round: number; isCorrect: boolean; explanation: string }[]
+  roundResults: { round: number; isCorrect: boolean; explanation: string }[],
+  totalRounds: number
 ): string {
   const correctCount = roundResults.filter(r => r.isCorrect).length;
   const summary = roundResults
     .map(r => `R${r.round}: ${r.isCorrect ? '✅' : '❌'}`)
     .join(' | ');
   
-  return `${summary}\n총 ${correctCount}/6 정답`;
+  return `${summary}\n총 ${correctCount}/${totalRounds} 정답`;
 }
 
 /**
@@ -422,6 +500,30 @@ export function calculateHullDamage(
   return baseDamage * armorMultiplier;
 }
 
+/**
+ * 리더보드용 종합 점수 계산 (0~1000)
+ * 
+ * | 항목 | 배점 | 기준 |
+ * |------|------|------|
+ * | 정답률 | 500 | 가중 정답 수(정답 수와 부분 점수 합계의 평균) / 시나리오 라운드 수 |
+ * | 진행도 | 300 | 이동 거리 / 목표 거리 |
+ * | 잔여 연료 | 100 | 남은 연료 (%) |
+ * | 선체 내구도 | 100 | 남은 선체 (%) |
+ */
+export function calculateSessionScore(
+  session: { correctAnswers: number; totalCredit: number; distance: number; currentFuel: number; currentHull: number },
+  totalRounds: number
+): number {
+  const clamp = (value: number, max: number) => Math.max(0, Math.min(value, max));
+
+  const accuracyScore = 500 * (clamp(gradedAnswers(session), totalRounds) / totalRounds);
+  const progressScore = 300 * (clamp(session.distance, config.game.targetDistance) / config.game.targetDistance);
+  const fuelScore = clamp(session.currentFuel, 100);
+  const hullScore = clamp(session.currentHull, 100);
+
+  return Math.round(accuracyScore + progressScore + fuelScore + hullScore);
+}
+
 /**
  * 티어 판정
  */
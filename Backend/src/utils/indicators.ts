@@ -0,0 +1,166 @@
+// 기술적 지표 계산 (입력과 같은 길이, 계산에 필요한 기간이 모자란 구간은 null)
+export type IndicatorSeries = (number | null)[];
+
+// 기본 기간 설정 (일봉 기준 관례값)
+export const INDICATOR_PERIODS = {
+  sma: 20,
+  ema: 12,
+  rsi: 14,
+  macdFast: 12,
+  macdSlow: 26,
+  macdSignal: 9,
+  bollinger: 20,
+  bollingerStdDev: 2,
+};
+
+function round(value: number | null): number | null {
+  return value === null ? null : Number(value.toFixed(4));
+}
+
+/**
+ * 단순 이동평균 (SMA)
+ */
+export function sma(values: number[], period: number): IndicatorSeries {
+  const result: IndicatorSeries = [];
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    result.push(i >= period - 1 ? sum / period : null);
+  }
+  return result;
+}
+
+/**
+ * 지수 이동평균 (EMA) - 첫 값은 SMA로 시작
+ */
+export function ema(values: number[], period: number): IndicatorSeries {
+  const result: IndicatorSeries = [];
+  const k = 2 / (period + 1);
+  let prev: number | null = null;
+  for (let i = 0; i < values.length; i++) {
+    if (i < period - 1) {
+      result.push(null);
+      continue;
+    }
+    if (prev === null) {
+      prev = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+    } else {
+      prev = values[i] * k + prev * (1 - k);
+    }
+    result.push(prev);
+  }
+  return result;
+}
+
+/**
+ * 상대강도지수 (RSI, Wilder 평활)
+ */
+export function rsi(values: number[], period: number): IndicatorSeries {
+  const result: IndicatorSeries = values.map(() => null);
+  if (values.length <= period) return result;
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    if (change >= 0) gain += change;
+    else loss -= change;
+  }
+  let avgGain = gain / period;
+  let avgLoss = loss / period;
+
+  const toRsi = () => (avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss));
+  result[period] = toRsi();
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRsi();
+  }
+  return result;
+}
+
+/**
+ * MACD (빠른 EMA - 느린 EMA), 시그널선, 히스토그램
+ */
+export function macd(values: number[], fast: number, slow: number, signalPeriod: number) {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line = values.map((_, i) => {
+    const f = fastEma[i];
+    const s = slowEma[i];
+    return f === null || s === null ? null : f - s;
+  });
+
+  // 시그널선은 MACD 값이 존재하는 구간에서만 EMA 계산
+  const firstIndex = line.findIndex((v) => v !== null);
+  const signal: IndicatorSeries = values.map(() => null);
+  if (firstIndex >= 0) {
+    const defined = line.slice(firstIndex) as number[];
+    ema(defined, signalPeriod).forEach((v, i) => {
+      signal[firstIndex + i] = v;
+    });
+  }
+
+  const histogram = line.map((v, i) => {
+    const s = signal[i];
+    return v === null || s === null ? null : v - s;
+  });
+
+  return { macd: line, signal, histogram };
+}
+
+/**
+ * 볼린저 밴드 (중심선 SMA ± 표준편차 배수)
+ */
+export function bollinger(values: number[], period: number, stdDev: number) {
+  const middle = sma(values, period);
+  const upper: IndicatorSeries = [];
+  const lower: IndicatorSeries = [];
+
+  for (let i = 0; i < values.length; i++) {
+    const mean = middle[i];
+    if (mean === null) {
+      upper.push(null);
+      lower.push(null);
+      continue;
+    }
+    const window = values.slice(i - period + 1, i + 1);
+    const variance = window.reduce((acc, v) => acc + (v - mean) ** 2, 0) / period;
+    const deviation = Math.sqrt(variance) * stdDev;
+    upper.push(mean + deviation);
+    lower.push(mean - deviation);
+  }
+
+  return { upper, middle, lower };
+}
+
+/**
+ * 라운드 구간 종가로 전체 지표 계산
+ */
+export function calculateIndicators(closes: number[]) {
+  const p = INDICATOR_PERIODS;
+  const macdResult = macd(closes, p.macdFast, p.macdSlow, p.macdSignal);
+  const bands = bollinger(closes, p.bollinger, p.bollingerStdDev);
+
+  return {
+    periods: p,
+    sma: sma(closes, p.sma).map(round),
+    ema: ema(closes, p.ema).map(round),
+    rsi: rsi(closes, p.rsi).map(round),
+    macd: {
+      macd: macdResult.macd.map(round),
+      signal: macdResult.signal.map(round),
+      histogram: macdResult.histogram.map(round),
+    },
+    bollinger: {
+      upper: bands.upper.map(round),
+      middle: bands.middle.map(round),
+      lower: bands.lower.map(round),
+    },
+  };
+}
+
+export type ChartIndicators = ReturnType<typeof calculateIndicators>;
@@ -0,0 +1,56 @@
+import { randomInt } from 'crypto';
+
+const MAX_SEED = 2147483647; // 2^31 - 1 (Postgres INTEGER 범위)
+
+// 참가 코드 문자 (헷갈리는 0/O, 1/I 제외)
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * 새 세션 시드 발급
+ */
+export function generateSeed(): number {
+  return randomInt(1, MAX_SEED);
+}
+
+/**
+ * 참가 코드 발급 (레이스/클래스 입장용, 대문자+숫자)
+ */
+export function generateJoinCode(length: number): string {
+  return Array.from({ length }, () => JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)]).join('');
+}
+
+/**
+ * 시드 기반 난수 생성기 (mulberry32)
+ * - 같은 시드면 항상 같은 수열을 반환 → 세션 재현 가능
+ * - Math.random()처럼 [0, 1) 범위의 값을 반환
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 세션 시드 + 용도(심볼, 라운드 등)로 하위 시드 파생 (FNV-1a)
+ * - 난수 소스마다 독립된 수열을 쓰되, 모두 세션 시드 하나로 재현되도록 함
+ */
+export function deriveSeed(seed: number, ...parts: (string | number)[]): number {
+  let hash = 0x811c9dc5 ^ (seed >>> 0);
+  for (const char of parts.join(':')) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % MAX_SEED;
+}
+
+/**
+ * 세션 시드로부터 특정 용도의 난수 생성기 생성
+ */
+export function createSessionRng(seed: number, ...scope: (string | number)[]): () => number {
+  return createRng(deriveSeed(seed, ...scope));
+}
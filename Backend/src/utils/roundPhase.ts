@@ -0,0 +1,86 @@
+import { RoundPhase, SessionStatus } from '@prisma/client';
+
+// 라운드 단계를 바꾸거나 단계에 의존하는 항해 API 동작
+export type RoundAction = 'news' | 'start' | 'end' | 'next' | 'sync' | 'ending';
+
+// 종료된 세션은 라운드 단계 대신 세션 상태가 현재 단계
+export type FlightPhase = RoundPhase | Exclude<SessionStatus, 'IN_PROGRESS'>;
+
+interface RoundTransition {
+  label: string;            // 에러 메시지용 이름
+  from: RoundPhase[];       // 진행 중 세션에서 허용되는 단계
+  to: RoundPhase | null;    // 전환 후 단계 (null이면 유지)
+  allowTerminal: boolean;   // 종료된 세션에서도 허용되는지
+}
+
+/**
+ * 라운드 단계 전환표 (NEWS → PLAYING → RESULT → 다음 라운드 NEWS)
+ * - 종료 상태(COMPLETED/FAILED/ABANDONED)에서는 엔딩 조회만 가능
+ */
+export const ROUND_TRANSITIONS: Record<RoundAction, RoundTransition> = {
+  news:   { label: '뉴스 조회',        from: ['NEWS', 'PLAYING'], to: null,      allowTerminal: false },
+  start:  { label: '라운드 시작',      from: ['NEWS'],            to: 'PLAYING', allowTerminal: false },
+  end:    { label: '라운드 종료',      from: ['PLAYING'],         to: 'RESULT',  allowTerminal: false },
+  next:   { label: '다음 라운드 이동', from: ['RESULT'],          to: 'NEWS',    allowTerminal: false },
+  sync:   { label: '실시간 동기화',    from: ['PLAYING'],         to: null,      allowTerminal: false },
+  ending: { label: '착륙 판정',        from: ['NEWS', 'RESULT'],  to: null,      allowTerminal: true },
+};
+
+/**
+ * 허용되지 않는 단계에서 호출된 경우 (409)
+ */
+export class RoundPhaseError extends Error {
+  readonly statusCode = 409;
+  readonly code = 'ROUND_PHASE_CONFLICT';
+
+  constructor(
+    readonly action: RoundAction,
+    readonly currentPhase: FlightPhase,
+    readonly expectedPhase: RoundPhase[]
+  ) {
+    super(
+      `${ROUND_TRANSITIONS[action].label}은(는) ${expectedPhase.join('/')} 단계에서만 가능합니다. (현재: ${currentPhase})`
+    );
+    this.name = 'RoundPhaseError';
+  }
+
+  toResponse() {
+    return {
+      success: false,
+      error: this.message,
+      code: this.code,
+      action: this.action,
+      currentPhase: this.currentPhase,
+      expectedPhase: this.expectedPhase,
+    };
+  }
+}
+
+/**
+ * 세션의 현재 단계 (종료된 세션은 세션 상태)
+ */
+export function getFlightPhase(session: { status: SessionStatus; roundPhase: RoundPhase }): FlightPhase {
+  return session.status === 'IN_PROGRESS' ? session.roundPhase : session.status;
+}
+
+/**
+ * 동작이 현재 단계에서 허용되는지 검사하고 전환 후 단계를 반환
+ * - 허용되지 않으면 RoundPhaseError
+ */
+export function assertRoundTransition(
+  session: { status: SessionStatus; roundPhase: RoundPhase },
+  action: RoundAction
+): RoundPhase {
+  const transition = ROUND_TRANSITIONS[action];
+
+  if (session.status !== 'IN_PROGRESS') {
+    if (transition.allowTerminal) return session.roundPhase;
+    throw new RoundPhaseError(action, session.status, transition.from);
+  }
+
+  if (!transition.from.includes(session.roundPhase)) {
+    throw new RoundPhaseError(action, session.roundPhase, transition.from);
+  }
+
+  return transition.to ?? session.roundPhase;
+}
@@ -3,6 +3,8 @@ import AsyncStorage from "@react-native-async-storage/async-storage";
 export const API_BASE_URL = "http://43.203.250.10:3000";
 export const AUTH_TOKEN_KEY = "auth_token";
 export const AUTH_USER_KEY = "auth_user";
+export const AUTH_REFRESH_KEY = "auth_refresh_token";
+export const GUEST_DEVICE_KEY = "guest_device_token"; // 로그아웃해도 유지 (같은 게스트로 이어하기)
 export const API_DIAGNOSTICS_KEY = "api_diagnostics";
 
 type ApiEnvelope<T> = {
@@ -23,12 +25,16 @@ export type AuthUser = {
   email: string;
   nickname: string;
   introViewed: boolean;
+  emailVerified?: boolean; // 이메일 인증 여부 (이전에 저장된 로그인 정보에는 없음)
+  isGuest?: boolean;       // 회원가입 없이 플레이 중인 게스트
+  hasPassword?: boolean;   // 직접 정한 비밀번호가 있는지 (소셜 로그인 가입은 처음 설정하기 전까지 false)
   createdAt: string;
 };
 
 export type LoginResponse = {
   user: AuthUser;
-  token: string;
+  token: string;          // 액세스 토큰 (짧은 만료)
+  refreshToken: string;   // 만료 시 /api/auth/refresh로 교체
   hasActiveSession: boolean;
   introViewed: boolean;
 };
@@ -36,6 +42,49 @@ export type LoginResponse = {
 export type RegisterResponse = {
   user: AuthUser;
   token: string;
+  refreshToken: string;
+  upgradedFromGuest: boolean; // 게스트 항해 기록을 이어받았는지
+};
+
+export type GuestResponse = LoginResponse & {
+  deviceToken: string;
+};
+
+export type OAuthProviderName = "google" | "apple" | "kakao" | "mock";
+
+// 소셜 로그인 증명: 네이티브 SDK의 ID 토큰 또는 Authorization Code (+PKCE)
+export type OAuthCredential =
+  | { idToken: string; nonce?: string }
+  | { code: string; codeVerifier?: string; redirectUri: string; clientId?: string };
+
+export type OAuthLoginResponse = LoginResponse & {
+  isNewUser: boolean; // 이번 로그인으로 새로 가입했는지
+};
+
+export type LinkedIdentity = {
+  provider: OAuthProviderName;
+  email: string | null;
+  createdAt: string;
+};
+
+export type AuthTokens = {
+  token: string;
+  refreshToken: string;
+};
+
+export type MeResponse = {
+  user: AuthUser & { role: "USER" | "TEACHER" | "ADMIN" };
+  hasActiveSession: boolean;
+};
+
+// 내 데이터 내보내기 (서버 응답을 그대로 파일로 공유)
+export type AccountExport = {
+  exportedAt: string;
+  user: AuthUser;
+  flightSessions: unknown[];
+  races: unknown[];
+  classrooms: unknown[];
+  teaching: unknown[];
 };
 
 export type Rocket = {
@@ -48,6 +97,7 @@ export type Rocket = {
     PBR: number;
     ROE: number;
   };
+  statsAsOf?: string | null; // 펀더멘털 기준일 (임포터로 갱신한 로켓만)
   gameStats?: {
     boost: { 
       value: number;
@@ -68,14 +118,49 @@ export type Rocket = {
 };
 
 
+export type MarketDataProvider = "fixture" | "stooq" | "yahoo" | "mock";
+
+// 일봉 OHLCV (/api/charts의 chartData)
+export type ChartCandle = {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+};
+
+// 기술적 지표 시계열 (계산 구간이 모자란 앞부분은 null)
+export type IndicatorSeries = (number | null)[];
+
+export type ChartIndicators = {
+  periods: {
+    sma: number;
+    ema: number;
+    rsi: number;
+    macdFast: number;
+    macdSlow: number;
+    macdSignal: number;
+    bollinger: number;
+    bollingerStdDev: number;
+  };
+  sma: IndicatorSeries;
+  ema: IndicatorSeries;
+  rsi: IndicatorSeries;
+  macd: { macd: IndicatorSeries; signal: IndicatorSeries; histogram: IndicatorSeries };
+  bollinger: { upper: IndicatorSeries; middle: IndicatorSeries; lower: IndicatorSeries };
+};
+
 export type ChartResponse = {
   symbol: string;
   name: string;
   description: string;
+  chartData?: ChartCandle[];
   gravityData: {
     timestamps: number[];
     values: number[];
     stability: number[];
+    indicators?: ChartIndicators;
   };
   meta?: {
     volatility?: number;
@@ -83,9 +168,79 @@ export type ChartResponse = {
     priceChange24h?: number;
     dataPoints?: number;
     interval?: string;
+    seed?: number;
+    provider?: MarketDataProvider | null;
+    isMock?: boolean;
+    startDate?: string;
+    endDate?: string;
+    scenarioId?: number;
+    nowIndex?: number;    // 결정 시점 (이후 구간은 라운드 종료 후 공개)
+    totalPoints?: number; // 라운드 전체 구간 길이
+  };
+};
+
+// /api/flight/round/chart: 현재 라운드 차트 (RESULT 전에는 결정 시점까지만)
+export type RoundChartResponse = ChartResponse & {
+  round: number;
+  phase: RoundPhase;
+  reveal: {
+    nowIndex: number;
+    totalPoints: number;
+    revealed: boolean;
   };
 };
 
+// /round/end 응답의 결정 시점 이후 실제 차트 구간
+export type ChartReveal = {
+  nowIndex: number;
+  totalPoints: number;
+  timestamps: number[];
+  values: number[];
+  chartData: ChartCandle[];
+};
+
+export type ScenarioSummary = {
+  id: number;
+  slug: string;
+  title: string;
+  totalRounds: number;
+};
+
+// 항로 카탈로그 (/api/charts/symbols)
+export type VolatilityClass = "low" | "medium" | "high";
+export type PeriodAvailability = "cached" | "fixture" | "remote" | "mock";
+
+export type SymbolCatalogueEntry = {
+  symbol: string;
+  name: string;
+  sector: string;
+  volatilityClass: VolatilityClass;
+  basePrice: number;
+  rocketId: number | null; // 같은 티커의 로켓 (홈 항로)
+  volatility: number | null; // 연환산 변동성 (%)
+  localRounds: number; // 캐시/픽스처로 바로 쓸 수 있는 라운드 수
+  periods: {
+    round: number;
+    title: string | null;
+    startDate: string;
+    endDate: string;
+    source: PeriodAvailability;
+  }[];
+};
+
+export type SymbolCatalogueResponse = {
+  scenario: ScenarioSummary;
+  sectors: string[];
+  symbols: SymbolCatalogueEntry[];
+};
+
+export type ScenarioPeriod = {
+  title: string | null;
+  startDate: string;
+  endDate: string;
+  trend: "bull" | "bear" | "volatile";
+};
+
 export type FlightStatusResponse = {
   introViewed: boolean;
   hasActiveSession: boolean;
@@ -96,6 +251,10 @@ export type FlightStatusResponse = {
     currentHull: number;
     distance: number;
     symbol: string;
+    seed: number;
+    scenario: ScenarioSummary;
+    currentRound: number;
+    roundPhase: RoundPhase;
     progress: number;
     logCount: number;
   } | null;
@@ -109,6 +268,8 @@ export type FlightStartResponse = {
     currentHull: number;
     distance: number;
     symbol: string;
+    seed: number;
+    scenario: ScenarioSummary;
     targetDistance: number;
   };
   message: string;
@@ -122,6 +283,130 @@ export async function resetFlight(): Promise<{ success: boolean }> {
   });
 }
 
+// 멀티플레이 레이스 (/api/races)
+export type RaceStatus = "LOBBY" | "IN_PROGRESS" | "FINISHED";
+
+export type RaceParticipant = {
+  userId: number;
+  nickname: string;
+  rocket: { id: number; name: string };
+  isHost: boolean;
+  sessionId: number | null;
+};
+
+export type RaceStanding = {
+  rank: number;
+  userId: number;
+  nickname: string;
+  rocket: { id: number; name: string };
+  sessionId: number | null;
+  status: "IN_PROGRESS" | "COMPLETED" | "FAILED" | "ABANDONED";
+  roundsCompleted: number;
+  correctAnswers: number;
+  totalCredit: number;
+  distance: number;
+  fuel: number;
+  hull: number;
+  score: number | null;
+  finalEnding: FinalEnding["ending"] | null;
+  finished: boolean;
+};
+
+export type Race = {
+  id: number;
+  code: string;
+  status: RaceStatus;
+  hostId: number;
+  symbol: string;
+  seed: number;
+  maxPlayers: number;
+  scenario: ScenarioSummary;
+  participants: RaceParticipant[];
+  standings: RaceStanding[];
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+// 레이스 WebSocket 메시지
+export type RaceMessage =
+  | { type: "snapshot" | "lobby" | "started" | "finished"; data: Race; at: string }
+  | { type: "standings"; data: { code: string; standings: RaceStanding[] }; at: string }
+  | { type: "closed"; data: { code: string }; at: string };
+
+// 클래스 / 교사 대시보드 (/api/classrooms)
+export type InvestingStyle = "AGGRESSIVE_GROWTH" | "BALANCED_INVESTOR" | "CAUTIOUS_VALUE" | "RISK_TAKER" | "DEFENSIVE";
+
+export type ClassroomSummary = {
+  id: number;
+  code: string;
+  name: string;
+  teacher: { id: number; nickname: string };
+  memberCount: number;
+  createdAt: string;
+};
+
+export type ClassroomListResponse = {
+  canTeach: boolean;
+  teaching: ClassroomSummary[];
+  joined: ClassroomSummary[];
+};
+
+export type ClassroomMemberChoice = {
+  round: number;
+  fuelInput: number;
+  isCorrect: boolean;
+  partialCredit: number | null;
+};
+
+export type ClassroomMemberView = {
+  userId: number;
+  nickname: string;
+  joinedAt: string;
+  session: {
+    id: number;
+    status: "IN_PROGRESS" | "COMPLETED" | "FAILED";
+    symbol: string;
+    rocket: { id: number; name: string };
+    scenario: { id: number; title: string; totalRounds: number };
+    currentRound: number;
+    roundPhase: RoundPhase;
+    currentFuel: number;
+    currentHull: number;
+    progress: number;
+    correctAnswers: number;
+    totalCredit: number;
+    accuracy: number | null;
+    tier: string | null;
+    finalEnding: FinalEnding["ending"] | null;
+    score: number | null;
+    investingStyle: InvestingStyle | null;
+    investingStyleKorean: string | null;
+    investingStyleEstimated: boolean; // 종료 전이면 누적 데이터 기준 추정치
+    updatedAt: string;
+  } | null;
+  choices: ClassroomMemberChoice[];
+};
+
+export type ClassroomDashboard = {
+  classroom: ClassroomSummary;
+  summary: { memberCount: number; flyingCount: number; finishedCount: number; notStartedCount: number };
+  totalRounds: number;
+  members: ClassroomMemberView[];
+  rounds: {
+    round: number;
+    answered: number;
+    correct: number;
+    accuracy: number | null;
+    averageCredit: number | null;
+    averageFuelInput: number | null;
+  }[];
+  investingStyles: { style: InvestingStyle; label: string; count: number }[];
+  generatedAt: string;
+};
+
+export type ClassroomMessage = { type: "snapshot" | "dashboard"; data: ClassroomDashboard; at: string };
+
 export type FlightSyncResponse = {
   currentFuel: number;
   currentHull: number;
@@ -137,33 +422,240 @@ export type FlightSyncResponse = {
   gameOverReason: string;
 };
 
-export type MarketPhase =
-  | "systemic_crash"
-  | "high_volatility"
-  | "expansion"
-  | "regulatory_fog"
-  | "bubble_collapse"
-  | "final_approach";
+export type RoundPhase = "NEWS" | "PLAYING" | "RESULT";
 
-export type RoundLog = {
+export type RoundNewsEvent = {
+  id: number;
   round: number;
-  marketPhase: MarketPhase;
-  updates: string[];
-  userChoice: "up" | "down";
-  correctAnswer: "up" | "down";
-};
-
-export type GameSession = {
-  rocket: string;
-  rocketType: "growth" | "bluechip" | "defensive";
-  rounds: RoundLog[];
-  summary: {
-    accuracy: number;
-    fuelLeft: number;
-    hullIntegrity: number;
+  isGlobal: boolean;
+  news: { title: string; content: string };
+  navigator: { title: string; content: string };
+  log: { title: string; content: string };
+};
+
+export type RoundNewsResponse = {
+  currentRound: number;
+  totalRounds: number;
+  phase: RoundPhase;
+  scenario: ScenarioSummary;
+  period: ScenarioPeriod | null;
+  events: RoundNewsEvent[];
+};
+
+export type RoundStartResponse = {
+  currentRound: number;
+  phase: RoundPhase;
+  message: string;
+  currentFuel: number;
+  currentHull: number;
+  distance: number;
+};
+
+export type RoundChoiceResult = {
+  isPositiveEvent: boolean;
+  userChoseFuel: boolean;
+  isCorrectChoice: boolean;
+  explanation: string;
+  // 투입량 부분 점수 (이벤트 강도 대비 포지션 크기)
+  eventStrength: number;     // 0~1
+  idealFuelInput: number;    // 0~100
+  partialCredit: number;     // 0~1
+  creditExplanation: string;
+  fuelInput: number;
+  correctAnswersSoFar: number;
+  creditSoFar: number;       // 라운드별 부분 점수 누적
+  totalRounds: number;
+};
+
+export type FinalEnding = {
+  ending: "CRASH" | "MARS" | "INVASION";
+  title: string;
+  description: string;
+  videoId: string;
+  dogeVillageBuilt: boolean;
+  potatoPlanting: boolean;
+};
+
+// 항해 계기판 실시간 채널 (/api/flight/ws)
+export type FlightTelemetry = {
+  sessionId: number;
+  status: "IN_PROGRESS" | "COMPLETED" | "FAILED";
+  symbol: string;
+  currentRound: number;
+  roundPhase: RoundPhase;
+  currentFuel: number;
+  currentHull: number;
+  distance: number;
+  progress: number;
+  correctAnswers: number;
+  totalCredit: number;
+  version: number;
+};
+
+export type TelemetryReason = "start" | "sync" | "round:start" | "round:end" | "round:next" | "ending" | "reset";
+
+export type RevealedTwist = {
+  eventId: number;
+  isGlobal: boolean;
+  twistType: string;
+  description: string;
+  isPositiveOutcome: boolean;
+  thrustMultiplier: number;
+};
+
+export type FlightMessage =
+  | { type: "snapshot"; data: { telemetry: FlightTelemetry | null }; at: string }
+  | { type: "state"; data: { reason: TelemetryReason; telemetry: FlightTelemetry | null }; at: string }
+  | { type: "twist"; data: { sessionId: number; round: number; twists: RevealedTwist[] }; at: string }
+  | {
+      type: "gameOver";
+      data: {
+        sessionId: number;
+        status: FlightTelemetry["status"];
+        reason: string;
+        finalEnding: FinalEnding["ending"] | null;
+        score: number | null;
+      };
+      at: string;
+    };
+
+export type LeaderboardPeriod = "all" | "weekly";
+
+export type LeaderboardEntry = {
+  rank: number;
+  userId: number;
+  nickname: string;
+  sessionId: number;
+  score: number;
+  correctAnswers: number;
+  distance: number;
+  tier: string | null;
+  finalEnding: FinalEnding["ending"] | null;
+  symbol: string;
+  rocket: { id: number; name: string };
+  scenarioId: number;
+  completedAt: string;
+  isMe: boolean;
+};
+
+export type LeaderboardResponse = {
+  filters: {
+    period: LeaderboardPeriod;
+    rocketId: number | null;
+    symbol: string | null;
+    scenarioId: number | null;
+    since?: string;
+  };
+  entries: LeaderboardEntry[];
+  me: LeaderboardEntry | null;
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
   };
 };
 
+export type ReplayResources = {
+  fuel: number;
+  hull: number;
+  distance: number;
+};
+
+export type ReplayRound = {
+  round: number;
+  period: ScenarioPeriod | null;
+  chart: {
+    timestamps: number[];
+    values: number[];
+    stability: number[];
+    provider: MarketDataProvider | null;
+    isMock: boolean;
+  } | null;
+  news: RoundNewsEvent[];
+  choice: {
+    fuelInput: number;
+    yValue: number;
+    userChoseFuel: boolean | null;
+    isCorrectChoice: boolean | null;
+    idealFuelInput: number | null;
+    partialCredit: number | null;
+  };
+  reveal: {
+    isPositiveEvent: boolean | null;
+    thrustMultiplier: number | null;
+    events: {
+      eventId: number;
+      isGlobal: boolean;
+      isTwist: boolean;
+      twistType: string;
+      description: string;
+    }[];
+  };
+  resources: {
+    before: ReplayResources;
+    after: ReplayResources;
+    delta: ReplayResources;
+  };
+  timestamp: string;
+};
+
+export type ReplayResponse = {
+  session: {
+    id: number;
+    rocket: { id: number; name: string };
+    symbol: string;
+    seed: number;
+    scenario: ScenarioSummary;
+    status: string;
+    correctAnswers: number;
+    totalCredit: number;
+    score: number | null;
+    tier: string | null;
+    finalEnding: FinalEnding["ending"] | null;
+    initial: ReplayResources;
+  };
+  rounds: ReplayRound[];
+};
+
+export type RoundEndResponse = {
+  currentRound: number;
+  phase: RoundPhase;
+  eventResults: {
+    eventId: number;
+    isGlobal: boolean;
+    isTwist: boolean;
+    twistType: "NONE" | "POSITIVE" | "NEGATIVE";
+    actualResult: { title: string; content: string };
+    thrustMultiplier: number;
+    isPositiveOutcome: boolean;
+    description: string;
+  }[];
+  choiceResult: RoundChoiceResult;
+  totalThrustMultiplier: number;
+  actualFuelConsumed: number;
+  actualDistance: number;
+  actualHullDamage: number;
+  currentFuel: number;
+  currentHull: number;
+  distance: number;
+  progress: number;
+  nextRound: number;
+  isGameOver: boolean;
+  gameOverReason: string;
+  status: string;
+  finalEnding: FinalEnding | null;
+  chartReveal?: ChartReveal | null; // 결정 시점 이후 실제 흐름 (차트를 못 불러오면 null)
+  replayed?: boolean; // 같은 제출의 재시도라 저장된 결과를 돌려받은 경우
+};
+
+export type RoundNextResponse = {
+  previousRound: number;
+  currentRound: number;
+  phase: RoundPhase;
+  message: string;
+};
+
 export type AnalysisResult = {
   archetype: string;
   oneLineSummary: string;
@@ -176,6 +668,11 @@ export type AnalysisResult = {
 
 export type DecisionAnalysisResponse = {
   analysis: AnalysisResult;
+  model: string;
+  promptVersion: string;
+  isFallback: boolean; // 모델 대신 규칙 기반 분석으로 대체됨
+  createdAt: string;
+  cached: boolean; // 이전에 저장된 분석을 그대로 받음
 };
 
 
@@ -193,21 +690,68 @@ export async function getAuthUser(): Promise<AuthUser | null> {
   }
 }
 
-export async function saveAuthSession(payload: { token: string; user: AuthUser }): Promise<void> {
+export async function saveAuthSession(payload: { token: string; refreshToken?: string; user: AuthUser }): Promise<void> {
   await AsyncStorage.setItem(AUTH_TOKEN_KEY, payload.token);
   await AsyncStorage.setItem(AUTH_USER_KEY, JSON.stringify(payload.user));
+  if (payload.refreshToken) {
+    await AsyncStorage.setItem(AUTH_REFRESH_KEY, payload.refreshToken);
+  }
 }
 
 export async function clearAuthSession(): Promise<void> {
   await AsyncStorage.removeItem(AUTH_TOKEN_KEY);
   await AsyncStorage.removeItem(AUTH_USER_KEY);
+  await AsyncStorage.removeItem(AUTH_REFRESH_KEY);
+}
+
+// 진행 중인 토큰 갱신 (동시에 여러 요청이 401을 받아도 갱신은 한 번만)
+let refreshInFlight: Promise<boolean> | null = null;
+
+/**
+ * 리프레시 토큰으로 액세스 토큰 갱신 (토큰이 거절되면(401) 저장된 로그인 정보 삭제)
+ * - 리프레시 토큰은 한 번 쓰면 폐기되므로 반드시 새 토큰으로 교체 저장
+ */
+export async function refreshAuthSession(): Promise<boolean> {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const refreshToken = await AsyncStorage.getItem(AUTH_REFRESH_KEY);
+      if (!refreshToken) return false;
+      try {
+        const response = await fetch(`${API_BASE_URL}/api/auth/refresh`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ refreshToken }),
+        });
+        const json = (await response.json().catch(() => null)) as ApiEnvelope<AuthTokens> | null;
+        if (response.status === 401) {
+          await clearAuthSession();
+          return false;
+        }
+        if (!response.ok || !json?.data) {
+          // 요청 제한(429)이나 서버 오류(5xx)는 로그인 정보를 유지 (다음 요청에서 다시 시도)
+          console.error("[AUTH] 토큰 갱신 실패:", response.status, json?.error);
+          return false;
+        }
+        await AsyncStorage.setItem(AUTH_TOKEN_KEY, json.data.token);
+        await AsyncStorage.setItem(AUTH_REFRESH_KEY, json.data.refreshToken);
+        return true;
+      } catch (e) {
+        // 네트워크 오류는 로그인 정보를 유지 (다음 요청에서 다시 시도)
+        console.error("[AUTH] 토큰 갱신 실패:", e);
+        return false;
+      }
+    })().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
 }
 
 export async function getApiDiagnostics(): Promise<string | null> {
   return AsyncStorage.getItem(API_DIAGNOSTICS_KEY);
 }
 
-async function apiRequest<T>(path: string, options: ApiRequestOptions = {}): Promise<T> {
+async function apiRequest<T>(path: string, options: ApiRequestOptions = {}, retried = false): Promise<T> {
   const { method = "GET", body, auth = false } = options;
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
@@ -245,6 +789,11 @@ async function apiRequest<T>(path: string, options: ApiRequestOptions = {}): Pro
     }
   }
 
+  // 액세스 토큰 만료: 한 번만 갱신 후 같은 요청 재시도
+  if (response.status === 401 && auth && !retried && (await refreshAuthSession())) {
+    return apiRequest<T>(path, options, true);
+  }
+
   if (!response.ok) {
     const message = json?.error || json?.message || response.statusText || "Request failed";
     console.error("[API ERROR]", {
@@ -269,18 +818,182 @@ async function apiRequest<T>(path: string, options: ApiRequestOptions = {}): Pro
   return (json.data ?? json) as T;
 }
 
+/**
+ * 회원가입 (게스트로 플레이 중이면 게스트 계정을 전환해 항해 기록 유지)
+ */
 export async function registerUser(params: {
   email: string;
   password: string;
   nickname: string;
 }): Promise<RegisterResponse> {
-  return apiRequest<RegisterResponse>("/api/auth/register", { method: "POST", body: params });
+  const user = await getAuthUser();
+  const deviceToken = user?.isGuest ? await AsyncStorage.getItem(GUEST_DEVICE_KEY) : null;
+  const response = await apiRequest<RegisterResponse>("/api/auth/register", {
+    method: "POST",
+    body: deviceToken ? { ...params, deviceToken } : params,
+  });
+  if (response.upgradedFromGuest) {
+    await AsyncStorage.removeItem(GUEST_DEVICE_KEY);
+  }
+  return response;
+}
+
+export async function getOAuthProviders(): Promise<OAuthProviderName[]> {
+  const { providers } = await apiRequest<{ providers: OAuthProviderName[] }>("/api/auth/oauth/providers");
+  return providers;
+}
+
+/**
+ * 소셜 로그인 (게스트로 플레이 중이면 게스트 계정을 전환해 항해 기록 유지)
+ */
+export async function loginWithProvider(provider: OAuthProviderName, credential: OAuthCredential): Promise<OAuthLoginResponse> {
+  const user = await getAuthUser();
+  const deviceToken = user?.isGuest ? await AsyncStorage.getItem(GUEST_DEVICE_KEY) : null;
+  const response = await apiRequest<OAuthLoginResponse>(`/api/auth/oauth/${provider}`, {
+    method: "POST",
+    body: deviceToken ? { ...credential, deviceToken } : credential,
+  });
+  if (deviceToken) {
+    await AsyncStorage.removeItem(GUEST_DEVICE_KEY);
+  }
+  return response;
+}
+
+export async function getLinkedIdentities(): Promise<LinkedIdentity[]> {
+  const { identities } = await apiRequest<{ identities: LinkedIdentity[] }>("/api/auth/identities", { auth: true });
+  return identities;
+}
+
+export async function linkIdentity(provider: OAuthProviderName, credential: OAuthCredential): Promise<LinkedIdentity> {
+  const { identity } = await apiRequest<{ identity: LinkedIdentity }>(`/api/auth/identities/${provider}`, {
+    method: "POST",
+    body: credential,
+    auth: true,
+  });
+  return identity;
+}
+
+export async function unlinkIdentity(provider: OAuthProviderName): Promise<void> {
+  await apiRequest<unknown>(`/api/auth/identities/${provider}`, { method: "DELETE", auth: true });
+}
+
+/**
+ * 게스트로 시작 (이 기기에서 플레이한 게스트가 있으면 이어하기)
+ */
+export async function startGuestSession(): Promise<GuestResponse> {
+  const deviceToken = await AsyncStorage.getItem(GUEST_DEVICE_KEY);
+  const response = await apiRequest<GuestResponse>("/api/auth/guest", {
+    method: "POST",
+    body: deviceToken ? { deviceToken } : {},
+  });
+  await AsyncStorage.setItem(GUEST_DEVICE_KEY, response.deviceToken);
+  await saveAuthSession({ token: response.token, refreshToken: response.refreshToken, user: response.user });
+  return response;
 }
 
 export async function loginUser(params: { email: string; password: string }): Promise<LoginResponse> {
   return apiRequest<LoginResponse>("/api/auth/login", { method: "POST", body: params });
 }
 
+/**
+ * 이메일 인증 코드 확인 (이 기기에 로그인된 계정이면 저장된 유저 정보도 갱신)
+ */
+export async function verifyEmail(params: { email: string; code: string }): Promise<void> {
+  await apiRequest<unknown>("/api/auth/verify-email", { method: "POST", body: params });
+
+  const user = await getAuthUser();
+  if (user && user.email.toLowerCase() === params.email.toLowerCase()) {
+    await AsyncStorage.setItem(AUTH_USER_KEY, JSON.stringify({ ...user, emailVerified: true }));
+  }
+}
+
+/**
+ * 인증 메일 재발송 (로그인 필요)
+ */
+export async function resendVerificationEmail(): Promise<void> {
+  await apiRequest<unknown>("/api/auth/verify-email/resend", { method: "POST", body: {}, auth: true });
+}
+
+/**
+ * 비밀번호 재설정 코드 요청 (가입 여부와 관계없이 성공)
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  await apiRequest<unknown>("/api/auth/password/forgot", { method: "POST", body: { email } });
+}
+
+/**
+ * 비밀번호 재설정 (성공하면 모든 기기에서 로그아웃되므로 다시 로그인)
+ */
+export async function resetPassword(params: { email: string; code: string; newPassword: string }): Promise<void> {
+  await apiRequest<unknown>("/api/auth/password/reset", { method: "POST", body: params });
+  await clearAuthSession();
+}
+
+/**
+ * 로그아웃 (이 기기): 서버의 리프레시 토큰을 폐기하고 저장된 로그인 정보 삭제
+ * - 서버 요청이 실패해도 기기에서는 로그아웃
+ */
+export async function logoutUser(): Promise<void> {
+  const refreshToken = await AsyncStorage.getItem(AUTH_REFRESH_KEY);
+  try {
+    if (refreshToken) {
+      await apiRequest<unknown>("/api/auth/logout", { method: "POST", body: { refreshToken } });
+    }
+  } catch (e) {
+    console.error("[AUTH] 로그아웃 요청 실패:", e);
+  } finally {
+    await clearAuthSession();
+  }
+}
+
+/**
+ * 모든 기기 로그아웃 (다른 기기의 토큰도 즉시 무효화)
+ */
+export async function logoutAllDevices(): Promise<void> {
+  await apiRequest<unknown>("/api/auth/logout-all", { method: "POST", body: {}, auth: true });
+  await clearAuthSession();
+}
+
+export async function getMe(): Promise<MeResponse> {
+  return apiRequest<MeResponse>("/api/auth/me", { auth: true });
+}
+
+/**
+ * 프로필 수정 (닉네임/이메일, 이메일을 바꾸려면 현재 비밀번호 필요, 바꾸면 다시 인증 필요)
+ * - 저장된 유저 정보도 함께 갱신
+ */
+export async function updateProfile(changes: { nickname?: string; email?: string; currentPassword?: string }): Promise<AuthUser> {
+  const { user } = await apiRequest<{ user: AuthUser }>("/api/auth/me", { method: "PATCH", body: changes, auth: true });
+  await AsyncStorage.setItem(AUTH_USER_KEY, JSON.stringify(user));
+  return user;
+}
+
+/**
+ * 비밀번호 변경 (다른 기기는 로그아웃, 이 기기는 새 토큰으로 교체)
+ * - 비밀번호가 없는 소셜 로그인 계정은 currentPassword 없이 처음 설정
+ */
+export async function changePassword(params: { currentPassword?: string; newPassword: string }): Promise<void> {
+  const tokens = await apiRequest<AuthTokens>("/api/auth/password", { method: "POST", body: params, auth: true });
+  await AsyncStorage.setItem(AUTH_TOKEN_KEY, tokens.token);
+  await AsyncStorage.setItem(AUTH_REFRESH_KEY, tokens.refreshToken);
+}
+
+export async function exportAccountData(): Promise<AccountExport> {
+  return apiRequest<AccountExport>("/api/auth/me/export", { auth: true });
+}
+
+/**
+ * 회원 탈퇴 (되돌릴 수 없음, 성공하면 저장된 로그인 정보 삭제)
+ */
+export async function deleteAccount(password?: string): Promise<void> {
+  await apiRequest<unknown>("/api/auth/me", { method: "DELETE", body: password ? { password } : {}, auth: true });
+  const user = await getAuthUser();
+  if (user?.isGuest) {
+    await AsyncStorage.removeItem(GUEST_DEVICE_KEY);
+  }
+  await clearAuthSession();
+}
+
 export async function markIntroComplete(): Promise<{ message: string }> {
   return apiRequest<{ message: string }>("/api/flight/intro-complete", { method: "POST", auth: true, body: {} });
 }
@@ -289,11 +1002,30 @@ export async function getRockets(): Promise<{ rockets: Rocket[]; statExplanation
   return apiRequest<{ rockets: Rocket[]; statExplanation?: any }>("/api/rockets");
 }
 
-export async function getChart(symbol: string, round: number): Promise<ChartResponse> {
-  const query = `?symbol=${encodeURIComponent(symbol)}&round=${encodeURIComponent(round)}`;
+export async function getChart(
+  symbol: string,
+  round: number,
+  seed?: number,
+  scenarioId?: number
+): Promise<ChartResponse> {
+  let query = `?symbol=${encodeURIComponent(symbol)}&round=${encodeURIComponent(round)}`;
+  if (seed !== undefined) query += `&seed=${encodeURIComponent(seed)}`;
+  if (scenarioId !== undefined) query += `&scenarioId=${encodeURIComponent(scenarioId)}`;
   return apiRequest<ChartResponse>(`/api/charts${query}`);
 }
 
+export async function getSymbolCatalogue(params: {
+  q?: string;
+  sector?: string;
+  scenarioId?: number;
+} = {}): Promise<SymbolCatalogueResponse> {
+  const query = Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== "")
+    .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+    .join("&");
+  return apiRequest<SymbolCatalogueResponse>(`/api/charts/symbols${query ? `?${query}` : ""}`);
+}
+
 export async function getFlightStatus(): Promise<FlightStatusResponse> {
   return apiRequest<FlightStatusResponse>("/api/flight/status", { auth: true });
 }
@@ -310,6 +1042,201 @@ export async function syncFlight(params: {
   return apiRequest<FlightSyncResponse>("/api/flight/sync", { method: "POST", body: params, auth: true });
 }
 
-export async function analyzeDecisions(session: GameSession): Promise<DecisionAnalysisResponse> {
-  return apiRequest<DecisionAnalysisResponse>("/api/analysis/decision", { method: "POST", body: session, auth: true });
+export async function analyzeDecisions(sessionId: number): Promise<DecisionAnalysisResponse> {
+  return apiRequest<DecisionAnalysisResponse>("/api/analysis/decision", { method: "POST", body: { sessionId }, auth: true });
+}
+
+export async function getRoundNews(): Promise<RoundNewsResponse> {
+  return apiRequest<RoundNewsResponse>("/api/flight/round/news", { auth: true });
+}
+
+export async function getRoundChart(): Promise<RoundChartResponse> {
+  return apiRequest<RoundChartResponse>("/api/flight/round/chart", { auth: true });
+}
+
+export async function startRound(): Promise<RoundStartResponse> {
+  return apiRequest<RoundStartResponse>("/api/flight/round/start", { method: "POST", body: {}, auth: true });
+}
+
+export async function endRound(params: {
+  fuelInput: number;
+  yValue?: number;
+  idempotencyKey?: string;
+}): Promise<RoundEndResponse> {
+  return apiRequest<RoundEndResponse>("/api/flight/round/end", { method: "POST", body: params, auth: true });
+}
+
+export async function nextRound(): Promise<RoundNextResponse> {
+  return apiRequest<RoundNextResponse>("/api/flight/round/next", { method: "POST", body: {}, auth: true });
+}
+
+export async function getLeaderboard(params: {
+  period?: LeaderboardPeriod;
+  rocketId?: number;
+  symbol?: string;
+  scenarioId?: number;
+  page?: number;
+  pageSize?: number;
+} = {}): Promise<LeaderboardResponse> {
+  const query = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+    .join("&");
+  return apiRequest<LeaderboardResponse>(`/api/leaderboard${query ? `?${query}` : ""}`, { auth: true });
+}
+
+export async function getReplay(sessionId: number): Promise<ReplayResponse> {
+  return apiRequest<ReplayResponse>(`/api/flight/replay/${sessionId}`, { auth: true });
+}
+
+export async function createRace(params: {
+  rocketId: number;
+  symbol: string;
+  scenarioId?: number;
+  maxPlayers?: number;
+}): Promise<{ race: Race }> {
+  return apiRequest<{ race: Race }>("/api/races", { method: "POST", body: params, auth: true });
+}
+
+export async function getRace(code: string): Promise<{ race: Race }> {
+  return apiRequest<{ race: Race }>(`/api/races/${encodeURIComponent(code)}`, { auth: true });
+}
+
+export async function joinRace(code: string, rocketId: number): Promise<{ race: Race }> {
+  return apiRequest<{ race: Race }>(`/api/races/${encodeURIComponent(code)}/join`, {
+    method: "POST",
+    body: { rocketId },
+    auth: true,
+  });
+}
+
+export async function leaveRace(code: string): Promise<{ race: Race | null }> {
+  return apiRequest<{ race: Race | null }>(`/api/races/${encodeURIComponent(code)}/leave`, {
+    method: "POST",
+    body: {},
+    auth: true,
+  });
+}
+
+export async function startRace(code: string): Promise<{ race: Race }> {
+  return apiRequest<{ race: Race }>(`/api/races/${encodeURIComponent(code)}/start`, {
+    method: "POST",
+    body: {},
+    auth: true,
+  });
+}
+
+export async function listClassrooms(): Promise<ClassroomListResponse> {
+  return apiRequest<ClassroomListResponse>("/api/classrooms", { auth: true });
+}
+
+export async function createClassroom(name: string): Promise<{ classroom: ClassroomSummary }> {
+  return apiRequest<{ classroom: ClassroomSummary }>("/api/classrooms", {
+    method: "POST",
+    body: { name },
+    auth: true,
+  });
+}
+
+export async function joinClassroom(code: string): Promise<{ classroom: ClassroomSummary }> {
+  return apiRequest<{ classroom: ClassroomSummary }>("/api/classrooms/join", {
+    method: "POST",
+    body: { code },
+    auth: true,
+  });
+}
+
+export async function leaveClassroom(code: string): Promise<void> {
+  await apiRequest<unknown>(`/api/classrooms/${encodeURIComponent(code)}/leave`, {
+    method: "POST",
+    body: {},
+    auth: true,
+  });
+}
+
+export async function getClassroomDashboard(code: string): Promise<{ dashboard: ClassroomDashboard }> {
+  return apiRequest<{ dashboard: ClassroomDashboard }>(`/api/classrooms/${encodeURIComponent(code)}/dashboard`, {
+    auth: true,
+  });
+}
+
+/**
+ * 대시보드 CSV 원문 (JSON 봉투가 아니라 apiRequest 대신 직접 요청)
+ */
+export async function exportClassroomCsv(code: string): Promise<string> {
+  const token = await getAuthToken();
+  const response = await fetch(`${API_BASE_URL}/api/classrooms/${encodeURIComponent(code)}/export`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  const text = await response.text();
+  if (!response.ok) {
+    let message = response.statusText || "Request failed";
+    try {
+      message = (JSON.parse(text) as ApiEnvelope<unknown>).error || message;
+    } catch {
+      // 본문이 JSON이 아니면 상태 메시지 사용
+    }
+    throw new Error(message);
+  }
+  return text;
+}
+
+/**
+ * 서버 푸시 채널 연결 (토큰은 쿼리로 전달, 반환된 함수로 연결 종료)
+ */
+async function openPushSocket<T>(path: string, label: string, onMessage: (message: T) => void): Promise<() => void> {
+  let socket: WebSocket | null = null;
+  let closed = false;
+
+  const connect = async (retried: boolean) => {
+    const token = await getAuthToken();
+    if (closed) return;
+    const url = `${API_BASE_URL.replace(/^http/, "ws")}${path}?token=${encodeURIComponent(token ?? "")}`;
+    socket = new WebSocket(url);
+
+    socket.onmessage = (event) => {
+      try {
+        onMessage(JSON.parse(String(event.data)) as T);
+      } catch (e) {
+        console.error(`[${label} WS] 메시지 파싱 실패:`, e);
+      }
+    };
+    socket.onerror = () => console.error(`[${label} WS] 연결 오류:`, url);
+    // 액세스 토큰 만료로 거절(4401)되면 한 번만 갱신 후 재연결
+    socket.onclose = (event) => {
+      if (event.code === 4401 && !retried && !closed) {
+        refreshAuthSession().then((refreshed) => {
+          if (refreshed) connect(true);
+        });
+      }
+    };
+  };
+
+  await connect(false);
+
+  return () => {
+    closed = true;
+    socket?.close();
+  };
+}
+
+/**
+ * 레이스 실시간 채널 구독 (반환된 함수로 연결 종료)
+ */
+export async function openRaceSocket(code: string, onMessage: (message: RaceMessage) => void): Promise<() => void> {
+  return openPushSocket(`/api/races/${encodeURIComponent(code)}/ws`, "RACE", onMessage);
+}
+
+/**
+ * 교사 대시보드 채널 구독 (멤버 상태가 바뀔 때마다 집계 전체를 다시 받음)
+ */
+export async function openClassroomSocket(code: string, onMessage: (message: ClassroomMessage) => void): Promise<() => void> {
+  return openPushSocket(`/api/classrooms/${encodeURIComponent(code)}/ws`, "CLASSROOM", onMessage);
+}
+
+/**
+ * 항해 계기판 채널 구독: 연료/선체/거리, 라운드 단계 전환, 반전 공개, 항해 종료를 푸시로 수신
+ */
+export async function openFlightSocket(onMessage: (message: FlightMessage) => void): Promise<() => void> {
+  return openPushSocket("/api/flight/ws", "FLIGHT", onMessage);
 }
@@ -0,0 +1,117 @@
+import { Platform } from "react-native";
+import * as AppleAuthentication from "expo-apple-authentication";
+import * as AuthSession from "expo-auth-session";
+import * as Crypto from "expo-crypto";
+import * as WebBrowser from "expo-web-browser";
+import type { LinkedIdentity, OAuthCredential, OAuthLoginResponse, OAuthProviderName } from "./client";
+import { linkIdentity, loginWithProvider } from "./client";
+
+WebBrowser.maybeCompleteAuthSession();
+
+// 앱 딥링크 스킴 (app.json의 expo.scheme)
+const APP_SCHEME = "dogecity";
+
+type ProviderConfig = {
+  issuer: string;
+  clientId: string;
+  scopes: string[];
+};
+
+// 브라우저 로그인(Authorization Code + PKCE)용 제공자 설정, code 교환은 서버에서
+const WEB_PROVIDERS: Record<Exclude<OAuthProviderName, "apple">, ProviderConfig> = {
+  google: {
+    issuer: "https://accounts.google.com",
+    clientId:
+      Platform.select({
+        ios: process.env.EXPO_PUBLIC_GOOGLE_IOS_CLIENT_ID,
+        android: process.env.EXPO_PUBLIC_GOOGLE_ANDROID_CLIENT_ID,
+      }) ?? "",
+    scopes: ["openid", "email", "profile"],
+  },
+  kakao: {
+    issuer: "https://kauth.kakao.com",
+    clientId: process.env.EXPO_PUBLIC_KAKAO_CLIENT_ID ?? "",
+    scopes: ["openid", "account_email", "profile_nickname"],
+  },
+  // 로컬 Mock 발급자 (Backend: npm run oauth:mock)
+  mock: {
+    issuer: process.env.EXPO_PUBLIC_OAUTH_MOCK_ISSUER ?? "",
+    clientId: "doge-city-app",
+    scopes: ["openid", "email", "profile"],
+  },
+};
+
+/**
+ * 이 기기에서 쓸 수 있는 제공자만 (서버에서 켜져 있고 앱에도 설정된 것)
+ * - Apple은 iOS 네이티브 로그인만 지원
+ */
+export async function filterAvailableProviders(providers: OAuthProviderName[]): Promise<OAuthProviderName[]> {
+  const appleAvailable = Platform.OS === "ios" && (await AppleAuthentication.isAvailableAsync());
+  return providers.filter((provider) =>
+    provider === "apple" ? appleAvailable : !!WEB_PROVIDERS[provider].issuer && !!WEB_PROVIDERS[provider].clientId
+  );
+}
+
+/**
+ * Sign in with Apple (iOS 네이티브): ID 토큰과 nonce를 서버로 전달
+ */
+async function appleCredential(): Promise<OAuthCredential | null> {
+  const nonce = Crypto.randomUUID();
+  try {
+    const credential = await AppleAuthentication.signInAsync({
+      requestedScopes: [AppleAuthentication.AppleAuthenticationScope.FULL_NAME, AppleAuthentication.AppleAuthenticationScope.EMAIL],
+      nonce,
+    });
+    return credential.identityToken ? { idToken: credential.identityToken, nonce } : null;
+  } catch (e) {
+    // 사용자가 취소한 경우
+    if ((e as { code?: string }).code === "ERR_REQUEST_CANCELED") return null;
+    throw e;
+  }
+}
+
+/**
+ * 제공자 로그인 화면을 띄워 서버로 보낼 증명 받기 (취소하면 null)
+ */
+async function obtainCredential(provider: OAuthProviderName): Promise<OAuthCredential | null> {
+  if (provider === "apple") {
+    return appleCredential();
+  }
+
+  const config = WEB_PROVIDERS[provider];
+  const discovery = await AuthSession.fetchDiscoveryAsync(config.issuer);
+  const redirectUri = AuthSession.makeRedirectUri({ scheme: APP_SCHEME, path: "oauth" });
+  const request = new AuthSession.AuthRequest({
+    clientId: config.clientId,
+    redirectUri,
+    scopes: config.scopes,
+    responseType: AuthSession.ResponseType.Code,
+    usePKCE: true,
+  });
+
+  const result = await request.promptAsync(discovery);
+  if (result.type !== "success") return null;
+
+  return {
+    code: result.params.code,
+    codeVerifier: request.codeVerifier,
+    redirectUri,
+    clientId: config.clientId,
+  };
+}
+
+/**
+ * 소셜 로그인 실행 (취소하면 null)
+ */
+export async function signInWithProvider(provider: OAuthProviderName): Promise<OAuthLoginResponse | null> {
+  const credential = await obtainCredential(provider);
+  return credential ? loginWithProvider(provider, credential) : null;
+}
+
+/**
+ * 로그인된 계정에 소셜 로그인 연결 (취소하면 null)
+ */
+export async function linkProvider(provider: OAuthProviderName): Promise<LinkedIdentity | null> {
+  const credential = await obtainCredential(provider);
+  return credential ? linkIdentity(provider, credential) : null;
+}
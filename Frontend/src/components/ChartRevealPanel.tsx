@@ -0,0 +1,79 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { StyleSheet, Text, View } from "react-native";
+import TrajectoryGSIChart from "./TrajectoryGSIChart";
+import { theme } from "../theme";
+import type { ChartReveal } from "../api/client";
+
+// 결정 시점 이후 구간을 다 그리는 데 걸리는 시간
+const REVEAL_DURATION_MS = 2400;
+const REVEAL_TICK_MS = 60;
+
+interface ChartRevealPanelProps {
+  before: number[];     // 라운드 중 보였던 구간 (결정 시점까지)
+  reveal: ChartReveal;  // /round/end에서 받은 이후 구간
+  width: number;
+  height: number;
+}
+
+/**
+ * 결과 화면에서 선택 이후 실제 주가 흐름을 이어 그리는 패널
+ * - 결정 시점은 세로선으로 표시, 다 그린 뒤 결정 시점 대비 변화율 표시
+ */
+export default function ChartRevealPanel({ before, reveal, width, height }: ChartRevealPanelProps) {
+  const visibleBefore = useMemo(() => before.slice(0, reveal.nowIndex + 1), [before, reveal.nowIndex]);
+  const fullData = useMemo(() => [...visibleBefore, ...reveal.values], [reveal.values, visibleBefore]);
+  const [shown, setShown] = useState(0);
+
+  useEffect(() => {
+    setShown(0);
+    const total = reveal.values.length;
+    if (total === 0) return undefined;
+    const step = Math.max(1, Math.ceil(total / (REVEAL_DURATION_MS / REVEAL_TICK_MS)));
+    const timer = setInterval(() => {
+      setShown((prev) => {
+        const next = Math.min(total, prev + step);
+        if (next >= total) clearInterval(timer);
+        return next;
+      });
+    }, REVEAL_TICK_MS);
+    return () => clearInterval(timer);
+  }, [reveal]);
+
+  const done = shown >= reveal.values.length;
+  const nowValue = visibleBefore[visibleBefore.length - 1];
+  const lastValue = reveal.values[reveal.values.length - 1];
+  const change = nowValue && lastValue !== undefined ? ((lastValue - nowValue) / nowValue) * 100 : null;
+
+  if (visibleBefore.length === 0) return null;
+
+  return (
+    <View style={s.card}>
+      <Text style={s.title}>TRAJECTORY AFTER DECISION</Text>
+      <TrajectoryGSIChart
+        data={fullData}
+        width={width}
+        height={height}
+        cursorIndex={visibleBefore.length - 1}
+        visibleCount={visibleBefore.length + shown}
+      />
+      <Text style={[s.caption, done && change !== null && { color: change >= 0 ? theme.colors.success : theme.colors.danger }]}>
+        {done && change !== null
+          ? `결정 이후 ${change >= 0 ? "+" : ""}${change.toFixed(2)}%`
+          : "숨겨진 궤도 공개 중..."}
+      </Text>
+    </View>
+  );
+}
+
+const s = StyleSheet.create({
+  card: {
+    padding: 10,
+    borderRadius: theme.radius.lg,
+    backgroundColor: theme.colors.panel,
+    borderWidth: 1,
+    borderColor: theme.colors.panelBorder,
+    alignItems: "center",
+  },
+  title: { color: theme.colors.accent, fontSize: 10, fontWeight: "800", letterSpacing: 0.8, marginBottom: 6 },
+  caption: { color: theme.colors.textAccent, fontSize: 11, fontWeight: "800", marginTop: 6 },
+});
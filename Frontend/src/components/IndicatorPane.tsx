@@ -0,0 +1,125 @@
+import React, { useMemo } from "react";
+import { Text, View } from "react-native";
+import { Canvas, Line, Path, Skia, vec } from "@shopify/react-native-skia";
+import { theme } from "../theme";
+import type { ChartIndicators, IndicatorSeries } from "../api/client";
+import { buildSeriesPath, OVERLAY_COLORS } from "./TrajectoryGSIChart";
+import type { ChartMode } from "./TrajectoryGSIChart";
+
+export type IndicatorPaneKind = "rsi" | "macd";
+
+// RSI 과열/침체 기준선
+const RSI_UPPER = 70;
+const RSI_LOWER = 30;
+
+interface IndicatorPaneProps {
+  kind: IndicatorPaneKind;
+  indicators: ChartIndicators;
+  width: number;
+  height: number;
+  mode?: ChartMode; // 가격 차트와 x축을 맞추기 위한 모드
+}
+
+/**
+ * 가격 차트 아래에 붙는 보조 지표 영역 (RSI / MACD)
+ * - x축은 가격 차트와 같은 방식(line: 균등 배분, candle: 슬롯 중앙)
+ */
+export default function IndicatorPane({ kind, indicators, width, height, mode = "line" }: IndicatorPaneProps) {
+  const count = indicators.rsi.length;
+  const padding = 4;
+
+  const xAt = useMemo(() => {
+    if (mode === "candle") {
+      const slot = width / Math.max(count, 1);
+      return (i: number) => slot * i + slot / 2;
+    }
+    return (i: number) => (i / Math.max(count - 1, 1)) * width;
+  }, [count, mode, width]);
+
+  const pane = useMemo(() => {
+    const toY = (min: number, max: number) => {
+      const range = Math.max(max - min, 0.001);
+      return (v: number) => height - padding - ((v - min) / range) * (height - padding * 2);
+    };
+
+    if (kind === "rsi") {
+      const yAt = toY(0, 100);
+      return {
+        lines: [{ key: "rsi", path: buildSeriesPath(indicators.rsi, xAt, yAt), color: theme.colors.accent }],
+        guides: [RSI_UPPER, RSI_LOWER].map((v) => yAt(v)),
+        histogram: null,
+      };
+    }
+
+    // MACD: 0을 포함하도록 대칭 스케일
+    const { macd, signal, histogram } = indicators.macd;
+    const defined = [...macd, ...signal, ...histogram].filter((v): v is number => v !== null);
+    const extent = defined.length > 0 ? Math.max(...defined.map(Math.abs)) : 1;
+    const yAt = toY(-extent, extent);
+    const zero = yAt(0);
+
+    const up = Skia.Path.Make();
+    const down = Skia.Path.Make();
+    const barWidth = Math.max(1, (width / Math.max(count, 1)) * 0.6);
+    histogram.forEach((v: number | null, i: number) => {
+      if (v === null) return;
+      const y = yAt(v);
+      (v >= 0 ? up : down).addRect(
+        Skia.XYWHRect(xAt(i) - barWidth / 2, Math.min(y, zero), barWidth, Math.max(1, Math.abs(y - zero)))
+      );
+    });
+
+    return {
+      lines: [
+        { key: "macd", path: buildSeriesPath(macd, xAt, yAt), color: OVERLAY_COLORS.ema },
+        { key: "signal", path: buildSeriesPath(signal, xAt, yAt), color: OVERLAY_COLORS.sma },
+      ],
+      guides: [zero],
+      histogram: { up, down },
+    };
+  }, [count, height, indicators, kind, width, xAt]);
+
+  const latest = lastValue(kind === "rsi" ? indicators.rsi : indicators.macd.macd);
+
+  return (
+    <View style={{ width, height }}>
+      <Canvas style={{ width, height }}>
+        {pane.guides.map((y, i) => (
+          <Line key={`guide-${i}`} p1={vec(0, y)} p2={vec(width, y)} color="rgba(251,191,36,0.2)" strokeWidth={1} />
+        ))}
+        {pane.histogram && (
+          <>
+            <Path path={pane.histogram.up} color={theme.colors.success} opacity={0.45} />
+            <Path path={pane.histogram.down} color={theme.colors.danger} opacity={0.45} />
+          </>
+        )}
+        {pane.lines.map((line) => (
+          <Path key={line.key} path={line.path} style="stroke" strokeWidth={1.5} strokeJoin="round" color={line.color} />
+        ))}
+      </Canvas>
+      <Text
+        style={{
+          position: "absolute",
+          top: 2,
+          left: 4,
+          color: theme.colors.textAccent,
+          fontSize: 9,
+          fontWeight: "800",
+          letterSpacing: 0.6,
+        }}
+      >
+        {kind === "rsi" ? `RSI ${indicators.periods.rsi}` : `MACD ${indicators.periods.macdFast}/${indicators.periods.macdSlow}/${indicators.periods.macdSignal}`}
+        {latest !== null ? `  ${latest.toFixed(kind === "rsi" ? 1 : 2)}` : ""}
+      </Text>
+    </View>
+  );
+}
+
+// 마지막으로 계산된 지표 값
+function lastValue(series: IndicatorSeries): number | null {
+  for (let i = series.length - 1; i >= 0; i--) {
+    const v = series[i];
+    if (v !== null) return v;
+  }
+  return null;
+}
@@ -0,0 +1,92 @@
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { theme } from "../theme";
+import type { RaceStanding } from "../api/client";
+
+interface RaceStandingsPanelProps {
+  standings: RaceStanding[];
+  meId?: number | null;   // 내 순위 강조
+  totalRounds?: number;   // 진행 라운드 표시용
+  compact?: boolean;      // 결과 오버레이용 (상위 4명 + 나)
+  title?: string;
+}
+
+// 컴팩트 모드에서 보여줄 상위 인원
+const COMPACT_LIMIT = 4;
+
+const STATUS_LABELS: Record<RaceStanding["status"], string> = {
+  IN_PROGRESS: "FLYING",
+  COMPLETED: "LANDED",
+  FAILED: "LOST",
+  ABANDONED: "ABORTED",
+};
+
+/**
+ * 레이스 순위표 (라운드 종료마다 WebSocket으로 갱신)
+ */
+export default function RaceStandingsPanel({
+  standings,
+  meId,
+  totalRounds,
+  compact = false,
+  title = "RACE STANDINGS",
+}: RaceStandingsPanelProps) {
+  if (standings.length === 0) return null;
+
+  const rows = compact
+    ? standings.filter((row, index) => index < COMPACT_LIMIT || row.userId === meId)
+    : standings;
+
+  return (
+    <View style={s.card}>
+      <Text style={s.title}>{title}</Text>
+      {rows.map((row) => {
+        const isMe = row.userId === meId;
+        return (
+          <View key={row.userId} style={[s.row, isMe && s.rowMe]}>
+            <Text style={s.rank}>#{row.rank}</Text>
+            <View style={s.body}>
+              <Text style={[s.nickname, isMe && s.nicknameMe]} numberOfLines={1}>
+                {row.nickname}
+              </Text>
+              {!compact && (
+                <Text style={s.meta}>
+                  {row.rocket.name} · {STATUS_LABELS[row.status]}
+                  {row.score !== null ? ` · ${row.score}점` : ""}
+                </Text>
+              )}
+            </View>
+            <Text style={s.stat}>
+              {row.correctAnswers}
+              {totalRounds ? `/${totalRounds}` : ""}
+            </Text>
+            <Text style={s.credit}>{Math.round(row.totalCredit * 100)}</Text>
+            {compact && <Text style={s.round}>R{row.roundsCompleted}</Text>}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const s = StyleSheet.create({
+  card: {
+    padding: 10,
+    borderRadius: theme.radius.lg,
+    backgroundColor: theme.colors.panel,
+    borderWidth: 1,
+    borderColor: theme.colors.panelBorder,
+    gap: 4,
+  },
+  title: { color: theme.colors.accent, fontSize: 10, fontWeight: "800", letterSpacing: 0.8, marginBottom: 2 },
+  row: { flexDirection: "row", alignItems: "center", gap: 8, paddingVertical: 3, paddingHorizontal: 6, borderRadius: theme.radius.md },
+  rowMe: { backgroundColor: theme.colors.accentTint },
+  rank: { width: 28, color: theme.colors.accent, fontWeight: "900", fontSize: 12 },
+  body: { flex: 1 },
+  nickname: { color: theme.colors.textPrimary, fontWeight: "800", fontSize: 12 },
+  nicknameMe: { color: theme.colors.accent },
+  meta: { color: theme.colors.textSubtle, fontSize: 9, marginTop: 1 },
+  stat: { color: theme.colors.success, fontWeight: "800", fontSize: 11, minWidth: 28, textAlign: "right" },
+  credit: { color: theme.colors.info, fontWeight: "800", fontSize: 11, minWidth: 28, textAlign: "right" },
+  round: { color: theme.colors.textMuted, fontSize: 9, fontWeight: "700", minWidth: 20, textAlign: "right" },
+});
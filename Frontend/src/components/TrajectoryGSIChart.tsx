@@ -1,49 +1,203 @@
 import React, { useMemo } from "react";
 import { View } from "react-native";
-import { Canvas, Path, Skia, LinearGradient, vec } from "@shopify/react-native-skia";
+import { Canvas, Circle, Line, Path, Skia, LinearGradient, vec } from "@shopify/react-native-skia";
+import type { SkPath } from "@shopify/react-native-skia";
 import { theme } from "../theme";
+import type { ChartCandle, IndicatorSeries } from "../api/client";
+
+export type ChartMode = "line" | "candle";
+
+// 가격 차트 위에 겹쳐 그리는 지표
+export type ChartOverlays = {
+  sma?: IndicatorSeries;
+  ema?: IndicatorSeries;
+  bollinger?: { upper: IndicatorSeries; middle: IndicatorSeries; lower: IndicatorSeries };
+};
+
+// 캔들 색상 (상승: 초록, 하락: 주황)
+const CANDLE_UP = theme.colors.success;
+const CANDLE_DOWN = theme.colors.danger;
+
+// 오버레이 색상
+export const OVERLAY_COLORS = {
+  sma: "#a78bfa",
+  ema: theme.colors.info,
+  bollinger: "rgba(255,255,255,0.45)",
+};
+
+// 캔들 모드에서 거래량 히스토그램이 차지하는 높이 비율
+const VOLUME_RATIO = 0.22;
 
 interface TrajectoryGSIChartProps {
   data: number[];    // 주가 데이터 (values)
   width: number;     // 차트 너비
   height: number;    // 차트 높이
+  cursorIndex?: number; // 리플레이 스크럽 위치 (지정 시 세로선 + 점 표시)
+  mode?: ChartMode;  // line: 중력파 곡선, candle: OHLC 캔들 + 거래량
+  candles?: ChartCandle[]; // 캔들 모드용 OHLCV (없으면 line으로 표시)
+  overlays?: ChartOverlays; // 이동평균/볼린저 밴드 오버레이
+  visibleCount?: number; // 앞에서부터 그릴 점 개수 (스케일은 전체 data 기준, 공개 애니메이션용)
+}
+
+/**
+ * null 구간은 끊어서 그리는 선 경로
+ */
+export function buildSeriesPath(
+  series: IndicatorSeries,
+  xAt: (i: number) => number,
+  yAt: (v: number) => number
+): SkPath {
+  const p = Skia.Path.Make();
+  let drawing = false;
+  series.forEach((v, i) => {
+    if (v === null) {
+      drawing = false;
+      return;
+    }
+    if (drawing) {
+      p.lineTo(xAt(i), yAt(v));
+    } else {
+      p.moveTo(xAt(i), yAt(v));
+      drawing = true;
+    }
+  });
+  return p;
 }
 
-export default function TrajectoryGSIChart({ data, width, height }: TrajectoryGSIChartProps) {
-  // 1. 데이터를 차트 경로(Path)로 변환하는 로직
+export default function TrajectoryGSIChart({
+  data,
+  width,
+  height,
+  cursorIndex,
+  mode = "line",
+  candles,
+  overlays,
+  visibleCount,
+}: TrajectoryGSIChartProps) {
+  const showCandles = mode === "candle" && !!candles && candles.length > 0;
+  const count = showCandles && candles ? candles.length : data?.length ?? 0;
+
+  // 1. 공통 스케일: 가격 + 오버레이 값 전체가 들어가도록 최소/최대 계산
+  const scale = useMemo(() => {
+    const prices = showCandles && candles ? candles.flatMap((c) => [c.low, c.high]) : data ?? [];
+    const overlayValues = [
+      ...(overlays?.sma ?? []),
+      ...(overlays?.ema ?? []),
+      ...(overlays?.bollinger?.upper ?? []),
+      ...(overlays?.bollinger?.lower ?? []),
+    ].filter((v): v is number => v !== null);
+    const all = [...prices, ...overlayValues];
+    const min = all.length > 0 ? Math.min(...all) : 0;
+    const max = all.length > 0 ? Math.max(...all) : 1;
+
+    // 캔들 모드는 아래쪽을 거래량 영역으로 비워둠
+    const volumeHeight = showCandles ? Math.round(height * VOLUME_RATIO) : 0;
+    // 차트 내부 여백 설정 (작은 화면에서 잘림 방지)
+    const paddingY = showCandles
+      ? Math.min(12, Math.max(4, Math.round(height * 0.06)))
+      : Math.min(18, Math.max(6, Math.round(height * 0.14)));
+
+    return {
+      min,
+      range: Math.max(max - min, 0.001), // 0으로 나누기 방지
+      top: paddingY,
+      bottom: height - volumeHeight - paddingY,
+      volumeHeight,
+    };
+  }, [candles, data, height, overlays, showCandles]);
+
+  // X좌표: line은 양 끝까지 균등 배분, candle은 슬롯 중앙
+  const xAt = useMemo(() => {
+    if (showCandles) {
+      const slot = width / Math.max(count, 1);
+      return (i: number) => slot * i + slot / 2;
+    }
+    return (i: number) => (i / Math.max(count - 1, 1)) * width;
+  }, [count, showCandles, width]);
+
+  // Y좌표: 값이 높을수록(max) 위쪽(top), 낮을수록(min) 아래쪽(bottom)
+  const yAt = useMemo(
+    () => (v: number) => scale.bottom - ((v - scale.min) / scale.range) * (scale.bottom - scale.top),
+    [scale]
+  );
+
+  // 2. 데이터를 차트 경로(Path)로 변환하는 로직
   const path = useMemo(() => {
-    const p = Skia.Path.Make();
-    
     // 데이터가 없거나 2개 미만이면 빈 경로 반환
-    if (!data || data.length < 2) return p;
+    if (!data || data.length < 2) return Skia.Path.Make();
+    const visible = visibleCount === undefined ? data : data.slice(0, Math.max(0, visibleCount));
+    return buildSeriesPath(visible, xAt, yAt);
+  }, [data, visibleCount, xAt, yAt]);
 
-    // 데이터 정규화를 위한 최소/최대값 계산
-    const min = Math.min(...data);
-    const max = Math.max(...data);
-    const range = Math.max(max - min, 0.001); // 0으로 나누기 방지
+  // 3. 캔들/거래량 경로 (상승·하락별로 묶어서 한 번에 그림)
+  const candlePaths = useMemo(() => {
+    if (!showCandles || !candles) return null;
 
-    // 차트 내부 여백 설정 (작은 화면에서 잘림 방지)
-    const paddingY = Math.min(18, Math.max(6, Math.round(height * 0.14)));
-    const drawHeight = height - paddingY * 2;
-
-    data.forEach((v, i) => {
-      // X좌표: 데이터 인덱스에 따라 전체 너비에 균등 배분
-      const x = (i / (data.length - 1)) * width;
-      
-      // Y좌표: 가격 데이터를 차트 높이에 매핑
-      // 가격이 높을수록(max) Y좌표는 위쪽(paddingY), 낮을수록(min) 아래쪽(height - paddingY)
-      const y = height - paddingY - ((v - min) / range) * drawHeight;
-
-      if (i === 0) {
-        p.moveTo(x, y);
-      } else {
-        // 부드러운 연결을 위해 lineTo 사용 (추후 베지어 곡선으로 고도화 가능)
-        p.lineTo(x, y);
-      }
+    const upWicks = Skia.Path.Make();
+    const downWicks = Skia.Path.Make();
+    const upBodies = Skia.Path.Make();
+    const downBodies = Skia.Path.Make();
+    const upVolume = Skia.Path.Make();
+    const downVolume = Skia.Path.Make();
+
+    const maxVolume = Math.max(...candles.map((c) => c.volume), 1);
+
+    // 캔들 폭: 슬롯의 70% (최소 1px)
+    const bodyWidth = Math.max(1, (width / candles.length) * 0.7);
+
+    candles.forEach((c, i) => {
+      const cx = xAt(i);
+      const isUp = c.close >= c.open;
+
+      // 꼬리 (고가~저가)
+      const wicks = isUp ? upWicks : downWicks;
+      wicks.moveTo(cx, yAt(c.high));
+      wicks.lineTo(cx, yAt(c.low));
+
+      // 몸통 (시가~종가, 보합이면 1px 선)
+      const top = yAt(Math.max(c.open, c.close));
+      const bodyHeight = Math.max(1, Math.abs(yAt(c.open) - yAt(c.close)));
+      (isUp ? upBodies : downBodies).addRect(Skia.XYWHRect(cx - bodyWidth / 2, top, bodyWidth, bodyHeight));
+
+      // 거래량 막대
+      const barHeight = (c.volume / maxVolume) * (scale.volumeHeight - 2);
+      (isUp ? upVolume : downVolume).addRect(
+        Skia.XYWHRect(cx - bodyWidth / 2, height - barHeight, bodyWidth, barHeight)
+      );
     });
 
-    return p;
-  }, [data, width, height]);
+    return { upWicks, downWicks, upBodies, downBodies, upVolume, downVolume, volumeTop: height - scale.volumeHeight };
+  }, [candles, height, scale.volumeHeight, showCandles, width, xAt, yAt]);
+
+  // 4. 오버레이 경로 (볼린저 밴드 → 이동평균 순으로 위에 그림)
+  const overlayPaths = useMemo(() => {
+    if (!overlays) return [];
+    const paths: { key: string; path: SkPath; color: string; strokeWidth: number }[] = [];
+    if (overlays.bollinger) {
+      const { upper, middle, lower } = overlays.bollinger;
+      paths.push(
+        { key: "boll-upper", path: buildSeriesPath(upper, xAt, yAt), color: OVERLAY_COLORS.bollinger, strokeWidth: 1 },
+        { key: "boll-middle", path: buildSeriesPath(middle, xAt, yAt), color: OVERLAY_COLORS.bollinger, strokeWidth: 1 },
+        { key: "boll-lower", path: buildSeriesPath(lower, xAt, yAt), color: OVERLAY_COLORS.bollinger, strokeWidth: 1 }
+      );
+    }
+    if (overlays.sma) {
+      paths.push({ key: "sma", path: buildSeriesPath(overlays.sma, xAt, yAt), color: OVERLAY_COLORS.sma, strokeWidth: 1.5 });
+    }
+    if (overlays.ema) {
+      paths.push({ key: "ema", path: buildSeriesPath(overlays.ema, xAt, yAt), color: OVERLAY_COLORS.ema, strokeWidth: 1.5 });
+    }
+    return paths;
+  }, [overlays, xAt, yAt]);
+
+  // 5. 스크럽 커서 좌표 (경로와 같은 스케일 사용, candle 모드는 해당 캔들의 종가)
+  const cursor = useMemo(() => {
+    if (cursorIndex === undefined) return null;
+    const values = showCandles && candles ? candles.map((candle) => candle.close) : data;
+    if (!values || values.length < 2) return null;
+    const index = Math.max(0, Math.min(values.length - 1, Math.round(cursorIndex)));
+    return { x: xAt(index), y: yAt(values[index]) };
+  }, [candles, cursorIndex, data, showCandles, xAt, yAt]);
 
   // 데이터가 없을 경우 렌더링하지 않음
   if (!data || data.length === 0) return null;
@@ -51,25 +205,61 @@ export default function TrajectoryGSIChart({ data, width, height }: TrajectoryGS
   return (
     <View style={{ width, height, overflow: "hidden" }}>
       <Canvas style={{ width, height }}>
-        {/* 중력파 경로 렌더링 */}
-        <Path
-          path={path}
-          style="stroke"
-          strokeWidth={3}
-          strokeJoin="round"
-          strokeCap="round"
-        >
-          {/* 중력파 느낌을 내기 위한 수평 그라데이션 효과 */}
-          <LinearGradient
-            start={vec(0, 0)}
-            end={vec(width, 0)}
-            colors={[
-              theme.colors.accent,    // 시작: 황금색 (테마 컬러)
-              "#60a5fa",              // 중간: 푸른색 (에너지 파동 느낌)
-              theme.colors.accent     // 끝: 황금색
-            ]}
+        {candlePaths ? (
+          <>
+            {/* 가격/거래량 영역 구분선 */}
+            <Line
+              p1={vec(0, candlePaths.volumeTop)}
+              p2={vec(width, candlePaths.volumeTop)}
+              color="rgba(251,191,36,0.2)"
+              strokeWidth={1}
+            />
+            <Path path={candlePaths.upVolume} color={CANDLE_UP} opacity={0.35} />
+            <Path path={candlePaths.downVolume} color={CANDLE_DOWN} opacity={0.35} />
+            <Path path={candlePaths.upWicks} style="stroke" strokeWidth={1} color={CANDLE_UP} />
+            <Path path={candlePaths.downWicks} style="stroke" strokeWidth={1} color={CANDLE_DOWN} />
+            <Path path={candlePaths.upBodies} color={CANDLE_UP} />
+            <Path path={candlePaths.downBodies} color={CANDLE_DOWN} />
+          </>
+        ) : (
+          /* 중력파 경로 렌더링 */
+          <Path
+            path={path}
+            style="stroke"
+            strokeWidth={3}
+            strokeJoin="round"
+            strokeCap="round"
+          >
+            {/* 중력파 느낌을 내기 위한 수평 그라데이션 효과 */}
+            <LinearGradient
+              start={vec(0, 0)}
+              end={vec(width, 0)}
+              colors={[
+                theme.colors.accent,    // 시작: 황금색 (테마 컬러)
+                "#60a5fa",              // 중간: 푸른색 (에너지 파동 느낌)
+                theme.colors.accent     // 끝: 황금색
+              ]}
+            />
+          </Path>
+        )}
+
+        {overlayPaths.map((overlay) => (
+          <Path
+            key={overlay.key}
+            path={overlay.path}
+            style="stroke"
+            strokeWidth={overlay.strokeWidth}
+            strokeJoin="round"
+            color={overlay.color}
           />
-        </Path>
+        ))}
+
+        {cursor && (
+          <>
+            <Line p1={vec(cursor.x, 0)} p2={vec(cursor.x, height)} color="rgba(255,255,255,0.35)" strokeWidth={1} />
+            <Circle cx={cursor.x} cy={cursor.y} r={5} color={theme.colors.accent} />
+          </>
+        )}
       </Canvas>
     </View>
   );
@@ -4,23 +4,45 @@ import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import StartScreen from "./screens/StartScreen";
 import LoginScreen from "./screens/LoginScreen";
 import SignupScreen from "./screens/SignupScreen";
+import ForgotPasswordScreen from "./screens/ForgotPasswordScreen";
+import VerifyEmailScreen from "./screens/VerifyEmailScreen";
 import IntroVideoScreen from "./screens/IntroVideoScreen";
 import RocketSelectScreen from "./screens/RocketSelectScreen";
+import RouteSelectScreen from "./screens/RouteSelectScreen";
 import CockpitScreen from "./screens/CockpitScreen";
+import LeaderboardScreen from "./screens/LeaderboardScreen";
+import ReplayScreen from "./screens/ReplayScreen";
+import RaceLobbyScreen from "./screens/RaceLobbyScreen";
+import RaceResultsScreen from "./screens/RaceResultsScreen";
+import ClassroomScreen from "./screens/ClassroomScreen";
+import ClassroomDashboardScreen from "./screens/ClassroomDashboardScreen";
+import ProfileScreen from "./screens/ProfileScreen";
 
 export type RootStackParamList = {
   Start: undefined;
   Login: undefined;
   Signup: undefined;
+  ForgotPassword: { email?: string } | undefined;
+  VerifyEmail: { email: string };
   Intro: undefined;
   RocketSelect: undefined;
+  RouteSelect: { rocketId: number };
   Cockpit:
     | {
         rocketId?: number;
+        symbol?: string; // 항로 (없으면 로켓 티커)
         round?: number;
         startInRound?: boolean;
+        raceCode?: string; // 레이스로 시작한 항해면 참가 코드
       }
     | undefined;
+  Leaderboard: undefined;
+  Replay: { sessionId: number };
+  RaceLobby: undefined;
+  RaceResults: { code: string };
+  Classroom: undefined;
+  ClassroomDashboard: { code: string };
+  Profile: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -32,9 +54,19 @@ export default function AppNavigation() {
         <Stack.Screen name="Start" component={StartScreen} />
         <Stack.Screen name="Login" component={LoginScreen} />
         <Stack.Screen name="Signup" component={SignupScreen} />
+        <Stack.Screen name="ForgotPassword" component={ForgotPasswordScreen} />
+        <Stack.Screen name="VerifyEmail" component={VerifyEmailScreen} />
         <Stack.Screen name="Intro" component={IntroVideoScreen} />
         <Stack.Screen name="RocketSelect" component={RocketSelectScreen} />
+        <Stack.Screen name="RouteSelect" component={RouteSelectScreen} />
         <Stack.Screen name="Cockpit" component={CockpitScreen} />
+        <Stack.Screen name="Leaderboard" component={LeaderboardScreen} />
+        <Stack.Screen name="Replay" component={ReplayScreen} />
+        <Stack.Screen name="RaceLobby" component={RaceLobbyScreen} />
+        <Stack.Screen name="RaceResults" component={RaceResultsScreen} />
+        <Stack.Screen name="Classroom" component={ClassroomScreen} />
+        <Stack.Screen name="ClassroomDashboard" component={ClassroomDashboardScreen} />
+        <Stack.Screen name="Profile" component={ProfileScreen} />
       </Stack.Navigator>
     </NavigationContainer>
   );
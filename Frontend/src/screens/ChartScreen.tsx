@@ -7,9 +7,31 @@ import {
   useWindowDimensions,
   View,
 } from "react-native";
-import TrajectoryGSIChart from "../components/TrajectoryGSIChart";
+import TrajectoryGSIChart, { OVERLAY_COLORS } from "../components/TrajectoryGSIChart";
+import type { ChartMode, ChartOverlays } from "../components/TrajectoryGSIChart";
+import IndicatorPane from "../components/IndicatorPane";
+import type { IndicatorPaneKind } from "../components/IndicatorPane";
 import { theme } from "../theme";
-import { getChart } from "../api/client";
+import { getRoundChart } from "../api/client";
+import type { ChartCandle, ChartIndicators } from "../api/client";
+
+const MODE_OPTIONS: { key: ChartMode; label: string }[] = [
+  { key: "line", label: "GRAVITY WAVE" },
+  { key: "candle", label: "CANDLES" },
+];
+
+type IndicatorKey = "sma" | "ema" | "bollinger" | "rsi" | "macd";
+
+// 지표 토글 (overlay: 가격 차트 위, pane: 차트 아래 보조 영역)
+const INDICATOR_OPTIONS: { key: IndicatorKey; label: string; color: string; hint: string }[] = [
+  { key: "sma", label: "SMA", color: OVERLAY_COLORS.sma, hint: "평균 궤도: 최근 20일 동안 로켓이 지나온 평균 고도예요." },
+  { key: "ema", label: "EMA", color: OVERLAY_COLORS.ema, hint: "관성 궤도: 최근 움직임에 더 민감하게 반응하는 평균 궤도예요." },
+  { key: "bollinger", label: "BOLL", color: OVERLAY_COLORS.bollinger, hint: "중력 회랑: 궤도가 평소 흔들리는 폭이에요. 벽 밖으로 나가면 이례적인 비행이에요." },
+  { key: "rsi", label: "RSI", color: theme.colors.accent, hint: "엔진 과열도: 70 위는 과열, 30 아래는 냉각 상태예요." },
+  { key: "macd", label: "MACD", color: theme.colors.info, hint: "추력 교차: 빠른 궤도가 느린 궤도를 위로 넘으면 가속 신호예요." },
+];
+
+const PANE_KEYS: IndicatorPaneKind[] = ["rsi", "macd"];
 
 interface ChartScreenProps {
   onBack: () => void;
@@ -22,13 +44,17 @@ export default function ChartScreen({
   onBack, 
   data,
   round = 1, 
-  symbol = "NVDA" 
+  symbol = "NVDA",
 }: ChartScreenProps) {
   const { width, height } = useWindowDimensions();
   
   // 상태 관리: 로딩 여부 및 중력파 데이터
   const [loading, setLoading] = useState(true);
   const [chartData, setChartData] = useState<number[]>([]);
+  const [candles, setCandles] = useState<ChartCandle[]>([]);
+  const [mode, setMode] = useState<ChartMode>("line");
+  const [indicators, setIndicators] = useState<ChartIndicators | null>(null);
+  const [activeIndicators, setActiveIndicators] = useState<IndicatorKey[]>([]);
   const [stabilityStatus, setStabilityStatus] = useState("STABLE");
 
   // 1. API 데이터 페칭
@@ -36,12 +62,14 @@ export default function ChartScreen({
     const fetchGravityData = async () => {
       try {
         setLoading(true);
-        // 백엔드 /api/charts 엔드포인트 호출
-        const response = await getChart(symbol, round);
+        // 진행 중인 세션의 현재 라운드 차트 (결정 시점 이후 구간은 라운드 종료 전까지 숨김)
+        const response = await getRoundChart();
         
         if (response.gravityData) {
           setChartData(response.gravityData.values);
+          setIndicators(response.gravityData.indicators ?? null);
         }
+        setCandles(response.chartData ?? []);
       } catch (error) {
         console.error("중력파 데이터를 불러오는 중 오류 발생:", error);
       } finally {
@@ -55,8 +83,25 @@ export default function ChartScreen({
   // 2. 프레임 레이아웃 계산 (제공해주신 로직 유지)
   const frame = useMemo(() => ({ width, height }), [height, width]);
 
+  const toggleIndicator = (key: IndicatorKey) => {
+    setActiveIndicators((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+  };
+
+  const overlays = useMemo<ChartOverlays | undefined>(() => {
+    if (!indicators) return undefined;
+    return {
+      sma: activeIndicators.includes("sma") ? indicators.sma : undefined,
+      ema: activeIndicators.includes("ema") ? indicators.ema : undefined,
+      bollinger: activeIndicators.includes("bollinger") ? indicators.bollinger : undefined,
+    };
+  }, [activeIndicators, indicators]);
+
+  const activePanes = indicators ? PANE_KEYS.filter((key) => activeIndicators.includes(key)) : [];
+  const activeHints = INDICATOR_OPTIONS.filter((option) => activeIndicators.includes(option.key));
+
   const chartWidth = Math.max(240, Math.min(frame.width - 80, 680));
-  const chartHeight = Math.max(160, Math.min(frame.height - 160, 260));
+  const paneHeight = 56;
+  const chartHeight = Math.max(120, Math.min(frame.height - 160, 260) - activePanes.length * (paneHeight + 6));
 
   return (
     <View style={s.root}>
@@ -86,16 +131,75 @@ export default function ChartScreen({
             <View style={s.headerSpacer} />
           </View>
 
+          <View style={s.modeRow}>
+            {MODE_OPTIONS.map((option) => (
+              <Pressable
+                key={option.key}
+                style={({ pressed }) => [s.modeButton, mode === option.key && s.modeButtonActive, pressed && s.backPressed]}
+                onPress={() => setMode(option.key)}
+              >
+                <Text style={[s.modeText, mode === option.key && s.modeTextActive]}>{option.label}</Text>
+              </Pressable>
+            ))}
+            <View style={s.modeDivider} />
+            {INDICATOR_OPTIONS.map((option) => {
+              const active = activeIndicators.includes(option.key);
+              return (
+                <Pressable
+                  key={option.key}
+                  disabled={!indicators}
+                  style={({ pressed }) => [
+                    s.modeButton,
+                    active && { borderColor: option.color },
+                    !indicators && s.modeButtonDisabled,
+                    pressed && s.backPressed,
+                  ]}
+                  onPress={() => toggleIndicator(option.key)}
+                >
+                  <Text style={[s.modeText, active && { color: option.color }]}>{option.label}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
           <View style={s.chartCard}>
             {loading ? (
               <ActivityIndicator size="large" color={theme.colors.accent} />
             ) : chartData && chartData.length > 0 ? (
-              <TrajectoryGSIChart data={chartData} width={chartWidth} height={chartHeight} />
+              <TrajectoryGSIChart
+                data={chartData}
+                width={chartWidth}
+                height={chartHeight}
+                mode={mode}
+                candles={candles}
+                overlays={overlays}
+              />
             ) : (
               <Text style={{ color: theme.colors.textAccent }}>신호 동기화 중...</Text>
             )}
+            {!loading && indicators && activePanes.map((kind) => (
+              <View key={kind} style={s.pane}>
+                <IndicatorPane
+                  kind={kind}
+                  indicators={indicators}
+                  width={chartWidth}
+                  height={paneHeight}
+                  mode={candles.length > 0 ? mode : "line"}
+                />
+              </View>
+            ))}
           </View>
 
+          {activeHints.length > 0 && (
+            <View style={s.hints}>
+              {activeHints.map((option) => (
+                <Text key={option.key} style={s.hintText}>
+                  <Text style={{ color: option.color, fontWeight: "800" }}>{option.label}</Text> {option.hint}
+                </Text>
+              ))}
+            </View>
+          )}
+
           <View style={s.footer}>
             <View style={[
               s.footerBadge, 
@@ -112,7 +216,11 @@ export default function ChartScreen({
                 STATUS: {stabilityStatus}
               </Text>
             </View>
-            <Text style={s.footerMeta}>Update: Historical Sync</Text>
+            <Text style={s.footerMeta}>
+              {mode === "candle"
+                ? "몸통 = 시가~종가 · 꼬리 = 고가~저가 · 아래 막대 = 거래량"
+                : "Update: Historical Sync"}
+            </Text>
           </View>
         </View>
       </View>
@@ -136,6 +244,23 @@ const s = StyleSheet.create({
   headerSpacer: { width: 90 },
   title: { color: theme.colors.accentDeep, fontWeight: "900", fontSize: 16, letterSpacing: 0.6 },
   subtitle: { color: "rgba(251,191,36,0.6)", fontSize: 10, marginTop: 2 },
+  modeRow: { flexDirection: "row", justifyContent: "center", gap: 8, marginBottom: 10 },
+  modeButton: {
+    paddingVertical: 5,
+    paddingHorizontal: 12,
+    borderRadius: theme.radius.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.accentBorderSoft,
+    backgroundColor: theme.colors.track,
+  },
+  modeButtonActive: { backgroundColor: theme.colors.accentTint, borderColor: theme.colors.accentBorderStrong },
+  modeText: { color: theme.colors.textAccent, fontSize: 10, fontWeight: "800", letterSpacing: 0.6 },
+  modeTextActive: { color: theme.colors.accent },
+  modeButtonDisabled: { opacity: 0.4 },
+  modeDivider: { width: 1, alignSelf: "stretch", backgroundColor: theme.colors.accentBorderSoft, marginHorizontal: 4 },
+  pane: { marginTop: 6, borderTopWidth: 1, borderTopColor: theme.colors.panelBorder },
+  hints: { marginTop: 8, gap: 2 },
+  hintText: { color: theme.colors.textAccent, fontSize: 10 },
   chartCard: {
     flex: 1,
     borderRadius: theme.radius.lg,
@@ -0,0 +1,289 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { ActivityIndicator, Pressable, ScrollView, Share, StyleSheet, Text, useWindowDimensions, View } from "react-native";
+import { useNavigation, useRoute } from "@react-navigation/native";
+import type { RouteProp } from "@react-navigation/native";
+import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../navigation";
+import { theme } from "../theme";
+import type { ClassroomDashboard, ClassroomMemberView } from "../api/client";
+import { exportClassroomCsv, getClassroomDashboard, openClassroomSocket } from "../api/client";
+
+const STATUS_LABELS: Record<NonNullable<ClassroomMemberView["session"]>["status"], string> = {
+  IN_PROGRESS: "FLYING",
+  COMPLETED: "LANDED",
+  FAILED: "LOST",
+};
+
+function formatPercent(value: number | null) {
+  return value === null ? "-" : `${Math.round(value * 100)}%`;
+}
+
+/**
+ * 교사 대시보드 (멤버가 라운드를 진행할 때마다 WebSocket으로 갱신)
+ */
+export default function ClassroomDashboardScreen() {
+  const nav = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const route = useRoute<RouteProp<RootStackParamList, "ClassroomDashboard">>();
+  const code = route.params.code;
+  const { width, height } = useWindowDimensions();
+  const frame = useMemo(() => ({ width, height }), [height, width]);
+
+  const [dashboard, setDashboard] = useState<ClassroomDashboard | null>(null);
+  const [error, setError] = useState("");
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    let close: (() => void) | null = null;
+    let cancelled = false;
+
+    getClassroomDashboard(code)
+      .then((response) => setDashboard(response.dashboard))
+      .catch((e) => setError(e instanceof Error ? e.message : "대시보드를 불러올 수 없습니다."));
+    openClassroomSocket(code, (message) => setDashboard(message.data)).then((closeSocket) => {
+      if (cancelled) closeSocket();
+      else close = closeSocket;
+    });
+
+    return () => {
+      cancelled = true;
+      close?.();
+    };
+  }, [code]);
+
+  const handleExport = useCallback(async () => {
+    try {
+      setExporting(true);
+      const csv = await exportClassroomCsv(code);
+      await Share.share({ title: `classroom-${code}.csv`, message: csv });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "CSV를 내보낼 수 없습니다.");
+    } finally {
+      setExporting(false);
+    }
+  }, [code]);
+
+  const maxStyleCount = Math.max(1, ...(dashboard?.investingStyles.map((item) => item.count) ?? []));
+
+  return (
+    <View style={s.root}>
+      <View style={[s.frame, { width: frame.width, height: frame.height }]}>
+        <View style={s.bg} />
+        <View style={s.content}>
+          <View style={s.header}>
+            <Pressable style={({ pressed }) => [s.backButton, pressed && s.backPressed]} onPress={() => nav.goBack()}>
+              <Text style={s.backText}>{"< BACK"}</Text>
+            </Pressable>
+            <View style={s.headerCenter}>
+              <Text style={s.title}>{dashboard?.classroom.name ?? "CLASS DASHBOARD"}</Text>
+              <Text style={s.subtitle}>JOIN CODE {code}</Text>
+            </View>
+            <Pressable
+              style={({ pressed }) => [s.exportButton, exporting && s.disabled, pressed && s.backPressed]}
+              onPress={handleExport}
+              disabled={exporting}
+            >
+              <Text style={s.exportText}>CSV</Text>
+            </Pressable>
+          </View>
+
+          {error ? <Text style={s.errorText}>{error}</Text> : null}
+
+          {!dashboard ? (
+            <View style={s.center}>
+              <ActivityIndicator color={theme.colors.accent} />
+            </View>
+          ) : (
+            <ScrollView contentContainerStyle={s.sections}>
+              <View style={s.summaryRow}>
+                <SummaryCell label="PILOTS" value={dashboard.summary.memberCount} />
+                <SummaryCell label="FLYING" value={dashboard.summary.flyingCount} />
+                <SummaryCell label="FINISHED" value={dashboard.summary.finishedCount} />
+                <SummaryCell label="NOT STARTED" value={dashboard.summary.notStartedCount} />
+              </View>
+
+              <View style={s.columns}>
+                <View style={s.panel}>
+                  <Text style={s.sectionLabel}>ACCURACY BY ROUND</Text>
+                  {dashboard.rounds.length > 0 ? (
+                    dashboard.rounds.map((round) => (
+                      <View key={round.round} style={s.barRow}>
+                        <Text style={s.barLabel}>R{round.round}</Text>
+                        <View style={s.barTrack}>
+                          <View style={[s.barFill, { width: `${Math.round((round.accuracy ?? 0) * 100)}%` }]} />
+                        </View>
+                        <Text style={s.barValue}>
+                          {formatPercent(round.accuracy)} · {round.answered}
+                        </Text>
+                      </View>
+                    ))
+                  ) : (
+                    <Text style={s.emptyText}>아직 제출된 라운드가 없습니다.</Text>
+                  )}
+                </View>
+
+                <View style={s.panel}>
+                  <Text style={s.sectionLabel}>INVESTING STYLES</Text>
+                  {dashboard.investingStyles.map((item) => (
+                    <View key={item.style} style={s.barRow}>
+                      <Text style={[s.barLabel, s.styleLabel]} numberOfLines={1}>
+                        {item.label}
+                      </Text>
+                      <View style={s.barTrack}>
+                        <View style={[s.barFill, s.styleFill, { width: `${Math.round((item.count / maxStyleCount) * 100)}%` }]} />
+                      </View>
+                      <Text style={s.barValue}>{item.count}</Text>
+                    </View>
+                  ))}
+                </View>
+              </View>
+
+              <Text style={s.sectionLabel}>PILOTS</Text>
+              {dashboard.members.length > 0 ? (
+                dashboard.members.map((member) => (
+                  <MemberRow key={member.userId} member={member} totalRounds={dashboard.totalRounds} />
+                ))
+              ) : (
+                <Text style={s.emptyText}>참가 코드 {code}를 공유해 학생들을 초대하세요.</Text>
+              )}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+function SummaryCell({ label, value }: { label: string; value: number }) {
+  return (
+    <View style={s.summaryCell}>
+      <Text style={s.summaryValue}>{value}</Text>
+      <Text style={s.summaryLabel}>{label}</Text>
+    </View>
+  );
+}
+
+function MemberRow({ member, totalRounds }: { member: ClassroomMemberView; totalRounds: number }) {
+  const session = member.session;
+  const byRound = new Map(member.choices.map((choice) => [choice.round, choice]));
+
+  return (
+    <View style={s.row}>
+      <View style={s.memberCol}>
+        <Text style={s.name} numberOfLines={1}>
+          {member.nickname}
+        </Text>
+        <Text style={s.meta}>
+          {session
+            ? `${STATUS_LABELS[session.status]} · R${session.currentRound} ${session.roundPhase} · ${session.symbol}`
+            : "NOT STARTED"}
+        </Text>
+      </View>
+      <View style={s.choices}>
+        {Array.from({ length: totalRounds }, (_, index) => {
+          const choice = byRound.get(index + 1);
+          return (
+            <View
+              key={index}
+              style={[s.choiceDot, choice && (choice.isCorrect ? s.choiceCorrect : s.choiceWrong)]}
+            >
+              <Text style={s.choiceText}>{choice ? Math.round(choice.fuelInput) : ""}</Text>
+            </View>
+          );
+        })}
+      </View>
+      <Text style={s.accuracy}>{formatPercent(session?.accuracy ?? null)}</Text>
+      <Text style={s.style} numberOfLines={1}>
+        {session?.investingStyleKorean
+          ? `${session.investingStyleKorean}${session.investingStyleEstimated ? " (추정)" : ""}`
+          : "-"}
+      </Text>
+    </View>
+  );
+}
+
+const s = StyleSheet.create({
+  root: { flex: 1, justifyContent: "center", alignItems: "center", backgroundColor: theme.colors.black },
+  frame: { backgroundColor: theme.colors.frame, borderRadius: theme.radius.xl, overflow: "hidden" },
+  bg: { ...StyleSheet.absoluteFillObject, backgroundColor: theme.colors.bg },
+  content: { flex: 1, padding: 18 },
+  header: { flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginBottom: 10 },
+  backButton: { paddingVertical: 4, paddingHorizontal: 6 },
+  backPressed: { transform: [{ scale: 0.97 }] },
+  backText: { color: theme.colors.accent, fontWeight: "800", fontSize: 11 },
+  headerCenter: { alignItems: "center" },
+  title: { color: theme.colors.accentDeep, fontWeight: "900", fontSize: 16, letterSpacing: 0.6 },
+  subtitle: { color: "rgba(251,191,36,0.6)", fontSize: 10, marginTop: 2, letterSpacing: 1 },
+  exportButton: {
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+    borderRadius: theme.radius.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.accentBorderStrong,
+    backgroundColor: "rgba(251,191,36,0.2)",
+  },
+  exportText: { color: theme.colors.textPrimary, fontWeight: "900", fontSize: 10, letterSpacing: 0.9 },
+  disabled: { opacity: 0.4 },
+  errorText: { color: theme.colors.danger, fontSize: 12, textAlign: "center", marginBottom: 6 },
+  center: { flex: 1, alignItems: "center", justifyContent: "center" },
+  emptyText: { color: theme.colors.textMuted, fontSize: 12 },
+  sections: { gap: 8, paddingBottom: 12 },
+  sectionLabel: { color: theme.colors.textAccent, fontSize: 10, fontWeight: "800", letterSpacing: 0.8, marginBottom: 2 },
+  summaryRow: { flexDirection: "row", gap: 8 },
+  summaryCell: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 8,
+    borderRadius: theme.radius.md,
+    backgroundColor: theme.colors.panel,
+    borderWidth: 1,
+    borderColor: theme.colors.panelBorder,
+  },
+  summaryValue: { color: theme.colors.accent, fontWeight: "900", fontSize: 18 },
+  summaryLabel: { color: theme.colors.textSubtle, fontSize: 9, fontWeight: "700", letterSpacing: 0.6 },
+  columns: { flexDirection: "row", gap: 12, flexWrap: "wrap" },
+  panel: {
+    flex: 1,
+    minWidth: 240,
+    padding: 12,
+    gap: 6,
+    borderRadius: theme.radius.lg,
+    backgroundColor: theme.colors.panel,
+    borderWidth: 1,
+    borderColor: theme.colors.panelBorder,
+  },
+  barRow: { flexDirection: "row", alignItems: "center", gap: 8 },
+  barLabel: { width: 28, color: theme.colors.textPrimary, fontSize: 10, fontWeight: "800" },
+  styleLabel: { width: 110 },
+  barTrack: { flex: 1, height: 8, borderRadius: 4, backgroundColor: theme.colors.track, overflow: "hidden" },
+  barFill: { height: 8, borderRadius: 4, backgroundColor: theme.colors.success },
+  styleFill: { backgroundColor: theme.colors.info },
+  barValue: { minWidth: 56, color: theme.colors.textSubtle, fontSize: 10, textAlign: "right" },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: theme.colors.panel,
+    borderRadius: theme.radius.md,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.panelBorder,
+  },
+  memberCol: { width: 150 },
+  name: { color: theme.colors.textPrimary, fontWeight: "800", fontSize: 13 },
+  meta: { color: theme.colors.textSubtle, fontSize: 9, marginTop: 2 },
+  choices: { flex: 1, flexDirection: "row", gap: 4 },
+  choiceDot: {
+    width: 24,
+    height: 18,
+    borderRadius: 4,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: theme.colors.surface,
+  },
+  choiceCorrect: { backgroundColor: "rgba(34,197,94,0.35)" },
+  choiceWrong: { backgroundColor: "rgba(249,115,22,0.35)" },
+  choiceText: { color: theme.colors.textPrimary, fontSize: 8, fontWeight: "800" },
+  accuracy: { width: 40, color: theme.colors.success, fontWeight: "800", fontSize: 12, textAlign: "right" },
+  style: { width: 140, color: theme.colors.info, fontSize: 10, fontWeight: "700", textAlign: "right" },
+});
@@ -0,0 +1,265 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Text, TextInput, useWindowDimensions, View } from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../navigation";
+import { theme } from "../theme";
+import type { ClassroomListResponse, ClassroomSummary } from "../api/client";
+import { createClassroom, joinClassroom, leaveClassroom, listClassrooms } from "../api/client";
+
+export default function ClassroomScreen() {
+  const nav = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { width, height } = useWindowDimensions();
+  const frame = useMemo(() => ({ width, height }), [height, width]);
+
+  const [list, setList] = useState<ClassroomListResponse | null>(null);
+  const [codeInput, setCodeInput] = useState("");
+  const [nameInput, setNameInput] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      setList(await listClassrooms());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "클래스 목록을 불러올 수 없습니다.");
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = useCallback(
+    async (action: () => Promise<void>) => {
+      try {
+        setBusy(true);
+        setError("");
+        setNotice("");
+        await action();
+        await load();
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "요청에 실패했습니다.");
+      } finally {
+        setBusy(false);
+      }
+    },
+    [load]
+  );
+
+  const handleJoin = () =>
+    run(async () => {
+      const { classroom } = await joinClassroom(codeInput.trim().toUpperCase());
+      setCodeInput("");
+      setNotice(`${classroom.name}에 참가했습니다. 평소처럼 항해하면 선생님 대시보드에 표시됩니다.`);
+    });
+
+  const handleCreate = () =>
+    run(async () => {
+      const { classroom } = await createClassroom(nameInput.trim());
+      setNameInput("");
+      nav.navigate("ClassroomDashboard", { code: classroom.code });
+    });
+
+  const handleLeave = (classroom: ClassroomSummary) =>
+    run(async () => {
+      await leaveClassroom(classroom.code);
+    });
+
+  return (
+    <View style={s.root}>
+      <View style={[s.frame, { width: frame.width, height: frame.height }]}>
+        <View style={s.bg} />
+        <View style={s.content}>
+          <View style={s.header}>
+            <Pressable style={({ pressed }) => [s.backButton, pressed && s.backPressed]} onPress={() => nav.goBack()}>
+              <Text style={s.backText}>{"< BACK"}</Text>
+            </Pressable>
+            <View style={s.headerCenter}>
+              <Text style={s.title}>CLASSROOM</Text>
+              <Text style={s.subtitle}>Fly together · learn together</Text>
+            </View>
+            <View style={s.headerSpacer} />
+          </View>
+
+          {error ? <Text style={s.errorText}>{error}</Text> : null}
+          {notice ? <Text style={s.noticeText}>{notice}</Text> : null}
+
+          {!list ? (
+            <View style={s.center}>
+              <ActivityIndicator color={theme.colors.accent} />
+            </View>
+          ) : (
+            <ScrollView contentContainerStyle={s.sections}>
+              <View style={s.columns}>
+                <View style={s.panel}>
+                  <Text style={s.sectionLabel}>JOIN WITH CODE</Text>
+                  <TextInput
+                    style={s.codeInput}
+                    placeholder="ABC234"
+                    placeholderTextColor="rgba(255,255,255,0.5)"
+                    autoCapitalize="characters"
+                    autoCorrect={false}
+                    maxLength={6}
+                    value={codeInput}
+                    onChangeText={setCodeInput}
+                  />
+                  <Pressable
+                    style={({ pressed }) => [s.primaryButton, (busy || !codeInput.trim()) && s.disabled, pressed && s.backPressed]}
+                    onPress={handleJoin}
+                    disabled={busy || !codeInput.trim()}
+                  >
+                    <Text style={s.primaryText}>JOIN CLASS</Text>
+                  </Pressable>
+                </View>
+
+                {list.canTeach && (
+                  <View style={s.panel}>
+                    <Text style={s.sectionLabel}>OPEN A CLASS</Text>
+                    <TextInput
+                      style={s.input}
+                      placeholder="Class name"
+                      placeholderTextColor="rgba(255,255,255,0.5)"
+                      maxLength={50}
+                      value={nameInput}
+                      onChangeText={setNameInput}
+                    />
+                    <Pressable
+                      style={({ pressed }) => [s.primaryButton, (busy || !nameInput.trim()) && s.disabled, pressed && s.backPressed]}
+                      onPress={handleCreate}
+                      disabled={busy || !nameInput.trim()}
+                    >
+                      <Text style={s.primaryText}>CREATE CLASS</Text>
+                    </Pressable>
+                  </View>
+                )}
+              </View>
+
+              {list.teaching.length > 0 && (
+                <>
+                  <Text style={s.sectionLabel}>TEACHING</Text>
+                  {list.teaching.map((classroom) => (
+                    <Pressable
+                      key={classroom.id}
+                      style={({ pressed }) => [s.row, pressed && s.backPressed]}
+                      onPress={() => nav.navigate("ClassroomDashboard", { code: classroom.code })}
+                    >
+                      <Text style={s.code}>{classroom.code}</Text>
+                      <Text style={s.name} numberOfLines={1}>
+                        {classroom.name}
+                      </Text>
+                      <Text style={s.meta}>{classroom.memberCount} pilots</Text>
+                      <Text style={s.rowAction}>DASHBOARD &gt;</Text>
+                    </Pressable>
+                  ))}
+                </>
+              )}
+
+              <Text style={s.sectionLabel}>JOINED</Text>
+              {list.joined.length > 0 ? (
+                list.joined.map((classroom) => (
+                  <View key={classroom.id} style={s.row}>
+                    <Text style={s.code}>{classroom.code}</Text>
+                    <Text style={s.name} numberOfLines={1}>
+                      {classroom.name}
+                    </Text>
+                    <Text style={s.meta}>{classroom.teacher.nickname}</Text>
+                    <Pressable
+                      style={({ pressed }) => [s.leaveButton, pressed && s.backPressed]}
+                      onPress={() => handleLeave(classroom)}
+                      disabled={busy}
+                    >
+                      <Text style={s.leaveText}>LEAVE</Text>
+                    </Pressable>
+                  </View>
+                ))
+              ) : (
+                <Text style={s.emptyText}>참가한 클래스가 없습니다.</Text>
+              )}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const s = StyleSheet.create({
+  root: { flex: 1, justifyContent: "center", alignItems: "center", backgroundColor: theme.colors.black },
+  frame: { backgroundColor: theme.colors.frame, borderRadius: theme.radius.xl, overflow: "hidden" },
+  bg: { ...StyleSheet.absoluteFillObject, backgroundColor: theme.colors.bg },
+  content: { flex: 1, padding: 18 },
+  header: { flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginBottom: 10 },
+  backButton: { paddingVertical: 4, paddingHorizontal: 6 },
+  backPressed: { transform: [{ scale: 0.97 }] },
+  backText: { color: theme.colors.accent, fontWeight: "800", fontSize: 11 },
+  headerCenter: { alignItems: "center" },
+  headerSpacer: { width: 60 },
+  title: { color: theme.colors.accentDeep, fontWeight: "900", fontSize: 16, letterSpacing: 0.6 },
+  subtitle: { color: "rgba(251,191,36,0.6)", fontSize: 10, marginTop: 2 },
+  errorText: { color: theme.colors.danger, fontSize: 12, textAlign: "center", marginBottom: 6 },
+  noticeText: { color: theme.colors.success, fontSize: 12, textAlign: "center", marginBottom: 6 },
+  center: { flex: 1, alignItems: "center", justifyContent: "center" },
+  sections: { gap: 8, paddingBottom: 12 },
+  sectionLabel: { color: theme.colors.textAccent, fontSize: 10, fontWeight: "800", letterSpacing: 0.8, marginTop: 4 },
+  columns: { flexDirection: "row", gap: 12, flexWrap: "wrap" },
+  panel: {
+    flex: 1,
+    minWidth: 240,
+    padding: 12,
+    gap: 8,
+    borderRadius: theme.radius.lg,
+    backgroundColor: theme.colors.panel,
+    borderWidth: 1,
+    borderColor: theme.colors.panelBorder,
+  },
+  input: {
+    height: 40,
+    borderRadius: theme.radius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.accentBorderSoft,
+    paddingHorizontal: 12,
+    color: theme.colors.textPrimary,
+    backgroundColor: theme.colors.track,
+  },
+  codeInput: {
+    height: 40,
+    borderRadius: theme.radius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.accentBorderSoft,
+    paddingHorizontal: 12,
+    color: theme.colors.textPrimary,
+    backgroundColor: theme.colors.track,
+    letterSpacing: 4,
+    fontWeight: "800",
+  },
+  primaryButton: {
+    paddingVertical: 10,
+    borderRadius: theme.radius.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.accentBorderStrong,
+    backgroundColor: "rgba(251,191,36,0.2)",
+    alignItems: "center",
+  },
+  primaryText: { color: theme.colors.textPrimary, fontWeight: "900", fontSize: 11, letterSpacing: 0.9 },
+  disabled: { opacity: 0.4 },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: theme.colors.panel,
+    borderRadius: theme.radius.md,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.panelBorder,
+  },
+  code: { width: 72, color: theme.colors.accent, fontWeight: "900", fontSize: 13, letterSpacing: 2 },
+  name: { flex: 1, color: theme.colors.textPrimary, fontWeight: "800", fontSize: 13 },
+  meta: { color: theme.colors.textSubtle, fontSize: 10 },
+  rowAction: { color: theme.colors.info, fontSize: 10, fontWeight: "800", letterSpacing: 0.6 },
+  leaveButton: { paddingVertical: 4, paddingHorizontal: 10, borderRadius: theme.radius.pill, borderWidth: 1, borderColor: theme.colors.panelBorder },
+  leaveText: { color: theme.colors.textMuted, fontSize: 9, fontWeight: "800", letterSpacing: 0.6 },
+  emptyText: { color: theme.colors.textMuted, fontSize: 12 },
+});
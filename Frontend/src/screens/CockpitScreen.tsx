@@ -8,11 +8,41 @@ import { Audio } from "expo-av";
 import { useVideoPlayer, VideoView } from "expo-video";
 import type { RootStackParamList } from "../navigation";
 import TrajectoryGSIChart from "../components/TrajectoryGSIChart";
+import ChartRevealPanel from "../components/ChartRevealPanel";
+import RaceStandingsPanel from "../components/RaceStandingsPanel";
 import ChartScreen from "./ChartScreen";
 import InfoScreen, { UpdateItem } from "./InfoScreen";
 import { theme } from "../theme";
-import type { AnalysisResult, GameSession, MarketPhase, RoundLog } from "../api/client";
-import { analyzeDecisions, clearAuthSession, getChart, getFlightStatus, getRockets, startFlight, syncFlight, resetFlight } from "../api/client";
+import type {
+  AnalysisResult,
+  ChartReveal,
+  FinalEnding,
+  RaceStanding,
+  RoundChoiceResult,
+  FlightTelemetry,
+  RevealedTwist,
+  RoundNewsEvent,
+  RoundPhase,
+  ScenarioPeriod,
+} from "../api/client";
+import {
+  analyzeDecisions,
+  logoutUser,
+  endRound,
+  getAuthUser,
+  getFlightStatus,
+  getRace,
+  getRockets,
+  getRoundChart,
+  getRoundNews,
+  nextRound,
+  openFlightSocket,
+  openRaceSocket,
+  startFlight,
+  startRound,
+  resetFlight,
+} from "../api/client";
+import { createSessionRng } from "../utils/random";
 
 type Telemetry = {
   fuel?: number;
@@ -22,7 +52,8 @@ type Telemetry = {
   status?: string;
 };
 
-type LeverChoice = "up" | "down";
+// 스로틀 중립값 (서버 판정 기준: 50 이상이면 연료 공급)
+const THROTTLE_NEUTRAL = 50;
 type OutcomeKey = "upCorrect" | "upWrong" | "downCorrect" | "downWrong";
 type FinalOutcomeKey = "fail" | "success1" | "success2";
 
@@ -54,15 +85,6 @@ const FINAL_MESSAGES: Record<FinalOutcomeKey, string> = {
   success2: "완벽한 연료 사용에 성공한 도지는 화성에서 도지시티 건설에 성공하여 세를 키웠고 지구를 침공했습니다.",
 };
 
-const ROUND_ANSWERS: Record<number, { [key: string]: LeverChoice; default: LeverChoice }> = {
-  1: { NVDA: "down", AAPL: "down", KO: "up", default: "down" },
-  2: { NVDA: "down", AAPL: "up", KO: "up", default: "up" },
-  3: { default: "up" },
-  4: { NVDA: "up", AAPL: "down", KO: "down", default: "down" },
-  5: { default: "down" },
-  6: { NVDA: "up", AAPL: "up", KO: "up", default: "up" },
-};
-
 const PHASE_INTROS: Record<number, { title: string; lines: string[] }> = {
   1: {
     title: "리먼 블랙홀",
@@ -108,157 +130,46 @@ const PHASE_ONE_HINTS = [
   "도지가 무사히 화성에 도착할 수 있게 도와주세요!",
 ];
 
-const MARKET_PHASES: Record<number, MarketPhase> = {
-  1: "systemic_crash",
-  2: "high_volatility",
-  3: "expansion",
-  4: "regulatory_fog",
-  5: "bubble_collapse",
-  6: "final_approach",
-};
+// BACKGROUNDS는 6라운드 기준 단계 (라운드 수가 다른 시나리오는 맞힌 비율로 환산)
+const BACKGROUND_STEPS = 6;
 
-const ROCKET_TYPES: Record<string, "growth" | "bluechip" | "defensive"> = {
-  NVDA: "growth",
-  AAPL: "bluechip",
-  KO: "defensive",
-};
+// 기본 캠페인 전용 연출 (PHASE_INTROS)은 classic 시나리오에서만 사용
+const CLASSIC_SCENARIO = "classic";
 
-const ROUND_UPDATES: Record<number, Record<string, string[]>> = {
-  1: {
-    NVDA: [
-      "인근 고출력 함선들이 단기 가속에 성공하고 있습니다",
-      "선원들 사이에서 \"지금이 기회\"라는 낙관 무전이 증가 중입니다",
-      "일부 파일럿은 출력 증폭으로 항로를 돌파했습니다",
-      "중력 간섭이 고출력 엔진에 더 크게 작용하고 있습니다",
-      "장거리 예측 모듈의 오차가 임계치를 초과했습니다",
-    ],
-    AAPL: [
-      "대형 함선들이 안정 항로를 유지하며 전진 중입니다",
-      "\"이 정도 환경은 충분히 견딜 수 있다\"는 의견이 우세합니다",
-      "방어막이 유지되는 한 전진 시도도 가능해 보입니다",
-      "추진 여유가 빠르게 감소하고 있습니다",
-      "전진 대비 회복 비용이 점점 커지고 있습니다",
-    ],
-    KO: [
-      "주변 항로의 빠른 전진과 비교하면 정체가 두드러집니다",
-      "일부는 \"지금 올라타지 않으면 뒤처진다\"고 주장합니다",
-      "출력 변화에도 항로 이탈 가능성이 낮습니다",
-      "보급 모듈이 환경 변화에 거의 영향을 받지 않습니다",
-      "느리지만 안정적인 전진이 관측됩니다",
-    ],
-  },
-  2: {
-    NVDA: [
-      "짧은 가속으로 큰 이동에 성공한 사례가 반복 보고됩니다",
-      "\"타이밍만 맞으면 큰 보상\"이라는 무전이 확산 중입니다",
-      "주변 소형 함선들이 빠르게 치고 나가고 있습니다",
-      "출력 조작에 따른 결과 편차가 극단적으로 커졌습니다",
-      "실패 시 손실 회복이 어려운 구간입니다",
-    ],
-    AAPL: [
-      "항로 중심선이 자주 흔들리고 있습니다",
-      "외부 소음이 잦아 조작 판단이 어렵습니다",
-      "노이즈 이후 항로 복구 빈도가 높습니다",
-      "급격한 조작 없이도 전진이 누적됩니다",
-      "방어와 전진의 균형이 유지되고 있습니다",
-    ],
-    KO: [
-      "결정적인 가속 신호는 여전히 희미합니다",
-      "주변 항로와 비교하면 이동 속도가 느립니다",
-      "환경 변화에도 출력이 거의 변하지 않습니다",
-      "전진 결과의 분산이 작습니다",
-      "안정적 누적 이동이 관측됩니다",
-    ],
-  },
-  3: {
-    NVDA: [
-      "과열 경고가 점등되기 시작했습니다",
-      "일부 파일럿은 \"지금은 너무 빠르다\"고 우려합니다",
-      "출력 증폭이 리스크를 키운다는 분석도 존재합니다",
-      "고출력 상태에서 항로 저항이 급감합니다",
-      "출력 증가가 즉각적인 전진으로 연결됩니다",
-    ],
-    AAPL: [
-      "급격한 가속이 없어 체감 속도가 느립니다",
-      "\"지루한 항로\"라는 평가가 일부에서 나옵니다",
-      "지금은 다른 함선이 더 매력적으로 보입니다",
-      "출력 없이도 위치가 꾸준히 개선됩니다",
-      "방향성은 일관되게 유지됩니다",
-    ],
-    KO: [
-      "큰 이동이 없어 전진이 눈에 띄지 않습니다",
-      "일부는 \"이 환경에서 굳이?\"라고 의문을 제기합니다",
-      "기회 비용이 커 보입니다",
-      "항로 전체가 완만한 전진 흐름을 보입니다",
-      "손실 신호 없이 위치가 개선됩니다",
-    ],
-  },
-  4: {
-    NVDA: [
-      "통제 필드가 예고 없이 작동하는 구간이 있습니다",
-      "실패 시 손실이 크다는 경고가 반복됩니다",
-      "일부 파일럿은 접근 자체를 회피 중입니다",
-      "고출력 엔진이 통제 구간을 우회하는 반응을 보입니다",
-      "위험 구간 돌파 시 전진 폭이 큽니다",
-    ],
-    AAPL: [
-      "선체 안정성이 여전히 신뢰를 주고 있습니다",
-      "집단 이동 선단이 전진을 선택했습니다",
-      "\"지금은 유지보다 전진\"이라는 의견도 존재합니다",
-      "추가 점검 절차로 추진 효율이 감소했습니다",
-      "전진 대비 소모가 커지고 있습니다",
-    ],
-    KO: [
-      "방어적 항해가 심리적으로 답처럼 보입니다",
-      "\"천천히라도 가는 게 낫다\"는 무전이 반복됩니다",
-      "주변 함선들이 미세 전진을 이어가고 있습니다",
-      "확장 시 손실 누적 패턴이 감지됩니다",
-      "유지 전략이 상대적으로 유리해 보입니다",
-    ],
-  },
-  5: {
-    ALL: [
-      "인근 항로에서 예상 외의 반등 로그가 포착되었습니다",
-      "일부 함선이 고출력 돌파로 단기 성공을 보고했습니다",
-      "\"이 정도 공포는 과하다\"는 의견이 늘어나고 있습니다",
-      "출력 대비 손실 비율이 전반적으로 증가했습니다",
-      "실패 후 회복 시간이 길어지고 있습니다",
-    ],
-  },
-  6: {
-    ALL: [
-      "일부는 \"지금이 마지막 고점\"이라고 경고합니다",
-      "과도한 낙관이 위험하다는 분석도 병존합니다",
-      "작은 충격에도 조정이 올 수 있다는 의견이 있습니다",
-      "환경과 엔진 반응의 정렬도가 높아졌습니다",
-      "전진 결과가 예측과 점점 일치합니다",
-    ],
-  },
-};
-
-const MAX_ROUNDS = 6;
+function getPhaseIntro(round: number, scenarioSlug: string, period: ScenarioPeriod | null) {
+  if (scenarioSlug === CLASSIC_SCENARIO && PHASE_INTROS[round]) {
+    return PHASE_INTROS[round];
+  }
+  return {
+    title: period?.title ?? `Phase ${round}`,
+    lines: period ? [`${period.startDate} ~ ${period.endDate} 구간을 항해합니다.`] : [],
+  };
+}
 
-function generateGsiData(points: number) {
+function generateGsiData(points: number, seed: number) {
   const data: number[] = [];
+  const random = createSessionRng(seed, "gsi-fallback");
   for (let i = 0; i < points; i += 1) {
     const base = 70 + Math.sin(i * 0.35) * 8;
-    const jitter = (Math.random() - 0.5) * 6;
+    const jitter = (random() - 0.5) * 6;
     data.push(Math.max(40, Math.min(95, base + jitter)));
   }
   return data;
 }
 
-function getOutcomeKey(correct: LeverChoice, chosen: LeverChoice): OutcomeKey {
-  if (correct === "up") {
-    return chosen === "up" ? "upCorrect" : "downWrong";
+// 서버 판정(choiceResult)을 결과 영상으로 매핑
+function getOutcomeKey(choice: RoundChoiceResult): OutcomeKey {
+  if (choice.userChoseFuel) {
+    return choice.isCorrectChoice ? "upCorrect" : "upWrong";
   }
-  return chosen === "down" ? "downCorrect" : "upWrong";
+  return choice.isCorrectChoice ? "downCorrect" : "downWrong";
 }
 
-function getFinalOutcomeKey(correctCount: number): FinalOutcomeKey {
-  if (correctCount <= 2) return "fail";
-  if (correctCount <= 5) return "success1";
-  return "success2";
+// 서버 Final 엔딩을 엔딩 영상으로 매핑 (연료/선체 고갈로 끝나면 엔딩 없음 → 실패)
+function getFinalOutcomeKey(ending: FinalEnding | null): FinalOutcomeKey {
+  if (ending?.ending === "INVASION") return "success2";
+  if (ending?.ending === "MARS") return "success1";
+  return "fail";
 }
 
 function OutcomeVideo({ source, onEnd }: { source: number; onEnd: () => void }) {
@@ -315,32 +226,55 @@ export default function CockpitScreen() {
   const nav = useNavigation<NativeStackNavigationProp<RootStackParamList, "Cockpit">>();
   const route = useRoute<RouteProp<RootStackParamList, "Cockpit">>();
   const rocketId = route.params?.rocketId ?? 1;
+  const routeSymbol = route.params?.symbol;
+  const raceCode = route.params?.raceCode;
   const startInRound = route.params?.startInRound ?? false;
   const initialRound = route.params?.round ?? 1;
   const { width, height } = useWindowDimensions();
   const [view, setView] = useState<
     "cockpit" | "chart" | "info" | "round" | "outcome" | "finalPrompt" | "final" | "finalResult"
   >(startInRound ? "round" : "cockpit");
-  const [round, setRound] = useState(() => Math.min(Math.max(initialRound, 1), MAX_ROUNDS));
-  const [leverPosition, setLeverPosition] = useState<"up" | "middle" | "down">("middle");
+  const [round, setRound] = useState(() => Math.max(initialRound, 1));
+  const [totalRounds, setTotalRounds] = useState(0); // 시나리오 라운드 수 (서버 응답 전에는 0)
+  const [roundPhase, setRoundPhase] = useState<RoundPhase>("NEWS");
+  const [roundNews, setRoundNews] = useState<RoundNewsEvent[]>([]);
+  const [scenarioSlug, setScenarioSlug] = useState(CLASSIC_SCENARIO);
+  const [roundPeriod, setRoundPeriod] = useState<ScenarioPeriod | null>(null);
+  // 스로틀 (0~100, 연료 투입량). 50은 중립이라 제출 불가
+  const [throttle, setThrottle] = useState(THROTTLE_NEUTRAL);
+  const throttleStartRef = useRef(THROTTLE_NEUTRAL);
   const [telemetry, setTelemetry] = useState<Telemetry>({});
+  // 라운드 결과에서 공개된 반전 (계기판 채널 푸시, 다음 라운드로 넘어가면 비움)
+  const [revealedTwists, setRevealedTwists] = useState<RevealedTwist[]>([]);
   const [chartValues, setChartValues] = useState<number[]>([]);
   const [stabilityValues, setStabilityValues] = useState<number[]>([]);
+  // 라운드 종료 후 공개된 결정 시점 이후 구간 (결과 화면 애니메이션용)
+  const [chartReveal, setChartReveal] = useState<ChartReveal | null>(null);
   const [symbol, setSymbol] = useState("");
+  const [sessionId, setSessionId] = useState<number | null>(null);
+  const [sessionSeed, setSessionSeed] = useState<number | undefined>(undefined);
   const [error, setError] = useState("");
   const [decisionError, setDecisionError] = useState("");
   const [isLoading, setIsLoading] = useState(true);
   const [isConfirming, setIsConfirming] = useState(false);
   const [correctCount, setCorrectCount] = useState(0);
+  const [creditTotal, setCreditTotal] = useState(0);
+  // 직전 라운드 판정 (결과 화면의 부분 점수 표시용)
+  const [lastChoice, setLastChoice] = useState<RoundChoiceResult | null>(null);
   const [outcomeKey, setOutcomeKey] = useState<OutcomeKey | null>(null);
   const [finalOutcomeKey, setFinalOutcomeKey] = useState<FinalOutcomeKey | null>(null);
   const [pendingRound, setPendingRound] = useState<number | null>(null);
+  // 라운드 제출 키: 재시도/연타 시 같은 키를 보내 서버가 한 번만 반영
+  const roundSubmitKeyRef = useRef<string | null>(null);
   const [pendingFinalKey, setPendingFinalKey] = useState<FinalOutcomeKey | null>(null);
-  const [decisionLog, setDecisionLog] = useState<RoundLog[]>([]);
   const [analysisStatus, setAnalysisStatus] = useState<"idle" | "loading" | "done" | "error">("idle");
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [analysisError, setAnalysisError] = useState("");
-  const chartCursor = useRef(1);
+  // 레이스 순위 (라운드 종료마다 서버가 푸시)
+  const [raceStandings, setRaceStandings] = useState<RaceStanding[]>([]);
+  const [meId, setMeId] = useState<number | null>(null);
+  // 결정 시점 인덱스 (서버가 내려준 nowIndex, 제출 시 해당 시점의 값을 yValue로 전송)
+  const chartCursor = useRef(0);
   const [phaseOneHintStep, setPhaseOneHintStep] = useState(0);
   const blackHolePulse = useRef(new Animated.Value(0)).current;
   const shakePulse = useRef(new Animated.Value(0)).current;
@@ -352,7 +286,7 @@ export default function CockpitScreen() {
   const explosionC = useRef(new Animated.Value(0)).current;
   const explosionD = useRef(new Animated.Value(0)).current;
 
-  const fallbackData = useMemo(() => generateGsiData(40), []);
+  const fallbackData = useMemo(() => generateGsiData(40, sessionSeed ?? 0), [sessionSeed]);
   const gsiData = chartValues.length ? chartValues : fallbackData;
 
   const frame = useMemo(() => ({ width, height }), [height, width]);
@@ -398,15 +332,9 @@ export default function CockpitScreen() {
   const leverTopMargin = 10;
   const leverBottomMargin = 26;
   const leverRange = trackHeight - handleHeight - leverTopMargin - leverBottomMargin;
-  const handleBottom =
-    leverPosition === "up"
-      ? leverBottomMargin + leverRange
-      : leverPosition === "down"
-        ? leverBottomMargin
-        : leverBottomMargin + leverRange / 2;
+  const handleBottom = leverBottomMargin + (leverRange * throttle) / 100;
   const leverRotation = "0deg";
-  const swipeThreshold = 18;
-  const phaseIntro = PHASE_INTROS[round] ?? { title: `Phase ${round}`, lines: [] };
+  const phaseIntro = getPhaseIntro(round, scenarioSlug, roundPeriod);
   const phaseLabel = `Phase ${round}: ${phaseIntro.title}`;
   const phaseCopy = phaseIntro.lines.join("\n");
   const blackHoleScale = blackHolePulse.interpolate({ inputRange: [0, 1], outputRange: [0.75, 1.05] });
@@ -433,9 +361,10 @@ export default function CockpitScreen() {
   const explosionOpacityC = explosionC.interpolate({ inputRange: [0, 0.6, 1], outputRange: [0, 0.8, 0] });
   const explosionScaleD = explosionD.interpolate({ inputRange: [0, 1], outputRange: [0.5, 1.8] });
   const explosionOpacityD = explosionD.interpolate({ inputRange: [0, 0.6, 1], outputRange: [0, 0.9, 0] });
-  const finalScoreLabel = `${correctCount} / ${MAX_ROUNDS}`;
+  const finalScoreLabel = `${correctCount} / ${totalRounds}`;
+  const finalCreditLabel = `부분 점수 ${Math.round((creditTotal / Math.max(totalRounds, 1)) * 100)}점 (포지션 크기 반영)`;
   const finalMessage = finalOutcomeKey ? FINAL_MESSAGES[finalOutcomeKey] : "";
-  const confirmDisabled = isConfirming || leverPosition === "middle";
+  const confirmDisabled = isConfirming || throttle === THROTTLE_NEUTRAL;
   const analysisDisplay = useMemo(() => {
     if (!analysisResult) return "";
     const joinLines = (label: string, items: string[]) =>
@@ -452,13 +381,14 @@ export default function CockpitScreen() {
   }, [analysisResult]);
 
   const currentBg = useMemo(() => {
-    const index = Math.min(Math.max(correctCount, 0), 6);
+    const ratio = totalRounds > 0 ? Math.max(correctCount, 0) / totalRounds : 0;
+    const index = Math.min(Math.round(ratio * BACKGROUND_STEPS), BACKGROUND_STEPS);
     return BACKGROUNDS[index] || BACKGROUNDS[4];
-  }, [correctCount]);
+  }, [correctCount, totalRounds]);
 
-  const updateLeverPosition = useCallback(
-    (next: "up" | "middle" | "down") => {
-      setLeverPosition(next);
+  const updateThrottle = useCallback(
+    (next: number) => {
+      setThrottle(Math.round(Math.min(100, Math.max(0, next))));
       if (decisionError) {
         setDecisionError("");
       }
@@ -466,15 +396,27 @@ export default function CockpitScreen() {
     [decisionError]
   );
 
-  const fetchChartData = useCallback(async (targetSymbol: string, targetRound: number) => {
-    if (!targetSymbol) return; // 종목이 없으면 요청하지 않음
+  // 현재 라운드 뉴스는 서버(GameEvent)에서만 받아온다
+  const loadRoundNews = useCallback(async () => {
+    const news = await getRoundNews();
+    setRound(news.currentRound);
+    setTotalRounds(news.totalRounds);
+    setRoundPhase(news.phase);
+    setRoundNews(news.events);
+    setScenarioSlug(news.scenario.slug);
+    setRoundPeriod(news.period);
+    return news;
+  }, []);
+
+  // 서버 세션 기준 현재 라운드 차트 (결과 확정 전에는 결정 시점까지만 내려옴)
+  const fetchChartData = useCallback(async () => {
     try {
       setIsLoading(true);
-      const chart = await getChart(targetSymbol, targetRound);
+      const chart = await getRoundChart();
       if (chart && chart.gravityData) {
         setChartValues(chart.gravityData.values);
         setStabilityValues(chart.gravityData.stability);
-        chartCursor.current = 1;
+        chartCursor.current = chart.reveal.nowIndex;
       }
     } catch (e) {
       console.error("차트 로드 실패:", e);
@@ -487,68 +429,134 @@ export default function CockpitScreen() {
   useEffect(() => {
     const bootstrap = async () => {
       try {
-        // 1. 서버에서 전체 로켓 목록을 가져와 현재 선택한 로켓의 이름(Symbol)을 찾음
+        // 1. 항로 결정: RouteSelect에서 고른 심볼, 없으면 로켓 이름(티커)을 기본 항로로 사용
         const { rockets } = await getRockets();
         const currentRocket = rockets.find((r) => r.id === rocketId);
-        const rocketName = currentRocket?.name || "NVDA"; // 찾지 못할 경우 기본값
+        const targetSymbol = routeSymbol ?? currentRocket?.name ?? "NVDA"; // 찾지 못할 경우 기본값
 
         // 2. 현재 진행 중인 비행 세션 확인
         const status = await getFlightStatus();
-        let activeSymbol = rocketName;
-
-        if (status.activeSession) {
-        // 진행 중인 세션의 로켓 ID와 현재 선택한 rocketId가 다른 경우
-          if (status.activeSession.rocket.id !== rocketId) {
-            console.log("로켓이 변경되었습니다. 기존 세션을 초기화하고 새로 시작합니다.");
-            await resetFlight(); // 기존 애플 세션 삭제
-            const start = await startFlight({ rocketId, symbol: rocketName }); // 코카콜라 세션 생성
-            activeSymbol = start.session.symbol;
-          } else {
-            // 로켓이 같으면 기존 세션 유지 (이어하기)
-            activeSymbol = status.activeSession.symbol;
+        let activeSymbol = targetSymbol;
+        let activeSeed: number | undefined;
+
+        const session = status.activeSession;
+        // 로켓이 다르거나, 새로 고른 항로가 진행 중인 세션과 다르면 새로 시작
+        const isDifferentFlight =
+          !!session && (session.rocket.id !== rocketId || (!!routeSymbol && session.symbol !== routeSymbol));
+
+        if (session && !isDifferentFlight) {
+          // 로켓/항로가 같으면 기존 세션 유지 (이어하기)
+          activeSymbol = session.symbol;
+          activeSeed = session.seed;
+          setSessionId(session.id);
+          // 결과 확인 중에 나갔다면 다음 라운드로 넘어간 뒤 이어하기
+          if (session.roundPhase === "RESULT") {
+            await nextRound();
           }
         } else {
-          // 세션이 아예 없으면 새로 시작
-          const start = await startFlight({ rocketId, symbol: rocketName });
+          if (session) {
+            console.log("로켓 또는 항로가 변경되었습니다. 기존 세션을 초기화하고 새로 시작합니다.");
+            await resetFlight();
+          }
+          const start = await startFlight({ rocketId, symbol: targetSymbol });
           activeSymbol = start.session.symbol;
+          activeSeed = start.session.seed;
+          setSessionId(start.session.id);
         }
 
+        setSessionSeed(activeSeed);
+
         setSymbol(activeSymbol); // 기호 확정
-        await fetchChartData(activeSymbol, round); // 첫 라운드 데이터 로드
+        await loadRoundNews(); // 서버 기준 현재 라운드
+        await fetchChartData(); // 현재 라운드 데이터 로드
       } catch (e) {
         console.error("초기 설정 실패:", e);
       }
     };
     bootstrap();
-  }, [rocketId]); // 로켓이 바뀔 때만 실행
+  }, [rocketId, routeSymbol]); // 로켓/항로가 바뀔 때만 실행
 
+  // 계기판 채널 구독: 연료/선체/진행도와 라운드 단계는 서버 푸시 기준으로 갱신
   useEffect(() => {
-    if (symbol && round > 1) {
-      fetchChartData(symbol, round);
-    }
-  }, [round, symbol, fetchChartData]);
+    let close: (() => void) | null = null;
+    let cancelled = false;
+
+    const applyTelemetry = (next: FlightTelemetry | null) => {
+      if (!next) return;
+      setTelemetry((prev) => ({
+        ...prev,
+        fuel: next.currentFuel,
+        hull: next.currentHull,
+        progress: next.progress,
+        status: next.status,
+      }));
+      setRoundPhase(next.roundPhase);
+    };
+
+    openFlightSocket((message) => {
+      switch (message.type) {
+        case "snapshot":
+          applyTelemetry(message.data.telemetry);
+          break;
+        case "state":
+          if (message.data.reason !== "round:end") setRevealedTwists([]);
+          applyTelemetry(message.data.telemetry);
+          break;
+        case "twist":
+          setRevealedTwists(message.data.twists);
+          break;
+        case "gameOver":
+          setTelemetry((prev) => ({ ...prev, status: message.data.status }));
+          break;
+      }
+    }).then((closeSocket) => {
+      if (cancelled) closeSocket();
+      else close = closeSocket;
+    });
+
+    return () => {
+      cancelled = true;
+      close?.();
+    };
+  }, []);
+
+  // 레이스 항해면 순위 채널 구독
+  useEffect(() => {
+    if (!raceCode) return undefined;
+    let close: (() => void) | null = null;
+    let cancelled = false;
+
+    getAuthUser().then((user) => setMeId(user?.id ?? null));
+    getRace(raceCode)
+      .then(({ race }) => setRaceStandings(race.standings))
+      .catch((e) => console.error("레이스 조회 실패:", e));
+    openRaceSocket(raceCode, (message) => {
+      if (message.type !== "closed") setRaceStandings(message.data.standings);
+    }).then((closeSocket) => {
+      if (cancelled) closeSocket();
+      else close = closeSocket;
+    });
+
+    return () => {
+      cancelled = true;
+      close?.();
+    };
+  }, [raceCode]);
 
   const panResponder = useMemo(
     () =>
       PanResponder.create({
         onStartShouldSetPanResponder: () => true,
         onMoveShouldSetPanResponder: (_, gesture) => Math.abs(gesture.dy) > Math.abs(gesture.dx),
-        onPanResponderRelease: (_, gesture) => {
-          if (gesture.dy <= -swipeThreshold) {
-            updateLeverPosition(leverPosition === "down" ? "middle" : "up");
-          } else if (gesture.dy >= swipeThreshold) {
-            updateLeverPosition(leverPosition === "up" ? "middle" : "down");
-          }
+        onPanResponderGrant: () => {
+          throttleStartRef.current = throttle;
         },
-        onPanResponderTerminate: (_, gesture) => {
-          if (gesture.dy <= -swipeThreshold) {
-            updateLeverPosition(leverPosition === "down" ? "middle" : "up");
-          } else if (gesture.dy >= swipeThreshold) {
-            updateLeverPosition(leverPosition === "up" ? "middle" : "down");
-          }
+        // 위로 끌수록 출력 증가 (트랙 전체 길이 = 0~100)
+        onPanResponderMove: (_, gesture) => {
+          updateThrottle(throttleStartRef.current - (gesture.dy / Math.max(leverRange, 1)) * 100);
         },
       }),
-    [leverPosition, swipeThreshold, updateLeverPosition]
+    [leverRange, throttle, updateThrottle]
   );
 
   useEffect(() => {
@@ -701,17 +709,37 @@ export default function CockpitScreen() {
       return;
     }
     setOutcomeKey(null);
+    setChartReveal(null);
     setRound((prev) => (pendingRound ?? prev));
     setPendingRound(null);
     setView("round");
-  }, [pendingFinalKey, pendingRound]);
+    // 다음 라운드로 넘어간 뒤에 차트를 받아야 새 라운드의 결정 시점까지만 내려옴
+    nextRound()
+      .then(() => loadRoundNews())
+      .then(() => fetchChartData())
+      .catch((e) => {
+        console.error("라운드 뉴스 로드 실패:", e);
+        setError("라운드 정보를 가져올 수 없습니다.");
+      });
+  }, [fetchChartData, loadRoundNews, pendingFinalKey, pendingRound]);
+
+  const handleRoundGo = useCallback(async () => {
+    setView("cockpit");
+    if (roundPhase === "PLAYING") return;
+    try {
+      const started = await startRound();
+      setRoundPhase(started.phase);
+    } catch (e) {
+      console.error("라운드 시작 실패:", e);
+    }
+  }, [roundPhase]);
 
   const handleFinalEnd = useCallback(() => {
     setView("finalResult");
   }, []);
 
   const handleLogout = useCallback(async () => {
-    await clearAuthSession();
+    await logoutUser();
     nav.reset({ index: 0, routes: [{ name: "Start" }] });
   }, [nav]);
 
@@ -720,105 +748,61 @@ export default function CockpitScreen() {
   }, [nav]);
 
   const runAnalysis = useCallback(async () => {
-    if (analysisStatus === "loading") return;
-    if (!decisionLog.length) {
-      setAnalysisResult(null);
-      setAnalysisStatus("done");
-      return;
-    }
+    if (analysisStatus === "loading" || !sessionId) return;
 
     try {
       setAnalysisStatus("loading");
       setAnalysisError("");
       setAnalysisResult(null);
-      const rocketSymbol = (symbol || "NVDA").toUpperCase();
-      const session: GameSession = {
-        rocket: rocketSymbol,
-        rocketType: ROCKET_TYPES[rocketSymbol] ?? "growth",
-        rounds: decisionLog,
-        summary: {
-          accuracy: Number((correctCount / MAX_ROUNDS).toFixed(2)),
-          fuelLeft: telemetry.fuel ?? 0,
-          hullIntegrity: telemetry.hull ?? 0,
-        },
-      };
-      const result = await analyzeDecisions(session);
+      // 분석 입력은 서버가 항해 기록으로 구성 (이미 분석한 항해는 저장된 결과를 그대로 받음)
+      const result = await analyzeDecisions(sessionId);
       setAnalysisResult(result.analysis ?? null);
       setAnalysisStatus("done");
     } catch (e) {
       setAnalysisStatus("error");
       setAnalysisError(e instanceof Error ? e.message : "분석 요청에 실패했습니다.");
     }
-  }, [analysisStatus, correctCount, decisionLog, symbol, telemetry.fuel, telemetry.hull]);
+  }, [analysisStatus, sessionId]);
   
   const handleConfirm = useCallback(async () => {
     setDecisionError("");
-    if (chartValues.length < 2) {
-      setDecisionError("차트 데이터를 불러오는 중입니다.");
-      return;
-    }
-
     setIsConfirming(true);
     try {
-      const status = await getFlightStatus();
-      if (!status.activeSession) {
-        const start = await startFlight({ rocketId, symbol });
-        const progress = (start.session.distance / start.session.targetDistance) * 100;
-        setSymbol(start.session.symbol || symbol);
-        setTelemetry({
-          fuel: start.session.currentFuel,
-          hull: start.session.currentHull,
-          progress,
-        });
+      if (roundPhase !== "PLAYING") {
+        const started = await startRound();
+        setRoundPhase(started.phase);
       }
 
-      const chosenDirection: LeverChoice = leverPosition === "up" ? "up" : "down";
-      const fuelInput = chosenDirection === "up" ? 80 : 20;
+      const fuelInput = throttle;
       const index = Math.min(chartCursor.current, chartValues.length - 1);
-      const yValue = chartValues[index];
-      const previousYValue = chartValues[index - 1] ?? yValue;
-      const response = await syncFlight({ fuelInput, yValue, previousYValue });
-      setTelemetry({
-        fuel: response.currentFuel,
-        hull: response.currentHull,
-        progress: response.progress,
-        isStable: response.isStableZone,
-        status: response.status,
-      });
-      chartCursor.current = Math.min(index + 1, chartValues.length - 1);
-      setLeverPosition("middle");
-      const nextRound = Math.min(round + 1, MAX_ROUNDS);
-      const correctDirection = ROUND_ANSWERS[round]?.[symbol] ?? ROUND_ANSWERS[round]?.default ?? "up";
-      const isCorrect = chosenDirection === correctDirection;
-      const nextCorrectCount = correctCount + (isCorrect ? 1 : 0);
-      setDecisionLog((prev) => {
-        const symbolKey = (symbol || "NVDA").toUpperCase();
-        const updatesForRound = ROUND_UPDATES[round]?.[symbolKey] ?? ROUND_UPDATES[round]?.ALL ?? [];
-        const roundLog: RoundLog = {
-          round,
-          marketPhase: MARKET_PHASES[round] ?? "expansion",
-          updates: updatesForRound.slice(0, 5),
-          userChoice: chosenDirection,
-          correctAnswer: correctDirection,
-        };
-        return [...prev, roundLog];
-      });
-      setCorrectCount(nextCorrectCount);
-      const outcome = getOutcomeKey(correctDirection, chosenDirection);
-      setPendingRound(nextRound);
-      setOutcomeKey(outcome);
-      if (round >= MAX_ROUNDS) {
-        const finalKey = getFinalOutcomeKey(nextCorrectCount);
-        setPendingFinalKey(finalKey);
+      const yValue = index >= 0 ? chartValues[index] : undefined;
+      if (!roundSubmitKeyRef.current) {
+        roundSubmitKeyRef.current = `${round}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+      }
+      const response = await endRound({ fuelInput, yValue, idempotencyKey: roundSubmitKeyRef.current });
+      roundSubmitKeyRef.current = null;
+      const choice = response.choiceResult;
+      // 연료/선체/진행도는 계기판 채널이 푸시 (여기서는 판정 신호만)
+      setTelemetry((prev) => ({ ...prev, isStable: choice.isPositiveEvent }));
+      setRoundPhase(response.phase);
+      setChartReveal(response.chartReveal ?? null);
+      setThrottle(THROTTLE_NEUTRAL);
+      setCorrectCount(choice.correctAnswersSoFar);
+      setCreditTotal(choice.creditSoFar ?? 0);
+      setLastChoice(choice);
+      setPendingRound(response.nextRound);
+      setOutcomeKey(getOutcomeKey(choice));
+      if (response.isGameOver) {
+        setPendingFinalKey(getFinalOutcomeKey(response.finalEnding));
       }
       setView("outcome");
     } catch (e) {
-      const message = e instanceof Error ? e.message : "Sync failed.";
+      const message = e instanceof Error ? e.message : "Round submission failed.";
       setDecisionError(message);
     } finally {
       setIsConfirming(false);
     }
-  }, [chartValues, correctCount, leverPosition, round, rocketId, symbol]);
+  }, [chartValues, round, roundPhase, throttle]);
 
   const latestChange = stabilityValues[stabilityValues.length - 1] ?? 0;
   const stableSignal = telemetry.isStable ?? latestChange >= 0;
@@ -834,19 +818,23 @@ export default function CockpitScreen() {
     if (error) {
       items.push({ time: "00:40", message: `Alert: ${error}`, tone: "warning" });
     }
+    for (const twist of revealedTwists) {
+      items.push({ time: "00:37", message: `Twist: ${twist.description}`, tone: twist.isPositiveOutcome ? "success" : "warning" });
+    }
 
-    const times = ["00:34", "00:31", "00:28", "00:25", "00:22"];
-    const roundKey = Math.min(Math.max(round, 1), MAX_ROUNDS);
-    const symbolKey = (symbol || "NVDA").toUpperCase();
-    const selectedUpdates = ROUND_UPDATES[roundKey]?.[symbolKey] ?? ROUND_UPDATES[roundKey]?.ALL ?? [];
-    const toneOrder: UpdateItem["tone"][] = ["warning", "warning", "warning", "success", "success"];
-    const mapped = selectedUpdates.map((text, index) => ({
-      time: times[index] ?? "00:20",
-      message: text,
-      tone: toneOrder[index] ?? "warning",
-    }));
-    return items.concat(mapped);
-  }, [error, round, symbol]);
+    const times = ["00:34", "00:31", "00:28", "00:25", "00:22", "00:19"];
+    const mapped = roundNews.flatMap((event) => [
+      { message: event.news.content, tone: "info" as const },
+      { message: event.navigator.content, tone: "warning" as const },
+      { message: event.log.content, tone: "success" as const },
+    ]);
+    return items.concat(
+      mapped.map((item, index) => ({
+        time: times[index] ?? "00:16",
+        ...item,
+      }))
+    );
+  }, [error, revealedTwists, roundNews]);
 
   const panelUpdates = updates.slice(0, 5);
   // [수정] windowLayer 구성 (배경 이미지 동적 적용)
@@ -869,7 +857,7 @@ export default function CockpitScreen() {
   );
 
   if (view === "chart") {
-    return <ChartScreen data={gsiData} onBack={() => setView("cockpit")} symbol={symbol} round={round}/>;
+    return <ChartScreen data={gsiData} onBack={() => setView("cockpit")} symbol={symbol} round={round} />;
   }
 
   if (view === "info") {
@@ -882,6 +870,30 @@ export default function CockpitScreen() {
         <View style={[s.frame, { width: frame.width, height: frame.height }]}>
           <OutcomeVideo source={OUTCOME_VIDEOS[outcomeKey]} onEnd={handleOutcomeEnd} />
           <View style={s.outcomeOverlay} pointerEvents="none" />
+          <View style={s.outcomeReveal} pointerEvents="none">
+            {chartReveal && chartValues.length > 0 && (
+              <ChartRevealPanel
+                before={chartValues}
+                reveal={chartReveal}
+                width={Math.min(360, Math.round(frame.width * 0.42))}
+                height={Math.min(120, Math.round(frame.height * 0.22))}
+              />
+            )}
+            {lastChoice && (
+              <View style={s.creditCard}>
+                <Text style={s.creditTitle}>POSITION SIZING</Text>
+                <Text style={s.creditValue}>{Math.round(lastChoice.partialCredit * 100)} / 100</Text>
+                <Text style={s.creditMeta}>
+                  내 출력 {Math.round(lastChoice.fuelInput)}% · 이상 출력 {lastChoice.idealFuelInput}% · 이벤트 강도{" "}
+                  {Math.round(lastChoice.eventStrength * 100)}%
+                </Text>
+                <Text style={s.creditMeta}>{lastChoice.creditExplanation}</Text>
+              </View>
+            )}
+            {raceCode && raceStandings.length > 0 && (
+              <RaceStandingsPanel standings={raceStandings} meId={meId} totalRounds={totalRounds} compact />
+            )}
+          </View>
         </View>
       </View>
     );
@@ -928,19 +940,20 @@ export default function CockpitScreen() {
             <View style={s.finalCard}>
               <Text style={s.finalTitle}>RESULT</Text>
               <Text style={s.finalScore}>{finalScoreLabel}</Text>
+              <Text style={s.finalCredit}>{finalCreditLabel}</Text>
               <Text style={s.finalMessage}>{finalMessage}</Text>
               <View style={s.analysisBlock}>
                 <Pressable
                   style={({ pressed }) => [
                     s.analysisButton,
-                    analysisStatus === "loading" && s.analysisButtonDisabled,
+                    (analysisStatus === "loading" || analysisStatus === "done") && s.analysisButtonDisabled,
                     pressed && analysisStatus !== "loading" && s.analysisButtonPressed,
                   ]}
                   onPress={runAnalysis}
-                  disabled={analysisStatus === "loading"}
+                  disabled={analysisStatus === "loading" || analysisStatus === "done"}
                 >
                   <Text style={s.analysisButtonText}>
-                    {analysisStatus === "loading" ? "분석 중..." : analysisStatus === "done" ? "다시 분석" : "AI 분석"}
+                    {analysisStatus === "loading" ? "분석 중..." : analysisStatus === "done" ? "분석 완료" : "AI 분석"}
                   </Text>
                 </Pressable>
                 {analysisStatus === "idle" ? (
@@ -958,6 +971,14 @@ export default function CockpitScreen() {
                 )}
               </View>
               <View style={s.finalActions}>
+                {raceCode ? (
+                  <Pressable
+                    style={({ pressed }) => [s.finalActionButton, pressed && s.finalActionPressed]}
+                    onPress={() => nav.replace("RaceResults", { code: raceCode })}
+                  >
+                    <Text style={s.finalActionText}>RACE RESULTS</Text>
+                  </Pressable>
+                ) : null}
                 <Pressable style={({ pressed }) => [s.finalActionButton, pressed && s.finalActionPressed]} onPress={handleRestart}>
                   <Text style={s.finalActionText}>RESTART</Text>
                 </Pressable>
@@ -1077,7 +1098,7 @@ export default function CockpitScreen() {
             <View style={s.roundCard}>
               <Text style={s.roundEyebrow}>{phaseLabel}</Text>
               {phaseCopy ? <Text style={s.roundCopy}>{phaseCopy}</Text> : null}
-              <Pressable style={({ pressed }) => [s.roundButton, pressed && s.roundButtonPressed]} onPress={() => setView("cockpit")}>
+              <Pressable style={({ pressed }) => [s.roundButton, pressed && s.roundButtonPressed]} onPress={handleRoundGo}>
                 <Text style={s.roundButtonText}>GO!</Text>
               </Pressable>
             </View>
@@ -1133,6 +1154,9 @@ export default function CockpitScreen() {
                 </View>
                 <View style={s.leverBase} />
               </View>
+              <Text style={[s.throttleText, throttle === THROTTLE_NEUTRAL && s.throttleTextNeutral]}>
+                {throttle === THROTTLE_NEUTRAL ? "THROTTLE: NEUTRAL" : `THROTTLE ${throttle}%`}
+              </Text>
               <View style={s.confirmDock}>
                 <Pressable
                   style={({ pressed }) => [
@@ -1189,6 +1213,19 @@ const s = StyleSheet.create({
   },
   outcomeVideo: { ...StyleSheet.absoluteFillObject },
   outcomeOverlay: { ...StyleSheet.absoluteFillObject, backgroundColor: "rgba(0,0,0,0.25)" },
+  outcomeReveal: { position: "absolute", top: 16, left: 0, right: 0, alignItems: "center", gap: 8 },
+  creditCard: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: theme.radius.lg,
+    backgroundColor: theme.colors.panel,
+    borderWidth: 1,
+    borderColor: theme.colors.panelBorder,
+    alignItems: "center",
+  },
+  creditTitle: { color: theme.colors.accent, fontSize: 10, fontWeight: "800", letterSpacing: 0.8 },
+  creditValue: { color: theme.colors.textPrimary, fontSize: 20, fontWeight: "900", marginVertical: 2 },
+  creditMeta: { color: theme.colors.textMuted, fontSize: 11, textAlign: "center" },
   window: { ...StyleSheet.absoluteFillObject },
   windowOverlay: { ...StyleSheet.absoluteFillObject, backgroundColor: "rgba(0,0,0,0.12)" },
   windowAurora: {
@@ -1535,6 +1572,7 @@ const s = StyleSheet.create({
   roundCopy: { color: theme.colors.textMuted, fontSize: 14, lineHeight: 20, textAlign: "center", marginBottom: 16 },
   finalTitle: { color: theme.colors.accent, fontWeight: "800", fontSize: 16, letterSpacing: 1, marginBottom: 8 },
   finalScore: { color: theme.colors.textPrimary, fontWeight: "900", fontSize: 26, letterSpacing: 1, marginBottom: 10 },
+  finalCredit: { color: theme.colors.accent, fontSize: 12, fontWeight: "800", marginTop: -6, marginBottom: 10 },
   finalMessage: { color: theme.colors.textMuted, fontSize: 14, lineHeight: 20, textAlign: "center" },
   analysisBlock: {
     width: "100%",
@@ -1655,6 +1693,8 @@ const s = StyleSheet.create({
     alignItems: "center",
     justifyContent: "center",
   },
+  throttleText: { marginTop: 6, color: theme.colors.accent, fontSize: 10, fontWeight: "800", letterSpacing: 0.6 },
+  throttleTextNeutral: { color: theme.colors.textAccent },
   leverKnobInset: { width: 18, height: 5, borderRadius: 999, backgroundColor: "rgba(0,0,0,0.35)" },
   leverStem: {
     marginTop: 4,
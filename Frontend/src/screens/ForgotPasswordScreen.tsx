@@ -0,0 +1,188 @@
+import React, { useState } from "react";
+import { ImageBackground, KeyboardAvoidingView, Platform, Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+import { useNavigation, useRoute } from "@react-navigation/native";
+import type { RouteProp } from "@react-navigation/native";
+import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../navigation";
+import { theme } from "../theme";
+import { requestPasswordReset, resetPassword } from "../api/client";
+
+const BG_IMAGE =
+  "https://images.unsplash.com/photo-1709409903008-fbc1ce9b7dfa?crop=entropy&cs=tinysrgb&fit=max&fm=jpg&ixid=M3w3Nzg4Nzd8MHwxfHNlYXJjaHwxfHxzcGFjZSUyMHN0YXJzJTIwbmVidWxhfGVufDF8fHx8MTc2OTIzMjkzNXww&ixlib=rb-4.1.0&q=80&w=1080&utm_source=figma&utm_medium=referral";
+
+// 1단계: 이메일로 코드 요청 → 2단계: 코드 + 새 비밀번호
+type Step = "request" | "reset";
+
+export default function ForgotPasswordScreen() {
+  const nav = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { params } = useRoute<RouteProp<RootStackParamList, "ForgotPassword">>();
+  const [step, setStep] = useState<Step>("request");
+  const [email, setEmail] = useState(params?.email ?? "");
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const handleRequest = async () => {
+    setError("");
+    setNotice("");
+    const trimmedEmail = email.trim();
+    if (!trimmedEmail.includes("@")) {
+      setError("Please enter a valid email.");
+      return;
+    }
+    try {
+      setBusy(true);
+      await requestPasswordReset(trimmedEmail);
+      setNotice("If that email is registered, a reset code is on its way.");
+      setStep("reset");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Request failed. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setError("");
+    setNotice("");
+    if (!code.trim() || !password || !confirm) {
+      setError("Please fill in all fields.");
+      return;
+    }
+    if (password.length < 6) {
+      setError("Password must be at least 6 characters.");
+      return;
+    }
+    if (password !== confirm) {
+      setError("Passwords do not match.");
+      return;
+    }
+    try {
+      setBusy(true);
+      await resetPassword({ email: email.trim(), code: code.trim(), newPassword: password });
+      nav.replace("Login");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Reset failed. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <View style={s.root}>
+      <ImageBackground source={{ uri: BG_IMAGE }} style={s.bg} resizeMode="cover">
+        <View style={s.overlay} pointerEvents="none" />
+        <KeyboardAvoidingView style={s.content} behavior={Platform.OS === "ios" ? "padding" : undefined}>
+          <Text style={s.title}>Reset Password</Text>
+
+          <View style={s.form}>
+            <TextInput
+              style={[s.input, step === "reset" && s.inputLocked]}
+              placeholder="Email"
+              placeholderTextColor="rgba(255,255,255,0.5)"
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="email-address"
+              editable={step === "request"}
+              value={email}
+              onChangeText={setEmail}
+            />
+            {step === "reset" && (
+              <>
+                <TextInput
+                  style={s.input}
+                  placeholder="Reset code"
+                  placeholderTextColor="rgba(255,255,255,0.5)"
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  value={code}
+                  onChangeText={setCode}
+                />
+                <TextInput
+                  style={s.input}
+                  placeholder="New password"
+                  placeholderTextColor="rgba(255,255,255,0.5)"
+                  secureTextEntry
+                  value={password}
+                  onChangeText={setPassword}
+                />
+                <TextInput
+                  style={s.input}
+                  placeholder="Confirm new password"
+                  placeholderTextColor="rgba(255,255,255,0.5)"
+                  secureTextEntry
+                  value={confirm}
+                  onChangeText={setConfirm}
+                />
+              </>
+            )}
+          </View>
+
+          {error ? <Text style={s.error}>{error}</Text> : null}
+          {notice ? <Text style={s.notice}>{notice}</Text> : null}
+
+          <Pressable
+            style={({ pressed }) => [s.primaryButton, busy && s.disabled, pressed && s.buttonPressed]}
+            onPress={step === "request" ? handleRequest : handleReset}
+            disabled={busy}
+          >
+            <Text style={s.primaryButtonText}>{step === "request" ? "SEND CODE" : "RESET PASSWORD"}</Text>
+          </Pressable>
+
+          <View style={s.footerRow}>
+            {step === "reset" && (
+              <>
+                <Pressable onPress={handleRequest} disabled={busy}>
+                  <Text style={s.link}>Resend code</Text>
+                </Pressable>
+                <Text style={s.footerText}>·</Text>
+              </>
+            )}
+            <Pressable onPress={() => nav.goBack()}>
+              <Text style={s.footerText}>Back to log in</Text>
+            </Pressable>
+          </View>
+        </KeyboardAvoidingView>
+      </ImageBackground>
+    </View>
+  );
+}
+
+const s = StyleSheet.create({
+  root: { flex: 1, backgroundColor: theme.colors.black },
+  bg: { flex: 1 },
+  overlay: { ...StyleSheet.absoluteFillObject, backgroundColor: theme.colors.overlayStrong },
+  content: { flex: 1, justifyContent: "center", alignItems: "center", padding: 24 },
+  title: { color: theme.colors.accent, fontSize: 28, fontWeight: "900", marginBottom: 20, letterSpacing: 0.8 },
+  form: { width: "100%", maxWidth: 320, gap: 12 },
+  input: {
+    height: 44,
+    borderRadius: theme.radius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.accentBorderSoft,
+    paddingHorizontal: 12,
+    color: theme.colors.textPrimary,
+    backgroundColor: theme.colors.track,
+  },
+  inputLocked: { opacity: 0.6 },
+  error: { marginTop: 10, color: theme.colors.danger, textAlign: "center" },
+  notice: { marginTop: 10, color: theme.colors.success, textAlign: "center" },
+  primaryButton: {
+    marginTop: 18,
+    paddingVertical: 12,
+    paddingHorizontal: 26,
+    borderRadius: theme.radius.pill,
+    borderWidth: 2,
+    borderColor: theme.colors.accentBorderStrong,
+    backgroundColor: theme.colors.accentTint,
+  },
+  disabled: { opacity: 0.5 },
+  buttonPressed: { transform: [{ scale: 0.97 }] },
+  primaryButtonText: { color: theme.colors.accent, fontWeight: "900", letterSpacing: 1 },
+  footerRow: { flexDirection: "row", gap: 6, marginTop: 14 },
+  footerText: { color: theme.colors.textMuted },
+  link: { color: theme.colors.accent, fontWeight: "800" },
+});
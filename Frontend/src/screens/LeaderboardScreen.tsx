@@ -0,0 +1,272 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Text, useWindowDimensions, View } from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../navigation";
+import { theme } from "../theme";
+import type { LeaderboardEntry, LeaderboardResponse } from "../api/client";
+import { getLeaderboard, getRockets, getSymbolCatalogue } from "../api/client";
+
+type BoardMode = "all" | "weekly" | "rocket" | "symbol";
+
+const MODES: { key: BoardMode; label: string }[] = [
+  { key: "all", label: "ALL-TIME" },
+  { key: "weekly", label: "WEEKLY" },
+  { key: "rocket", label: "BY ROCKET" },
+  { key: "symbol", label: "BY ROUTE" },
+];
+
+const PAGE_SIZE = 20;
+
+export default function LeaderboardScreen() {
+  const nav = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { width, height } = useWindowDimensions();
+  const frame = useMemo(() => ({ width, height }), [height, width]);
+
+  const [mode, setMode] = useState<BoardMode>("all");
+  const [rockets, setRockets] = useState<{ id: number; name: string }[]>([]);
+  const [routes, setRoutes] = useState<string[]>([]);
+  const [selectedRocketId, setSelectedRocketId] = useState<number | null>(null);
+  const [selectedSymbol, setSelectedSymbol] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [board, setBoard] = useState<LeaderboardResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  // 로켓/항로 필터 선택지 (항로는 로켓과 자유롭게 조합 가능하므로 카탈로그 기준)
+  useEffect(() => {
+    getRockets()
+      .then(({ rockets: list }) => {
+        setRockets(list.map((rocket) => ({ id: rocket.id, name: rocket.name })));
+        if (list[0]) setSelectedRocketId(list[0].id);
+      })
+      .catch((e) => console.error("로켓 목록 로드 실패:", e));
+    getSymbolCatalogue()
+      .then(({ symbols }) => {
+        setRoutes(symbols.map((entry) => entry.symbol));
+        if (symbols[0]) setSelectedSymbol(symbols[0].symbol);
+      })
+      .catch((e) => console.error("항로 목록 로드 실패:", e));
+  }, []);
+
+  const loadBoard = useCallback(async () => {
+    if (mode === "rocket" && selectedRocketId === null) return;
+    if (mode === "symbol" && selectedSymbol === null) return;
+    try {
+      setLoading(true);
+      setError("");
+      const response = await getLeaderboard({
+        period: mode === "weekly" ? "weekly" : "all",
+        rocketId: mode === "rocket" ? selectedRocketId ?? undefined : undefined,
+        symbol: mode === "symbol" ? selectedSymbol ?? undefined : undefined,
+        page,
+        pageSize: PAGE_SIZE,
+      });
+      setBoard(response);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "랭킹을 불러올 수 없습니다.");
+    } finally {
+      setLoading(false);
+    }
+  }, [mode, page, selectedRocketId, selectedSymbol]);
+
+  useEffect(() => {
+    loadBoard();
+  }, [loadBoard]);
+
+  const handleModeChange = useCallback((next: BoardMode) => {
+    setMode(next);
+    setPage(1);
+  }, []);
+
+  // 내 기록만 리플레이 가능 (서버도 본인 세션만 허용)
+  const openReplay = useCallback((sessionId: number) => nav.navigate("Replay", { sessionId }), [nav]);
+
+  const totalPages = board?.pagination.totalPages ?? 1;
+  const filterOptions =
+    mode === "rocket" ? rockets : mode === "symbol" ? routes.map((symbol, index) => ({ id: index, name: symbol })) : [];
+
+  return (
+    <View style={s.root}>
+      <View style={[s.frame, { width: frame.width, height: frame.height }]}>
+        <View style={s.bg} />
+        <View style={s.content}>
+          <View style={s.header}>
+            <Pressable style={({ pressed }) => [s.backButton, pressed && s.backPressed]} onPress={() => nav.goBack()}>
+              <Text style={s.backText}>{"< BACK"}</Text>
+            </Pressable>
+            <View style={s.headerCenter}>
+              <Text style={s.title}>GALACTIC LEADERBOARD</Text>
+              <Text style={s.subtitle}>Best flight per pilot</Text>
+            </View>
+            <View style={s.headerSpacer} />
+          </View>
+
+          <View style={s.tabRow}>
+            {MODES.map((item) => (
+              <Pressable
+                key={item.key}
+                style={({ pressed }) => [s.tab, mode === item.key && s.tabActive, pressed && s.backPressed]}
+                onPress={() => handleModeChange(item.key)}
+              >
+                <Text style={[s.tabText, mode === item.key && s.tabTextActive]}>{item.label}</Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {filterOptions.length > 0 && (
+            <View style={s.tabRow}>
+              {filterOptions.map((rocket) => {
+                const active = mode === "rocket" ? selectedRocketId === rocket.id : selectedSymbol === rocket.name;
+                return (
+                  <Pressable
+                    key={rocket.id}
+                    style={({ pressed }) => [s.chip, active && s.tabActive, pressed && s.backPressed]}
+                    onPress={() => {
+                      if (mode === "rocket") setSelectedRocketId(rocket.id);
+                      else setSelectedSymbol(rocket.name);
+                      setPage(1);
+                    }}
+                  >
+                    <Text style={[s.tabText, active && s.tabTextActive]}>{rocket.name}</Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          )}
+
+          {board?.me && <EntryRow entry={board.me} highlight onReplay={openReplay} />}
+
+          {loading ? (
+            <View style={s.center}>
+              <ActivityIndicator color={theme.colors.accent} />
+            </View>
+          ) : error ? (
+            <View style={s.center}>
+              <Text style={s.errorText}>{error}</Text>
+            </View>
+          ) : (
+            <ScrollView style={s.list} contentContainerStyle={s.listContent}>
+              {board && board.entries.length > 0 ? (
+                board.entries.map((entry) => <EntryRow key={entry.sessionId} entry={entry} onReplay={openReplay} />)
+              ) : (
+                <Text style={s.emptyText}>아직 기록된 항해가 없습니다.</Text>
+              )}
+            </ScrollView>
+          )}
+
+          <View style={s.pager}>
+            <Pressable
+              style={({ pressed }) => [s.chip, pressed && s.backPressed, page <= 1 && s.disabled]}
+              disabled={page <= 1}
+              onPress={() => setPage((prev) => Math.max(1, prev - 1))}
+            >
+              <Text style={s.tabText}>{"< PREV"}</Text>
+            </Pressable>
+            <Text style={s.pageText}>
+              {page} / {Math.max(totalPages, 1)}
+            </Text>
+            <Pressable
+              style={({ pressed }) => [s.chip, pressed && s.backPressed, page >= totalPages && s.disabled]}
+              disabled={page >= totalPages}
+              onPress={() => setPage((prev) => prev + 1)}
+            >
+              <Text style={s.tabText}>{"NEXT >"}</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+function EntryRow({
+  entry,
+  highlight = false,
+  onReplay,
+}: {
+  entry: LeaderboardEntry;
+  highlight?: boolean;
+  onReplay?: (sessionId: number) => void;
+}) {
+  const canReplay = entry.isMe && !!onReplay;
+  return (
+    <Pressable
+      style={({ pressed }) => [s.row, (highlight || entry.isMe) && s.rowMe, canReplay && pressed && s.backPressed]}
+      disabled={!canReplay}
+      onPress={() => onReplay?.(entry.sessionId)}
+    >
+      <Text style={s.rank}>#{entry.rank}</Text>
+      <View style={s.rowBody}>
+        <Text style={s.nickname} numberOfLines={1}>
+          {highlight ? `MY RANK · ${entry.nickname}` : entry.nickname}
+        </Text>
+        <Text style={s.meta}>
+          {entry.rocket.name} · {entry.symbol} · 정답 {entry.correctAnswers} · {entry.tier ?? "-"}
+          {canReplay ? " · ▶ REPLAY" : ""}
+        </Text>
+      </View>
+      <Text style={s.score}>{entry.score}</Text>
+    </Pressable>
+  );
+}
+
+const s = StyleSheet.create({
+  root: { flex: 1, justifyContent: "center", alignItems: "center", backgroundColor: theme.colors.black },
+  frame: { backgroundColor: theme.colors.frame, borderRadius: theme.radius.xl, overflow: "hidden" },
+  bg: { ...StyleSheet.absoluteFillObject, backgroundColor: theme.colors.bg },
+  content: { flex: 1, padding: 18 },
+  header: { flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginBottom: 12 },
+  backButton: { paddingVertical: 4, paddingHorizontal: 6 },
+  backPressed: { transform: [{ scale: 0.97 }] },
+  backText: { color: theme.colors.accent, fontWeight: "800", fontSize: 11 },
+  headerCenter: { alignItems: "center" },
+  headerSpacer: { width: 60 },
+  title: { color: theme.colors.accentDeep, fontWeight: "900", fontSize: 16, letterSpacing: 0.6 },
+  subtitle: { color: "rgba(251,191,36,0.6)", fontSize: 10, marginTop: 2 },
+  tabRow: { flexDirection: "row", gap: 8, marginBottom: 10, flexWrap: "wrap" },
+  tab: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: theme.radius.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.accentBorderSoft,
+    backgroundColor: theme.colors.track,
+  },
+  tabActive: { backgroundColor: theme.colors.accentTint, borderColor: theme.colors.accentBorderStrong },
+  tabText: { color: theme.colors.textAccent, fontSize: 10, fontWeight: "800", letterSpacing: 0.6 },
+  tabTextActive: { color: theme.colors.accent },
+  chip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: theme.radius.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.panelBorder,
+    backgroundColor: theme.colors.card,
+  },
+  disabled: { opacity: 0.4 },
+  center: { flex: 1, alignItems: "center", justifyContent: "center" },
+  errorText: { color: theme.colors.danger, fontSize: 12 },
+  emptyText: { color: theme.colors.textMuted, fontSize: 12, textAlign: "center", marginTop: 24 },
+  list: { flex: 1 },
+  listContent: { gap: 8, paddingBottom: 12 },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: theme.colors.panel,
+    borderRadius: theme.radius.md,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.panelBorder,
+  },
+  rowMe: { borderColor: theme.colors.accentBorderStrong, backgroundColor: theme.colors.accentTint, marginBottom: 8 },
+  rank: { width: 44, color: theme.colors.accent, fontWeight: "900", fontSize: 14 },
+  rowBody: { flex: 1 },
+  nickname: { color: theme.colors.textPrimary, fontWeight: "800", fontSize: 13 },
+  meta: { color: theme.colors.textSubtle, fontSize: 10, marginTop: 2 },
+  score: { color: theme.colors.accentDeep, fontWeight: "900", fontSize: 16 },
+  pager: { flexDirection: "row", alignItems: "center", justifyContent: "center", gap: 16, marginTop: 8 },
+  pageText: { color: theme.colors.textMuted, fontSize: 11 },
+});
@@ -1,10 +1,19 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { ImageBackground, KeyboardAvoidingView, Platform, Pressable, StyleSheet, Text, TextInput, View } from "react-native";
 import { useNavigation } from "@react-navigation/native";
 import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import type { RootStackParamList } from "../navigation";
 import { theme } from "../theme";
-import { loginUser, saveAuthSession } from "../api/client";
+import type { OAuthProviderName } from "../api/client";
+import { getOAuthProviders, loginUser, saveAuthSession } from "../api/client";
+import { filterAvailableProviders, signInWithProvider } from "../api/oauth";
+
+const PROVIDER_LABELS: Record<OAuthProviderName, string> = {
+  google: "Continue with Google",
+  apple: "Continue with Apple",
+  kakao: "Continue with Kakao",
+  mock: "Continue with Mock OIDC",
+};
 
 const BG_IMAGE =
   "https://images.unsplash.com/photo-1709409903008-fbc1ce9b7dfa?crop=entropy&cs=tinysrgb&fit=max&fm=jpg&ixid=M3w3Nzg4Nzd8MHwxfHNlYXJjaHwxfHxzcGFjZSUyMHN0YXJzJTIwbmVidWxhfGVufDF8fHx8MTc2OTIzMjkzNXww&ixlib=rb-4.1.0&q=80&w=1080&utm_source=figma&utm_medium=referral";
@@ -13,6 +22,31 @@ export default function LoginScreen() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
+  const [providers, setProviders] = useState<OAuthProviderName[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  // 서버에서 켜져 있고 이 기기에서 쓸 수 있는 소셜 로그인만 표시
+  useEffect(() => {
+    getOAuthProviders()
+      .then(filterAvailableProviders)
+      .then(setProviders)
+      .catch((e) => console.error("소셜 로그인 목록 조회 실패:", e));
+  }, []);
+
+  const handleProvider = async (provider: OAuthProviderName) => {
+    setError("");
+    try {
+      setBusy(true);
+      const response = await signInWithProvider(provider);
+      if (!response) return;
+      await saveAuthSession({ token: response.token, refreshToken: response.refreshToken, user: response.user });
+      nav.replace("Start");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Login failed. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
 
   const handleLogin = async () => {
     setError("");
@@ -23,7 +57,7 @@ export default function LoginScreen() {
     try {
       const trimmedEmail = email.trim();
       const response = await loginUser({ email: trimmedEmail, password });
-      await saveAuthSession({ token: response.token, user: response.user });
+      await saveAuthSession({ token: response.token, refreshToken: response.refreshToken, user: response.user });
       nav.replace("Start");
     } catch (e) {
       const message = e instanceof Error ? e.message : "Login failed. Please try again.";
@@ -59,12 +93,32 @@ export default function LoginScreen() {
             />
           </View>
 
+          <Pressable style={s.forgotRow} onPress={() => nav.navigate("ForgotPassword", { email: email.trim() || undefined })}>
+            <Text style={s.forgotText}>Forgot password?</Text>
+          </Pressable>
+
           {error ? <Text style={s.error}>{error}</Text> : null}
 
           <Pressable style={({ pressed }) => [s.primaryButton, pressed && s.buttonPressed]} onPress={handleLogin}>
             <Text style={s.primaryButtonText}>LOG IN</Text>
           </Pressable>
 
+          {providers.length > 0 && (
+            <View style={s.providers}>
+              <Text style={s.dividerText}>or</Text>
+              {providers.map((provider) => (
+                <Pressable
+                  key={provider}
+                  style={({ pressed }) => [s.providerButton, busy && s.disabled, pressed && s.buttonPressed]}
+                  onPress={() => handleProvider(provider)}
+                  disabled={busy}
+                >
+                  <Text style={s.providerText}>{PROVIDER_LABELS[provider]}</Text>
+                </Pressable>
+              ))}
+            </View>
+          )}
+
           <View style={s.footerRow}>
             <Text style={s.footerText}>No account?</Text>
             <Pressable onPress={() => nav.navigate("Signup")}>
@@ -93,6 +147,8 @@ const s = StyleSheet.create({
     color: theme.colors.textPrimary,
     backgroundColor: theme.colors.track,
   },
+  forgotRow: { width: "100%", maxWidth: 320, alignItems: "flex-end", marginTop: 8 },
+  forgotText: { color: theme.colors.textMuted, fontSize: 12 },
   error: { marginTop: 10, color: theme.colors.danger, textAlign: "center" },
   primaryButton: {
     marginTop: 18,
@@ -105,6 +161,18 @@ const s = StyleSheet.create({
   },
   buttonPressed: { transform: [{ scale: 0.97 }] },
   primaryButtonText: { color: theme.colors.accent, fontWeight: "900", letterSpacing: 1 },
+  providers: { width: "100%", maxWidth: 320, gap: 8, marginTop: 14, alignItems: "stretch" },
+  dividerText: { color: theme.colors.textMuted, textAlign: "center", fontSize: 12 },
+  providerButton: {
+    paddingVertical: 10,
+    borderRadius: theme.radius.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.accentBorderSoft,
+    backgroundColor: "rgba(0,0,0,0.35)",
+    alignItems: "center",
+  },
+  providerText: { color: theme.colors.textPrimary, fontWeight: "800", fontSize: 13 },
+  disabled: { opacity: 0.5 },
   footerRow: { flexDirection: "row", gap: 6, marginTop: 14 },
   footerText: { color: theme.colors.textMuted },
   link: { color: theme.colors.accent, fontWeight: "800" },
@@ -0,0 +1,409 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { ActivityIndicator, Alert, Pressable, ScrollView, Share, StyleSheet, Text, TextInput, useWindowDimensions, View } from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../navigation";
+import { theme } from "../theme";
+import type { LinkedIdentity, MeResponse, OAuthProviderName } from "../api/client";
+import {
+  changePassword,
+  deleteAccount,
+  exportAccountData,
+  getLinkedIdentities,
+  getMe,
+  getOAuthProviders,
+  logoutAllDevices,
+  unlinkIdentity,
+  updateProfile,
+} from "../api/client";
+import { filterAvailableProviders, linkProvider } from "../api/oauth";
+
+export default function ProfileScreen() {
+  const nav = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { width, height } = useWindowDimensions();
+  const frame = useMemo(() => ({ width, height }), [height, width]);
+
+  const [me, setMe] = useState<MeResponse["user"] | null>(null);
+  const [nickname, setNickname] = useState("");
+  const [email, setEmail] = useState("");
+  const [emailPassword, setEmailPassword] = useState("");
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [deletePassword, setDeletePassword] = useState("");
+  const [identities, setIdentities] = useState<LinkedIdentity[]>([]);
+  const [providers, setProviders] = useState<OAuthProviderName[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const { user } = await getMe();
+      setMe(user);
+      setNickname(user.nickname);
+      setEmail(user.email);
+      if (!user.isGuest) {
+        setIdentities(await getLinkedIdentities());
+        setProviders(await filterAvailableProviders(await getOAuthProviders()));
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "프로필을 불러올 수 없습니다.");
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = useCallback(async (action: () => Promise<void>) => {
+    try {
+      setBusy(true);
+      setError("");
+      setNotice("");
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "요청에 실패했습니다.");
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  // 소셜 로그인으로 가입해 비밀번호를 정한 적 없으면 현재 비밀번호 확인 없이 설정/탈퇴
+  const hasPassword = !!me && !me.isGuest && me.hasPassword !== false;
+
+  const emailChanged = !!me && !me.isGuest && email.trim() !== me.email;
+  const profileChanged = !!me && (nickname.trim() !== me.nickname || emailChanged);
+  const needsEmailPassword = emailChanged && hasPassword;
+
+  const handleSaveProfile = () =>
+    run(async () => {
+      if (!me) return;
+      const changes = {
+        nickname: nickname.trim() !== me.nickname ? nickname.trim() : undefined,
+        email: emailChanged ? email.trim() : undefined,
+        currentPassword: needsEmailPassword ? emailPassword : undefined,
+      };
+      const user = await updateProfile(changes);
+      setEmailPassword("");
+      setMe({ ...me, ...user });
+      setNotice(changes.email ? "저장했습니다. 새 이메일로 보낸 코드로 인증해주세요." : "저장했습니다.");
+    });
+
+  const handleChangePassword = () =>
+    run(async () => {
+      if (newPassword.length < 6) {
+        throw new Error("비밀번호는 최소 6자 이상이어야 합니다.");
+      }
+      if (newPassword !== confirm) {
+        throw new Error("새 비밀번호가 일치하지 않습니다.");
+      }
+      await changePassword({ currentPassword: hasPassword ? currentPassword : undefined, newPassword });
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirm("");
+      setNotice(hasPassword ? "비밀번호를 변경했습니다. 다른 기기에서는 로그아웃됩니다." : "비밀번호를 설정했습니다. 이제 이메일로도 로그인할 수 있습니다.");
+      if (me) setMe({ ...me, hasPassword: true });
+    });
+
+  const handleLink = (provider: OAuthProviderName) =>
+    run(async () => {
+      if (await linkProvider(provider)) {
+        setIdentities(await getLinkedIdentities());
+        setNotice("로그인 수단을 연결했습니다.");
+      }
+    });
+
+  const handleUnlink = (provider: OAuthProviderName) =>
+    run(async () => {
+      await unlinkIdentity(provider);
+      setIdentities(await getLinkedIdentities());
+    });
+
+  const handleLogoutAll = () =>
+    run(async () => {
+      await logoutAllDevices();
+      nav.reset({ index: 0, routes: [{ name: "Start" }] });
+    });
+
+  const handleExport = () =>
+    run(async () => {
+      const data = await exportAccountData();
+      await Share.share({ title: "doge-city-account.json", message: JSON.stringify(data, null, 2) });
+    });
+
+  const confirmDelete = () =>
+    run(async () => {
+      await deleteAccount(hasPassword ? deletePassword : undefined);
+      nav.reset({ index: 0, routes: [{ name: "Start" }] });
+    });
+
+  // 탈퇴 전 데이터 내보내기를 먼저 권유
+  const handleDelete = () => {
+    Alert.alert("Delete account", "항해 기록을 포함한 모든 데이터가 삭제되며 되돌릴 수 없습니다. 먼저 내 데이터를 내보낼까요?", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Export first", onPress: handleExport },
+      { text: "Delete", style: "destructive", onPress: confirmDelete },
+    ]);
+  };
+
+  return (
+    <View style={s.root}>
+      <View style={[s.frame, { width: frame.width, height: frame.height }]}>
+        <View style={s.bg} />
+        <View style={s.content}>
+          <View style={s.header}>
+            <Pressable style={({ pressed }) => [s.backButton, pressed && s.backPressed]} onPress={() => nav.goBack()}>
+              <Text style={s.backText}>{"< BACK"}</Text>
+            </Pressable>
+            <View style={s.headerCenter}>
+              <Text style={s.title}>PROFILE</Text>
+              <Text style={s.subtitle}>Pilot settings</Text>
+            </View>
+            <View style={s.headerSpacer} />
+          </View>
+
+          {error ? <Text style={s.errorText}>{error}</Text> : null}
+          {notice ? <Text style={s.noticeText}>{notice}</Text> : null}
+
+          {!me ? (
+            <View style={s.center}>
+              <ActivityIndicator color={theme.colors.accent} />
+            </View>
+          ) : (
+            <ScrollView contentContainerStyle={s.sections}>
+              <View style={s.columns}>
+                <View style={s.panel}>
+                  <Text style={s.sectionLabel}>PROFILE</Text>
+                  <TextInput
+                    style={s.input}
+                    placeholder="Nickname"
+                    placeholderTextColor="rgba(255,255,255,0.5)"
+                    maxLength={20}
+                    value={nickname}
+                    onChangeText={setNickname}
+                  />
+                  {me.isGuest ? (
+                    <Pressable onPress={() => nav.navigate("Signup")}>
+                      <Text style={s.unverified}>Guest pilot · SIGN UP to keep your flights</Text>
+                    </Pressable>
+                  ) : (
+                    <TextInput
+                      style={s.input}
+                      placeholder="Email"
+                      placeholderTextColor="rgba(255,255,255,0.5)"
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      keyboardType="email-address"
+                      value={email}
+                      onChangeText={setEmail}
+                    />
+                  )}
+                  {needsEmailPassword && (
+                    <TextInput
+                      style={s.input}
+                      placeholder="Current password"
+                      placeholderTextColor="rgba(255,255,255,0.5)"
+                      secureTextEntry
+                      value={emailPassword}
+                      onChangeText={setEmailPassword}
+                    />
+                  )}
+                  {me.isGuest ? null : me.emailVerified ? (
+                    <Text style={s.verified}>Email verified</Text>
+                  ) : (
+                    <Pressable onPress={() => nav.navigate("VerifyEmail", { email: me.email })}>
+                      <Text style={s.unverified}>Email not verified · VERIFY</Text>
+                    </Pressable>
+                  )}
+                  <Pressable
+                    style={({ pressed }) => [s.primaryButton, (busy || !profileChanged || (needsEmailPassword && !emailPassword)) && s.disabled, pressed && s.backPressed]}
+                    onPress={handleSaveProfile}
+                    disabled={busy || !profileChanged || (needsEmailPassword && !emailPassword)}
+                  >
+                    <Text style={s.primaryText}>SAVE</Text>
+                  </Pressable>
+                </View>
+
+                {!me.isGuest && (
+                  <View style={s.panel}>
+                    <Text style={s.sectionLabel}>{hasPassword ? "PASSWORD" : "SET PASSWORD"}</Text>
+                    {hasPassword && (
+                      <TextInput
+                        style={s.input}
+                        placeholder="Current password"
+                        placeholderTextColor="rgba(255,255,255,0.5)"
+                        secureTextEntry
+                        value={currentPassword}
+                        onChangeText={setCurrentPassword}
+                      />
+                    )}
+                    <TextInput
+                      style={s.input}
+                      placeholder="New password"
+                      placeholderTextColor="rgba(255,255,255,0.5)"
+                      secureTextEntry
+                      value={newPassword}
+                      onChangeText={setNewPassword}
+                    />
+                    <TextInput
+                      style={s.input}
+                      placeholder="Confirm new password"
+                      placeholderTextColor="rgba(255,255,255,0.5)"
+                      secureTextEntry
+                      value={confirm}
+                      onChangeText={setConfirm}
+                    />
+                    <Pressable
+                      style={({ pressed }) => [s.primaryButton, (busy || (hasPassword && !currentPassword) || !newPassword) && s.disabled, pressed && s.backPressed]}
+                      onPress={handleChangePassword}
+                      disabled={busy || (hasPassword && !currentPassword) || !newPassword}
+                    >
+                      <Text style={s.primaryText}>{hasPassword ? "CHANGE PASSWORD" : "SET PASSWORD"}</Text>
+                    </Pressable>
+                  </View>
+                )}
+              </View>
+
+              {!me.isGuest && (identities.length > 0 || providers.length > 0) && (
+                <View style={s.panel}>
+                  <Text style={s.sectionLabel}>LOGIN METHODS</Text>
+                  {providers
+                    .filter((provider) => !identities.some((identity) => identity.provider === provider))
+                    .concat(identities.map((identity) => identity.provider))
+                    .map((provider) => {
+                      const linked = identities.find((identity) => identity.provider === provider);
+                      return (
+                        <View key={provider} style={s.identityRow}>
+                          <Text style={s.identityName}>{provider.toUpperCase()}</Text>
+                          <Text style={s.identityMeta} numberOfLines={1}>
+                            {linked ? linked.email ?? "linked" : "not linked"}
+                          </Text>
+                          <Pressable
+                            style={({ pressed }) => [s.smallButton, busy && s.disabled, pressed && s.backPressed]}
+                            onPress={() => (linked ? handleUnlink(provider) : handleLink(provider))}
+                            disabled={busy}
+                          >
+                            <Text style={s.smallButtonText}>{linked ? "UNLINK" : "LINK"}</Text>
+                          </Pressable>
+                        </View>
+                      );
+                    })}
+                </View>
+              )}
+
+              <View style={s.columns}>
+                <View style={s.panel}>
+                  <Text style={s.sectionLabel}>SESSIONS & DATA</Text>
+                  <Pressable style={({ pressed }) => [s.secondaryButton, busy && s.disabled, pressed && s.backPressed]} onPress={handleLogoutAll} disabled={busy}>
+                    <Text style={s.secondaryText}>LOG OUT ALL DEVICES</Text>
+                  </Pressable>
+                  <Pressable style={({ pressed }) => [s.secondaryButton, busy && s.disabled, pressed && s.backPressed]} onPress={handleExport} disabled={busy}>
+                    <Text style={s.secondaryText}>EXPORT MY DATA</Text>
+                  </Pressable>
+                </View>
+
+                <View style={[s.panel, s.dangerPanel]}>
+                  <Text style={[s.sectionLabel, s.dangerLabel]}>DELETE ACCOUNT</Text>
+                  {hasPassword && (
+                    <TextInput
+                      style={s.input}
+                      placeholder="Password"
+                      placeholderTextColor="rgba(255,255,255,0.5)"
+                      secureTextEntry
+                      value={deletePassword}
+                      onChangeText={setDeletePassword}
+                    />
+                  )}
+                  <Pressable
+                    style={({ pressed }) => [s.dangerButton, (busy || (hasPassword && !deletePassword)) && s.disabled, pressed && s.backPressed]}
+                    onPress={handleDelete}
+                    disabled={busy || (hasPassword && !deletePassword)}
+                  >
+                    <Text style={s.dangerText}>DELETE ACCOUNT</Text>
+                  </Pressable>
+                </View>
+              </View>
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const s = StyleSheet.create({
+  root: { flex: 1, justifyContent: "center", alignItems: "center", backgroundColor: theme.colors.black },
+  frame: { backgroundColor: theme.colors.frame, borderRadius: theme.radius.xl, overflow: "hidden" },
+  bg: { ...StyleSheet.absoluteFillObject, backgroundColor: theme.colors.bg },
+  content: { flex: 1, padding: 18 },
+  header: { flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginBottom: 10 },
+  backButton: { paddingVertical: 4, paddingHorizontal: 6 },
+  backPressed: { transform: [{ scale: 0.97 }] },
+  backText: { color: theme.colors.accent, fontWeight: "800", fontSize: 11 },
+  headerCenter: { alignItems: "center" },
+  headerSpacer: { width: 60 },
+  title: { color: theme.colors.accentDeep, fontWeight: "900", fontSize: 16, letterSpacing: 0.6 },
+  subtitle: { color: "rgba(251,191,36,0.6)", fontSize: 10, marginTop: 2 },
+  errorText: { color: theme.colors.danger, fontSize: 12, textAlign: "center", marginBottom: 6 },
+  noticeText: { color: theme.colors.success, fontSize: 12, textAlign: "center", marginBottom: 6 },
+  center: { flex: 1, alignItems: "center", justifyContent: "center" },
+  sections: { gap: 12, paddingBottom: 12 },
+  sectionLabel: { color: theme.colors.textAccent, fontSize: 10, fontWeight: "800", letterSpacing: 0.8 },
+  columns: { flexDirection: "row", gap: 12, flexWrap: "wrap" },
+  panel: {
+    flex: 1,
+    minWidth: 240,
+    padding: 12,
+    gap: 8,
+    borderRadius: theme.radius.lg,
+    backgroundColor: theme.colors.panel,
+    borderWidth: 1,
+    borderColor: theme.colors.panelBorder,
+  },
+  dangerPanel: { borderColor: "rgba(239,68,68,0.4)" },
+  dangerLabel: { color: theme.colors.danger },
+  input: {
+    height: 40,
+    borderRadius: theme.radius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.accentBorderSoft,
+    paddingHorizontal: 12,
+    color: theme.colors.textPrimary,
+    backgroundColor: theme.colors.track,
+  },
+  verified: { color: theme.colors.success, fontSize: 10, fontWeight: "800", letterSpacing: 0.6 },
+  unverified: { color: theme.colors.warning, fontSize: 10, fontWeight: "800", letterSpacing: 0.6 },
+  primaryButton: {
+    paddingVertical: 10,
+    borderRadius: theme.radius.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.accentBorderStrong,
+    backgroundColor: "rgba(251,191,36,0.2)",
+    alignItems: "center",
+  },
+  primaryText: { color: theme.colors.textPrimary, fontWeight: "900", fontSize: 11, letterSpacing: 0.9 },
+  secondaryButton: {
+    paddingVertical: 10,
+    borderRadius: theme.radius.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.panelBorder,
+    alignItems: "center",
+  },
+  secondaryText: { color: theme.colors.textMuted, fontWeight: "800", fontSize: 11, letterSpacing: 0.8 },
+  dangerButton: {
+    paddingVertical: 10,
+    borderRadius: theme.radius.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.danger,
+    backgroundColor: "rgba(239,68,68,0.15)",
+    alignItems: "center",
+  },
+  dangerText: { color: theme.colors.danger, fontWeight: "900", fontSize: 11, letterSpacing: 0.9 },
+  identityRow: { flexDirection: "row", alignItems: "center", gap: 12 },
+  identityName: { width: 64, color: theme.colors.accent, fontWeight: "900", fontSize: 11, letterSpacing: 0.8 },
+  identityMeta: { flex: 1, color: theme.colors.textSubtle, fontSize: 11 },
+  smallButton: { paddingVertical: 4, paddingHorizontal: 10, borderRadius: theme.radius.pill, borderWidth: 1, borderColor: theme.colors.panelBorder },
+  smallButtonText: { color: theme.colors.textMuted, fontSize: 9, fontWeight: "800", letterSpacing: 0.6 },
+  disabled: { opacity: 0.4 },
+});
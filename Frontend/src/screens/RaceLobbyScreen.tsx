@@ -0,0 +1,381 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Text, TextInput, useWindowDimensions, View } from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../navigation";
+import { theme } from "../theme";
+import type { Race } from "../api/client";
+import {
+  createRace,
+  getAuthUser,
+  getRockets,
+  getSymbolCatalogue,
+  joinRace,
+  leaveRace,
+  openRaceSocket,
+  startRace,
+} from "../api/client";
+
+// 레이스 출발 최소 인원 (서버 config.race.minPlayers와 동일)
+const MIN_PLAYERS = 2;
+
+export default function RaceLobbyScreen() {
+  const nav = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { width, height } = useWindowDimensions();
+  const frame = useMemo(() => ({ width, height }), [height, width]);
+
+  const [meId, setMeId] = useState<number | null>(null);
+  const [rockets, setRockets] = useState<{ id: number; name: string }[]>([]);
+  const [routes, setRoutes] = useState<string[]>([]);
+  const [rocketId, setRocketId] = useState<number | null>(null);
+  const [symbol, setSymbol] = useState<string | null>(null);
+  const [codeInput, setCodeInput] = useState("");
+  const [race, setRace] = useState<Race | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const launchedRef = useRef(false);
+
+  // 로켓/항로 선택지 + 내 ID
+  useEffect(() => {
+    getAuthUser().then((user) => setMeId(user?.id ?? null));
+    getRockets()
+      .then(({ rockets: list }) => {
+        setRockets(list.map((rocket) => ({ id: rocket.id, name: rocket.name })));
+        if (list[0]) setRocketId(list[0].id);
+      })
+      .catch((e) => console.error("로켓 목록 로드 실패:", e));
+    getSymbolCatalogue()
+      .then(({ symbols }) => {
+        setRoutes(symbols.map((entry) => entry.symbol));
+        if (symbols[0]) setSymbol(symbols[0].symbol);
+      })
+      .catch((e) => console.error("항로 목록 로드 실패:", e));
+  }, []);
+
+  // 출발하면 각자 고른 로켓 + 공유 항로로 조종석 입장
+  const launch = useCallback(
+    (started: Race) => {
+      if (launchedRef.current) return;
+      const me = started.participants.find((participant) => participant.userId === meId);
+      if (!me) return;
+      launchedRef.current = true;
+      nav.replace("Cockpit", {
+        rocketId: me.rocket.id,
+        symbol: started.symbol,
+        round: 1,
+        startInRound: true,
+        raceCode: started.code,
+      });
+    },
+    [meId, nav]
+  );
+
+  // 로비 실시간 갱신 (참가/로켓 변경/출발/해산)
+  const raceCode = race?.code;
+  useEffect(() => {
+    if (!raceCode) return undefined;
+    let close: (() => void) | null = null;
+    let cancelled = false;
+
+    openRaceSocket(raceCode, (message) => {
+      if (message.type === "closed") {
+        setRace(null);
+        setError("레이스가 해산되었습니다.");
+        return;
+      }
+      if (message.type === "standings") return;
+      setRace(message.data);
+      if (message.data.status === "IN_PROGRESS") launch(message.data);
+    }).then((closeSocket) => {
+      if (cancelled) closeSocket();
+      else close = closeSocket;
+    });
+
+    return () => {
+      cancelled = true;
+      close?.();
+    };
+  }, [launch, raceCode]);
+
+  const run = useCallback(async (action: () => Promise<void>) => {
+    try {
+      setBusy(true);
+      setError("");
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "요청에 실패했습니다.");
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const handleCreate = () =>
+    run(async () => {
+      if (!rocketId || !symbol) return;
+      const { race: created } = await createRace({ rocketId, symbol });
+      setRace(created);
+    });
+
+  const handleJoin = () =>
+    run(async () => {
+      if (!rocketId || !codeInput.trim()) return;
+      const { race: joined } = await joinRace(codeInput.trim().toUpperCase(), rocketId);
+      setRace(joined);
+    });
+
+  // 로비에서 로켓 변경 (같은 참가 API로 갱신)
+  const handleRocketChange = (nextRocketId: number) => {
+    setRocketId(nextRocketId);
+    if (race) {
+      run(async () => {
+        const { race: updated } = await joinRace(race.code, nextRocketId);
+        setRace(updated);
+      });
+    }
+  };
+
+  const handleLeave = () =>
+    run(async () => {
+      if (!race) return;
+      await leaveRace(race.code);
+      setRace(null);
+    });
+
+  const handleStart = () =>
+    run(async () => {
+      if (!race) return;
+      const { race: started } = await startRace(race.code);
+      launch(started);
+    });
+
+  const isHost = !!race && race.hostId === meId;
+  const canStart = isHost && (race?.participants.length ?? 0) >= MIN_PLAYERS;
+
+  const rocketChips = (
+    <View style={s.tabRow}>
+      {rockets.map((rocket) => {
+        const active = rocketId === rocket.id;
+        return (
+          <Pressable
+            key={rocket.id}
+            style={({ pressed }) => [s.chip, active && s.tabActive, pressed && s.backPressed]}
+            onPress={() => handleRocketChange(rocket.id)}
+            disabled={busy}
+          >
+            <Text style={[s.tabText, active && s.tabTextActive]}>{rocket.name}</Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <View style={s.root}>
+      <View style={[s.frame, { width: frame.width, height: frame.height }]}>
+        <View style={s.bg} />
+        <View style={s.content}>
+          <View style={s.header}>
+            <Pressable
+              style={({ pressed }) => [s.backButton, pressed && s.backPressed]}
+              onPress={() => (race ? handleLeave() : nav.goBack())}
+            >
+              <Text style={s.backText}>{race ? "< LEAVE" : "< BACK"}</Text>
+            </Pressable>
+            <View style={s.headerCenter}>
+              <Text style={s.title}>RACE LOBBY</Text>
+              <Text style={s.subtitle}>Same seed · same route · same rounds</Text>
+            </View>
+            <View style={s.headerSpacer} />
+          </View>
+
+          {error ? <Text style={s.errorText}>{error}</Text> : null}
+
+          {!race ? (
+            <ScrollView contentContainerStyle={s.sections}>
+              <Text style={s.sectionLabel}>YOUR ROCKET</Text>
+              {rocketChips}
+
+              <View style={s.columns}>
+                <View style={s.panel}>
+                  <Text style={s.sectionLabel}>HOST A RACE</Text>
+                  <View style={s.tabRow}>
+                    {routes.map((route) => {
+                      const active = symbol === route;
+                      return (
+                        <Pressable
+                          key={route}
+                          style={({ pressed }) => [s.chip, active && s.tabActive, pressed && s.backPressed]}
+                          onPress={() => setSymbol(route)}
+                        >
+                          <Text style={[s.tabText, active && s.tabTextActive]}>{route}</Text>
+                        </Pressable>
+                      );
+                    })}
+                  </View>
+                  <Pressable
+                    style={({ pressed }) => [s.primaryButton, (busy || !symbol || !rocketId) && s.disabled, pressed && s.backPressed]}
+                    onPress={handleCreate}
+                    disabled={busy || !symbol || !rocketId}
+                  >
+                    <Text style={s.primaryText}>CREATE LOBBY</Text>
+                  </Pressable>
+                </View>
+
+                <View style={s.panel}>
+                  <Text style={s.sectionLabel}>JOIN WITH CODE</Text>
+                  <TextInput
+                    style={s.input}
+                    placeholder="ABC234"
+                    placeholderTextColor="rgba(255,255,255,0.5)"
+                    autoCapitalize="characters"
+                    autoCorrect={false}
+                    maxLength={6}
+                    value={codeInput}
+                    onChangeText={setCodeInput}
+                  />
+                  <Pressable
+                    style={({ pressed }) => [s.primaryButton, (busy || !codeInput.trim() || !rocketId) && s.disabled, pressed && s.backPressed]}
+                    onPress={handleJoin}
+                    disabled={busy || !codeInput.trim() || !rocketId}
+                  >
+                    <Text style={s.primaryText}>JOIN RACE</Text>
+                  </Pressable>
+                </View>
+              </View>
+            </ScrollView>
+          ) : (
+            <View style={s.lobby}>
+              <View style={s.codeCard}>
+                <Text style={s.sectionLabel}>JOIN CODE</Text>
+                <Text style={s.code}>{race.code}</Text>
+                <Text style={s.meta}>
+                  {race.symbol} · {race.scenario.title} · {race.participants.length}/{race.maxPlayers}
+                </Text>
+              </View>
+
+              <Text style={s.sectionLabel}>YOUR ROCKET</Text>
+              {rocketChips}
+
+              <ScrollView style={s.list} contentContainerStyle={s.listContent}>
+                {race.participants.map((participant) => (
+                  <View key={participant.userId} style={[s.row, participant.userId === meId && s.rowMe]}>
+                    <Text style={s.nickname} numberOfLines={1}>
+                      {participant.nickname}
+                    </Text>
+                    <Text style={s.meta}>{participant.rocket.name}</Text>
+                    {participant.isHost && <Text style={s.hostTag}>HOST</Text>}
+                  </View>
+                ))}
+              </ScrollView>
+
+              {isHost ? (
+                <Pressable
+                  style={({ pressed }) => [s.primaryButton, (!canStart || busy) && s.disabled, pressed && s.backPressed]}
+                  onPress={handleStart}
+                  disabled={!canStart || busy}
+                >
+                  <Text style={s.primaryText}>{canStart ? "LAUNCH RACE" : `WAITING FOR ${MIN_PLAYERS}+ PILOTS`}</Text>
+                </Pressable>
+              ) : (
+                <View style={s.waiting}>
+                  <ActivityIndicator color={theme.colors.accent} />
+                  <Text style={s.meta}>호스트의 출발 신호를 기다리는 중...</Text>
+                </View>
+              )}
+            </View>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const s = StyleSheet.create({
+  root: { flex: 1, justifyContent: "center", alignItems: "center", backgroundColor: theme.colors.black },
+  frame: { backgroundColor: theme.colors.frame, borderRadius: theme.radius.xl, overflow: "hidden" },
+  bg: { ...StyleSheet.absoluteFillObject, backgroundColor: theme.colors.bg },
+  content: { flex: 1, padding: 18 },
+  header: { flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginBottom: 10 },
+  backButton: { paddingVertical: 4, paddingHorizontal: 6 },
+  backPressed: { transform: [{ scale: 0.97 }] },
+  backText: { color: theme.colors.accent, fontWeight: "800", fontSize: 11 },
+  headerCenter: { alignItems: "center" },
+  headerSpacer: { width: 60 },
+  title: { color: theme.colors.accentDeep, fontWeight: "900", fontSize: 16, letterSpacing: 0.6 },
+  subtitle: { color: "rgba(251,191,36,0.6)", fontSize: 10, marginTop: 2 },
+  errorText: { color: theme.colors.danger, fontSize: 12, textAlign: "center", marginBottom: 6 },
+  sections: { gap: 8, paddingBottom: 12 },
+  sectionLabel: { color: theme.colors.textAccent, fontSize: 10, fontWeight: "800", letterSpacing: 0.8, marginBottom: 4 },
+  columns: { flexDirection: "row", gap: 12, flexWrap: "wrap" },
+  panel: {
+    flex: 1,
+    minWidth: 240,
+    padding: 12,
+    gap: 8,
+    borderRadius: theme.radius.lg,
+    backgroundColor: theme.colors.panel,
+    borderWidth: 1,
+    borderColor: theme.colors.panelBorder,
+  },
+  tabRow: { flexDirection: "row", gap: 8, marginBottom: 6, flexWrap: "wrap" },
+  tabActive: { backgroundColor: theme.colors.accentTint, borderColor: theme.colors.accentBorderStrong },
+  tabText: { color: theme.colors.textAccent, fontSize: 10, fontWeight: "800", letterSpacing: 0.6 },
+  tabTextActive: { color: theme.colors.accent },
+  chip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: theme.radius.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.panelBorder,
+    backgroundColor: theme.colors.card,
+  },
+  input: {
+    height: 40,
+    borderRadius: theme.radius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.accentBorderSoft,
+    paddingHorizontal: 12,
+    color: theme.colors.textPrimary,
+    backgroundColor: theme.colors.track,
+    letterSpacing: 4,
+    fontWeight: "800",
+  },
+  primaryButton: {
+    paddingVertical: 10,
+    borderRadius: theme.radius.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.accentBorderStrong,
+    backgroundColor: "rgba(251,191,36,0.2)",
+    alignItems: "center",
+  },
+  primaryText: { color: theme.colors.textPrimary, fontWeight: "900", fontSize: 11, letterSpacing: 0.9 },
+  disabled: { opacity: 0.4 },
+  lobby: { flex: 1, gap: 8 },
+  codeCard: {
+    alignItems: "center",
+    padding: 10,
+    borderRadius: theme.radius.lg,
+    backgroundColor: theme.colors.panel,
+    borderWidth: 1,
+    borderColor: theme.colors.accentBorderStrong,
+  },
+  code: { color: theme.colors.accent, fontSize: 28, fontWeight: "900", letterSpacing: 6 },
+  meta: { color: theme.colors.textSubtle, fontSize: 10 },
+  list: { flex: 1 },
+  listContent: { gap: 6, paddingBottom: 8 },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: theme.colors.panel,
+    borderRadius: theme.radius.md,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.panelBorder,
+  },
+  rowMe: { borderColor: theme.colors.accentBorderStrong, backgroundColor: theme.colors.accentTint },
+  nickname: { flex: 1, color: theme.colors.textPrimary, fontWeight: "800", fontSize: 13 },
+  hostTag: { color: theme.colors.info, fontSize: 9, fontWeight: "800", letterSpacing: 0.6 },
+  waiting: { flexDirection: "row", alignItems: "center", justifyContent: "center", gap: 8, paddingVertical: 10 },
+});
@@ -0,0 +1,138 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Text, useWindowDimensions, View } from "react-native";
+import { useNavigation, useRoute } from "@react-navigation/native";
+import type { RouteProp } from "@react-navigation/native";
+import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../navigation";
+import { theme } from "../theme";
+import type { Race } from "../api/client";
+import { getAuthUser, getRace, openRaceSocket } from "../api/client";
+import RaceStandingsPanel from "../components/RaceStandingsPanel";
+
+/**
+ * 레이스 결과 화면 (아직 항해 중인 참가자가 있으면 실시간으로 갱신)
+ */
+export default function RaceResultsScreen() {
+  const nav = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const route = useRoute<RouteProp<RootStackParamList, "RaceResults">>();
+  const { code } = route.params;
+  const { width, height } = useWindowDimensions();
+  const frame = useMemo(() => ({ width, height }), [height, width]);
+
+  const [race, setRace] = useState<Race | null>(null);
+  const [meId, setMeId] = useState<number | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    getAuthUser().then((user) => setMeId(user?.id ?? null));
+    getRace(code)
+      .then(({ race: loaded }) => setRace(loaded))
+      .catch((e) => setError(e instanceof Error ? e.message : "레이스 결과를 불러올 수 없습니다."));
+
+    let close: (() => void) | null = null;
+    let cancelled = false;
+    openRaceSocket(code, (message) => {
+      if (message.type === "standings") {
+        setRace((prev) => (prev ? { ...prev, standings: message.data.standings } : prev));
+      } else if (message.type !== "closed") {
+        setRace(message.data);
+      }
+    }).then((closeSocket) => {
+      if (cancelled) closeSocket();
+      else close = closeSocket;
+    });
+
+    return () => {
+      cancelled = true;
+      close?.();
+    };
+  }, [code]);
+
+  const flying = race?.standings.filter((row) => !row.finished).length ?? 0;
+  const winner = race?.status === "FINISHED" ? race.standings[0] : null;
+
+  return (
+    <View style={s.root}>
+      <View style={[s.frame, { width: frame.width, height: frame.height }]}>
+        <View style={s.bg} />
+        <View style={s.content}>
+          <View style={s.header}>
+            <Pressable
+              style={({ pressed }) => [s.backButton, pressed && s.backPressed]}
+              onPress={() => nav.reset({ index: 0, routes: [{ name: "Start" }] })}
+            >
+              <Text style={s.backText}>{"< HOME"}</Text>
+            </Pressable>
+            <View style={s.headerCenter}>
+              <Text style={s.title}>RACE RESULTS</Text>
+              <Text style={s.subtitle}>
+                {race ? `${race.code} · ${race.symbol} · ${race.scenario.title}` : code}
+              </Text>
+            </View>
+            <View style={s.headerSpacer} />
+          </View>
+
+          {error ? (
+            <View style={s.center}>
+              <Text style={s.errorText}>{error}</Text>
+            </View>
+          ) : !race ? (
+            <View style={s.center}>
+              <ActivityIndicator color={theme.colors.accent} />
+            </View>
+          ) : (
+            <ScrollView contentContainerStyle={s.body}>
+              {winner ? (
+                <Text style={s.banner}>🏆 {winner.nickname} 님이 레이스에서 우승했습니다!</Text>
+              ) : (
+                <Text style={s.pending}>{flying}명의 파일럿이 아직 항해 중입니다...</Text>
+              )}
+              <RaceStandingsPanel
+                standings={race.standings}
+                meId={meId}
+                totalRounds={race.scenario.totalRounds}
+                title="FINAL STANDINGS · 정답 / 부분 점수"
+              />
+              <Pressable
+                style={({ pressed }) => [s.secondaryButton, pressed && s.backPressed]}
+                onPress={() => nav.replace("Leaderboard")}
+              >
+                <Text style={s.secondaryText}>LEADERBOARD</Text>
+              </Pressable>
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const s = StyleSheet.create({
+  root: { flex: 1, justifyContent: "center", alignItems: "center", backgroundColor: theme.colors.black },
+  frame: { backgroundColor: theme.colors.frame, borderRadius: theme.radius.xl, overflow: "hidden" },
+  bg: { ...StyleSheet.absoluteFillObject, backgroundColor: theme.colors.bg },
+  content: { flex: 1, padding: 18 },
+  header: { flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginBottom: 12 },
+  backButton: { paddingVertical: 4, paddingHorizontal: 6 },
+  backPressed: { transform: [{ scale: 0.97 }] },
+  backText: { color: theme.colors.accent, fontWeight: "800", fontSize: 11 },
+  headerCenter: { alignItems: "center" },
+  headerSpacer: { width: 60 },
+  title: { color: theme.colors.accentDeep, fontWeight: "900", fontSize: 16, letterSpacing: 0.6 },
+  subtitle: { color: "rgba(251,191,36,0.6)", fontSize: 10, marginTop: 2 },
+  center: { flex: 1, alignItems: "center", justifyContent: "center" },
+  errorText: { color: theme.colors.danger, fontSize: 12 },
+  body: { gap: 10, paddingBottom: 12 },
+  banner: { color: theme.colors.accent, fontSize: 14, fontWeight: "900", textAlign: "center" },
+  pending: { color: theme.colors.textMuted, fontSize: 12, textAlign: "center" },
+  secondaryButton: {
+    alignSelf: "center",
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+    borderRadius: theme.radius.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.accentBorderSoft,
+    backgroundColor: theme.colors.track,
+  },
+  secondaryText: { color: theme.colors.textAccent, fontSize: 11, fontWeight: "800", letterSpacing: 0.6 },
+});
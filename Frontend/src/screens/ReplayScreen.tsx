@@ -0,0 +1,332 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  GestureResponderEvent,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  useWindowDimensions,
+  View,
+} from "react-native";
+import { useNavigation, useRoute } from "@react-navigation/native";
+import type { RouteProp } from "@react-navigation/native";
+import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../navigation";
+import { theme } from "../theme";
+import TrajectoryGSIChart from "../components/TrajectoryGSIChart";
+import type { ReplayResponse } from "../api/client";
+import { getReplay } from "../api/client";
+
+// 재생 시 커서가 한 칸 이동하는 간격 (ms)
+const PLAYBACK_STEP_MS = 60;
+
+function formatDelta(value: number) {
+  const rounded = Math.round(value * 10) / 10;
+  return `${rounded > 0 ? "+" : ""}${rounded}`;
+}
+
+export default function ReplayScreen() {
+  const nav = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const route = useRoute<RouteProp<RootStackParamList, "Replay">>();
+  const { sessionId } = route.params;
+  const { width, height } = useWindowDimensions();
+  const frame = useMemo(() => ({ width, height }), [height, width]);
+
+  const [replay, setReplay] = useState<ReplayResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [roundIndex, setRoundIndex] = useState(0);
+  const [cursorIndex, setCursorIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const chartWidthRef = useRef(0);
+
+  useEffect(() => {
+    getReplay(sessionId)
+      .then((data) => setReplay(data))
+      .catch((e) => setError(e instanceof Error ? e.message : "리플레이를 불러올 수 없습니다."))
+      .finally(() => setLoading(false));
+  }, [sessionId]);
+
+  const current = replay?.rounds[roundIndex] ?? null;
+  const values = current?.chart?.values ?? [];
+  const lastIndex = Math.max(values.length - 1, 0);
+  const chartWidth = Math.max(frame.width - 36, 0);
+  const chartHeight = Math.min(180, Math.round(frame.height * 0.28));
+
+  // 라운드가 바뀌면 커서를 처음으로
+  useEffect(() => {
+    setCursorIndex(0);
+    setPlaying(false);
+  }, [roundIndex]);
+
+  // 재생: 커서를 끝까지 진행시킨 뒤 정지
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setInterval(() => {
+      setCursorIndex((prev) => {
+        if (prev >= lastIndex) {
+          setPlaying(false);
+          return prev;
+        }
+        return prev + 1;
+      });
+    }, PLAYBACK_STEP_MS);
+    return () => clearInterval(timer);
+  }, [lastIndex, playing]);
+
+  // 차트를 터치/드래그하면 해당 위치로 스크럽
+  const handleScrub = useCallback(
+    (e: GestureResponderEvent) => {
+      const w = chartWidthRef.current || chartWidth;
+      if (w <= 0 || lastIndex === 0) return;
+      const ratio = Math.max(0, Math.min(1, e.nativeEvent.locationX / w));
+      setPlaying(false);
+      setCursorIndex(Math.round(ratio * lastIndex));
+    },
+    [chartWidth, lastIndex]
+  );
+
+  const cursorDate = current?.chart?.timestamps[cursorIndex]
+    ? new Date(current.chart.timestamps[cursorIndex]).toISOString().slice(0, 10)
+    : "-";
+  const cursorValue = values[cursorIndex];
+  const atEnd = cursorIndex >= lastIndex;
+
+  return (
+    <View style={s.root}>
+      <View style={[s.frame, { width: frame.width, height: frame.height }]}>
+        <View style={s.bg} />
+        <View style={s.content}>
+          <View style={s.header}>
+            <Pressable style={({ pressed }) => [s.backButton, pressed && s.backPressed]} onPress={() => nav.goBack()}>
+              <Text style={s.backText}>{"< BACK"}</Text>
+            </Pressable>
+            <View style={s.headerCenter}>
+              <Text style={s.title}>FLIGHT REPLAY</Text>
+              {replay && (
+                <Text style={s.subtitle}>
+                  {replay.session.rocket.name} · {replay.session.symbol} · {replay.session.scenario.title}
+                </Text>
+              )}
+            </View>
+            <View style={s.headerSpacer} />
+          </View>
+
+          {loading ? (
+            <View style={s.center}>
+              <ActivityIndicator color={theme.colors.accent} />
+            </View>
+          ) : error || !replay ? (
+            <View style={s.center}>
+              <Text style={s.errorText}>{error || "리플레이를 불러올 수 없습니다."}</Text>
+            </View>
+          ) : replay.rounds.length === 0 ? (
+            <View style={s.center}>
+              <Text style={s.emptyText}>기록된 라운드가 없습니다.</Text>
+            </View>
+          ) : (
+            <>
+              <View style={s.tabRow}>
+                {replay.rounds.map((round, index) => (
+                  <Pressable
+                    key={round.round}
+                    style={({ pressed }) => [s.tab, roundIndex === index && s.tabActive, pressed && s.backPressed]}
+                    onPress={() => setRoundIndex(index)}
+                  >
+                    <Text style={[s.tabText, roundIndex === index && s.tabTextActive]}>
+                      R{round.round} {round.choice.isCorrectChoice ? "✓" : "✗"}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+
+              {current && (
+                <ScrollView style={s.list} contentContainerStyle={s.listContent}>
+                  {current.period && (
+                    <Text style={s.periodText}>
+                      {current.period.title ?? `ROUND ${current.round}`} · {current.period.startDate} ~ {current.period.endDate}
+                    </Text>
+                  )}
+
+                  <View
+                    style={s.chartBox}
+                    onLayout={(e) => {
+                      chartWidthRef.current = e.nativeEvent.layout.width;
+                    }}
+                    onStartShouldSetResponder={() => true}
+                    onMoveShouldSetResponder={() => true}
+                    onResponderGrant={handleScrub}
+                    onResponderMove={handleScrub}
+                  >
+                    {values.length > 1 ? (
+                      <TrajectoryGSIChart data={values} width={chartWidth} height={chartHeight} cursorIndex={cursorIndex} />
+                    ) : (
+                      <Text style={s.emptyText}>차트 데이터가 없습니다.</Text>
+                    )}
+                  </View>
+
+                  <View style={s.scrubRow}>
+                    <Pressable
+                      style={({ pressed }) => [s.chip, pressed && s.backPressed, cursorIndex <= 0 && s.disabled]}
+                      disabled={cursorIndex <= 0}
+                      onPress={() => setCursorIndex((prev) => Math.max(0, prev - 1))}
+                    >
+                      <Text style={s.tabText}>{"<"}</Text>
+                    </Pressable>
+                    <Pressable
+                      style={({ pressed }) => [s.chip, pressed && s.backPressed]}
+                      onPress={() => {
+                        if (atEnd) setCursorIndex(0);
+                        setPlaying((prev) => !prev);
+                      }}
+                    >
+                      <Text style={s.tabText}>{playing ? "PAUSE" : atEnd ? "REPLAY" : "PLAY"}</Text>
+                    </Pressable>
+                    <Pressable
+                      style={({ pressed }) => [s.chip, pressed && s.backPressed, atEnd && s.disabled]}
+                      disabled={atEnd}
+                      onPress={() => setCursorIndex((prev) => Math.min(lastIndex, prev + 1))}
+                    >
+                      <Text style={s.tabText}>{">"}</Text>
+                    </Pressable>
+                    <Text style={s.cursorText}>
+                      {cursorDate} · {cursorValue !== undefined ? cursorValue.toFixed(2) : "-"}
+                    </Text>
+                  </View>
+
+                  <View style={s.panel}>
+                    <Text style={s.panelTitle}>📡 NEWS</Text>
+                    {current.news.map((event) => (
+                      <View key={event.id} style={s.newsItem}>
+                        <Text style={s.newsText}>{event.news.content}</Text>
+                        <Text style={s.newsSub}>{event.navigator.content}</Text>
+                      </View>
+                    ))}
+                  </View>
+
+                  <View style={s.panel}>
+                    <Text style={s.panelTitle}>🎯 CHOICE</Text>
+                    <Text style={s.bodyText}>
+                      연료 출력 {Math.round(current.choice.fuelInput)}% ({current.choice.userChoseFuel ? "연료 공급" : "연료 절약"})
+                    </Text>
+                    <Text
+                      style={[s.bodyText, { color: current.choice.isCorrectChoice ? theme.colors.success : theme.colors.danger }]}
+                    >
+                      {current.choice.isCorrectChoice ? "정답" : "오답"} · 실제 결과 {current.reveal.isPositiveEvent ? "긍정" : "부정"}
+                    </Text>
+                    {current.choice.partialCredit !== null && current.choice.idealFuelInput !== null && (
+                      <Text style={s.bodyText}>
+                        이상 출력 {Math.round(current.choice.idealFuelInput)}% · 부분 점수 {Math.round(current.choice.partialCredit * 100)}점
+                      </Text>
+                    )}
+                  </View>
+
+                  <View style={s.panel}>
+                    <Text style={s.panelTitle}>⚡ REVEAL</Text>
+                    {current.reveal.events.map((event) => (
+                      <Text key={event.eventId} style={s.bodyText}>
+                        {event.isTwist ? `[반전 · ${event.twistType}] ` : ""}
+                        {event.description}
+                      </Text>
+                    ))}
+                    {current.reveal.thrustMultiplier !== null && (
+                      <Text style={s.newsSub}>추력 배율 x{current.reveal.thrustMultiplier.toFixed(2)}</Text>
+                    )}
+                  </View>
+
+                  <View style={s.panel}>
+                    <Text style={s.panelTitle}>🛰 RESOURCES</Text>
+                    <Text style={s.bodyText}>
+                      연료 {Math.round(current.resources.before.fuel)} → {Math.round(current.resources.after.fuel)} (
+                      {formatDelta(current.resources.delta.fuel)})
+                    </Text>
+                    <Text style={s.bodyText}>
+                      선체 {Math.round(current.resources.before.hull)} → {Math.round(current.resources.after.hull)} (
+                      {formatDelta(current.resources.delta.hull)})
+                    </Text>
+                    <Text style={s.bodyText}>
+                      거리 {Math.round(current.resources.before.distance)} → {Math.round(current.resources.after.distance)} (
+                      {formatDelta(current.resources.delta.distance)})
+                    </Text>
+                  </View>
+                </ScrollView>
+              )}
+
+              <Text style={s.footerText}>
+                정답 {replay.session.correctAnswers}/{replay.session.scenario.totalRounds} · 점수 {replay.session.score ?? "-"} ·{" "}
+                {replay.session.tier ?? "-"}
+              </Text>
+            </>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const s = StyleSheet.create({
+  root: { flex: 1, justifyContent: "center", alignItems: "center", backgroundColor: theme.colors.black },
+  frame: { backgroundColor: theme.colors.frame, borderRadius: theme.radius.xl, overflow: "hidden" },
+  bg: { ...StyleSheet.absoluteFillObject, backgroundColor: theme.colors.bg },
+  content: { flex: 1, padding: 18 },
+  header: { flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginBottom: 12 },
+  backButton: { paddingVertical: 4, paddingHorizontal: 6 },
+  backPressed: { transform: [{ scale: 0.97 }] },
+  backText: { color: theme.colors.accent, fontWeight: "800", fontSize: 11 },
+  headerCenter: { alignItems: "center" },
+  headerSpacer: { width: 60 },
+  title: { color: theme.colors.accentDeep, fontWeight: "900", fontSize: 16, letterSpacing: 0.6 },
+  subtitle: { color: "rgba(251,191,36,0.6)", fontSize: 10, marginTop: 2 },
+  tabRow: { flexDirection: "row", gap: 8, marginBottom: 10, flexWrap: "wrap" },
+  tab: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: theme.radius.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.accentBorderSoft,
+    backgroundColor: theme.colors.track,
+  },
+  tabActive: { backgroundColor: theme.colors.accentTint, borderColor: theme.colors.accentBorderStrong },
+  tabText: { color: theme.colors.textAccent, fontSize: 10, fontWeight: "800", letterSpacing: 0.6 },
+  tabTextActive: { color: theme.colors.accent },
+  chip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: theme.radius.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.panelBorder,
+    backgroundColor: theme.colors.card,
+  },
+  disabled: { opacity: 0.4 },
+  center: { flex: 1, alignItems: "center", justifyContent: "center" },
+  errorText: { color: theme.colors.danger, fontSize: 12 },
+  emptyText: { color: theme.colors.textMuted, fontSize: 12, textAlign: "center", marginTop: 24 },
+  list: { flex: 1 },
+  listContent: { gap: 10, paddingBottom: 12 },
+  periodText: { color: theme.colors.textAccentStrong, fontSize: 11, fontWeight: "700" },
+  chartBox: {
+    backgroundColor: theme.colors.card,
+    borderRadius: theme.radius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.panelBorder,
+    overflow: "hidden",
+  },
+  scrubRow: { flexDirection: "row", alignItems: "center", gap: 8 },
+  cursorText: { color: theme.colors.textMuted, fontSize: 11, marginLeft: 4 },
+  panel: {
+    backgroundColor: theme.colors.panel,
+    borderRadius: theme.radius.md,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.panelBorder,
+    gap: 4,
+  },
+  panelTitle: { color: theme.colors.accent, fontWeight: "900", fontSize: 11, letterSpacing: 0.6, marginBottom: 2 },
+  newsItem: { marginBottom: 4 },
+  newsText: { color: theme.colors.textPrimary, fontSize: 12, fontWeight: "700" },
+  newsSub: { color: theme.colors.textSubtle, fontSize: 10, marginTop: 2 },
+  bodyText: { color: theme.colors.textPrimary, fontSize: 12 },
+  footerText: { color: theme.colors.textMuted, fontSize: 11, textAlign: "center", marginTop: 8 },
+});
@@ -201,7 +201,7 @@ export default function RocketSelectScreen() {
 
   const handleConfirm = () => {
     if (selectedRocket) {
-      nav.replace("Cockpit", { rocketId: selectedRocket, round: 1, startInRound: true });
+      nav.replace("RouteSelect", { rocketId: selectedRocket });
     }
   };
 
@@ -0,0 +1,288 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Text, TextInput, useWindowDimensions, View } from "react-native";
+import { useNavigation, useRoute } from "@react-navigation/native";
+import type { RouteProp } from "@react-navigation/native";
+import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../navigation";
+import { theme } from "../theme";
+import type { PeriodAvailability, SymbolCatalogueEntry, SymbolCatalogueResponse, VolatilityClass } from "../api/client";
+import { getSymbolCatalogue } from "../api/client";
+
+// 검색어 입력이 멈춘 뒤 조회까지 대기 시간
+const SEARCH_DEBOUNCE_MS = 250;
+
+const VOLATILITY_LABELS: Record<VolatilityClass, string> = {
+  low: "CALM ORBIT",
+  medium: "MODERATE FLUX",
+  high: "ASTEROID FIELD",
+};
+
+const VOLATILITY_COLORS: Record<VolatilityClass, string> = {
+  low: theme.colors.success,
+  medium: theme.colors.accent,
+  high: theme.colors.danger,
+};
+
+// 라운드 구간 데이터 출처 표시 (캐시/픽스처는 바로 비행 가능)
+const AVAILABILITY_COLORS: Record<PeriodAvailability, string> = {
+  cached: theme.colors.success,
+  fixture: theme.colors.success,
+  remote: theme.colors.info,
+  mock: theme.colors.textMuted,
+};
+
+export default function RouteSelectScreen() {
+  const nav = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const route = useRoute<RouteProp<RootStackParamList, "RouteSelect">>();
+  const rocketId = route.params.rocketId;
+  const { width, height } = useWindowDimensions();
+  const frame = useMemo(() => ({ width, height }), [height, width]);
+
+  const [query, setQuery] = useState("");
+  const [sector, setSector] = useState<string | null>(null);
+  const [catalogue, setCatalogue] = useState<SymbolCatalogueResponse | null>(null);
+  const [sectors, setSectors] = useState<string[]>([]);
+  const [selectedSymbol, setSelectedSymbol] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const loadCatalogue = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError("");
+      const response = await getSymbolCatalogue({ q: query.trim() || undefined, sector: sector ?? undefined });
+      setCatalogue(response);
+      setSectors(response.sectors);
+      // 처음 열 때는 로켓의 홈 항로를 기본 선택
+      setSelectedSymbol((prev) => prev ?? response.symbols.find((entry) => entry.rocketId === rocketId)?.symbol ?? null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "항로 목록을 불러올 수 없습니다.");
+    } finally {
+      setLoading(false);
+    }
+  }, [query, rocketId, sector]);
+
+  useEffect(() => {
+    const timer = setTimeout(loadCatalogue, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [loadCatalogue]);
+
+  // 홈 항로를 맨 위로
+  const symbols = useMemo(() => {
+    const list = catalogue?.symbols ?? [];
+    return [...list].sort((a, b) => Number(b.rocketId === rocketId) - Number(a.rocketId === rocketId));
+  }, [catalogue, rocketId]);
+
+  const handleConfirm = () => {
+    if (selectedSymbol) {
+      nav.replace("Cockpit", { rocketId, symbol: selectedSymbol, round: 1, startInRound: true });
+    }
+  };
+
+  return (
+    <View style={s.root}>
+      <View style={[s.frame, { width: frame.width, height: frame.height }]}>
+        <View style={s.bg} />
+        <View style={s.content}>
+          <View style={s.header}>
+            <Pressable
+              style={({ pressed }) => [s.backButton, pressed && s.backPressed]}
+              onPress={() => nav.replace("RocketSelect")}
+            >
+              <Text style={s.backText}>{"< ROCKET"}</Text>
+            </Pressable>
+            <View style={s.headerCenter}>
+              <Text style={s.title}>SELECT YOUR ROUTE</Text>
+              <Text style={s.subtitle}>
+                {catalogue ? `${catalogue.scenario.title} · ${catalogue.scenario.totalRounds} rounds` : "Plot a course"}
+              </Text>
+            </View>
+            <View style={s.headerSpacer} />
+          </View>
+
+          <TextInput
+            style={s.input}
+            placeholder="Search symbol, name or sector"
+            placeholderTextColor="rgba(255,255,255,0.5)"
+            autoCapitalize="none"
+            autoCorrect={false}
+            value={query}
+            onChangeText={setQuery}
+          />
+
+          <View style={s.tabRow}>
+            {[null, ...sectors].map((item) => {
+              const active = sector === item;
+              return (
+                <Pressable
+                  key={item ?? "all"}
+                  style={({ pressed }) => [s.chip, active && s.tabActive, pressed && s.backPressed]}
+                  onPress={() => setSector(item)}
+                >
+                  <Text style={[s.tabText, active && s.tabTextActive]}>{item ? item.toUpperCase() : "ALL"}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          {loading && !catalogue ? (
+            <View style={s.center}>
+              <ActivityIndicator color={theme.colors.accent} />
+            </View>
+          ) : error ? (
+            <View style={s.center}>
+              <Text style={s.errorText}>{error}</Text>
+            </View>
+          ) : (
+            <ScrollView style={s.list} contentContainerStyle={s.listContent}>
+              {symbols.length > 0 ? (
+                symbols.map((entry) => (
+                  <RouteRow
+                    key={entry.symbol}
+                    entry={entry}
+                    isHome={entry.rocketId === rocketId}
+                    selected={selectedSymbol === entry.symbol}
+                    onSelect={setSelectedSymbol}
+                  />
+                ))
+              ) : (
+                <Text style={s.emptyText}>조건에 맞는 항로가 없습니다.</Text>
+              )}
+            </ScrollView>
+          )}
+
+          <View style={s.footer}>
+            <Text style={s.legend}>
+              <Text style={{ color: AVAILABILITY_COLORS.fixture }}>●</Text> LOCAL DATA{"  "}
+              <Text style={{ color: AVAILABILITY_COLORS.remote }}>●</Text> LIVE FETCH{"  "}
+              <Text style={{ color: AVAILABILITY_COLORS.mock }}>●</Text> SIMULATED
+            </Text>
+            <Pressable
+              onPress={handleConfirm}
+              disabled={!selectedSymbol}
+              style={({ pressed }) => [s.confirmButton, !selectedSymbol && s.disabled, pressed && s.backPressed]}
+            >
+              <Text style={s.confirmText}>{selectedSymbol ? `LAUNCH TO ${selectedSymbol}` : "SELECT A ROUTE"}</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+function RouteRow({
+  entry,
+  isHome,
+  selected,
+  onSelect,
+}: {
+  entry: SymbolCatalogueEntry;
+  isHome: boolean;
+  selected: boolean;
+  onSelect: (symbol: string) => void;
+}) {
+  return (
+    <Pressable
+      style={({ pressed }) => [s.row, selected && s.rowSelected, pressed && s.backPressed]}
+      onPress={() => onSelect(entry.symbol)}
+    >
+      <View style={s.symbolCol}>
+        <Text style={s.symbol}>{entry.symbol}</Text>
+        {isHome && <Text style={s.homeTag}>HOME ROUTE</Text>}
+      </View>
+      <View style={s.rowBody}>
+        <Text style={s.name} numberOfLines={1}>
+          {entry.name}
+        </Text>
+        <Text style={s.meta}>
+          {entry.sector} ·{" "}
+          <Text style={{ color: VOLATILITY_COLORS[entry.volatilityClass] }}>{VOLATILITY_LABELS[entry.volatilityClass]}</Text>
+          {entry.volatility !== null ? ` · σ ${entry.volatility}%` : ""}
+        </Text>
+      </View>
+      <View style={s.periods}>
+        {entry.periods.map((period) => (
+          <View
+            key={period.round}
+            style={[s.periodDot, { backgroundColor: AVAILABILITY_COLORS[period.source] }]}
+          />
+        ))}
+      </View>
+    </Pressable>
+  );
+}
+
+const s = StyleSheet.create({
+  root: { flex: 1, justifyContent: "center", alignItems: "center", backgroundColor: theme.colors.black },
+  frame: { backgroundColor: theme.colors.frame, borderRadius: theme.radius.xl, overflow: "hidden" },
+  bg: { ...StyleSheet.absoluteFillObject, backgroundColor: theme.colors.bg },
+  content: { flex: 1, padding: 18 },
+  header: { flexDirection: "row", alignItems: "center", justifyContent: "space-between", marginBottom: 10 },
+  backButton: { paddingVertical: 4, paddingHorizontal: 6 },
+  backPressed: { transform: [{ scale: 0.97 }] },
+  backText: { color: theme.colors.accent, fontWeight: "800", fontSize: 11 },
+  headerCenter: { alignItems: "center" },
+  headerSpacer: { width: 60 },
+  title: { color: theme.colors.accentDeep, fontWeight: "900", fontSize: 16, letterSpacing: 0.6 },
+  subtitle: { color: "rgba(251,191,36,0.6)", fontSize: 10, marginTop: 2 },
+  input: {
+    height: 38,
+    borderRadius: theme.radius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.accentBorderSoft,
+    paddingHorizontal: 12,
+    color: theme.colors.textPrimary,
+    backgroundColor: theme.colors.track,
+    marginBottom: 8,
+  },
+  tabRow: { flexDirection: "row", gap: 8, marginBottom: 10, flexWrap: "wrap" },
+  tabActive: { backgroundColor: theme.colors.accentTint, borderColor: theme.colors.accentBorderStrong },
+  tabText: { color: theme.colors.textAccent, fontSize: 10, fontWeight: "800", letterSpacing: 0.6 },
+  tabTextActive: { color: theme.colors.accent },
+  chip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: theme.radius.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.panelBorder,
+    backgroundColor: theme.colors.card,
+  },
+  disabled: { opacity: 0.4 },
+  center: { flex: 1, alignItems: "center", justifyContent: "center" },
+  errorText: { color: theme.colors.danger, fontSize: 12 },
+  emptyText: { color: theme.colors.textMuted, fontSize: 12, textAlign: "center", marginTop: 24 },
+  list: { flex: 1 },
+  listContent: { gap: 8, paddingBottom: 12 },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: theme.colors.panel,
+    borderRadius: theme.radius.md,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.panelBorder,
+  },
+  rowSelected: { borderColor: theme.colors.accentBorderStrong, backgroundColor: theme.colors.accentTint },
+  symbolCol: { width: 72 },
+  symbol: { color: theme.colors.accent, fontWeight: "900", fontSize: 14 },
+  homeTag: { color: theme.colors.info, fontSize: 8, fontWeight: "800", letterSpacing: 0.6, marginTop: 2 },
+  rowBody: { flex: 1 },
+  name: { color: theme.colors.textPrimary, fontWeight: "800", fontSize: 13 },
+  meta: { color: theme.colors.textSubtle, fontSize: 10, marginTop: 2 },
+  periods: { flexDirection: "row", gap: 4 },
+  periodDot: { width: 8, height: 8, borderRadius: 4 },
+  footer: { flexDirection: "row", alignItems: "center", justifyContent: "space-between", gap: 12, marginTop: 8 },
+  legend: { color: theme.colors.textMuted, fontSize: 9, fontWeight: "700" },
+  confirmButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 24,
+    borderRadius: theme.radius.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.accentBorderStrong,
+    backgroundColor: "rgba(251,191,36,0.2)",
+  },
+  confirmText: { color: theme.colors.textPrimary, fontWeight: "900", fontSize: 11, letterSpacing: 0.9 },
+});
@@ -1,10 +1,10 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { ImageBackground, KeyboardAvoidingView, Platform, Pressable, StyleSheet, Text, TextInput, View } from "react-native";
 import { useNavigation } from "@react-navigation/native";
 import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import type { RootStackParamList } from "../navigation";
 import { theme } from "../theme";
-import { registerUser, saveAuthSession } from "../api/client";
+import { getAuthUser, registerUser, saveAuthSession } from "../api/client";
 
 const BG_IMAGE =
   "https://images.unsplash.com/photo-1709409903008-fbc1ce9b7dfa?crop=entropy&cs=tinysrgb&fit=max&fm=jpg&ixid=M3w3Nzg4Nzd8MHwxfHNlYXJjaHwxfHxzcGFjZSUyMHN0YXJzJTIwbmVidWxhfGVufDF8fHx8MTc2OTIzMjkzNXww&ixlib=rb-4.1.0&q=80&w=1080&utm_source=figma&utm_medium=referral";
@@ -14,6 +14,12 @@ export default function SignupScreen() {
   const [nickname, setNickname] = useState("");
   const [password, setPassword] = useState("");
   const [confirm, setConfirm] = useState("");
+  const [isGuest, setIsGuest] = useState(false);
+
+  // 게스트로 플레이 중이면 가입 시 항해 기록이 이어짐
+  useEffect(() => {
+    getAuthUser().then((user) => setIsGuest(Boolean(user?.isGuest)));
+  }, []);
   const [error, setError] = useState("");
 
   const handleSignup = async () => {
@@ -41,8 +47,8 @@ export default function SignupScreen() {
     }
     try {
       const response = await registerUser({ email: trimmedEmail, password, nickname: nickname.trim() });
-      await saveAuthSession({ token: response.token, user: response.user });
-      nav.replace("Start");
+      await saveAuthSession({ token: response.token, refreshToken: response.refreshToken, user: response.user });
+      nav.replace("VerifyEmail", { email: response.user.email });
     } catch (e) {
       const message = e instanceof Error ? e.message : "Sign up failed. Please try again.";
       setError(message);
@@ -55,6 +61,7 @@ export default function SignupScreen() {
         <View style={s.overlay} pointerEvents="none" />
         <KeyboardAvoidingView style={s.content} behavior={Platform.OS === "ios" ? "padding" : undefined}>
           <Text style={s.title}>Sign Up</Text>
+          {isGuest ? <Text style={s.guestNote}>Your guest flights will be kept.</Text> : null}
 
           <View style={s.form}>
             <TextInput
@@ -118,6 +125,7 @@ const s = StyleSheet.create({
   overlay: { ...StyleSheet.absoluteFillObject, backgroundColor: theme.colors.overlayStrong },
   content: { flex: 1, justifyContent: "center", alignItems: "center", padding: 24 },
   title: { color: theme.colors.accent, fontSize: 28, fontWeight: "900", marginBottom: 20, letterSpacing: 0.8 },
+  guestNote: { color: theme.colors.textMuted, marginTop: -12, marginBottom: 16 },
   form: { width: "100%", maxWidth: 320, gap: 12 },
   input: {
     height: 44,
@@ -6,7 +6,7 @@ import Svg, { Defs, LinearGradient, Rect, Stop } from "react-native-svg";
 import type { RootStackParamList } from "../navigation";
 import { Spaceship } from "../components/Spaceship";
 import { theme } from "../theme";
-import { resetFlight, clearAuthSession, getAuthToken, getAuthUser } from "../api/client";
+import { resetFlight, getAuthToken, getAuthUser, logoutUser, startGuestSession } from "../api/client";
 
 const STAR_COUNT = 20;
 const BG_IMAGE =
@@ -50,6 +50,9 @@ function ButtonGradient() {
 export default function StartScreen() {
   const nav = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
   const [isAuthed, setIsAuthed] = useState(false);
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
+  const [isGuest, setIsGuest] = useState(false);
+  const [guestError, setGuestError] = useState("");
   const [introViewed, setIntroViewed] = useState(false);
   const { width, height } = useWindowDimensions();
   const stars = useMemo(() => createStars(STAR_COUNT), []);
@@ -131,6 +134,8 @@ export default function StartScreen() {
         if (isActive) {
           setIsAuthed(Boolean(token));
           setIntroViewed(Boolean(user?.introViewed));
+          setIsGuest(Boolean(user?.isGuest));
+          setUnverifiedEmail(user && !user.isGuest && user.emailVerified === false ? user.email : null);
         }
       };
       checkAuth();
@@ -140,8 +145,19 @@ export default function StartScreen() {
     }, [])
   );
 
+  // 회원가입 없이 바로 플레이 (나중에 SIGN UP하면 기록 유지)
+  const handleGuest = useCallback(async () => {
+    try {
+      setGuestError("");
+      const response = await startGuestSession();
+      nav.replace(response.introViewed ? "RocketSelect" : "Intro");
+    } catch (e) {
+      setGuestError(e instanceof Error ? e.message : "Could not start a guest flight.");
+    }
+  }, [nav]);
+
   const handleLogout = useCallback(async () => {
-    await clearAuthSession();
+    await logoutUser();
     setIsAuthed(false);
     setIntroViewed(false);
   }, []);
@@ -197,10 +213,46 @@ export default function StartScreen() {
                       <Text style={s.buttonText}>GAME START</Text>
                     </View>
                   </Pressable>
-                  <Pressable style={({ pressed }) => [s.logoutButton, pressed && s.authButtonPressed]} onPress={handleLogout}>
-                    <Text style={s.logoutButtonText}>LOG OUT</Text>
-                  </Pressable>
+                  <View style={s.authRow}>
+                    <Pressable
+                      style={({ pressed }) => [s.logoutButton, pressed && s.authButtonPressed]}
+                      onPress={() => nav.navigate("Leaderboard")}
+                    >
+                      <Text style={s.logoutButtonText}>LEADERBOARD</Text>
+                    </Pressable>
+                    <Pressable
+                      style={({ pressed }) => [s.logoutButton, pressed && s.authButtonPressed]}
+                      onPress={() => nav.navigate("RaceLobby")}
+                    >
+                      <Text style={s.logoutButtonText}>RACE</Text>
+                    </Pressable>
+                    <Pressable
+                      style={({ pressed }) => [s.logoutButton, pressed && s.authButtonPressed]}
+                      onPress={() => nav.navigate("Classroom")}
+                    >
+                      <Text style={s.logoutButtonText}>CLASS</Text>
+                    </Pressable>
+                    <Pressable
+                      style={({ pressed }) => [s.logoutButton, pressed && s.authButtonPressed]}
+                      onPress={() => nav.navigate("Profile")}
+                    >
+                      <Text style={s.logoutButtonText}>PROFILE</Text>
+                    </Pressable>
+                    <Pressable style={({ pressed }) => [s.logoutButton, pressed && s.authButtonPressed]} onPress={handleLogout}>
+                      <Text style={s.logoutButtonText}>LOG OUT</Text>
+                    </Pressable>
+                  </View>
                   <Animated.Text style={[s.hint, { opacity: hintOpacity }]}>Press to begin your journey</Animated.Text>
+                  {isGuest ? (
+                    <Pressable onPress={() => nav.navigate("Signup")}>
+                      <Text style={s.verifyText}>Playing as guest · SIGN UP to keep your flights</Text>
+                    </Pressable>
+                  ) : null}
+                  {unverifiedEmail ? (
+                    <Pressable onPress={() => nav.navigate("VerifyEmail", { email: unverifiedEmail })}>
+                      <Text style={s.verifyText}>Email not verified · VERIFY</Text>
+                    </Pressable>
+                  ) : null}
                 </>
               ) : (
                 <>
@@ -215,6 +267,10 @@ export default function StartScreen() {
                       <Text style={[s.authButtonText, s.authButtonTextFilled]}>SIGN UP</Text>
                     </Pressable>
                   </View>
+                  <Pressable style={({ pressed }) => [s.logoutButton, pressed && s.authButtonPressed]} onPress={handleGuest}>
+                    <Text style={s.logoutButtonText}>PLAY AS GUEST</Text>
+                  </Pressable>
+                  {guestError ? <Text style={s.guestError}>{guestError}</Text> : null}
                   <Animated.Text style={[s.hint, { opacity: hintOpacity }]}>Log in to begin your journey</Animated.Text>
                 </>
               )}
@@ -282,6 +338,8 @@ const s = StyleSheet.create({
   authButtonText: { color: theme.colors.textAccentStrong, fontWeight: "800", fontSize: 12, letterSpacing: 0.8 },
   authButtonTextFilled: { color: theme.colors.accent },
   hint: { marginTop: 10, color: theme.colors.textAccentStrong, fontSize: 12 },
+  guestError: { marginTop: 6, color: theme.colors.danger, fontSize: 11 },
+  verifyText: { marginTop: 6, color: theme.colors.warning, fontSize: 11, fontWeight: "800", letterSpacing: 0.6 },
   logoutButton: {
     marginTop: 10,
     paddingVertical: 6,
@@ -0,0 +1,139 @@
+import React, { useState } from "react";
+import { ImageBackground, KeyboardAvoidingView, Platform, Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+import { useNavigation, useRoute } from "@react-navigation/native";
+import type { RouteProp } from "@react-navigation/native";
+import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import type { RootStackParamList } from "../navigation";
+import { theme } from "../theme";
+import { getAuthToken, resendVerificationEmail, verifyEmail } from "../api/client";
+
+const BG_IMAGE =
+  "https://images.unsplash.com/photo-1709409903008-fbc1ce9b7dfa?crop=entropy&cs=tinysrgb&fit=max&fm=jpg&ixid=M3w3Nzg4Nzd8MHwxfHNlYXJjaHwxfHxzcGFjZSUyMHN0YXJzJTIwbmVidWxhfGVufDF8fHx8MTc2OTIzMjkzNXww&ixlib=rb-4.1.0&q=80&w=1080&utm_source=figma&utm_medium=referral";
+
+export default function VerifyEmailScreen() {
+  const nav = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { params } = useRoute<RouteProp<RootStackParamList, "VerifyEmail">>();
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const handleVerify = async () => {
+    setError("");
+    setNotice("");
+    if (!code.trim()) {
+      setError("Please enter the code from the email.");
+      return;
+    }
+    try {
+      setBusy(true);
+      await verifyEmail({ email: params.email, code: code.trim() });
+      nav.replace("Start");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Verification failed. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // 재발송은 로그인된 상태에서만 가능 (로그인 전이면 로그인 화면으로)
+  const handleResend = async () => {
+    setError("");
+    setNotice("");
+    if (!(await getAuthToken())) {
+      nav.navigate("Login");
+      return;
+    }
+    try {
+      setBusy(true);
+      await resendVerificationEmail();
+      setNotice("A new code is on its way.");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not resend the email.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <View style={s.root}>
+      <ImageBackground source={{ uri: BG_IMAGE }} style={s.bg} resizeMode="cover">
+        <View style={s.overlay} pointerEvents="none" />
+        <KeyboardAvoidingView style={s.content} behavior={Platform.OS === "ios" ? "padding" : undefined}>
+          <Text style={s.title}>Verify Email</Text>
+          <Text style={s.description}>We sent a code to {params.email}</Text>
+
+          <View style={s.form}>
+            <TextInput
+              style={[s.input, s.codeInput]}
+              placeholder="CODE"
+              placeholderTextColor="rgba(255,255,255,0.5)"
+              autoCapitalize="characters"
+              autoCorrect={false}
+              value={code}
+              onChangeText={setCode}
+            />
+          </View>
+
+          {error ? <Text style={s.error}>{error}</Text> : null}
+          {notice ? <Text style={s.notice}>{notice}</Text> : null}
+
+          <Pressable
+            style={({ pressed }) => [s.primaryButton, busy && s.disabled, pressed && s.buttonPressed]}
+            onPress={handleVerify}
+            disabled={busy}
+          >
+            <Text style={s.primaryButtonText}>VERIFY</Text>
+          </Pressable>
+
+          <View style={s.footerRow}>
+            <Pressable onPress={handleResend} disabled={busy}>
+              <Text style={s.link}>Resend code</Text>
+            </Pressable>
+            <Text style={s.footerText}>·</Text>
+            <Pressable onPress={() => nav.replace("Start")}>
+              <Text style={s.footerText}>Later</Text>
+            </Pressable>
+          </View>
+        </KeyboardAvoidingView>
+      </ImageBackground>
+    </View>
+  );
+}
+
+const s = StyleSheet.create({
+  root: { flex: 1, backgroundColor: theme.colors.black },
+  bg: { flex: 1 },
+  overlay: { ...StyleSheet.absoluteFillObject, backgroundColor: theme.colors.overlayStrong },
+  content: { flex: 1, justifyContent: "center", alignItems: "center", padding: 24 },
+  title: { color: theme.colors.accent, fontSize: 28, fontWeight: "900", marginBottom: 8, letterSpacing: 0.8 },
+  description: { color: theme.colors.textMuted, marginBottom: 20, textAlign: "center" },
+  form: { width: "100%", maxWidth: 320, gap: 12 },
+  input: {
+    height: 44,
+    borderRadius: theme.radius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.accentBorderSoft,
+    paddingHorizontal: 12,
+    color: theme.colors.textPrimary,
+    backgroundColor: theme.colors.track,
+  },
+  codeInput: { textAlign: "center", letterSpacing: 4, fontWeight: "800" },
+  error: { marginTop: 10, color: theme.colors.danger, textAlign: "center" },
+  notice: { marginTop: 10, color: theme.colors.success, textAlign: "center" },
+  primaryButton: {
+    marginTop: 18,
+    paddingVertical: 12,
+    paddingHorizontal: 26,
+    borderRadius: theme.radius.pill,
+    borderWidth: 2,
+    borderColor: theme.colors.accentBorderStrong,
+    backgroundColor: theme.colors.accentTint,
+  },
+  disabled: { opacity: 0.5 },
+  buttonPressed: { transform: [{ scale: 0.97 }] },
+  primaryButtonText: { color: theme.colors.accent, fontWeight: "900", letterSpacing: 1 },
+  footerRow: { flexDirection: "row", gap: 6, marginTop: 14 },
+  footerText: { color: theme.colors.textMuted },
+  link: { color: theme.colors.accent, fontWeight: "800" },
+});
@@ -0,0 +1,36 @@
+/**
+ * 시드 기반 난수 유틸 (서버 Backend/src/utils/random.ts와 동일한 알고리즘)
+ * - 같은 세션 시드로 다시 플레이하면 화면 연출(지터 등)도 동일하게 재현됨
+ */
+
+const MAX_SEED = 2147483647;
+
+/**
+ * mulberry32 PRNG - [0, 1) 범위의 값을 반환
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 세션 시드 + 용도(scope)로 하위 시드 파생 (FNV-1a)
+ */
+export function deriveSeed(seed: number, ...parts: Array<string | number>): number {
+  let hash = 0x811c9dc5 ^ (seed >>> 0);
+  for (const char of parts.join(":")) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % MAX_SEED;
+}
+
+export function createSessionRng(seed: number, ...scope: Array<string | number>): () => number {
+  return createRng(deriveSeed(seed, ...scope));
+}